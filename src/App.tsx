@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useCallback } from 'react'
+import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react'
 import './App.css'
 import TabViewer from './TabViewer'
 import type { TabViewerRef } from './TabViewer'
@@ -9,16 +9,34 @@ import PlaybackBar from './components/transport/PlaybackBar'
 import ProfessionalToolbar from './components/toolbar/ProfessionalToolbar'
 import VideoPlayer from './components/video/VideoPlayer'
 import SplitPane from './components/layout/SplitPane'
-import { SyncEngineProvider, useSyncEngine } from './components/sync/SyncEngine'
+import { SyncEngineProvider, useSyncEngine, type VideoConfig } from './components/sync/SyncEngine'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { AudioProvider } from './contexts/AudioContext'
-import { SaveDialog, LoadDialog, NewProjectDialog } from './components/ui/SaveLoadDialog'
-import { FileManager, type AppState, type ProjectMetadata } from './services/FileManager'
+import { SaveDialog, LoadDialog, NewProjectDialog, AsciiTabDialog } from './components/ui/SaveLoadDialog'
+import {
+  FileManager,
+  type AppState,
+  type LoadResult,
+  type ProjectMetadata,
+  type StrumstickProjectData
+} from './services/FileManager'
 import { AutoSave } from './services/AutoSave'
 import type { ControlsRef } from './Controls'
-import type { Note } from './types'
+import type { Note, NoteDuration } from './types'
 
-import { convertNoteStackToTabData, convertTabDataToNoteStack } from './services/ArchitectureBridge'
+import {
+  convertNoteStackToTabData,
+  convertTabDataToNoteStack,
+  extractStructureMarkers,
+  applyStructureMarkers
+} from './services/ArchitectureBridge'
+import { expandRepeats, getTicksPerMeasure, scaleSegments, writtenToPerformancePosition } from './services/PlaybackOrder'
+import { getSlotsPerMeasure } from './services/Sections'
+import { hasLoopRegion, formatLoopPoint } from './services/LoopRegion'
+import { analyzeMediaBeats } from './services/BeatDetection'
+import { VideoLibrary } from './services/VideoLibrary'
+import { getTrainerProgress } from './audio/tempoTrainer'
+import { DEFAULT_INSTRUMENT } from './types/notestack'
 
 // Import NoteStack architecture hooks
 import { 
@@ -40,20 +58,201 @@ function AppContent() {
   // Theme functionality removed from toolbar but kept for future use
   
   // === Audio System Integration ===
-  const { loadSequence, state: audioState, play, pause, setTempo } = useAudio()
+  const {
+    loadSequence,
+    state: audioState,
+    play,
+    pause,
+    setTempo,
+    toggleLoop,
+    setLoopPoints,
+    startTempoTrainer,
+    stopTempoTrainer,
+    setMetronome,
+    toggleCountIn,
+    loadBackingTrack,
+    clearBackingTrack,
+    setBackingTrackMix,
+    setBackingTrackSync
+  } = useAudio()
   
   // === Integration with Legacy Services ===
   const fileManagerRef = useRef<FileManager>(new FileManager())
   const autoSaveRef = useRef<AutoSave>(new AutoSave(fileManagerRef.current))
+  const videoLibraryRef = useRef<VideoLibrary>(new VideoLibrary())
   const controlsRef = useRef<ControlsRef>(null)
   const tabViewerRef = useRef<TabViewerRef>(null)
   
   // === Sync Engine Integration ===
   const syncEngine = useSyncEngine()
+  const { setPerformanceOrder, updatePosition, setTabBPM } = syncEngine // Stable actions, safe as effect dependencies
   
   // === Derived State for Legacy Components ===
   // Convert NoteStack format to legacy TabData format for components that haven't been refactored yet
-  const legacyTabData = convertNoteStackToTabData(tabEditor.state.tab)
+  const legacyTabData = useMemo(() => convertNoteStackToTabData(tabEditor.state.tab), [tabEditor.state.tab])
+  const timeSignatureText = `${tabEditor.state.timeSignature.numerator}/${tabEditor.state.timeSignature.denominator}`
+  
+  // A/B loop for saving (time slots) and for the playback bar and video
+  const hasLoop = hasLoopRegion(audioState.loopStart, audioState.loopEnd)
+  const loopSlots = useMemo(() => ({
+    isLooping: audioState.isLooping,
+    loopStart: hasLoop ? audioState.loopStart / 240 : undefined,
+    loopEnd: hasLoop ? audioState.loopEnd / 240 : undefined
+  }), [audioState.isLooping, hasLoop, audioState.loopStart, audioState.loopEnd])
+  const loopLabel = hasLoop
+    ? `${formatLoopPoint(audioState.loopStart, tabEditor.state.timeSignature)} – ${formatLoopPoint(audioState.loopEnd, tabEditor.state.timeSignature)}`
+    : null
+  
+  // Video follows the loop in media time, through the sync map
+  const videoLoop = audioState.isLooping && hasLoop
+    ? syncEngine.getVideoLoop(audioState.loopStart / 240, audioState.loopEnd / 240)
+    : {}
+  
+  // === Video and Sync Map ===
+  // While tapping the video plays on its own and the tab follows it; otherwise the video follows the tab
+  const videoConfig = syncEngine.state.videoConfig
+  const [isSyncTapping, setIsSyncTapping] = useState(false)
+  const [videoTime, setVideoTime] = useState(0)
+  const nextTapSlotRef = useRef(0) // Performed slot the next tap anchors
+  const slotsPerMeasure = getSlotsPerMeasure(tabEditor.state.timeSignature)
+  const tabSlot = (audioState.isPlaying ? audioState.currentPosition : tabEditor.state.currentPosition) / 240
+  const videoFields = useMemo(() => ({
+    videoSource: videoConfig ? (typeof videoConfig.source === 'string' ? videoConfig.source : videoConfig.source.name) : '',
+    videoConfig: videoConfig ?? undefined
+  }), [videoConfig])
+  
+  const [missingVideo, setMissingVideo] = useState<{ name: string; needsPermission: boolean } | null>(null)
+  
+  // Store the chosen video in the local library so the project can find it again after a reload
+  // Locating a missing video keeps the existing sync settings
+  const handleVideoSelect = async (file: File, handle?: FileSystemFileHandle) => {
+    const config = missingVideo && videoConfig
+      ? { ...videoConfig, source: file }
+      : { source: file, recordedBPM: audioState.tempo, syncMap: [] }
+    
+    let libraryId: string | undefined
+    if (VideoLibrary.isSupported()) {
+      try {
+        libraryId = await videoLibraryRef.current.add(file, handle)
+      } catch (error) {
+        console.warn('⚠️ Could not store the video in the library:', error)
+      }
+    }
+    syncEngine.setVideoConfig({ ...config, libraryId })
+    setMissingVideo(null)
+  }
+  
+  // Swap a loaded project's video name for the file from the library, or ask the user to find it
+  const attachLibraryVideo = async (config: VideoConfig, requestPermission: boolean = false) => {
+    const name = typeof config.source === 'string' ? config.source : config.source.name
+    if (typeof config.source !== 'string' || /^(https?:|data:)/.test(config.source)) {
+      syncEngine.setVideoConfig(config)
+      return
+    }
+    
+    const lookup = config.libraryId && VideoLibrary.isSupported()
+      ? await videoLibraryRef.current.lookup(config.libraryId, requestPermission).catch(() => ({ status: 'missing' as const }))
+      : { status: 'missing' as const }
+    
+    if (lookup.status === 'found') {
+      syncEngine.setVideoConfig({ ...config, source: lookup.file })
+      setMissingVideo(null)
+    } else {
+      // Keep the link and sync settings so they are saved again until the video is found
+      setMissingVideo({ name, needsPermission: lookup.status === 'permission' })
+      syncEngine.setVideoConfig(config)
+    }
+  }
+  
+  // Tapping starts from the downbeat of the measure at the cursor
+  const handleSyncTapToggle = () => {
+    if (!isSyncTapping) {
+      const measureSlot = Math.floor(tabEditor.state.currentPosition / 240 / slotsPerMeasure) * slotsPerMeasure
+      nextTapSlotRef.current = writtenToPerformancePosition(syncEngine.state.performanceOrder, measureSlot)
+      if (audioState.isPlaying) pause()
+    }
+    setIsSyncTapping(!isSyncTapping)
+  }
+  
+  const handleSyncTap = (seconds: number) => {
+    syncEngine.addSyncPoint({ slot: nextTapSlotRef.current, seconds })
+    nextTapSlotRef.current += slotsPerMeasure
+  }
+  
+  // Recorded tempo from tapping or beat detection; a detected first beat moves the start offset too
+  const handleVideoTempoAccept = ({ bpm, firstBeat }: { bpm: number; firstBeat?: number }) => {
+    if (!videoConfig) return
+    syncEngine.setVideoConfig({ ...videoConfig, recordedBPM: bpm })
+    if (firstBeat !== undefined) syncEngine.setVideoStart(firstBeat)
+  }
+  
+  // Backing track: lines up through the video's sync map, or without a video from its own recorded tempo and first beat
+  // Those start at the tab tempo and the file's start until tapped or detected through the tempo controls
+  const [backingTrackFile, setBackingTrackFile] = useState<File | null>(null)
+  const [backingRecordedBPM, setBackingRecordedBPM] = useState(120)
+  const [backingStartOffset, setBackingStartOffset] = useState(0)
+  
+  const handleBackingTrackSelect = async (file: File) => {
+    try {
+      await loadBackingTrack(file)
+      setBackingTrackFile(file)
+      setBackingRecordedBPM(audioState.tempo)
+      setBackingStartOffset(0)
+    } catch (error) {
+      console.error('❌ Backing track failed to load:', error)
+      alert(`Could not load "${file.name}" as audio`)
+    }
+  }
+  
+  useEffect(() => {
+    setBackingTrackSync(videoConfig
+      ? { syncMap: videoConfig.syncMap ?? [], recordedBPM: videoConfig.recordedBPM, startOffset: videoConfig.startOffset ?? 0 }
+      : { syncMap: [], recordedBPM: backingRecordedBPM, startOffset: backingStartOffset })
+  }, [videoConfig, backingRecordedBPM, backingStartOffset, setBackingTrackSync])
+  
+  const handleBackingTempoAccept = ({ bpm, firstBeat }: { bpm: number; firstBeat?: number }) => {
+    setBackingRecordedBPM(bpm)
+    if (firstBeat !== undefined) setBackingStartOffset(firstBeat)
+  }
+  
+  // Tempo tapping and detection work on the video, or on the backing track when there is no video
+  const tempoSource = videoConfig
+    ? {
+        label: 'video',
+        playbackRate: isSyncTapping ? 1 : syncEngine.getVideoPlaybackRate(),
+        detect: () => analyzeMediaBeats(videoConfig.source),
+        accept: handleVideoTempoAccept
+      }
+    : audioState.backingTrack && backingTrackFile
+      ? {
+          label: 'backing track',
+          playbackRate: audioState.tempo / backingRecordedBPM,
+          detect: () => analyzeMediaBeats(backingTrackFile),
+          accept: handleBackingTempoAccept
+        }
+      : null
+  
+  // The video reached its end trim: stop the tab with it
+  const handleVideoPlayStateChange = useCallback((playing: boolean) => {
+    if (playing) return
+    if (audioState.isPlaying) pause()
+    setIsSyncTapping(false)
+  }, [audioState.isPlaying, pause])
+  
+  const handleVideoTimeUpdate = (seconds: number) => {
+    setVideoTime(seconds)
+    if (isSyncTapping) {
+      tabEditor.setCursorPosition(syncEngine.videoSecondsToTimeSlot(seconds) * 240)
+    }
+  }
+  
+  // Toolbar time signature ("6/8") - drives measure lengths, playback and beaming
+  const handleTimeSignatureChange = (signature: string) => {
+    const [numerator, denominator] = signature.split('/').map(Number)
+    if (numerator && denominator) {
+      tabEditor.setTimeSignature(numerator, denominator)
+    }
+  }
   
   // Get note at current position for legacy components
   const getNoteAtCurrentPosition = (): Note | null => {
@@ -80,8 +279,19 @@ function AppContent() {
   // === Load tab data into our functional audio system ===
   useEffect(() => {
     // Load the current tab into our functional audio system
-    loadSequence(tabEditor.state.tab)
-  }, [tabEditor.state.tab, loadSequence])
+    loadSequence(tabEditor.state.tab, tabEditor.state.timeSignature, tabEditor.state.instrument)
+  }, [tabEditor.state.tab, tabEditor.state.timeSignature, tabEditor.state.instrument, loadSequence])
+  
+  // === Keep video sync on the performance order (repeats unrolled) ===
+  useEffect(() => {
+    const segments = expandRepeats(tabEditor.state.tab, getTicksPerMeasure(tabEditor.state.timeSignature))
+    setPerformanceOrder(scaleSegments(segments, 1 / 240)) // Ticks to sixteenth-note slots
+  }, [tabEditor.state.tab, tabEditor.state.timeSignature, setPerformanceOrder])
+  
+  // === Video rate follows the stretch of the sync map being played ===
+  useEffect(() => {
+    updatePosition(Math.floor(tabSlot))
+  }, [tabSlot, updatePosition])
   
   // === Sync tempo between audio system and tab editor ===
   useEffect(() => {
@@ -91,6 +301,11 @@ function AppContent() {
     }
   }, [audioState.tempo, tabEditor])
   
+  // === Video rate follows the playback tempo (including tempo trainer steps) ===
+  useEffect(() => {
+    setTabBPM(audioState.tempo)
+  }, [audioState.tempo, setTabBPM])
+  
   // === Initialize audio system with tab editor's BPM ===
   useEffect(() => {
     // On initial load, sync audio system tempo with tab editor
@@ -118,18 +333,12 @@ function AppContent() {
     }
   }, [])
 
-  // Auto-save on state changes
-  useEffect(() => {
-    // Skip auto-save on initial load when everything is default
-    if (tabEditor.state.tab.length === 0 && tabEditor.state.bpm === 120) {
-      return
-    }
-    
-    // Convert NoteStack state to legacy AppState format for file manager
-    const currentAppState: AppState = {
+  // Snapshot of the editor in the legacy AppState shape FileManager saves, auto-saves and exports from
+  const getCurrentAppState = useCallback((): AppState => {
+    return {
       tabData: legacyTabData,
       tempo: tabEditor.state.bpm,
-      timeSignature: `4/4`, // TODO: Add to NoteStack state
+      timeSignature: timeSignatureText,
       cursorPosition: {
         timeSlot: Math.floor(tabEditor.state.currentPosition / 960),
         stringIndex: 0
@@ -137,45 +346,52 @@ function AppContent() {
       selectedDuration: tabEditor.state.selectedDuration,
       selectedNoteType: 'note',
       customMeasureLines: [],
+      structure: extractStructureMarkers(tabEditor.state.tab),
+      lyrics: tabEditor.state.lyrics,
+      chords: tabEditor.state.chords,
+      sections: tabEditor.state.sections,
+      instrument: tabEditor.state.instrument,
       zoom: layout.zoom,
       showFretboard: layout.showFretboard,
-      countInEnabled: false,
-      isLooping: false,
+      countInEnabled: audioState.countInEnabled,
+      metronomeEnabled: audioState.metronome.enabled,
+      ...loopSlots,
       splitRatio: layout.splitRatio,
-      videoSource: '',
+      ...videoFields,
       isSynthMuted: false,
       isVideoMuted: false
     }
+  }, [
+    tabEditor.state,
+    legacyTabData,
+    timeSignatureText,
+    layout.zoom,
+    layout.showFretboard,
+    layout.splitRatio,
+    audioState.countInEnabled,
+    audioState.metronome.enabled,
+    loopSlots,
+    videoFields
+  ])
+
+  // Auto-save on state changes
+  useEffect(() => {
+    // Skip auto-save on initial load when everything is default
+    if (tabEditor.state.tab.length === 0 && tabEditor.state.bpm === 120) {
+      return
+    }
     
-    autoSaveRef.current.performAutoSave(currentAppState)
-  }, [tabEditor.state, legacyTabData])
+    autoSaveRef.current.performAutoSave(getCurrentAppState())
+  }, [tabEditor.state.tab.length, tabEditor.state.bpm, getCurrentAppState])
 
   // === Save/Load Event Handlers ===
+  // Title, artist and the rest of the project details, kept from the loaded project for saves and score exports
+  const [projectMetadata, setProjectMetadata] = useState<Partial<ProjectMetadata>>({})
+  
   const handleSave = async () => {
     console.log('💾 Save button clicked')
     
-    const currentAppState: AppState = {
-      tabData: legacyTabData,
-      tempo: tabEditor.state.bpm,
-      timeSignature: `4/4`,
-      cursorPosition: {
-        timeSlot: Math.floor(tabEditor.state.currentPosition / 960),
-        stringIndex: 0
-      },
-      selectedDuration: tabEditor.state.selectedDuration,
-      selectedNoteType: 'note',
-      customMeasureLines: [],
-      zoom: layout.zoom,
-      showFretboard: layout.showFretboard,
-      countInEnabled: false,
-      isLooping: false,
-      splitRatio: layout.splitRatio,
-      videoSource: '',
-      isSynthMuted: false,
-      isVideoMuted: false
-    }
-
-    const result = await fileManagerRef.current.saveProject(currentAppState, undefined, { title: '', artist: '' })
+    const result = await fileManagerRef.current.saveProject(getCurrentAppState(), undefined, projectMetadata)
     
     if (result.success) {
       console.log('✅ Project saved successfully')
@@ -186,6 +402,72 @@ function AppContent() {
     }
   }
 
+  const handleExportMidi = async () => {
+    console.log('🎹 Export MIDI clicked')
+
+    const result = await fileManagerRef.current.exportMidi(getCurrentAppState(), undefined, projectMetadata)
+
+    if (!result.success) {
+      console.error('❌ MIDI export failed:', result.error)
+      alert(`Failed to export MIDI: ${result.error}`)
+    }
+  }
+
+  const handleExportPdf = async () => {
+    console.log('🖨️ Export PDF clicked')
+
+    const result = await fileManagerRef.current.exportScorePdf(getCurrentAppState(), projectMetadata)
+
+    if (!result.success) {
+      console.error('❌ PDF export failed:', result.error)
+      alert(`Failed to export PDF: ${result.error}`)
+    }
+  }
+
+  const handleExportSvg = async () => {
+    console.log('🖼️ Export SVG clicked')
+
+    const result = await fileManagerRef.current.exportScoreSvg(getCurrentAppState(), projectMetadata)
+
+    if (!result.success) {
+      console.error('❌ SVG export failed:', result.error)
+      alert(`Failed to export SVG: ${result.error}`)
+    }
+  }
+
+  const handleExportMusicXML = async () => {
+    console.log('🎼 Export MusicXML clicked')
+
+    const result = await fileManagerRef.current.exportMusicXML(getCurrentAppState(), undefined, projectMetadata)
+
+    if (!result.success) {
+      console.error('❌ MusicXML export failed:', result.error)
+      alert(`Failed to export MusicXML: ${result.error}`)
+    }
+  }
+
+  // Scores from other programs open as a new project on the current instrument
+  const handleImportFile = async (file: File) => {
+    console.log('📥 Importing file:', file.name)
+    const instrument = tabEditor.state.instrument
+    if (/\.midi?$/i.test(file.name)) {
+      applyImport(await fileManagerRef.current.importMidi(file, instrument), 'MIDI')
+    } else {
+      applyImport(await fileManagerRef.current.importMusicXML(file, instrument), 'MusicXML')
+    }
+  }
+
+  // Plain-text tab: the dialog shows the export and takes pasted tab to import
+  const [isAsciiTabOpen, setIsAsciiTabOpen] = useState(false)
+
+  const handleAsciiTabImport = (text: string, defaultDuration: NoteDuration) => {
+    console.log('📋 ASCII tab pasted')
+    applyImport(
+      fileManagerRef.current.importAsciiTab(text, { defaultDuration, instrument: tabEditor.state.instrument }),
+      'ASCII tab'
+    )
+  }
+
   const handleSaveAs = () => {
     console.log('💾 Save As clicked')
     // TODO: Implement save dialog for NoteStack
@@ -194,31 +476,11 @@ function AppContent() {
   const handleSaveDialog = async (filename: string, metadata: Partial<ProjectMetadata>) => {
     console.log('💾 Save dialog confirmed:', filename, metadata)
     
-    const currentAppState: AppState = {
-      tabData: legacyTabData,
-      tempo: tabEditor.state.bpm,
-      timeSignature: `4/4`,
-      cursorPosition: {
-        timeSlot: Math.floor(tabEditor.state.currentPosition / 960),
-        stringIndex: 0
-      },
-      selectedDuration: tabEditor.state.selectedDuration,
-      selectedNoteType: 'note',
-      customMeasureLines: [],
-      zoom: 1,
-      showFretboard: layout.showFretboard,
-      countInEnabled: false,
-      isLooping: false,
-      splitRatio: 0.5,
-      videoSource: '',
-      isSynthMuted: false,
-      isVideoMuted: false
-    }
-
-    const result = await fileManagerRef.current.saveProject(currentAppState, filename, metadata)
+    const result = await fileManagerRef.current.saveProject(getCurrentAppState(), filename, { ...projectMetadata, ...metadata })
     
     if (result.success) {
       console.log('✅ Project saved successfully')
+      setProjectMetadata({ ...projectMetadata, ...metadata })
       autoSaveRef.current.markClean()
     } else {
       console.error('❌ Save failed:', result.error)
@@ -231,6 +493,62 @@ function AppContent() {
     // TODO: Implement load dialog for NoteStack
   }
 
+  // Replace the editor contents with a loaded or imported project
+  const applyProjectData = (data: StrumstickProjectData) => {
+    // Rebuild the NoteStack tab and re-attach repeats/endings/markers
+    const loaded = fileManagerRef.current.deserializeState(data)
+    const { tab: noteStackTab, dropped } = applyStructureMarkers(
+      convertTabDataToNoteStack(loaded.tabData || []),
+      loaded.structure || []
+    )
+    if (dropped.length > 0) {
+      console.warn(`⚠️ ${dropped.length} repeat/navigation marker(s) had no note to attach to`)
+    }
+    // Instrument and meter first - loading the tab then clears the undo history
+    tabEditor.setInstrument(loaded.instrument || DEFAULT_INSTRUMENT)
+    const [numerator, denominator] = (loaded.timeSignature || '4/4').split('/').map(Number)
+    tabEditor.setTimeSignature(numerator || 4, denominator || 4)
+    tabEditor.loadAnnotations({
+      lyrics: loaded.lyrics || [],
+      chords: loaded.chords || [],
+      sections: loaded.sections || []
+    })
+    tabEditor.loadTab(noteStackTab)
+    tabEditor.setBpm(loaded.tempo || 120)
+    tabEditor.setCursorPosition(0) // Reset cursor
+    setProjectMetadata(data.metadata)
+    
+    // Restore the practice loop
+    setLoopPoints((loaded.loopStart ?? 0) * 240, (loaded.loopEnd ?? 0) * 240)
+    if (Boolean(loaded.isLooping) !== audioState.isLooping) toggleLoop()
+    
+    // Re-attach the video sync configuration
+    setMissingVideo(null)
+    if (loaded.videoConfig) {
+      attachLibraryVideo(loaded.videoConfig)
+    } else {
+      syncEngine.setVideoConfig(null)
+    }
+    
+    // Restore the click track and count-in
+    setMetronome({ enabled: Boolean(loaded.metronomeEnabled) })
+    if (Boolean(loaded.countInEnabled) !== audioState.countInEnabled) toggleCountIn()
+  }
+
+  // Open an imported score as a new, unsaved project and list what didn't survive the conversion
+  const applyImport = (result: LoadResult, format: string) => {
+    if (!result.success || !result.data) {
+      console.error(`❌ ${format} import failed:`, result.error)
+      alert(`Failed to import ${format}: ${result.error}`)
+      return
+    }
+
+    applyProjectData(result.data)
+    if (result.warnings && result.warnings.length > 0) {
+      alert(`Imported ${format} with ${result.warnings.length} warning(s):\n\n${result.warnings.join('\n')}`)
+    }
+  }
+
   const handleLoadFile = async (file: File) => {
     console.log('📁 Loading file:', file.name)
     
@@ -239,14 +557,7 @@ function AppContent() {
       
       if (result.success && result.data) {
         console.log('✅ Project loaded successfully:', result.data)
-        
-        // Access the tabData directly from the loaded data structure
-        const tabData = (result.data as any).tabData || result.data
-        const noteStackTab = convertTabDataToNoteStack(tabData)
-        tabEditor.loadTab(noteStackTab)
-        tabEditor.setBpm((result.data as any).tempo || 120)
-        tabEditor.setCursorPosition(0) // Reset cursor
-        
+        applyProjectData(result.data)
         autoSaveRef.current.markClean()
       } else {
         console.error('❌ Load failed:', result.error)
@@ -265,9 +576,21 @@ function AppContent() {
 
   const handleNewProject = () => {
     console.log('📄 Creating new project')
+    // Instrument and meter first - loading the tab then clears the undo history
+    tabEditor.setInstrument(DEFAULT_INSTRUMENT)
+    tabEditor.setTimeSignature(4, 4)
+    tabEditor.loadAnnotations({ lyrics: [], chords: [], sections: [] })
     tabEditor.loadTab([]) // Clear tab
     tabEditor.setBpm(120)
     tabEditor.setCursorPosition(0)
+    setLoopPoints(0, 0)
+    setProjectMetadata({})
+    
+    // Nothing from the previous project's media carries over
+    setIsSyncTapping(false)
+    setMissingVideo(null)
+    syncEngine.setVideoConfig(null)
+    clearBackingTrack()
     autoSaveRef.current.markClean()
   }
 
@@ -334,19 +657,42 @@ function AppContent() {
           <ProfessionalToolbar
             selectedDuration={tabEditor.state.selectedDuration}
             onDurationChange={tabEditor.setSelectedDuration}
+            selectedTuplet={tabEditor.state.selectedTuplet}
+            onTupletChange={tabEditor.setSelectedTuplet}
             selectedNoteType={'note'}
             onNoteTypeChange={() => {}}
             currentToolMode={'note'}
             onToolModeChange={() => {}}
-            timeSignature={'4/4'}
-            onTimeSignatureChange={() => {}}
+            timeSignature={timeSignatureText}
+            onTimeSignatureChange={handleTimeSignatureChange}
+            tempo={audioState.tempo}
+            onTempoChange={setTempo}
+            tempoTrainer={audioState.tempoTrainer
+              ? getTrainerProgress(audioState.tempoTrainer.settings, audioState.tempoTrainer.completedReps)
+              : null}
+            onTempoTrainerStart={startTempoTrainer}
+            onTempoTrainerStop={stopTempoTrainer}
+            recordingLabel={tempoSource?.label}
+            videoPlaybackRate={tempoSource?.playbackRate}
+            onVideoTempoDetect={tempoSource?.detect}
+            onVideoTempoAccept={tempoSource?.accept}
             tieMode={false}
             onTieModeChange={() => {}}
             onSave={handleSave}
             onLoad={handleLoad}
             onNew={handleNew}
             onSaveAs={handleSaveAs}
+            onExportMidi={handleExportMidi}
+            onExportPdf={handleExportPdf}
+            onExportSvg={handleExportSvg}
+            onExportMusicXML={handleExportMusicXML}
+            onImportFile={handleImportFile}
+            onAsciiTab={() => setIsAsciiTabOpen(true)}
             isModified={false}
+            onUndo={tabEditor.undo}
+            onRedo={tabEditor.redo}
+            canUndo={tabEditor.canUndo}
+            canRedo={tabEditor.canRedo}
             currentPosition={{
               timeSlot: Math.floor(tabEditor.state.currentPosition / 960),
               stringIndex: getCurrentStringIndex()
@@ -368,6 +714,7 @@ function AppContent() {
           }}>
             <Fretboard
               currentlyPlaying={[]} // TODO: Connect to NoteStack playback state
+              stringCount={tabEditor.state.instrument.stringCount}
             />
           </div>
         ) : null}
@@ -380,12 +727,21 @@ function AppContent() {
             tempo={audioState.tempo}
             trackTitle={'Untitled Song'} // TODO: Add title to NoteStack state
             onTempoChange={setTempo} // Use audio system's setTempo for proper sync
-            onLoopToggle={() => {}} // TODO: Connect to audio system
+            onLoopToggle={toggleLoop}
+            onLoopClear={() => setLoopPoints(0, 0)}
             onFretboardToggle={handleToggleFretboard}
-            onCountInToggle={() => {}} // TODO: Add count-in to NoteStack
+            onCountInToggle={toggleCountIn}
+            onMetronomeToggle={() => setMetronome({ enabled: !audioState.metronome.enabled })}
+            onBackingTrackSelect={handleBackingTrackSelect}
+            onBackingTrackMuteToggle={() => setBackingTrackMix({ muted: !audioState.backingTrack?.muted })}
+            onBackingTrackClear={clearBackingTrack}
+            backingTrackName={audioState.backingTrack?.name ?? null}
+            backingTrackMuted={audioState.backingTrack?.muted}
             isLooping={audioState.isLooping}
+            loopLabel={loopLabel}
             showFretboard={layout.showFretboard}
-            countInEnabled={false} // TODO: Add count-in to NoteStack
+            countInEnabled={audioState.countInEnabled}
+            metronomeEnabled={audioState.metronome.enabled}
           />
         }
         centerWorkspace={
@@ -396,12 +752,27 @@ function AppContent() {
           >
             {[
               <VideoPlayer
-                source={''} // TODO: Add video source to NoteStack state
-                isPlaying={audioState.isPlaying}
-                currentTime={0} // TODO: Add video time to NoteStack state
-                playbackRate={1} // TODO: Add playback rate to NoteStack state
+                source={missingVideo ? '' : videoConfig?.source ?? ''}
+                isPlaying={isSyncTapping || audioState.isPlaying}
+                currentTime={isSyncTapping ? videoTime : syncEngine.timeSlotToVideoSeconds(tabSlot)}
+                playbackRate={isSyncTapping ? 1 : syncEngine.getVideoPlaybackRate()}
+                onTimeUpdate={handleVideoTimeUpdate}
+                onPlayStateChange={handleVideoPlayStateChange}
+                onSourceSelect={handleVideoSelect}
+                missingMedia={missingVideo}
+                onMediaReconnect={() => videoConfig && attachLibraryVideo(videoConfig, true)}
+                startOffset={videoConfig?.startOffset}
+                endTime={videoConfig?.endTime}
+                onFirstBeatSet={videoConfig ? syncEngine.setVideoStart : undefined}
+                onEndSet={videoConfig ? syncEngine.setVideoEnd : undefined}
+                syncPointCount={videoConfig?.syncMap?.length ?? 0}
+                isTapping={isSyncTapping}
+                onTapToggle={videoConfig ? handleSyncTapToggle : undefined}
+                onTap={handleSyncTap}
+                onSyncClear={syncEngine.clearSyncMap}
                 onMuteToggle={() => {}} // TODO: Add video mute to NoteStack
                 isMuted={false} // TODO: Add video mute to NoteStack state
+                {...videoLoop}
               />,
               <div className="tab-editor-pane">
                 <TabViewer 
@@ -440,7 +811,7 @@ function AppContent() {
         isOpen={false} // TODO: Add dialog state to NoteStack
         onClose={() => {}} // TODO: Add dialog actions to NoteStack
         onSave={handleSaveDialog}
-        currentMetadata={{ title: '', artist: '' }}
+        currentMetadata={projectMetadata}
       />
       
       <LoadDialog
@@ -450,6 +821,13 @@ function AppContent() {
         recentFiles={fileManagerRef.current.getRecentFiles()}
       />
       
+      <AsciiTabDialog
+        isOpen={isAsciiTabOpen}
+        onClose={() => setIsAsciiTabOpen(false)}
+        exportedTab={isAsciiTabOpen ? fileManagerRef.current.exportAsciiTab(getCurrentAppState()) : ''}
+        onImport={handleAsciiTabImport}
+      />
+      
       <NewProjectDialog
         isOpen={false} // TODO: Add dialog state to NoteStack
         onClose={() => {}} // TODO: Add dialog actions to NoteStack
@@ -1,10 +1,12 @@
 import React from 'react';
+import { DEFAULT_INSTRUMENT } from './types/notestack';
 
 interface FretboardProps {
   currentlyPlaying?: { fret: number; stringIndex: number }[];
+  stringCount?: number; // Strings are spread evenly between the outer two
 }
 
-const Fretboard: React.FC<FretboardProps> = ({ currentlyPlaying = [] }) => {
+const Fretboard: React.FC<FretboardProps> = ({ currentlyPlaying = [], stringCount = DEFAULT_INSTRUMENT.stringCount }) => {
   // === ADJUSTABLE VISUAL VARIABLES ===
   const dotSize = 15; // Radius of the dots in pixels (increase = bigger dots)
   
@@ -25,13 +27,10 @@ const Fretboard: React.FC<FretboardProps> = ({ currentlyPlaying = [] }) => {
     const scaleX = displayWidth / imageWidth;
     const scaleY = displayHeight / imageHeight;
     
-    // String positions - calculated from center with adjustable spacing and offset
-    const centerY = 75 * scaleY; // Center string (A)
-    const stringPositionsY = [
-      (centerY - stringSpacing + verticalStartOffset) * scaleY,  // Hi D (top string, index 2 in our data)
-      (centerY + verticalStartOffset) * scaleY,                  // A (middle string, index 1 in our data)  
-      (centerY + stringSpacing + verticalStartOffset) * scaleY   // Low D (bottom string, index 0 in our data)
-    ];
+    // Outer string positions - calculated from center with adjustable spacing and offset
+    const centerY = 75 * scaleY; // Center of the neck
+    const topStringY = (centerY - stringSpacing + verticalStartOffset) * scaleY;   // Highest string
+    const bottomStringY = (centerY + stringSpacing + verticalStartOffset) * scaleY; // String 0 (lowest)
     
     // Base fret positions before scaling and shifting
     const baseFretPositions = [275, 365, 445, 490, 560, 620, 655, 680, 705, 840, 875, 905, 935];
@@ -50,16 +49,21 @@ const Fretboard: React.FC<FretboardProps> = ({ currentlyPlaying = [] }) => {
     
     let x: number;
     if (fret <= 12 && fret >= 0) {
-      x = fretPositions[fret];
+      // Half-frets (6½ is stored as 6.5) sit between their neighbours
+      const lower = Math.floor(fret);
+      const upper = Math.ceil(fret);
+      x = fretPositions[lower] + (fretPositions[upper] - fretPositions[lower]) * (fret - lower);
     } else {
       // Fallback for frets beyond 12
       const lastFretSpacing = (fretPositions[12] - fretPositions[11]);
       x = fretPositions[12] + (fret - 12) * lastFretSpacing;
     }
     
-    // Get the Y position for this string (reverse index since Hi D = index 2 but top string)
-    const visualStringIndex = 2 - stringIndex;
-    const y = stringPositionsY[visualStringIndex];
+    // Get the Y position for this string (reverse index since the highest string is on top)
+    const visualStringIndex = stringCount - 1 - stringIndex;
+    const y = stringCount > 1
+      ? topStringY + (bottomStringY - topStringY) * visualStringIndex / (stringCount - 1)
+      : (topStringY + bottomStringY) / 2;
     
     return { x, y };
   };
@@ -1,11 +1,51 @@
-import React, { useRef, useMemo, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useMemo, useEffect, useCallback, useState, forwardRef, useImperativeHandle } from 'react';
 import './TabViewer.css';
-import type { Tab, Duration, NoteStack } from './types/notestack';
+import type { Tab, Duration, NoteStack, NavigationMarker, Technique } from './types/notestack';
+import {
+  NAVIGATION_MARKER_LABELS,
+  TECHNIQUE_SHORTCUTS,
+  FRET_MAPS,
+  INSTRUMENT_PROFILES,
+  getNotePitch,
+  getTechniqueSymbol,
+  formatFret,
+  getStackTicks
+} from './types/notestack';
 import { DURATION_VISUALS } from './components/types';
 import type { useNoteStackEditor } from './hooks/useNoteStackEditor';
 import { useThemeObject } from './contexts/ThemeContext';
 import { useAppLayout } from './hooks/useAppLayout';
 import { useAudio } from './contexts/AudioContext';
+import { selectSystemBreaks, selectSystemAtX, selectUnwrappedPosition } from './state/selectors/visualSelectors';
+import type { VisualSystem } from './state/types';
+import { findTupletGroups, findPreviousNoteOnString } from './services/NoteStackOperations';
+import { findBeamGroups } from './services/Beaming';
+import { getTicksPerMeasure } from './services/PlaybackOrder';
+import { musicalPositionToTimeSlot, timeSlotToMusicalPosition } from './services/ArchitectureBridge';
+import {
+  getVerseCount,
+  getVerseSyllables,
+  getSyllableEditText,
+  getExtenderEndSlot,
+  findActiveIndex
+} from './services/Lyrics';
+import {
+  getSlotsPerMeasure,
+  getMarkerSlot,
+  findMarkerAt,
+  getSectionRanges,
+  findAdjacentSection,
+  getNextRehearsalMark,
+  type SectionRange
+} from './services/Sections';
+import { normalizeLoopRegion, getSelectionLoopRegion, hasLoopRegion, type LoopRegion } from './services/LoopRegion';
+import {
+  layoutNotationStaff,
+  KEY_SIGNATURE_SHARPS,
+  STAFF_BOTTOM_LINE_STEP,
+  STAFF_TOP_LINE_STEP,
+  type StaffEvent
+} from './services/NotationStaff';
 
 interface TabViewerProps {
   editor: ReturnType<typeof useNoteStackEditor>;
@@ -15,16 +55,75 @@ export interface TabViewerRef {
   focus: () => void;
 }
 
-// String configuration for 3-string strumstick
-const stringLabels = ['d', 'A', 'D']; // Display order: d (D4), A (A4), D (D3)
-const stringIndices = [2, 1, 0]; // Data indices: Hi D=2, A=1, Low D=0
-
 // Convert ticks to display position
 const PIXELS_PER_TICK = 0.05;
 
 // Tab layout configuration
 const FIRST_NOTE_STACK_INDENT = 20; // 20px indent for all notes from tab line start
 
+// Notation staff: line spacing, room above the top line for ledger lines, and total height
+const STAFF_LINE_SPACING = 10;
+const STAFF_TOP_LINE_Y = 60;
+const STAFF_HEIGHT = 150;
+const STAFF_STEM_LENGTH = 35;
+
+// Annotation lanes: rehearsal marks and text along the top, chord names above the tab,
+// one lyric line per verse below it
+const SECTION_LANE_HEIGHT = 28;
+const SECTION_LANE_BASELINE = 20;
+const CHORD_LANE_HEIGHT = 24;
+const CHORD_LANE_OFFSET = 44;    // Baseline above the top string, clear of voltas and markers
+const LYRIC_LINE_OFFSET = 62;    // First verse's baseline below the bottom string, clear of beams and tuplets
+const LYRIC_LINE_HEIGHT = 20;
+
+// Inline editor for one lyric syllable, chord name, section mark or text annotation
+type AnnotationEdit = {
+  lane: 'lyric' | 'chord' | 'section' | 'text';
+  slot: number;
+  text: string;
+  initial: string;
+  measure?: boolean; // Section/text anchored to the measure rather than the slot
+};
+
+const REST_GLYPHS: Record<Duration, string> = {
+  whole: '𝄻',
+  half: '𝄼',
+  quarter: '𝄽',
+  eighth: '𝄾',
+  sixteenth: '𝄿'
+};
+
+// Markers drawn at the start of their measure; the rest sit at the end
+const MEASURE_START_MARKERS: NavigationMarker[] = ['segno', 'coda'];
+
+// Options for the structure menu, applied to the stack under the cursor
+const STRUCTURE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'repeat-start', label: 'Repeat start ‖:' },
+  { value: 'repeat-end', label: 'Repeat end :‖' },
+  { value: 'repeat-end-3', label: 'Repeat end (play 3×)' },
+  { value: 'ending-1', label: '1st ending' },
+  { value: 'ending-2', label: '2nd ending' },
+  ...(Object.keys(NAVIGATION_MARKER_LABELS) as NavigationMarker[]).map(marker => ({
+    value: `marker:${marker}`,
+    label: NAVIGATION_MARKER_LABELS[marker]
+  })),
+  { value: 'clear', label: 'Clear markers' }
+];
+
+// Intervals offered by the transpose menu, in semitones
+const TRANSPOSE_OPTIONS: Array<{ semitones: number; label: string }> = [
+  { semitones: 1, label: 'Up a semitone' },
+  { semitones: -1, label: 'Down a semitone' },
+  { semitones: 2, label: 'Up a whole tone' },
+  { semitones: -2, label: 'Down a whole tone' },
+  { semitones: 5, label: 'Up a fourth' },
+  { semitones: -5, label: 'Down a fourth' },
+  { semitones: 7, label: 'Up a fifth' },
+  { semitones: -7, label: 'Down a fifth' },
+  { semitones: 12, label: 'Up an octave' },
+  { semitones: -12, label: 'Down an octave' }
+];
+
 /**
  * TabViewer Component - Pure functional component
  * Receives single state object and dispatch mechanism
@@ -47,31 +146,70 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     tab, 
     currentPosition, 
     selectedDuration, 
+    selectedTuplet,
     selectedString,
     selectedStacks,
-    bpm
+    instrument,
+    timeSignature,
+    bpm,
+    lyrics,
+    chords,
+    sections
   } = state;
   
+  const ticksPerMeasure = getTicksPerMeasure(timeSignature);
+  const slotsPerMeasure = getSlotsPerMeasure(timeSignature);
+  
+  // Strings in display order: highest string on top, string 0 (lowest) at the bottom
+  const stringIndices = useMemo(
+    () => Array.from({ length: instrument.stringCount }, (_, index) => instrument.stringCount - 1 - index),
+    [instrument.stringCount]
+  );
+  const topString = instrument.stringCount - 1;
+  
   // Apply theme
   const theme = useThemeObject();
   
   // Get layout state (zoom, etc.)
-  const { zoom, setZoom } = useAppLayout();
+  const { zoom, setZoom, pageView, togglePageView, showStaff, toggleStaff } = useAppLayout();
+  
+  // Width of the scroll area, used to wrap lines in page view
+  const [viewportWidth, setViewportWidth] = useState(0);
   
   // Get audio state for playback indicator and note preview
-  const { state: audioState, previewNote } = useAudio();
+  const { state: audioState, previewNote, toggleLoop, setLoopPoints } = useAudio();
+  
+  // A/B loop being dragged across the tab; the ref marks the click that ends a drag as handled
+  const loopDragAnchorRef = useRef<number | null>(null);
+  const loopDraggedRef = useRef(false);
+  const [loopDrag, setLoopDrag] = useState<LoopRegion | null>(null);
+  
+  // Lyric/chord being typed, and the verse line that lyric editing writes to
+  // The ref mirrors the state so blur after Enter/Escape sees the edit already closed
+  const [annotationEdit, setAnnotationEditState] = useState<AnnotationEdit | null>(null);
+  const annotationEditRef = useRef<AnnotationEdit | null>(null);
+  const [selectedVerse, setSelectedVerse] = useState(0);
+  
+  const verseCount = getVerseCount(lyrics);
+  const lyricLineCount = Math.max(verseCount, annotationEdit?.lane === 'lyric' ? selectedVerse + 1 : 0);
+  const showChordLane = chords.length > 0 || annotationEdit?.lane === 'chord';
+  const showSectionLane = sections.length > 0 || annotationEdit?.lane === 'section' || annotationEdit?.lane === 'text';
   
   // === Layout Constants ===
   const layout = useMemo(() => {
     const stringSpacing = 60 * zoom;
     const leftMargin = 80 * zoom;
     const rightMargin = 80 * zoom;
-    const topMargin = 40 * zoom;
-    const bottomMargin = 40 * zoom;
+    const sectionLaneHeight = showSectionLane ? SECTION_LANE_HEIGHT : 0;
+    const staffHeight = showStaff ? STAFF_HEIGHT : 0;
+    const chordLaneHeight = showChordLane ? CHORD_LANE_HEIGHT : 0;
+    const topMargin = 40 * zoom + sectionLaneHeight + staffHeight + chordLaneHeight;
+    const lyricsHeight = lyricLineCount > 0 ? LYRIC_LINE_OFFSET - 30 + lyricLineCount * LYRIC_LINE_HEIGHT : 0;
+    const bottomMargin = 40 * zoom + lyricsHeight;
     
     // Scale the base width by zoom level
     const zoomedWidth = baseWidth * zoom;
-    const totalHeight = (topMargin + bottomMargin + (2 * stringSpacing));
+    const totalHeight = (topMargin + bottomMargin + ((instrument.stringCount - 1) * stringSpacing));
     
     return {
       stringSpacing,
@@ -79,11 +217,35 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
       rightMargin,
       topMargin,
       bottomMargin,
+      staffTopLineY: sectionLaneHeight + STAFF_TOP_LINE_Y,
       totalWidth: zoomedWidth,
       totalHeight,
       pixelsPerTick: PIXELS_PER_TICK * zoom
     };
-  }, [zoom, baseWidth]);
+  }, [zoom, baseWidth, instrument.stringCount, showStaff, showChordLane, showSectionLane, lyricLineCount]);
+
+  // Beam groups for the tab stems, following the time signature's beats
+  const tabBeams = useMemo(() => {
+    const stacks = [...tab].sort((a: NoteStack, b: NoteStack) => a.musicalPosition - b.musicalPosition);
+    const groups = findBeamGroups(
+      stacks.map((stack: NoteStack) => ({
+        position: stack.musicalPosition,
+        ticks: getStackTicks(stack),
+        duration: stack.duration,
+        tuplet: stack.tuplet,
+        beam: stack.beam
+      })),
+      timeSignature
+    );
+    const beamedStacks = new Set(groups.flatMap(group => group.map(index => stacks[index].id)));
+    return { groups: groups.map(group => group.map(index => stacks[index])), beamedStacks };
+  }, [tab, timeSignature]);
+
+  // Notation staff events, positioned on the same X as the tab's note stacks
+  const staffLayout = useMemo(
+    () => (showStaff ? layoutNotationStaff(tab, instrument, timeSignature) : null),
+    [showStaff, tab, instrument, timeSignature]
+  );
 
   // === Helper Functions ===
   const getStringY = (stringIndex: number) => {
@@ -91,11 +253,11 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     return layout.topMargin + (displayIndex * layout.stringSpacing);
   };
 
-  const getPositionX = (musicalPosition: number) => {
+  const getPositionX = useCallback((musicalPosition: number) => {
     const basePosition = layout.leftMargin + (musicalPosition * layout.pixelsPerTick);
     const noteStackIndent = FIRST_NOTE_STACK_INDENT * zoom; // All notes get the indent
     return basePosition + noteStackIndent;
-  };
+  }, [layout.leftMargin, layout.pixelsPerTick, zoom]);
 
   // Pure function to convert click X position to musical position (accounting for note stack indent)
   const getMusicalPositionFromX = (clickX: number): number => {
@@ -116,7 +278,6 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
   // === Measure Lines Calculation ===
   const measureLines = useMemo(() => {
     const lines: number[] = [];
-    const ticksPerMeasure = 3840; // 4/4 time, 960 ticks per quarter note
     
     const maxPosition = Math.max(
       ...tab.map((stack: NoteStack) => stack.musicalPosition),
@@ -128,7 +289,39 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     }
     
     return lines;
-  }, [tab, currentPosition]);
+  }, [tab, currentPosition, ticksPerMeasure]);
+
+  // === Page View Systems ===
+  // Break the row into stacked lines at measure boundaries that fit the viewport
+  const systems = useMemo((): VisualSystem[] | null => {
+    if (!pageView || viewportWidth <= 0) return null;
+    
+    const positionX = (position: number) =>
+      layout.leftMargin + (position * layout.pixelsPerTick) + (FIRST_NOTE_STACK_INDENT * zoom);
+    const endPosition = (measureLines[measureLines.length - 1] ?? 0) + ticksPerMeasure;
+    
+    return selectSystemBreaks(
+      [0, ...measureLines].map(position => ({ position, x: positionX(position) })),
+      { position: endPosition, x: positionX(endPosition) },
+      viewportWidth - layout.leftMargin - layout.rightMargin,
+      layout.totalHeight
+    );
+  }, [pageView, viewportWidth, measureLines, layout, zoom, ticksPerMeasure]);
+
+  // Shift for drawing a musical position on its line (identity in the single-row view)
+  const getSystemOffset = useCallback((musicalPosition: number) => {
+    if (!systems) return { x: 0, y: 0 };
+    const system = selectSystemAtX(getPositionX(musicalPosition), systems)!;
+    return { x: systems[0].startX - system.startX, y: system.offsetY };
+  }, [systems, getPositionX]);
+
+  const getSystemTransform = (musicalPosition: number) => {
+    const offset = getSystemOffset(musicalPosition);
+    return offset.x === 0 && offset.y === 0 ? undefined : `translate(${offset.x}, ${offset.y})`;
+  };
+
+  const svgWidth = systems ? viewportWidth : layout.totalWidth;
+  const svgHeight = systems ? systems.length * layout.totalHeight : layout.totalHeight;
 
   // === Event Handlers ===
   const handleZoom = useCallback((e: WheelEvent) => {
@@ -151,6 +344,31 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     }
   }, [handleZoom]);
 
+  // Track the viewport width for page view
+  useEffect(() => {
+    const tabDisplay = tabDisplayRef.current;
+    if (!tabDisplay || !pageView) return;
+    
+    const updateWidth = () => setViewportWidth(tabDisplay.clientWidth);
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => {
+      window.removeEventListener('resize', updateWidth);
+    };
+  }, [pageView]);
+
+  // Auto-scroll so the cursor/playhead line stays visible in page view
+  useEffect(() => {
+    const tabDisplay = tabDisplayRef.current;
+    if (!tabDisplay || !systems) return;
+    
+    const { y: top } = getSystemOffset(currentPosition);
+    const bottom = top + layout.totalHeight;
+    if (top < tabDisplay.scrollTop || bottom > tabDisplay.scrollTop + tabDisplay.clientHeight) {
+      tabDisplay.scrollTop = top;
+    }
+  }, [currentPosition, systems, layout.totalHeight, getSystemOffset]);
+
   // Ensure focus for keyboard input (backup for autoFocus)
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -163,7 +381,49 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     return () => clearTimeout(timer);
   }, []);
 
+  // Musical position (ticks) under the pointer, on the unwrapped row
+  const getPointerPosition = (e: React.MouseEvent<SVGSVGElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { x } = systems
+      ? selectUnwrappedPosition(e.clientX - rect.left, e.clientY - rect.top, systems, layout.totalHeight)
+      : { x: e.clientX - rect.left };
+    return getMusicalPositionFromX(x);
+  };
+
+  // === A/B Loop ===
+  const applyLoopRegion = (region: LoopRegion | null) => {
+    if (!region) return;
+    setLoopPoints(region.start, region.end);
+    if (!audioState.isLooping) toggleLoop();
+  };
+
+  const handleSvgMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (e.button !== 0 || e.shiftKey) return;
+    loopDragAnchorRef.current = getPointerPosition(e);
+    loopDraggedRef.current = false;
+  };
+
+  const handleSvgMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (loopDragAnchorRef.current === null) return;
+    const region = normalizeLoopRegion(loopDragAnchorRef.current, getPointerPosition(e));
+    if (region) loopDraggedRef.current = true;
+    setLoopDrag(region);
+  };
+
+  const handleSvgMouseUp = () => {
+    if (loopDragAnchorRef.current === null) return;
+    loopDragAnchorRef.current = null;
+    applyLoopRegion(loopDrag);
+    setLoopDrag(null);
+  };
+
   const handleSvgClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    // A drag sets the loop rather than moving the cursor
+    if (loopDraggedRef.current) {
+      loopDraggedRef.current = false;
+      return;
+    }
+    
     // Ensure the tab viewer stays focused
     const tabViewer = e.currentTarget.closest('.tab-viewer') as HTMLElement;
     if (tabViewer) {
@@ -171,8 +431,10 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     }
     
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // In page view, map the click back onto the unwrapped row
+    const { x, y } = systems
+      ? selectUnwrappedPosition(e.clientX - rect.left, e.clientY - rect.top, systems, layout.totalHeight)
+      : { x: e.clientX - rect.left, y: e.clientY - rect.top };
     
     // Find closest string
     let closestStringIndex = 0;
@@ -210,8 +472,165 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     }
   };
 
+  // Apply a structure menu choice to the stack under the cursor
+  const handleStructureChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const choice = e.target.value;
+    e.target.value = '';
+    
+    if (choice === 'repeat-start') editor.toggleRepeatStart(currentPosition);
+    else if (choice === 'repeat-end') editor.setRepeatEnd(currentPosition, 1);
+    else if (choice === 'repeat-end-3') editor.setRepeatEnd(currentPosition, 2);
+    else if (choice === 'ending-1') editor.setEnding(currentPosition, [1]);
+    else if (choice === 'ending-2') editor.setEnding(currentPosition, [2]);
+    else if (choice.startsWith('marker:')) editor.setNavigationMarker(currentPosition, choice.slice(7) as NavigationMarker);
+    else if (choice === 'clear') {
+      editor.setRepeatEnd(currentPosition, null);
+      editor.setEnding(currentPosition, null);
+      editor.setNavigationMarker(currentPosition, null);
+      if (tab.find((stack: NoteStack) => stack.musicalPosition === currentPosition)?.repeatStart) {
+        editor.toggleRepeatStart(currentPosition);
+      }
+    }
+    
+    tabViewerRef.current?.focus();
+  };
+
+  // Transpose or refinger the selection (whole tab when nothing is selected)
+  const handleTransposeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const choice = e.target.value;
+    e.target.value = '';
+    
+    const unplayable = choice.startsWith('refinger:')
+      ? editor.transpose(0, INSTRUMENT_PROFILES[choice.slice(9)])
+      : editor.transpose(Number(choice));
+    
+    if (unplayable.length > 0) {
+      const list = unplayable
+        .map(note => `${note.noteName || `fret ${formatFret(note.fret)}`} (${note.reason.replace(/-/g, ' ')})`)
+        .join(', ');
+      alert(`${unplayable.length} note(s) could not be placed and were removed: ${list}`);
+    }
+    
+    tabViewerRef.current?.focus();
+  };
+
+  // === Lyric and Chord Editing ===
+  const setAnnotationEdit = (edit: AnnotationEdit | null) => {
+    annotationEditRef.current = edit;
+    setAnnotationEditState(edit);
+  };
+
+  // Slots that start a note stack - lyric/chord entry steps through these
+  const stackSlots = useMemo(
+    () => [...new Set(tab.map((stack: NoteStack) => musicalPositionToTimeSlot(stack.musicalPosition)))].sort((a, b) => a - b),
+    [tab]
+  );
+
+  const startAnnotationEdit = (lane: AnnotationEdit['lane'], slot: number, measure?: boolean) => {
+    if (lane === 'section' || lane === 'text') {
+      // Edit the mark already there, or start a new one - sections are offered the next rehearsal letter
+      const markerSlot = measure ? Math.floor(slot / slotsPerMeasure) * slotsPerMeasure : slot;
+      const existing = findMarkerAt(sections, lane, markerSlot, slotsPerMeasure);
+      const initial = existing?.text ?? '';
+      const text = existing || lane === 'text' ? initial : getNextRehearsalMark(sections);
+      setAnnotationEdit({ lane, slot: markerSlot, text, initial, measure: existing ? existing.measure : measure });
+      return;
+    }
+    const initial = lane === 'lyric'
+      ? getSyllableEditText(lyrics.find(syllable => syllable.slot === slot && syllable.verse === selectedVerse))
+      : chords.find(chord => chord.slot === slot)?.name ?? '';
+    setAnnotationEdit({ lane, slot, text: initial, initial });
+  };
+
+  const saveAnnotationEdit = (edit: AnnotationEdit) => {
+    if (edit.text === edit.initial) return;
+    if (edit.lane === 'lyric') editor.setLyric(edit.slot, selectedVerse, edit.text);
+    else if (edit.lane === 'chord') editor.setChord(edit.slot, edit.text);
+    else editor.setSectionMarker({ slot: edit.slot, kind: edit.lane, text: edit.text, ...(edit.measure && { measure: true }) });
+  };
+
+  // Save the current entry and carry on at the next (or previous) note, moving the cursor along
+  const advanceAnnotationEdit = (edit: AnnotationEdit, direction: 1 | -1) => {
+    saveAnnotationEdit(edit);
+    const slot = direction > 0
+      ? stackSlots.find(candidate => candidate > edit.slot)
+      : [...stackSlots].reverse().find(candidate => candidate < edit.slot);
+    if (slot === undefined) {
+      setAnnotationEdit(null);
+      tabViewerRef.current?.focus();
+      return;
+    }
+    editor.setCursorPosition(timeSlotToMusicalPosition(slot));
+    startAnnotationEdit(edit.lane, slot);
+  };
+
+  const handleAnnotationKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep typing out of the tab editor's shortcuts
+    e.stopPropagation();
+    const edit = annotationEditRef.current;
+    if (!edit) return;
+    
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setAnnotationEdit(null);
+      tabViewerRef.current?.focus();
+    } else if (e.key === 'Enter' || (e.key === 'Tab' && (edit.lane === 'section' || edit.lane === 'text'))) {
+      e.preventDefault();
+      saveAnnotationEdit(edit);
+      setAnnotationEdit(null);
+      tabViewerRef.current?.focus();
+    } else if (e.key === 'Tab' || (e.key === ' ' && edit.lane === 'lyric')) {
+      // Space moves on to the next syllable, as in most notation editors
+      e.preventDefault();
+      advanceAnnotationEdit(edit, e.shiftKey ? -1 : 1);
+    }
+  };
+
+  const handleAnnotationBlur = () => {
+    const edit = annotationEditRef.current;
+    if (!edit) return;
+    saveAnnotationEdit(edit);
+    setAnnotationEdit(null);
+  };
+
+  // === Sections ===
+  const sectionRanges = useMemo(() => {
+    const endTicks = Math.max(0, ...tab.map((stack: NoteStack) => stack.musicalPosition + getStackTicks(stack)));
+    return getSectionRanges(sections, slotsPerMeasure, Math.ceil(endTicks / timeSlotToMusicalPosition(1)));
+  }, [sections, slotsPerMeasure, tab]);
+
+  // Loop a section as an A/B region
+  const loopSection = (range: SectionRange) => {
+    applyLoopRegion({ start: timeSlotToMusicalPosition(range.start), end: timeSlotToMusicalPosition(range.end) });
+  };
+
+  // Jump to or loop the section chosen from the sections menu
+  const handleSectionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [action, index] = e.target.value.split(':');
+    e.target.value = '';
+    
+    const range = sectionRanges[Number(index)];
+    if (range) {
+      editor.setCursorPosition(timeSlotToMusicalPosition(range.start));
+      if (action === 'loop') loopSection(range);
+    }
+    
+    tabViewerRef.current?.focus();
+  };
+
   // Handle keyboard input for adding notes
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Undo/redo: Ctrl+Z, Ctrl+Shift+Z (or Ctrl+Y)
+    if ((e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === 'z' || e.key.toLowerCase() === 'y')) {
+      e.preventDefault();
+      if (e.key.toLowerCase() === 'y' || e.shiftKey) {
+        editor.redo();
+      } else {
+        editor.undo();
+      }
+      return;
+    }
+    
     // Tab key to move to next available position
     if (e.key === 'Tab') {
       e.preventDefault(); // Prevent default tab behavior
@@ -234,8 +653,8 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
       return;
     }
     
-    // Number keys 0-9 for frets
-    if (e.key >= '0' && e.key <= '9') {
+    // Number keys 0-9 for frets (ones the instrument doesn't have are ignored)
+    if (e.key >= '0' && e.key <= '9' && getNotePitch(parseInt(e.key), selectedString, instrument) !== null) {
       const fret = parseInt(e.key);
       
       // Preview the note first
@@ -247,10 +666,72 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
       
       // Then add the note
       try {
-        editor.addNote(currentPosition, selectedString, fret, selectedDuration);
+        editor.addNote(currentPosition, selectedString, fret, selectedDuration, selectedTuplet);
+      } catch (error) {
+        // Silent error handling
+      }
+    }
+    
+    // "+" after a fret moves the note to its half-fret (6 -> 6+ for the 6½ fret) and back
+    if (e.key === '+') {
+      e.preventDefault();
+      try {
+        editor.toggleHalfFret(currentPosition, selectedString);
+      } catch (error) {
+        // Silent error handling
+      }
+      return;
+    }
+    
+    // Beam overrides on the stack under the cursor: "[" breaks the beam before it, "]" joins it
+    // to the previous stack across the beat; pressing again returns to automatic beaming
+    if ((e.key === '[' || e.key === ']') && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      const beam = e.key === '[' ? 'break' : 'join';
+      const stack = tab.find((s: NoteStack) => s.musicalPosition === currentPosition);
+      editor.setBeamOverride(currentPosition, stack?.beam === beam ? null : beam);
+      return;
+    }
+    
+    // "l" types a lyric syllable (in the selected verse) and "c" a chord name at the cursor
+    if ((e.key === 'l' || e.key === 'c') && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      startAnnotationEdit(e.key === 'l' ? 'lyric' : 'chord', musicalPositionToTimeSlot(currentPosition));
+      return;
+    }
+    
+    // "m" adds or edits the rehearsal mark of the cursor's measure, "t" a text annotation at the cursor;
+    // with Shift the mark sits on the cursor's slot and the text on the measure instead
+    if ((e.key.toLowerCase() === 'm' || e.key.toLowerCase() === 't') && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      const isSection = e.key.toLowerCase() === 'm';
+      startAnnotationEdit(isSection ? 'section' : 'text', musicalPositionToTimeSlot(currentPosition), isSection !== e.shiftKey);
+      return;
+    }
+    
+    // Page Up/Down jump to the previous/next section
+    if (e.key === 'PageUp' || e.key === 'PageDown') {
+      e.preventDefault();
+      const slot = findAdjacentSection(
+        sections,
+        slotsPerMeasure,
+        musicalPositionToTimeSlot(currentPosition),
+        e.key === 'PageDown' ? 'next' : 'previous'
+      );
+      if (slot !== null) editor.setCursorPosition(timeSlotToMusicalPosition(slot));
+      return;
+    }
+    
+    // Technique shortcuts (h, p, s or /, b, v or ~) toggle on the note under the cursor
+    const technique = TECHNIQUE_SHORTCUTS[e.key.toLowerCase()];
+    if (technique && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      try {
+        editor.toggleNoteTechnique(currentPosition, selectedString, technique);
       } catch (error) {
         // Silent error handling
       }
+      return;
     }
     
     // Delete key to remove notes
@@ -324,6 +805,661 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
     );
   };
 
+  // === Tab Beam Rendering ===
+  // Beamed stacks share one stem each, down from their lowest note to a beam below the staff;
+  // sixteenths get a second beam (a stub when the neighbouring notes are eighths)
+  const renderTabBeam = (group: NoteStack[], groupIndex: number) => {
+    const color = theme.text.primary;
+    const beamY = getStringY(0) + 28; // Clear of the tuplet brackets below
+    const secondaryY = beamY - 7;
+    const xs = group.map(stack => getPositionX(stack.musicalPosition));
+    
+    return (
+      <g key={`tab-beam-${groupIndex}`} className="tab-beam" transform={getSystemTransform(group[0].musicalPosition)}>
+        {group.map((stack, index) => {
+          const lowestString = Math.min(...stack.notes.map(note => note.string));
+          return (
+            <line
+              key={stack.id}
+              x1={xs[index]}
+              y1={getStringY(lowestString) + 12}
+              x2={xs[index]}
+              y2={beamY}
+              stroke={color}
+              strokeWidth="2"
+            />
+          );
+        })}
+        <line x1={xs[0]} y1={beamY} x2={xs[xs.length - 1]} y2={beamY} stroke={color} strokeWidth="4" />
+        {group.map((stack, index) => {
+          if (stack.duration !== 'sixteenth') return null;
+          const next = group[index + 1];
+          if (next?.duration === 'sixteenth') {
+            return <line key={`secondary-${stack.id}`} x1={xs[index]} y1={secondaryY} x2={xs[index + 1]} y2={secondaryY} stroke={color} strokeWidth="4" />;
+          }
+          if (group[index - 1]?.duration === 'sixteenth') return null;
+          const stubX = next ? xs[index] + 10 : xs[index] - 10;
+          return <line key={`secondary-${stack.id}`} x1={xs[index]} y1={secondaryY} x2={stubX} y2={secondaryY} stroke={color} strokeWidth="4" />;
+        })}
+      </g>
+    );
+  };
+
+  // === Technique Rendering ===
+  // Hammer-ons and pull-offs arc over from the previous note on the string, slides get a
+  // slash between the two notes, bends an arrow and vibrato a wavy line after the note
+  const renderTechnique = (stack: NoteStack, technique: Technique, fret: number, string: number, x: number, y: number) => {
+    const color = theme.text.primary;
+    
+    if (technique === 'bend') {
+      return (
+        <g className="technique technique--bend">
+          <path d={`M ${x + 12} ${y} Q ${x + 26} ${y} ${x + 26} ${y - 22}`} fill="none" stroke={color} strokeWidth="1.5" />
+          <path d={`M ${x + 22} ${y - 16} L ${x + 26} ${y - 24} L ${x + 30} ${y - 16}`} fill="none" stroke={color} strokeWidth="1.5" />
+          <text x={x + 26} y={y - 27} textAnchor="middle" fontSize="10" fill={color}>full</text>
+        </g>
+      );
+    }
+    
+    if (technique === 'vibrato') {
+      const waves = Array(3).fill('q 3 -5 6 0 q 3 5 6 0').join(' ');
+      return (
+        <path
+          className="technique technique--vibrato"
+          d={`M ${x + 14} ${y - 16} ${waves}`}
+          fill="none"
+          stroke={color}
+          strokeWidth="1.5"
+        />
+      );
+    }
+    
+    // Legato techniques start from the previous note when it is drawn on the same line
+    const previous = findPreviousNoteOnString(tab, stack.musicalPosition, string);
+    const sameLine = previous !== null &&
+      getSystemOffset(previous.stack.musicalPosition).y === getSystemOffset(stack.musicalPosition).y;
+    const fromX = previous && sameLine ? getPositionX(previous.stack.musicalPosition) : x - 40;
+    const midX = (fromX + x) / 2;
+    const symbol = getTechniqueSymbol(technique, previous?.fret, fret);
+    
+    if (technique === 'slide') {
+      const rise = symbol === '/' ? 6 : -6;
+      return (
+        <line
+          className="technique technique--slide"
+          x1={midX - 6}
+          y1={y + rise}
+          x2={midX + 6}
+          y2={y - rise}
+          stroke={color}
+          strokeWidth="2"
+        />
+      );
+    }
+    
+    return (
+      <g className={`technique technique--${technique}`}>
+        <path d={`M ${fromX + 8} ${y - 14} Q ${midX} ${y - 32} ${x - 8} ${y - 14}`} fill="none" stroke={color} strokeWidth="1.5" />
+        <text x={midX} y={y - 26} textAnchor="middle" fontSize="11" fontStyle="italic" fill={color}>{symbol}</text>
+      </g>
+    );
+  };
+
+  // === Repeat Barline Rendering ===
+  // Drawn just left of the barline so they clear the first note of the measure
+  const renderRepeatBarline = (position: number, kind: 'start' | 'end', key: string) => {
+    const x = getPositionX(position);
+    const topY = getStringY(topString) - 10;
+    const bottomY = getStringY(0) + 10;
+    const middleY = (getStringY(topString) + getStringY(0)) / 2;
+    const dotYs = [middleY - layout.stringSpacing / 2, middleY + layout.stringSpacing / 2];
+    const thickX = kind === 'start' ? x - 26 : x - 18;
+    const thinX = kind === 'start' ? x - 19 : x - 21;
+    const dotX = kind === 'start' ? x - 14 : x - 26;
+    
+    return (
+      <g
+        key={key}
+        className={`repeat-${kind}`}
+        transform={getSystemTransform(kind === 'start' ? position : position - 1)}
+      >
+        <rect x={thickX} y={topY} width={4} height={bottomY - topY} fill={theme.text.primary} />
+        <line x1={thinX} y1={topY} x2={thinX} y2={bottomY} stroke={theme.text.primary} strokeWidth="1.5" />
+        {dotYs.map(y => (
+          <circle key={y} cx={dotX} cy={y} r={3} fill={theme.text.primary} />
+        ))}
+      </g>
+    );
+  };
+
+  // === Repeat, Ending and Navigation Marker Rendering ===
+  const renderStructure = (stack: NoteStack) => {
+    const measureStart = Math.floor(stack.musicalPosition / ticksPerMeasure) * ticksPerMeasure;
+    const measureEnd = measureStart + ticksPerMeasure;
+    const textY = getStringY(topString) - 24;
+    const elements: React.ReactNode[] = [];
+    
+    if (stack.repeatStart) {
+      elements.push(renderRepeatBarline(measureStart, 'start', 'repeat-start'));
+    }
+    
+    if (stack.repeatEnd) {
+      elements.push(renderRepeatBarline(measureEnd, 'end', 'repeat-end'));
+      const plays = (stack.repeatEnd.timesToRepeat ?? 1) + 1;
+      if (plays > 2) {
+        elements.push(
+          <text
+            key="repeat-times"
+            x={getPositionX(measureEnd) - 18}
+            y={textY}
+            textAnchor="end"
+            fontSize="12"
+            fill={theme.text.primary}
+            transform={getSystemTransform(measureEnd - 1)}
+          >
+            {`×${plays}`}
+          </text>
+        );
+      }
+    }
+    
+    if (stack.ending) {
+      const startX = getPositionX(measureStart) - 10;
+      const endX = getPositionX(measureStart + (stack.ending.measures ?? 1) * ticksPerMeasure) - 30;
+      const bracketY = getStringY(topString) - 32;
+      elements.push(
+        <g key="ending" className="volta" transform={getSystemTransform(measureStart)}>
+          <path
+            d={`M ${startX} ${bracketY + 10} L ${startX} ${bracketY} L ${endX} ${bracketY}`}
+            fill="none"
+            stroke={theme.text.primary}
+            strokeWidth="1.5"
+          />
+          <text x={startX + 4} y={bracketY + 12} fontSize="12" fill={theme.text.primary}>
+            {`${stack.ending.passes.join(', ')}.`}
+          </text>
+        </g>
+      );
+    }
+    
+    if (stack.marker) {
+      const atStart = MEASURE_START_MARKERS.includes(stack.marker);
+      const position = atStart ? measureStart : measureEnd;
+      elements.push(
+        <text
+          key="marker"
+          className="navigation-marker"
+          x={atStart ? getPositionX(position) - 10 : getPositionX(position) - 16}
+          y={textY}
+          textAnchor={atStart ? 'start' : 'end'}
+          fontSize={atStart ? '18' : '13'}
+          fontStyle="italic"
+          fontWeight="bold"
+          fill={theme.text.primary}
+          transform={getSystemTransform(atStart ? position : position - 1)}
+        >
+          {NAVIGATION_MARKER_LABELS[stack.marker]}
+        </text>
+      );
+    }
+    
+    return elements.length > 0 ? <g key={`structure-${stack.id}`}>{elements}</g> : null;
+  };
+
+  // === Notation Staff Rendering ===
+  // Treble staff (8vb) in D major above the tab; events share the note stacks' X positions
+  const getStaffStepY = (step: number) =>
+    layout.staffTopLineY + ((STAFF_TOP_LINE_STEP - step) * STAFF_LINE_SPACING) / 2;
+
+  const renderStaffLines = (system: VisualSystem | null) => {
+    const offsetY = system?.offsetY ?? 0;
+    const color = theme.text.primary;
+    const startX = Math.max(4, layout.leftMargin - 72);
+    const bottomY = getStaffStepY(STAFF_BOTTOM_LINE_STEP) + offsetY;
+    
+    return (
+      <g key={`staff-${system?.index ?? 0}`} className="notation-staff">
+        {[0, 1, 2, 3, 4].map(line => {
+          const y = layout.staffTopLineY + line * STAFF_LINE_SPACING + offsetY;
+          return (
+            <line key={line} x1={startX} y1={y} x2={svgWidth - layout.rightMargin} y2={y} stroke={color} strokeWidth="1" />
+          );
+        })}
+        <text x={startX + 2} y={bottomY + 10} fontSize="46" fill={color}>𝄞</text>
+        <text x={startX + 14} y={bottomY + 26} fontSize="10" fill={color}>8</text>
+        {KEY_SIGNATURE_SHARPS.map((sharp, index) => (
+          <text
+            key={sharp.letter}
+            x={startX + 36 + index * 9}
+            y={getStaffStepY(sharp.step) + offsetY + 5}
+            fontSize="16"
+            fill={color}
+          >
+            ♯
+          </text>
+        ))}
+      </g>
+    );
+  };
+
+  const renderStaffEvent = (event: StaffEvent, index: number, events: StaffEvent[], beamYs: number[]) => {
+    const x = getPositionX(event.position);
+    const color = theme.text.primary;
+    const visual = DURATION_VISUALS[event.duration];
+    
+    if (event.type === 'rest') {
+      return (
+        <g key={`staff-event-${index}`} className="staff-rest" transform={getSystemTransform(event.position)}>
+          <text x={x} y={getStaffStepY(34) + 9} textAnchor="middle" fontSize="28" fill={color}>
+            {REST_GLYPHS[event.duration]}
+          </text>
+          {event.dotted && <circle cx={x + 12} cy={getStaffStepY(35)} r="2" fill={color} />}
+        </g>
+      );
+    }
+    
+    const steps = event.heads.map(head => head.step);
+    const lowY = getStaffStepY(Math.min(...steps));
+    const highY = getStaffStepY(Math.max(...steps));
+    const stemX = event.stemUp ? x + 6 : x - 6;
+    const stemEndY = event.beam !== null
+      ? beamYs[event.beam]
+      : event.stemUp ? highY - STAFF_STEM_LENGTH : lowY + STAFF_STEM_LENGTH;
+    const headX = (displaced: boolean) => displaced ? x + (event.stemUp ? 12 : -12) : x;
+    
+    // Ties run to the next piece of the same note, or trail off when it continues on the next line
+    const next = events[index + 1];
+    const tieEndX = next && getSystemOffset(next.position).y === getSystemOffset(event.position).y
+      ? getPositionX(next.position) - 8
+      : x + 24;
+    
+    return (
+      <g key={`staff-event-${index}`} className="staff-note" transform={getSystemTransform(event.position)}>
+        {event.ledgerSteps.map(step => (
+          <line key={`ledger-${step}`} x1={x - 11} y1={getStaffStepY(step)} x2={x + 11} y2={getStaffStepY(step)} stroke={color} strokeWidth="1" />
+        ))}
+        
+        {event.heads.map(head => {
+          const y = getStaffStepY(head.step);
+          const cx = headX(head.displaced);
+          return (
+            <g key={head.noteName}>
+              <ellipse
+                cx={cx}
+                cy={y}
+                rx="6.5"
+                ry="4.5"
+                transform={`rotate(-20 ${cx} ${y})`}
+                fill={visual.isOpen ? 'none' : color}
+                stroke={color}
+                strokeWidth="1.5"
+              />
+              {head.accidental && (
+                <text x={x - 16} y={y + 5} textAnchor="middle" fontSize="15" fill={color}>
+                  {head.accidental === 'sharp' ? '♯' : '♮'}
+                </text>
+              )}
+              {event.dotted && (
+                <circle cx={x + 12} cy={head.step % 2 === 0 ? getStaffStepY(head.step + 1) : y} r="2" fill={color} />
+              )}
+              {event.tiedToNext && (
+                <path
+                  d={event.stemUp
+                    ? `M ${x + 6} ${y + 6} Q ${(x + tieEndX) / 2} ${y + 16} ${tieEndX} ${y + 6}`
+                    : `M ${x + 6} ${y - 6} Q ${(x + tieEndX) / 2} ${y - 16} ${tieEndX} ${y - 6}`}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth="1.5"
+                />
+              )}
+            </g>
+          );
+        })}
+        
+        {visual.stemHeight > 0 && (
+          <line x1={stemX} y1={event.stemUp ? lowY : highY} x2={stemX} y2={stemEndY} stroke={color} strokeWidth="1.5" />
+        )}
+        
+        {event.beam === null && Array.from({ length: visual.flagCount }, (_, flag) => {
+          const flagY = stemEndY + (event.stemUp ? flag * 8 : -flag * 8);
+          return (
+            <path
+              key={`flag-${flag}`}
+              d={event.stemUp
+                ? `M ${stemX} ${flagY} q 10 8 8 20`
+                : `M ${stemX} ${flagY} q 10 -8 8 -20`}
+              fill="none"
+              stroke={color}
+              strokeWidth="2"
+            />
+          );
+        })}
+      </g>
+    );
+  };
+
+  // Flat beam across the group's stem ends, with a second beam between adjacent sixteenths
+  const renderStaffBeam = (beam: { events: number[]; stemUp: boolean }, beamIndex: number, events: StaffEvent[], beamY: number) => {
+    const color = theme.text.primary;
+    const grouped = beam.events.map(index => events[index]);
+    const stemX = (event: StaffEvent) => getPositionX(event.position) + (beam.stemUp ? 6 : -6);
+    const secondaryY = beamY + (beam.stemUp ? 7 : -7);
+    
+    return (
+      <g key={`staff-beam-${beamIndex}`} className="staff-beam" transform={getSystemTransform(grouped[0].position)}>
+        <line
+          x1={stemX(grouped[0])}
+          y1={beamY}
+          x2={stemX(grouped[grouped.length - 1])}
+          y2={beamY}
+          stroke={color}
+          strokeWidth="4"
+        />
+        {grouped.map((event, index) => {
+          if (event.duration !== 'sixteenth') return null;
+          const nextEvent = grouped[index + 1];
+          const previousEvent = grouped[index - 1];
+          if (nextEvent?.duration === 'sixteenth') {
+            return <line key={index} x1={stemX(event)} y1={secondaryY} x2={stemX(nextEvent)} y2={secondaryY} stroke={color} strokeWidth="4" />;
+          }
+          if (previousEvent?.duration === 'sixteenth') return null;
+          // Lone sixteenth: a stub pointing into the group
+          const stubX = nextEvent ? stemX(event) + 8 : stemX(event) - 8;
+          return <line key={index} x1={stemX(event)} y1={secondaryY} x2={stubX} y2={secondaryY} stroke={color} strokeWidth="4" />;
+        })}
+      </g>
+    );
+  };
+
+  const renderNotationStaff = () => {
+    if (!staffLayout) return null;
+    const { events, beams } = staffLayout;
+    
+    // Beam height: clear of the highest (stems up) or lowest (stems down) head in the group
+    const beamYs = beams.map(beam => {
+      const steps = beam.events.flatMap(index => events[index].heads.map(head => head.step));
+      return beam.stemUp
+        ? getStaffStepY(Math.max(...steps)) - STAFF_STEM_LENGTH
+        : getStaffStepY(Math.min(...steps)) + STAFF_STEM_LENGTH;
+    });
+    
+    return (
+      <g className="notation">
+        {(systems ?? [null]).map(renderStaffLines)}
+        {measureLines.map(position => (
+          <line
+            key={`staff-measure-${position}`}
+            transform={getSystemTransform(position)}
+            x1={getPositionX(position)}
+            y1={getStaffStepY(STAFF_TOP_LINE_STEP)}
+            x2={getPositionX(position)}
+            y2={getStaffStepY(STAFF_BOTTOM_LINE_STEP)}
+            stroke={theme.text.primary}
+            strokeWidth="1"
+          />
+        ))}
+        {events.map((event, index) => renderStaffEvent(event, index, events, beamYs))}
+        {beams.map((beam, index) => renderStaffBeam(beam, index, events, beamYs[index]))}
+      </g>
+    );
+  };
+
+  // === Tuplet Bracket Rendering ===
+  // Drawn below the staff, clear of the downward stems on the low strings
+  const renderTupletBracket = (group: ReturnType<typeof findTupletGroups>[number]) => {
+    const last = group.stacks[group.stacks.length - 1];
+    const startX = getPositionX(group.start) - 8;
+    const endX = getPositionX(last.musicalPosition) + 8;
+    const bracketY = getStringY(0) + 36;
+    const midX = (startX + endX) / 2;
+    // Plain triplets show "3"; other ratios spell out both numbers
+    const label = group.tuplet.actual === 3 && group.tuplet.normal === 2
+      ? '3'
+      : `${group.tuplet.actual}:${group.tuplet.normal}`;
+    const gap = label.length * 4 + 4;
+    
+    return (
+      <g key={`tuplet-${group.start}`} className="tuplet-bracket" transform={getSystemTransform(group.start)}>
+        <path
+          d={`M ${startX} ${bracketY - 5} L ${startX} ${bracketY} L ${midX - gap} ${bracketY}
+              M ${midX + gap} ${bracketY} L ${endX} ${bracketY} L ${endX} ${bracketY - 5}`}
+          fill="none"
+          stroke={theme.text.primary}
+          strokeWidth="1.5"
+        />
+        <text x={midX} y={bracketY + 4} textAnchor="middle" fontSize="11" fontStyle="italic" fill={theme.text.primary}>
+          {label}
+        </text>
+      </g>
+    );
+  };
+
+  // === Lyric and Chord Lanes ===
+  // While playing, what has been sung is dimmed and the current syllable/chord highlighted
+  const playbackSlot = audioState.isPlaying ? musicalPositionToTimeSlot(audioState.currentPosition) : null;
+
+  const getKaraokeFill = (index: number, activeIndex: number) => {
+    if (index === activeIndex) return theme.tab.playhead;
+    return index < activeIndex ? theme.text.tertiary : theme.text.primary;
+  };
+
+  const isBeingEdited = (lane: AnnotationEdit['lane'], slot: number, verse?: number) =>
+    annotationEdit?.lane === lane && annotationEdit.slot === slot && (verse === undefined || verse === selectedVerse);
+
+  const renderChordLane = () => {
+    const y = getStringY(topString) - CHORD_LANE_OFFSET;
+    const activeIndex = playbackSlot === null ? -1 : findActiveIndex(chords, playbackSlot);
+    
+    return (
+      <g className="chord-lane">
+        {chords.map((chord, index) => {
+          if (isBeingEdited('chord', chord.slot)) return null;
+          const position = timeSlotToMusicalPosition(chord.slot);
+          return (
+            <text
+              key={`chord-${chord.slot}`}
+              className="chord-symbol"
+              transform={getSystemTransform(position)}
+              x={getPositionX(position) - 6}
+              y={y}
+              fontSize="14"
+              fontWeight="bold"
+              fill={getKaraokeFill(index, activeIndex)}
+            >
+              {chord.name}
+            </text>
+          );
+        })}
+      </g>
+    );
+  };
+
+  // Section marks boxed, text annotations in italics, along the top of each line
+  // A/B loop region (or the one being dragged), shaded on each line it covers
+  const renderLoopRegion = () => {
+    const region = loopDrag
+      ?? (hasLoopRegion(audioState.loopStart, audioState.loopEnd) ? { start: audioState.loopStart, end: audioState.loopEnd } : null);
+    if (!region) return null;
+    
+    const startX = getPositionX(region.start);
+    const endX = getPositionX(region.end);
+    const top = getStringY(topString) - 20;
+    const bottom = getStringY(0) + 20;
+    const opacity = audioState.isLooping || loopDrag ? 1 : 0.4;
+    const pieces = systems
+      ? systems
+          .filter(system => endX > system.startX && startX < system.endX)
+          .map(system => ({
+            x1: Math.max(startX, system.startX) + systems[0].startX - system.startX,
+            x2: Math.min(endX, system.endX) + systems[0].startX - system.startX,
+            offsetY: system.offsetY,
+            first: startX >= system.startX,
+            last: endX <= system.endX
+          }))
+      : [{ x1: startX, x2: endX, offsetY: 0, first: true, last: true }];
+    
+    return (
+      <g className="loop-region" opacity={opacity} pointerEvents="none">
+        {pieces.map(piece => (
+          <g key={`loop-${piece.offsetY}`} transform={piece.offsetY ? `translate(0, ${piece.offsetY})` : undefined}>
+            <rect
+              x={piece.x1}
+              y={top}
+              width={piece.x2 - piece.x1}
+              height={bottom - top}
+              fill={theme.tab.playhead}
+              opacity="0.12"
+            />
+            {piece.first && (
+              <>
+                <line x1={piece.x1} y1={top} x2={piece.x1} y2={bottom} stroke={theme.tab.playhead} strokeWidth="2" />
+                <text x={piece.x1 + 4} y={top + 12} fontSize="11" fontWeight="bold" fill={theme.tab.playhead}>A</text>
+              </>
+            )}
+            {piece.last && (
+              <>
+                <line x1={piece.x2} y1={top} x2={piece.x2} y2={bottom} stroke={theme.tab.playhead} strokeWidth="2" />
+                <text x={piece.x2 - 4} y={top + 12} fontSize="11" fontWeight="bold" textAnchor="end" fill={theme.tab.playhead}>B</text>
+              </>
+            )}
+          </g>
+        ))}
+      </g>
+    );
+  };
+
+  const renderSectionLane = () => (
+    <g className="section-lane">
+      {sections.map(marker => {
+        const slot = getMarkerSlot(marker, slotsPerMeasure);
+        if (isBeingEdited(marker.kind, slot)) return null;
+        const position = timeSlotToMusicalPosition(slot);
+        const x = getPositionX(position) - (marker.measure ? 0 : 6);
+        
+        return marker.kind === 'section' ? (
+          <g key={`section-${slot}`} className="section-mark" transform={getSystemTransform(position)}>
+            <rect
+              x={x - 4}
+              y={SECTION_LANE_BASELINE - 15}
+              width={marker.text.length * 9 + 8}
+              height={20}
+              fill="none"
+              stroke={theme.text.primary}
+              strokeWidth="1.5"
+            />
+            <text x={x} y={SECTION_LANE_BASELINE} fontSize="14" fontWeight="bold" fill={theme.text.primary}>
+              {marker.text}
+            </text>
+          </g>
+        ) : (
+          <text
+            key={`text-${slot}`}
+            className="text-annotation"
+            transform={getSystemTransform(position)}
+            x={x}
+            y={SECTION_LANE_BASELINE}
+            fontSize="13"
+            fontStyle="italic"
+            fill={theme.text.secondary}
+          >
+            {marker.text}
+          </text>
+        );
+      })}
+    </g>
+  );
+
+  const renderLyricLine = (verse: number) => {
+    const syllables = getVerseSyllables(lyrics, verse);
+    const y = getStringY(0) + LYRIC_LINE_OFFSET + verse * LYRIC_LINE_HEIGHT;
+    const activeIndex = playbackSlot === null ? -1 : findActiveIndex(syllables, playbackSlot);
+    
+    return (
+      <g key={`lyrics-${verse}`} className="lyric-line">
+        {syllables.map((syllable, index) => {
+          if (isBeingEdited('lyric', syllable.slot, verse)) return null;
+          const position = timeSlotToMusicalPosition(syllable.slot);
+          const x = getPositionX(position);
+          const next = syllables[index + 1];
+          const hyphenated = syllable.text.endsWith('-');
+          const text = hyphenated ? syllable.text.slice(0, -1) : syllable.text;
+          const textEndX = x + text.length * 3.5; // Rough half-width of the centred text
+          const fill = getKaraokeFill(index, activeIndex);
+          
+          // Hyphen halfway to the next syllable, or just after this one when that starts a new line
+          const nextPosition = next ? timeSlotToMusicalPosition(next.slot) : null;
+          const hyphenX = nextPosition !== null && getSystemOffset(nextPosition).y === getSystemOffset(position).y
+            ? (x + getPositionX(nextPosition)) / 2
+            : textEndX + 6;
+          const extenderEndX = syllable.extender
+            ? getPositionX(timeSlotToMusicalPosition(getExtenderEndSlot(syllable, next, stackSlots))) + 8
+            : textEndX;
+          
+          return (
+            <g key={`lyric-${verse}-${syllable.slot}`} className="lyric-syllable" transform={getSystemTransform(position)}>
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                fontSize="13"
+                fontWeight={index === activeIndex ? 'bold' : 'normal'}
+                fill={fill}
+              >
+                {text}
+              </text>
+              {hyphenated && (
+                <text x={hyphenX} y={y} textAnchor="middle" fontSize="13" fill={fill}>-</text>
+              )}
+              {extenderEndX > textEndX + 4 && (
+                <line x1={textEndX + 2} y1={y + 2} x2={extenderEndX} y2={y + 2} stroke={fill} strokeWidth="1" />
+              )}
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
+  // Text box over the lane being typed into, on the note's line in page view
+  const renderAnnotationInput = () => {
+    if (!annotationEdit) return null;
+    const position = timeSlotToMusicalPosition(annotationEdit.slot);
+    const offset = getSystemOffset(position);
+    const y = {
+      lyric: getStringY(0) + LYRIC_LINE_OFFSET + selectedVerse * LYRIC_LINE_HEIGHT,
+      chord: getStringY(topString) - CHORD_LANE_OFFSET,
+      section: SECTION_LANE_BASELINE,
+      text: SECTION_LANE_BASELINE
+    }[annotationEdit.lane];
+    const placeholder = {
+      lyric: `Verse ${selectedVerse + 1}`,
+      chord: 'Chord',
+      section: 'Section',
+      text: 'Text'
+    }[annotationEdit.lane];
+    
+    return (
+      <input
+        className="annotation-input"
+        autoFocus
+        value={annotationEdit.text}
+        placeholder={placeholder}
+        onChange={(e) => setAnnotationEdit({ ...annotationEdit, text: e.target.value })}
+        onKeyDown={handleAnnotationKeyDown}
+        onBlur={handleAnnotationBlur}
+        style={{
+          position: 'absolute',
+          left: getPositionX(position) + offset.x - 40,
+          top: y + offset.y - 17,
+          width: 80,
+          fontSize: '13px',
+          textAlign: 'center',
+          userSelect: 'text'
+        }}
+      />
+    );
+  };
+
   // === Main Render ===
   return (
     <div 
@@ -345,6 +1481,131 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
         <button onClick={() => setZoom(Math.max(0.25, zoom - 0.25))}>−</button>
         <span>{Math.round(zoom * 100)}%</span>
         <button onClick={() => setZoom(Math.min(4.0, zoom + 0.25))}>+</button>
+        <button
+          onClick={togglePageView}
+          aria-pressed={pageView}
+          title={pageView ? 'Show as a single row' : 'Wrap lines to fit the window'}
+          style={{ marginLeft: '12px' }}
+        >
+          Page view
+        </button>
+        <button
+          onClick={toggleStaff}
+          aria-pressed={showStaff}
+          title={showStaff ? 'Hide the notation staff' : 'Show a standard-notation staff above the tab'}
+          style={{ marginLeft: '8px' }}
+        >
+          Staff
+        </button>
+        <select
+          defaultValue=""
+          onChange={handleStructureChange}
+          disabled={!tab.some((stack: NoteStack) => stack.musicalPosition === currentPosition)}
+          title="Add a repeat, ending or D.C./D.S. marker to the measure at the cursor"
+          style={{ marginLeft: '12px' }}
+        >
+          <option value="" disabled>Repeats & markers…</option>
+          {STRUCTURE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          defaultValue=""
+          onChange={handleTransposeChange}
+          disabled={tab.length === 0}
+          title="Transpose the selected notes (or the whole tab) and re-solve their strings and frets"
+          style={{ marginLeft: '12px' }}
+        >
+          <option value="" disabled>Transpose…</option>
+          {TRANSPOSE_OPTIONS.map(option => (
+            <option key={option.semitones} value={option.semitones}>{option.label}</option>
+          ))}
+          {Object.values(INSTRUMENT_PROFILES)
+            .filter(profile => profile.id !== instrument.id)
+            .map(profile => (
+              <option key={profile.id} value={`refinger:${profile.id}`}>Refinger for {profile.name}</option>
+            ))}
+        </select>
+        <select
+          value={instrument.id}
+          onChange={(e) => {
+            editor.setInstrument(INSTRUMENT_PROFILES[e.target.value]);
+            tabViewerRef.current?.focus();
+          }}
+          title="Instrument the tab is written for - its strings and tuning"
+          style={{ marginLeft: '12px' }}
+        >
+          {Object.values(INSTRUMENT_PROFILES).map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <select
+          value={instrument.fretMap.id}
+          onChange={(e) => {
+            editor.setFretMap(e.target.value);
+            tabViewerRef.current?.focus();
+          }}
+          title="Fret layout of the instrument - which frets exist and what they play"
+          style={{ marginLeft: '12px' }}
+        >
+          {Object.values(FRET_MAPS).map(fretMap => (
+            <option key={fretMap.id} value={fretMap.id}>{fretMap.name}</option>
+          ))}
+        </select>
+        <select
+          defaultValue=""
+          onChange={handleSectionChange}
+          disabled={sectionRanges.length === 0}
+          title="Jump to a section, or loop it (m adds a rehearsal mark, t a text note, Page Up/Down move between sections)"
+          style={{ marginLeft: '12px' }}
+        >
+          <option value="" disabled>Sections…</option>
+          <optgroup label="Go to">
+            {sectionRanges.map((range, index) => (
+              <option key={`go-${range.start}`} value={`go:${index}`}>{range.marker.text}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Loop">
+            {sectionRanges.map((range, index) => (
+              <option key={`loop-${range.start}`} value={`loop:${index}`}>Loop {range.marker.text}</option>
+            ))}
+          </optgroup>
+        </select>
+        <button
+          onClick={() => {
+            applyLoopRegion(getSelectionLoopRegion(tab, state.selection));
+            tabViewerRef.current?.focus();
+          }}
+          disabled={state.selection.length === 0}
+          title="Loop the selected notes (or drag across the tab to set an A/B loop)"
+          style={{ marginLeft: '12px' }}
+        >
+          Loop selection
+        </button>
+        <button
+          onClick={() => {
+            setLoopPoints(0, 0);
+            tabViewerRef.current?.focus();
+          }}
+          disabled={!hasLoopRegion(audioState.loopStart, audioState.loopEnd)}
+          title="Clear the A/B loop so looping repeats the whole tab"
+          style={{ marginLeft: '8px' }}
+        >
+          Clear loop
+        </button>
+        <select
+          value={selectedVerse}
+          onChange={(e) => {
+            setSelectedVerse(Number(e.target.value));
+            tabViewerRef.current?.focus();
+          }}
+          title="Verse line that lyric entry (l) writes to - c enters a chord name"
+          style={{ marginLeft: '12px' }}
+        >
+          {Array.from({ length: Math.max(verseCount, selectedVerse) + 1 }, (_, verse) => (
+            <option key={verse} value={verse}>Verse {verse + 1}</option>
+          ))}
+        </select>
         <span style={{ marginLeft: '20px', fontSize: '12px', color: '#666' }}>
           BPM: {bpm} | Position: {currentPosition} ticks
         </span>
@@ -354,40 +1615,52 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
       <div 
         ref={tabDisplayRef}
         className="tab-display"
-        style={{ overflow: 'auto', maxHeight: '500px' }}
+        style={{ overflow: 'auto', maxHeight: '500px', position: 'relative' }}
       >
         <svg
           ref={svgRef}
-          width={layout.totalWidth}
-          height={layout.totalHeight}
+          width={svgWidth}
+          height={svgHeight}
           onClick={handleSvgClick}
+          onMouseDown={handleSvgMouseDown}
+          onMouseMove={handleSvgMouseMove}
+          onMouseUp={handleSvgMouseUp}
+          onMouseLeave={handleSvgMouseUp}
           style={{ cursor: 'pointer' }}
         >
-          {/* String Lines */}
-          {stringIndices.map((stringIndex) => {
-            const y = getStringY(stringIndex);
+          {/* A/B loop region - drag across the tab to set it */}
+          {renderLoopRegion()}
+
+          {/* Rehearsal marks and text annotations */}
+          {renderSectionLane()}
+
+          {/* Standard-notation staff above the tab */}
+          {renderNotationStaff()}
+
+          {/* String Lines - one set per line in page view */}
+          {(systems ?? [null]).map((system) => stringIndices.map((stringIndex) => {
+            const y = getStringY(stringIndex) + (system?.offsetY ?? 0);
             
             return (
               <line
-                key={`string-${stringIndex}`}
+                key={`string-${system?.index ?? 0}-${stringIndex}`}
                 x1={layout.leftMargin}
                 y1={y}
-                x2={layout.totalWidth - layout.rightMargin}
+                x2={svgWidth - layout.rightMargin}
                 y2={y}
                 stroke={theme.tab.stringLine}
                 strokeWidth="2"
               />
             );
-          })}
+          }))}
 
           {/* String Labels */}
-          {stringIndices.map((stringIndex) => {
-            const displayIndex = stringIndices.indexOf(stringIndex);
-            const y = getStringY(stringIndex);
+          {(systems ?? [null]).map((system) => stringIndices.map((stringIndex) => {
+            const y = getStringY(stringIndex) + (system?.offsetY ?? 0);
             
             return (
               <text
-                key={`label-${stringIndex}`}
+                key={`label-${system?.index ?? 0}-${stringIndex}`}
                 x={layout.leftMargin - 20}
                 y={y + 5}
                 textAnchor="middle"
@@ -395,21 +1668,22 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
                 fontWeight="bold"
                 fill={theme.tab.stringLabel}
               >
-                {stringLabels[displayIndex]}
+                {instrument.stringNames[stringIndex]}
               </text>
             );
-          })}
+          }))}
 
           {/* Measure Lines */}
           {measureLines.map((position) => {
             const x = getPositionX(position);
-            const topY = getStringY(2) - 10;
+            const topY = getStringY(topString) - 10;
             const bottomY = getStringY(0) + 10;
             
             return (
               <line
                 key={`measure-${position}`}
                 className="measure-line"
+                transform={getSystemTransform(position)}
                 x1={x}
                 y1={topY}
                 x2={x}
@@ -421,6 +1695,21 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
             );
           })}
 
+          {/* Repeats, Endings and Navigation Markers */}
+          {tab.map((stack: NoteStack) => renderStructure(stack))}
+
+          {/* Chord Names */}
+          {renderChordLane()}
+
+          {/* Beams */}
+          {tabBeams.groups.map(renderTabBeam)}
+
+          {/* Tuplet Brackets */}
+          {findTupletGroups(tab).map(renderTupletBracket)}
+
+          {/* Lyrics - one line per verse */}
+          {Array.from({ length: verseCount }, (_, verse) => renderLyricLine(verse))}
+
           {/* NoteStacks - Render vertical stacks of notes */}
           {tab.map((stack: NoteStack) => {
             const stackX = getPositionX(stack.musicalPosition);
@@ -428,14 +1717,14 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
             const visual = DURATION_VISUALS[stack.duration];
             
             return (
-              <g key={stack.id} className="note-stack">
+              <g key={stack.id} className="note-stack" transform={getSystemTransform(stack.musicalPosition)}>
                 {/* Stack selection highlight */}
                 {isSelected && (
                   <rect
                     x={stackX - 20}
-                    y={getStringY(2) - 20}
+                    y={getStringY(topString) - 20}
                     width={40}
-                    height={getStringY(0) - getStringY(2) + 40}
+                    height={getStringY(0) - getStringY(topString) + 40}
                     fill="none"
                     stroke={theme.tab.selection}
                     strokeWidth="2"
@@ -476,7 +1765,9 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
                         strokeWidth="2"
                       />
                       
-                      {renderNoteStem(stack.duration, stackX, y, note.string)}
+                      {!tabBeams.beamedStacks.has(stack.id) && renderNoteStem(stack.duration, stackX, y, note.string)}
+                      
+                      {note.technique && renderTechnique(stack, note.technique, note.fret, note.string, stackX, y)}
                       
                       <text
                         x={stackX}
@@ -486,7 +1777,7 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
                         fontWeight="bold"
                         fill={noteStyle.text}
                       >
-                        {note.fret}
+                        {formatFret(note.fret)}
                       </text>
                     </g>
                   );
@@ -496,10 +1787,10 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
           })}
 
           {/* Cursor Position */}
-          <g className="current-position">
+          <g className="current-position" transform={getSystemTransform(currentPosition)}>
             <line
               x1={getCursorPosition().x}
-              y1={getStringY(2) - 15}
+              y1={getStringY(topString) - 15}
               x2={getCursorPosition().x}
               y2={getStringY(0) + 15}
               stroke={theme.tab.cursor}
@@ -520,8 +1811,9 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
           {/* Playback Position */}
           {audioState.isPlaying && currentPosition !== undefined && (
             <line
+              transform={getSystemTransform(currentPosition)}
               x1={getPositionX(currentPosition)}
-              y1={getStringY(2) - 15}
+              y1={getStringY(topString) - 15}
               x2={getPositionX(currentPosition)}
               y2={getStringY(0) + 15}
               stroke={theme.tab.playhead}
@@ -530,6 +1822,8 @@ const TabViewer = forwardRef<TabViewerRef, TabViewerProps>(({ editor }, ref) =>
             />
           )}
         </svg>
+        
+        {renderAnnotationInput()}
       </div>
     </div>
   );
@@ -1,4 +1,24 @@
 import * as Tone from 'tone';
+import type { Technique, InstrumentProfile } from '../types/notestack';
+import { LEGATO_TECHNIQUES, DEFAULT_INSTRUMENT, getNotePitch } from '../types/notestack';
+import { canContinueVoice } from './legato';
+
+// One sounding note: the picked string layer, its body resonance and any vibrato
+interface Voice {
+  synth: Tone.Synth;
+  bodyResonance: Tone.Synth;
+  vibrato?: Tone.LFO;
+  releaseAt: number; // When the note stops being held and its release begins
+  cleanupTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Technique timing (seconds) and depth
+const SLIDE_TIME = 0.08;
+const BEND_DELAY = 0.05;
+const BEND_TIME = 0.15;
+const BEND_SEMITONES = 2; // Full (whole-step) bend
+const VIBRATO_RATE = 5.5; // Hz
+const VIBRATO_DEPTH = 25; // Cents either side
 
 /**
  * Guitar-like synthesizer that simulates picked string sounds
@@ -13,9 +33,16 @@ export class GuitarSynth {
   private distortion: Tone.Distortion | null = null;
   private limiter: Tone.Limiter | null = null;
   
+  // Metronome click voice - dry, straight into the limiter
+  private clickSynth: Tone.Synth | null = null;
+  
   // Voice management
   private readonly MAX_VOICES = 8; // Limit concurrent notes
-  private activeVoices: Map<string, {synth: Tone.Synth, bodyResonance: Tone.Synth}> = new Map();
+  private activeVoices: Map<string, Voice> = new Map();
+  private stringVoices: Map<number, string> = new Map(); // Latest voice on each string, for legato
+  
+  // Instrument being played: its strings, tuning and fretboard
+  private instrument: InstrumentProfile = DEFAULT_INSTRUMENT;
   
   private constructor() {}
 
@@ -51,6 +78,12 @@ export class GuitarSynth {
       this.reverb.connect(this.limiter);
       this.limiter.toDestination();
       
+      this.clickSynth = new Tone.Synth({
+        oscillator: { type: 'square' },
+        envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 }
+      });
+      this.clickSynth.connect(this.limiter);
+      
       this.isInitialized = true;
       console.log('🎸 GuitarSynth initialized with shared effects');
     } catch (error) {
@@ -59,20 +92,10 @@ export class GuitarSynth {
   }
 
   /**
-   * Map fret numbers to semitones using diatonic scale
-   * 0-D, 1-E, 2-F#, 3-G, 4-A, 5-B, 6-C, 7-C#, 8-D (octave), etc.
+   * Set the instrument whose strings and frets notes are played on
    */
-  private getSemitones(fret: number): number {
-    // First octave mapping (diatonic scale)
-    const firstOctaveMap = [0, 2, 4, 5, 7, 9, 10, 11];
-    // Calculate which octave we're in
-    const octave = Math.floor(fret / 8);
-    // Get the position within the octave  
-    const position = fret % 8;
-    // Get the semitones for this position
-    const semitones = firstOctaveMap[position];
-    // Add 12 semitones for each octave
-    return semitones + (octave * 12);
+  public setInstrument(instrument: InstrumentProfile): void {
+    this.instrument = instrument;
   }
 
   /**
@@ -90,20 +113,80 @@ export class GuitarSynth {
     const voice = this.activeVoices.get(oldestKey);
     
     if (voice) {
-      // Fade out quickly to avoid clicks
-      voice.synth.triggerRelease();
-      voice.bodyResonance.triggerRelease();
-      
-      // Clean up after short delay
-      setTimeout(() => {
-        voice.synth.dispose();
-        voice.bodyResonance.dispose();
-      }, 100);
-      
+      this.releaseVoice(voice);
       this.activeVoices.delete(oldestKey);
     }
   }
 
+  /**
+   * Fade a voice out quickly (avoiding clicks) and dispose it
+   */
+  private releaseVoice(voice: Voice): void {
+    clearTimeout(voice.cleanupTimer);
+    voice.synth.triggerRelease();
+    voice.bodyResonance.triggerRelease();
+    
+    // Clean up after short delay
+    setTimeout(() => {
+      voice.synth.dispose();
+      voice.bodyResonance.dispose();
+      voice.vibrato?.dispose();
+    }, 100);
+  }
+
+  /**
+   * Dispose a voice once its note and release tail are over
+   * Rescheduled when a legato note keeps the voice sounding
+   */
+  private scheduleCleanup(voiceKey: string, voice: Voice, duration: Tone.Unit.Time): void {
+    clearTimeout(voice.cleanupTimer);
+    
+    const cleanupTime = Tone.Time(duration).toSeconds() + 3; // Add release time
+    voice.cleanupTimer = setTimeout(() => {
+      if (this.activeVoices.has(voiceKey)) {
+        voice.synth.dispose();
+        voice.bodyResonance.dispose();
+        voice.vibrato?.dispose();
+        this.activeVoices.delete(voiceKey);
+      }
+    }, cleanupTime * 1000);
+  }
+
+  /**
+   * Carry the note still sounding on a string to a new pitch without re-picking
+   * Slides glide, hammer-ons and pull-offs change pitch at once
+   * Returns false when the string's last note has already been released, so the note is picked normally
+   */
+  private continueVoice(
+    stringIndex: number,
+    note: string,
+    duration: Tone.Unit.Time,
+    technique: Technique
+  ): boolean {
+    const voiceKey = this.stringVoices.get(stringIndex);
+    const voice = voiceKey ? this.activeVoices.get(voiceKey) : undefined;
+    const now = Tone.now();
+    // Voices linger through their release tail, but only a held note can be continued
+    if (!voiceKey || !voice || !canContinueVoice(voice.releaseAt, now)) return false;
+    
+    const frequency = Tone.Frequency(note).toFrequency();
+    voice.releaseAt = now + Tone.Time(duration).toSeconds();
+    
+    [voice.synth, voice.bodyResonance].forEach(layer => {
+      // Hold the string through the previous note's release, then release at the new end
+      layer.envelope.cancel(now);
+      if (technique === 'slide') {
+        layer.frequency.rampTo(frequency, SLIDE_TIME, now);
+      } else {
+        layer.frequency.setValueAtTime(frequency, now);
+      }
+      layer.triggerRelease(voice.releaseAt);
+    });
+    
+    this.scheduleCleanup(voiceKey, voice, duration);
+    return true;
+  }
+
   /**
    * Create a unique voice key for tracking
    */
@@ -113,30 +196,38 @@ export class GuitarSynth {
 
   /**
    * Play a single note with voice management
+   * Hammer-ons, pull-offs and slides continue the note sounding on the string instead of re-picking
    */
   public async playNote(
     fret: number, 
     stringIndex: number, 
     duration: Tone.Unit.Time = "2n",
-    velocity: number = 0.7
+    velocity: number = 0.7,
+    technique?: Technique
   ): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     // Validate inputs
-    if (stringIndex < 0 || stringIndex > 2 || fret < 0 || fret > 12) {
+    const pitch = getNotePitch(fret, stringIndex, this.instrument);
+    if (pitch === null) {
       console.warn(`Invalid note: string ${stringIndex}, fret ${fret}`);
       return;
     }
 
+    // Calculate note
+    const note = Tone.Frequency(pitch, 'midi').toNote();
+    
+    if (technique && LEGATO_TECHNIQUES.includes(technique) && this.continueVoice(stringIndex, note, duration, technique)) {
+      console.log(`🎸 Legato (${technique}): String ${stringIndex}, Fret ${fret} -> ${note}`);
+      return;
+    }
+
     // Voice stealing if at limit
     if (this.activeVoices.size >= this.MAX_VOICES) {
       this.stealVoice();
     }
-
-    const baseNotes = ['D3', 'A3', 'D4'];
-    const baseNote = baseNotes[stringIndex];
     
     // Create new voice using shared effects
     const synth = new Tone.Synth({
@@ -163,13 +254,11 @@ export class GuitarSynth {
       }
     }).connect(this.reverb!);
     
-    // Calculate note
-    const semitones = this.getSemitones(fret);
-    const note = Tone.Frequency(baseNote).transpose(semitones).toNote();
-    
     // Create voice key and track it
     const voiceKey = this.getVoiceKey(fret, stringIndex);
-    this.activeVoices.set(voiceKey, { synth, bodyResonance });
+    const voice: Voice = { synth, bodyResonance, releaseAt: Tone.now() + Tone.Time(duration).toSeconds() };
+    this.activeVoices.set(voiceKey, voice);
+    this.stringVoices.set(stringIndex, voiceKey);
     
     console.log(`🎸 Playing: String ${stringIndex}, Fret ${fret} -> ${note} (${this.activeVoices.size}/${this.MAX_VOICES} voices)`);
     
@@ -186,15 +275,19 @@ export class GuitarSynth {
       }
     }, 5);
     
+    if (technique === 'bend') {
+      // Push the string up after the pick
+      const bentFrequency = Tone.Frequency(note).transpose(BEND_SEMITONES).toFrequency();
+      synth.frequency.rampTo(bentFrequency, BEND_TIME, Tone.now() + BEND_DELAY);
+      bodyResonance.frequency.rampTo(bentFrequency, BEND_TIME, Tone.now() + BEND_DELAY);
+    } else if (technique === 'vibrato') {
+      voice.vibrato = new Tone.LFO(VIBRATO_RATE, -VIBRATO_DEPTH, VIBRATO_DEPTH).start();
+      voice.vibrato.connect(synth.detune);
+      voice.vibrato.connect(bodyResonance.detune);
+    }
+    
     // Clean up voice after note ends
-    const cleanupTime = Tone.Time(duration).toSeconds() + 3; // Add release time
-    setTimeout(() => {
-      if (this.activeVoices.has(voiceKey)) {
-        synth.dispose();
-        bodyResonance.dispose();
-        this.activeVoices.delete(voiceKey);
-      }
-    }, cleanupTime * 1000);
+    this.scheduleCleanup(voiceKey, voice, duration);
   }
 
   /**
@@ -227,23 +320,24 @@ export class GuitarSynth {
     await this.playNote(fret, stringIndex, "16n", 0.4);
   }
 
+  /**
+   * Play a metronome click at a transport-scheduled time (or now)
+   */
+  public playClick(frequency: number, velocity: number, time?: Tone.Unit.Time): void {
+    if (!this.clickSynth || velocity <= 0) return;
+    this.clickSynth.triggerAttackRelease(frequency, 0.03, time, Math.min(1, velocity));
+  }
+
   /**
    * Emergency stop all voices
    */
   public stopAllVoices(): void {
     console.log(`🛑 Stopping ${this.activeVoices.size} active voices`);
     
-    this.activeVoices.forEach((voice) => {
-      voice.synth.triggerRelease();
-      voice.bodyResonance.triggerRelease();
-      
-      setTimeout(() => {
-        voice.synth.dispose();
-        voice.bodyResonance.dispose();
-      }, 100);
-    });
+    this.activeVoices.forEach((voice) => this.releaseVoice(voice));
     
     this.activeVoices.clear();
+    this.stringVoices.clear();
   }
 
   /**
@@ -274,6 +368,10 @@ export class GuitarSynth {
       this.distortion.dispose();
       this.distortion = null;
     }
+    if (this.clickSynth) {
+      this.clickSynth.dispose();
+      this.clickSynth = null;
+    }
     if (this.limiter) {
       this.limiter.dispose();
       this.limiter = null;
@@ -9,9 +9,11 @@ import {
   initialAudioState,
   calculateSequenceDuration,
   getStackAtPosition,
-  validateNoteStacks
+  validateNoteStacks,
+  removeUnplayableNotes
 } from './audioEngine'
 import type { NoteStack, Duration } from '../types/notestack'
+import { FRET_MAPS, INSTRUMENT_PROFILES, DEFAULT_INSTRUMENT, withFretMap } from '../types/notestack'
 
 describe('Audio Engine Pure Functions', () => {
   describe('ticksToTransportTime', () => {
@@ -22,6 +24,11 @@ describe('Audio Engine Pure Functions', () => {
       expect(ticksToTransportTime(3840)).toBe('1:0:0') // 1 measure
       expect(ticksToTransportTime(4800)).toBe('1:1:0') // 1 measure + 1 quarter
     })
+
+    test('keeps fractional sixteenths for tuplets', () => {
+      expect(ticksToTransportTime(320)).toBe('0:0:1.3333') // 2nd note of an eighth-note triplet
+      expect(ticksToTransportTime(1120)).toBe('0:1:0.6667')
+    })
   })
 
   describe('fretToNoteName', () => {
@@ -52,6 +59,23 @@ describe('Audio Engine Pure Functions', () => {
       expect(() => fretToNoteName(-1, 0)).toThrow('Invalid fret')
       expect(() => fretToNoteName(13, 0)).toThrow('Invalid fret')
     })
+
+    test('uses the half-frets of a fret map', () => {
+      const halfFrets = withFretMap(DEFAULT_INSTRUMENT, FRET_MAPS['half-frets'])
+      expect(fretToNoteName(6, 0, halfFrets)).toBe('C4')
+      expect(fretToNoteName(6.5, 0, halfFrets)).toBe('C#4')
+      expect(fretToNoteName(13.5, 0, halfFrets)).toBe('C#5')
+      expect(() => fretToNoteName(6.5, 0)).toThrow('Invalid fret')
+    })
+
+    test('follows the instrument profile tuning, strings and range', () => {
+      expect(fretToNoteName(0, 1, INSTRUMENT_PROFILES['strumstick-dgd'])).toBe('G3')
+      expect(fretToNoteName(4, 3, INSTRUMENT_PROFILES['dulcimer-4'])).toBe('A4')
+      expect(() => fretToNoteName(4, 3)).toThrow('Invalid string index')
+
+      const shortNeck = { ...DEFAULT_INSTRUMENT, maxFret: 10 }
+      expect(() => fretToNoteName(11, 0, shortNeck)).toThrow('Invalid fret')
+    })
   })
 
   describe('durationToToneNotation', () => {
@@ -161,6 +185,39 @@ describe('Audio Engine Pure Functions', () => {
       const state2 = audioReducer(state1, { type: 'TOGGLE_LOOP' })
       expect(state2.isLooping).toBe(false)
     })
+
+    test('steps the tempo trainer once per loop repetition', () => {
+      const looping = { ...initialAudioState, isLooping: true }
+      const started = audioReducer(looping, {
+        type: 'START_TEMPO_TRAINER',
+        payload: { startBpm: 80, targetBpm: 90, increment: 5, repsPerStep: 1, pauseSeconds: 0 }
+      })
+      expect(started.tempo).toBe(80)
+
+      const stepped = audioReducer(audioReducer(started, { type: 'TEMPO_TRAINER_REP' }), { type: 'TEMPO_TRAINER_REP' })
+      expect(stepped.tempo).toBe(90)
+      expect(stepped.tempoTrainer?.completedReps).toBe(2)
+
+      // Turning the loop off ends the trainer at its current tempo
+      const stopped = audioReducer(stepped, { type: 'TOGGLE_LOOP' })
+      expect(stopped.tempoTrainer).toBeNull()
+      expect(stopped.tempo).toBe(90)
+    })
+
+    test('handles SET_METRONOME action with clamping', () => {
+      const state = audioReducer(initialAudioState, { type: 'SET_METRONOME', payload: { enabled: true, volume: 1.4, subdivisions: 0 } })
+      expect(state.metronome).toEqual({ ...initialAudioState.metronome, enabled: true, volume: 1, subdivisions: 1 })
+    })
+
+    test('keeps the backing track mix when a new recording is loaded', () => {
+      const loaded = audioReducer(initialAudioState, { type: 'SET_BACKING_TRACK', payload: 'lesson.mp3' })
+      const mixed = audioReducer(loaded, { type: 'SET_BACKING_TRACK_MIX', payload: { volume: 1.5, muted: true } })
+      expect(mixed.backingTrack).toEqual({ name: 'lesson.mp3', volume: 1, muted: true })
+
+      const replaced = audioReducer(mixed, { type: 'SET_BACKING_TRACK', payload: 'take2.wav' })
+      expect(replaced.backingTrack).toEqual({ name: 'take2.wav', volume: 1, muted: true })
+      expect(audioReducer(replaced, { type: 'SET_BACKING_TRACK', payload: null }).backingTrack).toBeNull()
+    })
   })
 
   describe('calculateSequenceDuration', () => {
@@ -217,6 +274,7 @@ describe('Audio Engine Pure Functions', () => {
         { id: '1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 3, fret: 0 }] }
       ]
       expect(() => validateNoteStacks(invalidStacks)).toThrow('Invalid string')
+      expect(() => validateNoteStacks(invalidStacks, INSTRUMENT_PROFILES['dulcimer-4'])).not.toThrow()
     })
 
     test('throws error for invalid fret', () => {
@@ -226,4 +284,29 @@ describe('Audio Engine Pure Functions', () => {
       expect(() => validateNoteStacks(invalidStacks)).toThrow('Invalid fret')
     })
   })
+
+  describe('removeUnplayableNotes', () => {
+    test('leaves out notes off the fretboard but keeps their stacks', () => {
+      const stacks: NoteStack[] = [
+        { id: '1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 6.5 }, { string: 1, fret: 2 }] },
+        { id: '2', musicalPosition: 960, duration: 'quarter', notes: [{ string: 3, fret: 0 }], repeatEnd: { jumpToStackId: '1' } }
+      ]
+
+      const { stacks: playable, skipped } = removeUnplayableNotes(stacks)
+
+      expect(skipped).toBe(2)
+      expect(playable[0].notes).toEqual([{ string: 1, fret: 2 }])
+      expect(playable[1]).toEqual({ ...stacks[1], notes: [] })
+    })
+
+    test('returns the same stacks when every note plays', () => {
+      const stacks: NoteStack[] = [
+        { id: '1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 6.5 }] }
+      ]
+      const halfFrets = withFretMap(DEFAULT_INSTRUMENT, FRET_MAPS['half-frets'])
+
+      expect(removeUnplayableNotes(stacks, halfFrets)).toEqual({ stacks, skipped: 0 })
+      expect(removeUnplayableNotes(stacks, halfFrets).stacks).toBe(stacks)
+    })
+  })
 }) 
\ No newline at end of file
@@ -2,7 +2,14 @@
 // Handles all audio logic through pure functions
 
 import * as Tone from 'tone'
-import type { NoteStack, Duration } from '../types/notestack'
+import type { NoteStack, Duration, InstrumentProfile } from '../types/notestack'
+import { getStackTicks, getNotePitch, isValidString, formatFret, DEFAULT_INSTRUMENT } from '../types/notestack'
+import { midiNoteToName } from './midiImport'
+import { normalizeTrainerSettings, getTrainerProgress } from './tempoTrainer'
+import type { TempoTrainerSettings, TempoTrainerState } from './tempoTrainer'
+import { DEFAULT_METRONOME } from './metronome'
+import type { MetronomeSettings } from './metronome'
+import type { BackingTrackSettings } from './backingTrack'
 
 // ===============================
 // PURE CONVERSION FUNCTIONS
@@ -12,49 +19,38 @@ import type { NoteStack, Duration } from '../types/notestack'
  * Convert musical ticks to Tone.js transport time notation
  * @param ticks - Musical position in ticks (960 per quarter note)
  * @returns Tone.js time string like "4:2:3" (measures:beats:sixteenths)
+ *          Tuplet positions give fractional sixteenths, e.g. "0:0:1.3333"
  */
 export const ticksToTransportTime = (ticks: number): string => {
   const measures = Math.floor(ticks / 3840) // 3840 ticks per measure in 4/4
   const beats = Math.floor((ticks % 3840) / 960) // 960 ticks per quarter note
-  const sixteenths = Math.floor((ticks % 960) / 240) // 240 ticks per sixteenth note
+  const sixteenths = Number(((ticks % 960) / 240).toFixed(4)) // 240 ticks per sixteenth note
   return `${measures}:${beats}:${sixteenths}`
 }
 
 /**
  * Convert fret/string to Tone.js note name
- * Uses Tone.js's built-in note name handling instead of manual frequency calculation
- * @param fret - Fret number (0-24)
- * @param string - String index (0=Low D, 1=A, 2=Hi D)
+ * Pitched from the instrument's open strings and fret map
+ * @param fret - Fret number, half-frets as x.5 (e.g. 6.5 for the 6½ fret)
+ * @param string - String index (0 = lowest string)
+ * @param instrument - Instrument profile, defaults to the DAd strumstick (String 0 = D3, 1 = A3, 2 = D4)
  * @returns Tone.js note name like "D3", "A#4", etc.
  */
-export const fretToNoteName = (fret: number, string: number): string => {
-  if (string < 0 || string > 2) {
-    throw new Error(`Invalid string index: ${string}. Must be 0, 1, or 2`)
+export const fretToNoteName = (
+  fret: number,
+  string: number,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): string => {
+  if (!isValidString(string, instrument)) {
+    throw new Error(`Invalid string index: ${string}. ${instrument.name} has ${instrument.stringCount} strings`)
   }
   
-  if (fret < 0 || fret > 12) {
-    throw new Error(`Invalid fret: ${fret}. Must be 0-12`)
+  const pitch = getNotePitch(fret, string, instrument)
+  if (pitch === null) {
+    throw new Error(`Invalid fret: ${formatFret(fret)}. Not on the ${instrument.name} fretboard`)
   }
   
-  // Diatonic strumstick fret-to-note mapping
-  // String 0 = D3 (Low D), String 1 = A3, String 2 = D4 (High D)
-  const fretToNoteMap: Record<number, [string, string, string]> = {
-    0:  ['D3', 'A3', 'D4'],   // Open strings
-    1:  ['E3', 'B3', 'E4'],   // 2nd degree
-    2:  ['F#3', 'C#4', 'F#4'], // 3rd degree
-    3:  ['G3', 'D4', 'G4'],   // 4th degree
-    4:  ['A3', 'E4', 'A4'],   // 5th degree
-    5:  ['B3', 'F#4', 'B4'],  // 6th degree
-    6:  ['C4', 'G4', 'C5'],   // b7th degree
-    7:  ['C#4', 'G#4', 'C#5'], // 7th degree
-    8:  ['D4', 'A4', 'D5'],   // Octave (8th/1st)
-    9:  ['E4', 'B4', 'E5'],   // 9th (2nd)
-    10: ['F#4', 'C#5', 'F#5'], // 10th (3rd)
-    11: ['G4', 'D5', 'G5'],   // 11th (4th)
-    12: ['A4', 'E5', 'A5']    // 12th (5th)
-  }
-  
-  return fretToNoteMap[fret][string]
+  return midiNoteToName(pitch)
 }
 
 /**
@@ -75,20 +71,27 @@ export const durationToToneNotation = (duration: Duration): string => {
 
 /**
  * Convert NoteStack array to Tone.js Part events
- * @param stacks - Array of NoteStack objects
+ * @param stacks - Array of NoteStack objects, optionally unrolled with their written positions
+ * @param instrument - Instrument profile used for the note names
  * @returns Array of Tone.js events with timing and note data
  */
-export const noteStackToToneEvents = (stacks: NoteStack[]) => {
+export const noteStackToToneEvents = (
+  stacks: Array<NoteStack & { writtenPosition?: number }>,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+) => {
   return stacks.map(stack => ({
     time: ticksToTransportTime(stack.musicalPosition),
-    duration: durationToToneNotation(stack.duration),
+    duration: stack.tuplet
+      ? ticksToTransportTime(getStackTicks(stack))
+      : durationToToneNotation(stack.duration),
     notes: stack.notes.map(note => ({
-      noteName: fretToNoteName(note.fret, note.string),
+      noteName: fretToNoteName(note.fret, note.string, instrument),
       string: note.string,
-      fret: note.fret
+      fret: note.fret,
+      technique: note.technique
     })),
     stackId: stack.id,
-    originalPosition: stack.musicalPosition
+    originalPosition: stack.writtenPosition ?? stack.musicalPosition // Where the cursor shows it
   }))
 }
 
@@ -103,8 +106,12 @@ export interface AudioState {
   tempo: number // BPM
   volume: number // 0-1
   isLooping: boolean
-  loopStart: number // in ticks
-  loopEnd: number // in ticks
+  loopStart: number // A/B loop in written ticks; equal points loop the whole tab
+  loopEnd: number // Exclusive
+  tempoTrainer: TempoTrainerState | null // Speed ladder stepping the tempo each loop repetition
+  metronome: MetronomeSettings
+  countInEnabled: boolean // One measure of clicks before playback starts
+  backingTrack: BackingTrackSettings | null // Imported recording mixed with the synth
 }
 
 export const initialAudioState: AudioState = {
@@ -115,7 +122,11 @@ export const initialAudioState: AudioState = {
   volume: 0.7,
   isLooping: false,
   loopStart: 0,
-  loopEnd: 0
+  loopEnd: 0,
+  tempoTrainer: null,
+  metronome: DEFAULT_METRONOME,
+  countInEnabled: false,
+  backingTrack: null
 }
 
 // ===============================
@@ -133,6 +144,16 @@ export type AudioAction =
   | { type: 'TOGGLE_LOOP' }
   | { type: 'SET_LOOP_POINTS'; payload: { start: number; end: number } }
   | { type: 'TRANSPORT_POSITION_UPDATE'; payload: number }
+  | { type: 'START_TEMPO_TRAINER'; payload: TempoTrainerSettings }
+  | { type: 'TEMPO_TRAINER_REP' }
+  | { type: 'STOP_TEMPO_TRAINER' }
+  | { type: 'SET_METRONOME'; payload: Partial<MetronomeSettings> }
+  | { type: 'TOGGLE_COUNT_IN' }
+  | { type: 'SET_BACKING_TRACK'; payload: string | null } // File name, or null to remove it
+  | { type: 'SET_BACKING_TRACK_MIX'; payload: Partial<Omit<BackingTrackSettings, 'name'>> }
+
+// Tempo range playback supports
+const clampTempo = (bpm: number): number => Math.max(60, Math.min(200, bpm))
 
 /**
  * Pure reducer for audio state management
@@ -165,7 +186,7 @@ export const audioReducer = (state: AudioState, action: AudioAction): AudioState
       
     case 'SET_TEMPO':
       // Clamp tempo to reasonable range
-      const clampedTempo = Math.max(60, Math.min(200, action.payload))
+      const clampedTempo = clampTempo(action.payload)
       return { ...state, tempo: clampedTempo }
       
     case 'SET_POSITION':
@@ -179,7 +200,8 @@ export const audioReducer = (state: AudioState, action: AudioAction): AudioState
       return { ...state, volume: clampedVolume }
       
     case 'TOGGLE_LOOP':
-      return { ...state, isLooping: !state.isLooping }
+      // The tempo trainer counts loop repetitions, so it ends with the loop
+      return { ...state, isLooping: !state.isLooping, tempoTrainer: state.isLooping ? null : state.tempoTrainer }
       
     case 'SET_LOOP_POINTS':
       const { start, end } = action.payload
@@ -192,6 +214,60 @@ export const audioReducer = (state: AudioState, action: AudioAction): AudioState
     case 'TRANSPORT_POSITION_UPDATE':
       return { ...state, currentPosition: action.payload }
       
+    case 'START_TEMPO_TRAINER': {
+      const settings = normalizeTrainerSettings(action.payload)
+      return {
+        ...state,
+        tempoTrainer: { settings, completedReps: 0 },
+        tempo: clampTempo(settings.startBpm)
+      }
+    }
+      
+    case 'TEMPO_TRAINER_REP': {
+      if (!state.tempoTrainer) return state
+      const completedReps = state.tempoTrainer.completedReps + 1
+      return {
+        ...state,
+        tempoTrainer: { ...state.tempoTrainer, completedReps },
+        tempo: clampTempo(getTrainerProgress(state.tempoTrainer.settings, completedReps).bpm)
+      }
+    }
+      
+    case 'STOP_TEMPO_TRAINER':
+      return { ...state, tempoTrainer: null }
+      
+    case 'SET_METRONOME': {
+      const metronome = { ...state.metronome, ...action.payload }
+      return {
+        ...state,
+        metronome: {
+          ...metronome,
+          volume: Math.max(0, Math.min(1, metronome.volume)),
+          subdivisions: Math.max(1, Math.round(metronome.subdivisions))
+        }
+      }
+    }
+      
+    case 'TOGGLE_COUNT_IN':
+      return { ...state, countInEnabled: !state.countInEnabled }
+      
+    case 'SET_BACKING_TRACK':
+      return {
+        ...state,
+        backingTrack: action.payload === null
+          ? null
+          : { volume: 0.8, muted: false, ...state.backingTrack, name: action.payload }
+      }
+      
+    case 'SET_BACKING_TRACK_MIX': {
+      if (!state.backingTrack) return state
+      const backingTrack = { ...state.backingTrack, ...action.payload }
+      return {
+        ...state,
+        backingTrack: { ...backingTrack, volume: Math.max(0, Math.min(1, backingTrack.volume)) }
+      }
+    }
+      
     default:
       return state
   }
@@ -211,10 +287,7 @@ export const calculateSequenceDuration = (stacks: NoteStack[]): number => {
   
   // Find the stack with the highest musical position + its duration
   return stacks.reduce((maxEnd, stack) => {
-    const stackEnd = stack.musicalPosition + (stack.duration === 'whole' ? 3840 :
-                     stack.duration === 'half' ? 1920 :
-                     stack.duration === 'quarter' ? 960 :
-                     stack.duration === 'eighth' ? 480 : 240)
+    const stackEnd = stack.musicalPosition + getStackTicks(stack)
     return Math.max(maxEnd, stackEnd)
   }, 0)
 }
@@ -229,12 +302,34 @@ export const getStackAtPosition = (stacks: NoteStack[], position: number): NoteS
   return stacks.find(stack => stack.musicalPosition === position)
 }
 
+/**
+ * Leave out notes the instrument has no string or fret for, so one bad note can't stop playback
+ * Stacks keep their place, duration and markers even when none of their notes remain
+ * @returns The playable stacks and how many notes were left out
+ */
+export const removeUnplayableNotes = (
+  stacks: NoteStack[],
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): { stacks: NoteStack[]; skipped: number } => {
+  let skipped = 0
+  const playable = stacks.map(stack => {
+    const notes = stack.notes.filter(note => getNotePitch(note.fret, note.string, instrument) !== null)
+    skipped += stack.notes.length - notes.length
+    return notes.length === stack.notes.length ? stack : { ...stack, notes }
+  })
+  return { stacks: skipped > 0 ? playable : stacks, skipped }
+}
+
 /**
  * Validate that a NoteStack array is properly formatted
  * @param stacks - Array to validate
+ * @param instrument - Instrument profile the strings and frets must exist on
  * @returns True if valid, throws error if invalid
  */
-export const validateNoteStacks = (stacks: NoteStack[]): boolean => {
+export const validateNoteStacks = (
+  stacks: NoteStack[],
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): boolean => {
   for (const stack of stacks) {
     // Check required fields
     if (!stack.id || typeof stack.musicalPosition !== 'number' || !stack.duration) {
@@ -253,10 +348,10 @@ export const validateNoteStacks = (stacks: NoteStack[]): boolean => {
     
     // Check each note
     for (const note of stack.notes) {
-      if (typeof note.string !== 'number' || note.string < 0 || note.string > 2) {
+      if (typeof note.string !== 'number' || !isValidString(note.string, instrument)) {
         throw new Error(`Invalid string ${note.string} in stack ${stack.id}`)
       }
-      if (typeof note.fret !== 'number' || note.fret < 0 || note.fret > 12) {
+      if (typeof note.fret !== 'number' || getNotePitch(note.fret, note.string, instrument) === null) {
         throw new Error(`Invalid fret ${note.fret} in stack ${stack.id}`)
       }
     }
@@ -0,0 +1,27 @@
+// Tests for Backing Track Cues
+
+import { getBackingTrackCues } from './backingTrack'
+
+describe('Backing Track', () => {
+  test('starts at the first beat and stretches to the tab tempo', () => {
+    const sync = { syncMap: [], recordedBPM: 120, startOffset: 2 }
+
+    expect(getBackingTrackCues(sync, 0, 7680, 60)).toEqual([{ position: 0, offset: 2, rate: 0.5 }])
+    // One measure in at 120 BPM is two seconds past the first beat
+    expect(getBackingTrackCues(sync, 3840, 7680, 120)[0]).toEqual({ position: 3840, offset: 4, rate: 1 })
+  })
+
+  test('re-cues at each sync anchor with the local tempo', () => {
+    // Bar 1 at 10s, bar 2 at 14s (60 BPM), bar 3 at 16s (120 BPM)
+    const sync = {
+      syncMap: [{ slot: 0, seconds: 10 }, { slot: 16, seconds: 14 }, { slot: 32, seconds: 16 }],
+      recordedBPM: 90,
+      startOffset: 0
+    }
+
+    expect(getBackingTrackCues(sync, 1920, 7680, 90)).toEqual([
+      { position: 1920, offset: 12, rate: 1.5 },
+      { position: 3840, offset: 14, rate: 0.75 }
+    ])
+  })
+})
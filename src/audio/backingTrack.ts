@@ -0,0 +1,54 @@
+// Backing Track
+// An imported recording played through the Tone graph alongside the synth
+// It follows the same sync map as the video: each anchor restarts it at the mapped media time,
+// time-stretched (pitch preserved) to the tab tempo over the stretch that follows
+
+import { TICKS_PER_QUARTER } from '../types/notestack'
+import { slotToVideoSeconds, getLocalVideoBPM, type SyncPoint } from '../services/VideoSyncMap'
+
+const TICKS_PER_SLOT = TICKS_PER_QUARTER / 4
+
+export interface BackingTrackSettings {
+  name: string // File name of the loaded recording
+  volume: number // 0-1, separate from the synth volume
+  muted: boolean
+}
+
+// How the recording lines up with the tab - the video's sync configuration
+export interface BackingTrackSync {
+  syncMap: SyncPoint[]
+  recordedBPM: number
+  startOffset: number
+}
+
+export interface BackingTrackCue {
+  position: number // Performed ticks
+  offset: number // Seconds into the recording
+  rate: number // Playback rate that brings the recording to the tab tempo
+}
+
+/**
+ * Where to (re)start the recording from a performed position up to an end position
+ * The first cue is at the start position; one more follows at every sync anchor after it
+ */
+export const getBackingTrackCues = (
+  sync: BackingTrackSync,
+  fromTicks: number,
+  toTicks: number,
+  tabBPM: number
+): BackingTrackCue[] => {
+  const cueAt = (position: number): BackingTrackCue => {
+    const slot = position / TICKS_PER_SLOT
+    return {
+      position,
+      offset: slotToVideoSeconds(sync.syncMap, slot, sync.recordedBPM, sync.startOffset),
+      rate: tabBPM / getLocalVideoBPM(sync.syncMap, slot, sync.recordedBPM)
+    }
+  }
+
+  const anchors = sync.syncMap
+    .map(point => point.slot * TICKS_PER_SLOT)
+    .filter(position => position > fromTicks && position < toTicks)
+
+  return [cueAt(fromTicks), ...anchors.map(cueAt)]
+}
@@ -0,0 +1,21 @@
+// Tests for Legato Continuation
+
+import { canContinueVoice, LEGATO_GRACE_SECONDS } from './legato'
+
+describe('Legato', () => {
+  test('continues a note that is still held', () => {
+    // Quarter note at 120 BPM picked at 10s is held until 10.5s
+    expect(canContinueVoice(10.5, 10.25)).toBe(true)
+    expect(canContinueVoice(10.5, 10.5)).toBe(true)
+    expect(canContinueVoice(10.5, 10.5 + LEGATO_GRACE_SECONDS)).toBe(true)
+  })
+
+  test('picks a legato note that follows a rest', () => {
+    // The same quarter note, then a quarter rest before the hammer-on
+    expect(canContinueVoice(10.5, 11)).toBe(false)
+  })
+
+  test('picks a legato note with nothing sounding on the string', () => {
+    expect(canContinueVoice(undefined, 10)).toBe(false)
+  })
+})
@@ -0,0 +1,15 @@
+// Legato
+// When a hammer-on, pull-off or slide can carry on the note already sounding on its string
+
+// A legato note landing right as the previous note ends still joins it; callbacks don't fire on the exact tick
+export const LEGATO_GRACE_SECONDS = 0.05
+
+/**
+ * Whether a legato note can continue the string's previous note instead of being picked
+ * Only while that note is still held: once its release has run, moving the pitch of a fading
+ * envelope would be silent
+ * @param releaseAt - When the previous note on the string stops being held (audio context seconds)
+ * @param now - When the legato note starts
+ */
+export const canContinueVoice = (releaseAt: number | undefined, now: number): boolean =>
+  releaseAt !== undefined && now <= releaseAt + LEGATO_GRACE_SECONDS
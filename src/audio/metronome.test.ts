@@ -0,0 +1,38 @@
+// Tests for Metronome Click Patterns
+
+import { getMetronomeBeats, getMetronomeClicks, getCountInClicks } from './metronome'
+
+describe('Metronome', () => {
+  test('groups compound meters into dotted beats', () => {
+    expect(getMetronomeBeats({ numerator: 4, denominator: 4 })).toEqual({ beatsPerMeasure: 4, beatTicks: 960 })
+    expect(getMetronomeBeats({ numerator: 6, denominator: 8 })).toEqual({ beatsPerMeasure: 2, beatTicks: 1440 })
+    expect(getMetronomeBeats({ numerator: 3, denominator: 8 })).toEqual({ beatsPerMeasure: 3, beatTicks: 480 })
+  })
+
+  test('accents each downbeat', () => {
+    const clicks = getMetronomeClicks(7680, { numerator: 4, denominator: 4 })
+
+    expect(clicks.map(click => click.position)).toEqual([0, 960, 1920, 2880, 3840, 4800, 5760, 6720])
+    expect(clicks.filter(click => click.level === 'accent').map(click => click.position)).toEqual([0, 3840])
+  })
+
+  test('clicks subdivisions between beats', () => {
+    const clicks = getMetronomeClicks(2880, { numerator: 6, denominator: 8 }, 3)
+
+    expect(clicks.map(click => click.level)).toEqual(['accent', 'subdivision', 'subdivision', 'beat', 'subdivision', 'subdivision'])
+    expect(clicks[1].position).toBe(480)
+  })
+
+  test('counts in one measure of beats', () => {
+    const clicks = getCountInClicks({ numerator: 4, denominator: 4 }, 120)
+    expect(clicks).toEqual([
+      { time: -2, level: 'accent' },
+      { time: -1.5, level: 'beat' },
+      { time: -1, level: 'beat' },
+      { time: -0.5, level: 'beat' }
+    ])
+
+    // 6/8 at quarter = 120 counts two dotted quarters of 0.75s
+    expect(getCountInClicks({ numerator: 6, denominator: 8 }, 120).map(click => click.time)).toEqual([-1.5, -0.75])
+  })
+})
@@ -0,0 +1,93 @@
+// Metronome
+// Pure click patterns: downbeat accents, beat and subdivision clicks, compound-meter grouping and count-in
+
+import { TICKS_PER_QUARTER } from '../types/notestack'
+import { selectCountInEvents } from '../state/selectors/playbackSelectors'
+import { isCompoundMeter } from '../services/Beaming'
+
+export type ClickLevel = 'accent' | 'beat' | 'subdivision'
+
+export interface MetronomeSettings {
+  enabled: boolean
+  muted: boolean
+  volume: number // 0-1, separate from the synth volume
+  subdivisions: number // Clicks per beat (1 = beats only)
+}
+
+export interface MetronomeClick {
+  position: number // Ticks
+  level: ClickLevel
+}
+
+export interface CountInClick {
+  time: number // Seconds before playback starts (negative)
+  level: ClickLevel
+}
+
+// Pitch and loudness of each click
+export const CLICK_SOUNDS: Record<ClickLevel, { frequency: number; velocity: number }> = {
+  accent: { frequency: 1760, velocity: 1 },
+  beat: { frequency: 880, velocity: 0.7 },
+  subdivision: { frequency: 880, velocity: 0.35 }
+}
+
+export const DEFAULT_METRONOME: MetronomeSettings = {
+  enabled: false,
+  muted: false,
+  volume: 0.6,
+  subdivisions: 1
+}
+
+/**
+ * Beats the metronome counts in a measure
+ * Compound meters (6/8, 9/8, 12/8) are felt in dotted beats of three, so 6/8 clicks twice a measure
+ */
+export const getMetronomeBeats = (
+  timeSignature: { numerator: number; denominator: number } = { numerator: 4, denominator: 4 }
+): { beatsPerMeasure: number; beatTicks: number } => {
+  const { numerator, denominator } = timeSignature
+  const noteTicks = (TICKS_PER_QUARTER * 4) / denominator
+
+  return isCompoundMeter(timeSignature)
+    ? { beatsPerMeasure: numerator / 3, beatTicks: noteTicks * 3 }
+    : { beatsPerMeasure: numerator, beatTicks: noteTicks }
+}
+
+/**
+ * Clicks from the start up to (not including) an end position, measure after measure
+ */
+export const getMetronomeClicks = (
+  endTicks: number,
+  timeSignature: { numerator: number; denominator: number } = { numerator: 4, denominator: 4 },
+  subdivisions: number = 1
+): MetronomeClick[] => {
+  const { beatsPerMeasure, beatTicks } = getMetronomeBeats(timeSignature)
+  const clicksPerBeat = Math.max(1, Math.round(subdivisions))
+  const clickTicks = beatTicks / clicksPerBeat
+  const clicksPerMeasure = beatsPerMeasure * clicksPerBeat
+  const clicks: MetronomeClick[] = []
+
+  for (let index = 0; index * clickTicks < endTicks; index++) {
+    const inMeasure = index % clicksPerMeasure
+    clicks.push({
+      position: Math.round(index * clickTicks),
+      level: inMeasure === 0 ? 'accent' : inMeasure % clicksPerBeat === 0 ? 'beat' : 'subdivision'
+    })
+  }
+
+  return clicks
+}
+
+/**
+ * One measure of beat clicks to play before playback starts
+ */
+export const getCountInClicks = (
+  timeSignature: { numerator: number; denominator: number } = { numerator: 4, denominator: 4 },
+  tempo: number = 120
+): CountInClick[] => {
+  const { beatsPerMeasure, beatTicks } = getMetronomeBeats(timeSignature)
+  const beatsPerMinute = (tempo * TICKS_PER_QUARTER) / beatTicks // Tempo counts quarter notes
+
+  return selectCountInEvents([beatsPerMeasure, timeSignature.denominator], beatsPerMinute, beatsPerMeasure)
+    .map((event, index) => ({ time: event.time, level: index % beatsPerMeasure === 0 ? 'accent' : 'beat' }))
+}
@@ -0,0 +1,113 @@
+// Tests for MIDI Export
+
+import {
+  fretToMidiNote,
+  notesToMidiNotes,
+  encodeVariableLength,
+  writeMidiFile
+} from './midiExport'
+import type { Note } from '../types'
+
+const note = (startSlot: number, stringIndex: number, fret: number, extra: Partial<Note> = {}): Note => ({
+  type: 'note',
+  fret,
+  duration: 'quarter',
+  stringIndex,
+  startSlot,
+  ...extra
+})
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.slice(offset, offset + length))
+
+describe('MIDI Export', () => {
+  describe('fretToMidiNote', () => {
+    test('maps open strings to D3, A3 and D4', () => {
+      expect(fretToMidiNote(0, 0)).toBe(50)
+      expect(fretToMidiNote(0, 1)).toBe(57)
+      expect(fretToMidiNote(0, 2)).toBe(62)
+    })
+
+    test('follows the diatonic fret layout', () => {
+      expect(fretToMidiNote(2, 0)).toBe(54) // F#3
+      expect(fretToMidiNote(6, 0)).toBe(60) // C4 (b7)
+      expect(fretToMidiNote(7, 0)).toBe(61) // C#4
+      expect(fretToMidiNote(8, 0)).toBe(62) // D4 octave
+    })
+
+    test('rejects invalid strings', () => {
+      expect(() => fretToMidiNote(0, 3)).toThrow('Invalid string index')
+    })
+  })
+
+  describe('notesToMidiNotes', () => {
+    test('lengthens dotted notes', () => {
+      const [midiNote] = notesToMidiNotes([note(0, 0, 0, { isDotted: true })])
+      expect(midiNote.durationTicks).toBe(1440)
+    })
+
+    test('merges tied notes into one sustained note', () => {
+      const midiNotes = notesToMidiNotes([
+        note(0, 1, 3, { isTiedTo: 4 }),
+        note(4, 1, 3, { duration: 'eighth', isTiedFrom: 0 })
+      ])
+
+      expect(midiNotes).toHaveLength(1)
+      expect(midiNotes[0]).toMatchObject({ tick: 0, durationTicks: 1440, stringIndex: 1 })
+    })
+
+    test('ties into the note on the slot, not a tuplet note later in it', () => {
+      const triplet = { duration: 'sixteenth' as const, tuplet: { actual: 3, normal: 2 } }
+      const midiNotes = notesToMidiNotes([
+        note(1, 0, 2, { ...triplet, tupletOffset: 1 / 3, isTiedTo: 2 }),
+        note(2, 0, 2, { ...triplet, isTiedFrom: 1 }),
+        note(2, 0, 2, { ...triplet, tupletOffset: 2 / 3 })
+      ])
+
+      expect(midiNotes.map(midiNote => [midiNote.tick, midiNote.durationTicks])).toEqual([[320, 320], [640, 160]])
+    })
+
+    test('skips rests', () => {
+      const rest: Note = { type: 'rest', fret: null, duration: 'quarter', stringIndex: 0, startSlot: 0 }
+      expect(notesToMidiNotes([rest])).toEqual([])
+    })
+  })
+
+  describe('encodeVariableLength', () => {
+    test('encodes values from the SMF specification', () => {
+      expect(encodeVariableLength(0)).toEqual([0x00])
+      expect(encodeVariableLength(0x7f)).toEqual([0x7f])
+      expect(encodeVariableLength(0x80)).toEqual([0x81, 0x00])
+      expect(encodeVariableLength(0x3fff)).toEqual([0xff, 0x7f])
+      expect(encodeVariableLength(0x200000)).toEqual([0x81, 0x80, 0x80, 0x00])
+    })
+  })
+
+  describe('writeMidiFile', () => {
+    const bytes = writeMidiFile(notesToMidiNotes([note(0, 0, 0), note(0, 2, 4)]), {
+      bpm: 120,
+      timeSignature: { numerator: 3, denominator: 4 }
+    })
+
+    test('writes a type-1 header with a conductor track and one track per string', () => {
+      expect(readAscii(bytes, 0, 4)).toBe('MThd')
+      expect(Array.from(bytes.slice(8, 14))).toEqual([0, 1, 0, 4, 0x03, 0xc0]) // Format 1, 4 tracks, 960 PPQ
+      expect(readAscii(bytes, 14, 4)).toBe('MTrk')
+    })
+
+    test('includes tempo and time signature meta events', () => {
+      const data = Array.from(bytes)
+      const tempoIndex = data.findIndex((byte, i) => byte === 0xff && data[i + 1] === 0x51)
+      expect(data.slice(tempoIndex + 3, tempoIndex + 6)).toEqual([0x07, 0xa1, 0x20]) // 500000 µs per quarter
+
+      const timeSignatureIndex = data.findIndex((byte, i) => byte === 0xff && data[i + 1] === 0x58)
+      expect(data.slice(timeSignatureIndex + 3, timeSignatureIndex + 5)).toEqual([3, 2])
+    })
+
+    test('puts each string on its own channel', () => {
+      const data = Array.from(bytes)
+      expect(data.some((byte, i) => byte === 0x90 && data[i + 1] === 50)).toBe(true)
+      expect(data.some((byte, i) => byte === 0x92 && data[i + 1] === 69)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,224 @@
+// MIDI Export
+// Pure functions that turn tab notes into a type-1 Standard MIDI File
+// Track 0 carries tempo/time signature; each of the instrument's strings gets its own track and channel
+
+import type { Note } from '../types'
+import { getNoteDurationValue, getNoteStartPosition } from '../types'
+import type { InstrumentProfile } from '../types/notestack'
+import { TICKS_PER_QUARTER, DEFAULT_INSTRUMENT, isValidString, getNotePitch, formatFret } from '../types/notestack'
+
+// ===============================
+// TYPES & CONSTANTS
+// ===============================
+
+export interface MidiNote {
+  tick: number // Start position in ticks
+  durationTicks: number
+  stringIndex: number // 0 = lowest string
+  pitch: number // MIDI note number
+  velocity: number // 1-127
+}
+
+export interface MidiFileOptions {
+  bpm: number
+  timeSignature: { numerator: number; denominator: number }
+  title?: string
+  ppq?: number // Ticks per quarter note, defaults to the editor resolution
+  instrument?: InstrumentProfile // Names the string tracks, defaults to the DAd strumstick
+}
+
+const DEFAULT_VELOCITY = 90
+const GUITAR_PROGRAM = 25 // General MIDI "Acoustic Guitar (steel)", zero-based
+
+// ===============================
+// PURE CONVERSION FUNCTIONS
+// ===============================
+
+/**
+ * Convert fret/string to a MIDI note number on an instrument (the DAd strumstick by default)
+ */
+export const fretToMidiNote = (
+  fret: number,
+  stringIndex: number,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): number => {
+  if (!isValidString(stringIndex, instrument)) {
+    throw new Error(`Invalid string index: ${stringIndex}. Must be 0-${instrument.stringCount - 1}`)
+  }
+
+  const pitch = getNotePitch(fret, stringIndex, instrument)
+  if (pitch === null) {
+    throw new Error(`Invalid fret: ${formatFret(fret)}`)
+  }
+  return pitch
+}
+
+/**
+ * Convert tab notes to MIDI notes
+ * Dotted notes are lengthened, tuplets scaled, and tied chains are merged into one sustained note
+ */
+export const notesToMidiNotes = (
+  notes: Note[],
+  ppq: number = TICKS_PER_QUARTER,
+  velocity: number = DEFAULT_VELOCITY,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): MidiNote[] => {
+  const ticksPerSlot = ppq / 4 // Each slot is a sixteenth note
+  const endOf = (note: Note) => getNoteStartPosition(note) + getNoteDurationValue(note.duration, note.isDotted, note.tuplet) * 4
+  const playable = notes.filter(note => note.type === 'note' && note.fret !== null)
+  // Tuplet notes can share a slot on a string, so keep every note that starts in it
+  const notesAt = new Map<string, Note[]>()
+  playable.forEach(note => {
+    const key = `${note.startSlot}:${note.stringIndex}`
+    notesAt.set(key, [...(notesAt.get(key) || []), note])
+  })
+
+  const isContinuation = (note: Note): boolean => {
+    if (note.isTiedFrom === undefined) return false
+    return (notesAt.get(`${note.isTiedFrom}:${note.stringIndex}`) || [])
+      .some(origin => origin !== note && origin.isTiedTo === note.startSlot && origin.fret === note.fret)
+  }
+
+  return playable
+    .filter(note => !isContinuation(note))
+    .map(note => {
+      let endSlot = endOf(note)
+      const visited = new Set([note])
+      let current = note
+
+      // Follow the tie chain on this string
+      while (current.isTiedTo !== undefined) {
+        const from = current
+        const next = (notesAt.get(`${from.isTiedTo}:${from.stringIndex}`) || [])
+          .find(candidate => !visited.has(candidate) && !candidate.tupletOffset && candidate.fret === note.fret)
+        if (!next) break
+        visited.add(next)
+        endSlot = endOf(next)
+        current = next
+      }
+
+      return {
+        tick: Math.round(getNoteStartPosition(note) * ticksPerSlot),
+        durationTicks: Math.round((endSlot - getNoteStartPosition(note)) * ticksPerSlot),
+        stringIndex: note.stringIndex,
+        pitch: fretToMidiNote(note.fret as number, note.stringIndex, instrument),
+        velocity
+      }
+    })
+    .sort((a, b) => a.tick - b.tick || a.stringIndex - b.stringIndex)
+}
+
+// ===============================
+// SMF ENCODING
+// ===============================
+
+/**
+ * Encode a number as a MIDI variable-length quantity
+ */
+export const encodeVariableLength = (value: number): number[] => {
+  let buffer = value & 0x7f
+  const bytes: number[] = []
+
+  while ((value >>= 7) > 0) {
+    buffer <<= 8
+    buffer |= (value & 0x7f) | 0x80
+  }
+
+  for (;;) {
+    bytes.push(buffer & 0xff)
+    if (buffer & 0x80) {
+      buffer >>= 8
+    } else {
+      break
+    }
+  }
+
+  return bytes
+}
+
+// MIDI text events are conventionally Latin-1; anything outside it becomes "?"
+const encodeText = (text: string): number[] =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0)
+    return code <= 0xff ? code : 0x3f
+  })
+
+const metaEvent = (type: number, data: number[]): number[] =>
+  [0xff, type, ...encodeVariableLength(data.length), ...data]
+
+const uint32 = (value: number): number[] =>
+  [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+
+const uint16 = (value: number): number[] => [(value >> 8) & 0xff, value & 0xff]
+
+/**
+ * Wrap timed events into an MTrk chunk, converting absolute ticks into delta times
+ */
+const buildTrack = (events: Array<{ tick: number; data: number[] }>): number[] => {
+  let lastTick = 0
+  const body: number[] = []
+
+  events.forEach(event => {
+    body.push(...encodeVariableLength(event.tick - lastTick), ...event.data)
+    lastTick = event.tick
+  })
+
+  body.push(...encodeVariableLength(0), ...metaEvent(0x2f, [])) // End of track
+
+  return [...encodeText('MTrk'), ...uint32(body.length), ...body]
+}
+
+/**
+ * Write a type-1 Standard MIDI File
+ * @returns The file bytes, ready to be wrapped in a Blob
+ */
+export const writeMidiFile = (notes: MidiNote[], options: MidiFileOptions): Uint8Array => {
+  const ppq = options.ppq ?? TICKS_PER_QUARTER
+  const { numerator, denominator } = options.timeSignature
+  const microsecondsPerQuarter = Math.round(60_000_000 / options.bpm)
+
+  // Conductor track: title, tempo and time signature
+  const conductor = buildTrack([
+    ...(options.title ? [{ tick: 0, data: metaEvent(0x03, encodeText(options.title)) }] : []),
+    {
+      tick: 0,
+      data: metaEvent(0x51, [
+        (microsecondsPerQuarter >> 16) & 0xff,
+        (microsecondsPerQuarter >> 8) & 0xff,
+        microsecondsPerQuarter & 0xff
+      ])
+    },
+    { tick: 0, data: metaEvent(0x58, [numerator, Math.round(Math.log2(denominator)), 24, 8]) }
+  ])
+
+  // One track and channel per string
+  const { stringNames } = options.instrument ?? DEFAULT_INSTRUMENT
+  const stringTracks = stringNames.map((name, stringIndex) => {
+    const channel = stringIndex
+    const events: Array<{ tick: number; data: number[]; order: number }> = [
+      { tick: 0, data: metaEvent(0x03, encodeText(name)), order: 0 },
+      { tick: 0, data: [0xc0 | channel, GUITAR_PROGRAM], order: 0 }
+    ]
+
+    notes
+      .filter(note => note.stringIndex === stringIndex && note.durationTicks > 0)
+      .forEach(note => {
+        // Note-offs sort before note-ons at the same tick so repeated pitches retrigger cleanly
+        events.push({ tick: note.tick, data: [0x90 | channel, note.pitch, note.velocity], order: 2 })
+        events.push({ tick: note.tick + note.durationTicks, data: [0x80 | channel, note.pitch, 0], order: 1 })
+      })
+
+    events.sort((a, b) => a.tick - b.tick || a.order - b.order)
+    return buildTrack(events)
+  })
+
+  const header = [
+    ...encodeText('MThd'),
+    ...uint32(6),
+    ...uint16(1), // Format 1: simultaneous tracks
+    ...uint16(1 + stringTracks.length),
+    ...uint16(ppq)
+  ]
+
+  return new Uint8Array([...header, ...conductor, ...stringTracks.flat()])
+}
@@ -0,0 +1,129 @@
+// Tests for MIDI Import
+
+import {
+  parseMidiFile,
+  midiToTabData,
+  pitchToFretPositions,
+  splitIntoDurations,
+  midiNoteToName
+} from './midiImport'
+import { writeMidiFile, type MidiNote } from './midiExport'
+
+const midiNote = (tick: number, durationTicks: number, pitch: number, stringIndex = 0): MidiNote => ({
+  tick,
+  durationTicks,
+  stringIndex,
+  pitch,
+  velocity: 90
+})
+
+const importNotes = (notes: MidiNote[]) =>
+  midiToTabData(parseMidiFile(writeMidiFile(notes, { bpm: 90, timeSignature: { numerator: 3, denominator: 4 } })))
+
+describe('MIDI Import', () => {
+  describe('pitchToFretPositions', () => {
+    test('inverts the diatonic fret table', () => {
+      expect(pitchToFretPositions(50)).toEqual([{ stringIndex: 0, fret: 0 }]) // D3
+      expect(pitchToFretPositions(57)).toEqual([
+        { stringIndex: 0, fret: 4 },
+        { stringIndex: 1, fret: 0 }
+      ]) // A3
+    })
+
+    test('returns nothing for chromatic pitches', () => {
+      expect(pitchToFretPositions(51)).toEqual([]) // D#3
+    })
+  })
+
+  describe('splitIntoDurations', () => {
+    test('uses dotted values where they fit', () => {
+      expect(splitIntoDurations(6)).toEqual([{ duration: 'quarter', isDotted: true, slots: 6 }])
+    })
+
+    test('splits irregular lengths into tied parts', () => {
+      expect(splitIntoDurations(5).map(part => part.slots)).toEqual([4, 1])
+    })
+  })
+
+  describe('parseMidiFile', () => {
+    test('reads tempo, time signature and notes', () => {
+      const parsed = parseMidiFile(writeMidiFile([midiNote(0, 960, 50)], {
+        bpm: 90,
+        timeSignature: { numerator: 3, denominator: 4 }
+      }))
+
+      expect(parsed.format).toBe(1)
+      expect(parsed.ppq).toBe(960)
+      expect(parsed.bpm).toBe(90)
+      expect(parsed.timeSignature).toEqual({ numerator: 3, denominator: 4 })
+      expect(parsed.notes).toEqual([{ tick: 0, durationTicks: 960, pitch: 50, channel: 0, velocity: 90 }])
+    })
+
+    test('rejects files without an MThd header', () => {
+      expect(() => parseMidiFile(new Uint8Array(20))).toThrow('missing MThd header')
+    })
+  })
+
+  describe('midiToTabData', () => {
+    test('places notes on the slot grid with string and fret', () => {
+      const result = importNotes([midiNote(0, 960, 50), midiNote(960, 480, 54)])
+
+      expect(result.bpm).toBe(90)
+      expect(result.timeSignature).toEqual({ numerator: 3, denominator: 4 })
+      expect(result.tabData[0].notes[0]).toMatchObject({ stringIndex: 0, fret: 0, duration: 'quarter', startSlot: 0 })
+      expect(result.tabData[4].notes[0]).toMatchObject({ stringIndex: 0, fret: 2, duration: 'eighth', startSlot: 4 })
+      expect(result.unplayable).toEqual([])
+    })
+
+    test('quantises off-grid notes to the nearest sixteenth', () => {
+      const result = importNotes([midiNote(250, 940, 50)])
+
+      expect(result.tabData[1].notes[0]).toMatchObject({ startSlot: 1, duration: 'quarter' })
+      expect(result.warnings).toHaveLength(1)
+    })
+
+    test('ties lengths that no single note value covers', () => {
+      const result = importNotes([midiNote(0, 1200, 50)]) // Five sixteenths
+
+      expect(result.tabData[0].notes[0]).toMatchObject({ duration: 'quarter', isTiedTo: 4 })
+      expect(result.tabData[4].notes[0]).toMatchObject({ duration: 'sixteenth', isTiedFrom: 0 })
+    })
+
+    test('spreads a chord across strings', () => {
+      const result = importNotes([midiNote(0, 960, 50), midiNote(0, 960, 57), midiNote(0, 960, 62)])
+
+      const placed = result.tabData[0].notes.map(note => [note.stringIndex, note.fret])
+      expect(placed).toEqual([[0, 0], [1, 0], [2, 0]])
+    })
+
+    test('flags chromatic and out-of-range notes instead of dropping them silently', () => {
+      const result = importNotes([midiNote(0, 960, 51), midiNote(960, 960, 30)])
+
+      expect(result.unplayable).toEqual([
+        { slot: 0, pitch: 51, noteName: 'D#3', reason: 'chromatic' },
+        { slot: 4, pitch: 30, noteName: midiNoteToName(30), reason: 'out-of-range' }
+      ])
+      expect(result.tabData).toHaveLength(0)
+    })
+
+    test('cuts a ringing note short instead of dropping the new one', () => {
+      const result = importNotes([
+        midiNote(0, 1920, 50),
+        midiNote(0, 1920, 57),
+        midiNote(0, 1920, 62),
+        midiNote(960, 960, 64)
+      ])
+
+      expect(result.unplayable).toEqual([])
+      expect(result.tabData[0].notes.find(note => note.stringIndex === 2)).toMatchObject({ fret: 0, duration: 'quarter' })
+      expect(result.tabData[4].notes[0]).toMatchObject({ stringIndex: 2, fret: 1, duration: 'quarter' })
+      expect(result.warnings).toEqual(['1 ringing note(s) were cut short to make room for a new note'])
+    })
+
+    test('flags chord notes when the chord itself takes every string', () => {
+      const result = importNotes([midiNote(0, 960, 50), midiNote(0, 960, 57), midiNote(0, 960, 62), midiNote(0, 960, 64)])
+
+      expect(result.unplayable).toEqual([{ slot: 0, pitch: 64, noteName: 'E4', reason: 'no-free-string' }])
+    })
+  })
+})
@@ -0,0 +1,427 @@
+// MIDI Import
+// Pure functions that read a Standard MIDI File and map its notes onto the instrument's strings/frets
+// Timing is quantised to the 16th-note slot grid used by TabData
+
+import type { Note, NoteDuration, TabData } from '../types'
+import { DURATION_SLOTS } from '../types'
+import type { InstrumentProfile } from '../types/notestack'
+import { DEFAULT_INSTRUMENT, getFrets } from '../types/notestack'
+import { fretToMidiNote } from './midiExport'
+
+// ===============================
+// TYPES & CONSTANTS
+// ===============================
+
+export interface ParsedMidiNote {
+  tick: number
+  durationTicks: number
+  pitch: number
+  channel: number
+  velocity: number
+}
+
+export interface ParsedMidiFile {
+  format: number
+  ppq: number
+  bpm: number | null
+  timeSignature: { numerator: number; denominator: number } | null
+  notes: ParsedMidiNote[]
+}
+
+// A note the instrument can't play, reported instead of silently dropped
+export interface UnplayableNote {
+  slot: number
+  pitch: number
+  noteName: string
+  reason: 'chromatic' | 'out-of-range' | 'no-free-string' | 'percussion'
+}
+
+export interface MidiImportResult {
+  tabData: TabData
+  bpm: number
+  timeSignature: { numerator: number; denominator: number }
+  unplayable: UnplayableNote[]
+  warnings: string[]
+}
+
+const PERCUSSION_CHANNEL = 9
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+// Longest first; dotted values let a single note cover 3, 6, 12 and 24 slots
+const DURATION_CHOICES: Array<{ duration: NoteDuration; isDotted: boolean; slots: number }> = (
+  Object.entries(DURATION_SLOTS) as Array<[NoteDuration, number]>
+)
+  .flatMap(([duration, slots]) => [
+    { duration, isDotted: true, slots: slots * 1.5 },
+    { duration, isDotted: false, slots }
+  ])
+  .filter(choice => Number.isInteger(choice.slots))
+  .sort((a, b) => b.slots - a.slots)
+
+// Inverse of each instrument's fretboard: MIDI pitch -> every string/fret that produces it
+const pitchPositionCache = new WeakMap<InstrumentProfile, Map<number, Array<{ stringIndex: number; fret: number }>>>()
+
+const getPitchPositions = (instrument: InstrumentProfile) => {
+  let positions = pitchPositionCache.get(instrument)
+  if (!positions) {
+    positions = new Map()
+    const frets = getFrets(instrument.fretMap).filter(fret => fret <= instrument.maxFret)
+    for (let stringIndex = 0; stringIndex < instrument.stringCount; stringIndex++) {
+      for (const fret of frets) {
+        const pitch = fretToMidiNote(fret, stringIndex, instrument)
+        positions.set(pitch, [...(positions.get(pitch) || []), { stringIndex, fret }])
+      }
+    }
+    pitchPositionCache.set(instrument, positions)
+  }
+  return positions
+}
+
+// ===============================
+// PURE CONVERSION FUNCTIONS
+// ===============================
+
+/**
+ * Convert a MIDI note number to a note name like "F#3"
+ */
+export const midiNoteToName = (pitch: number): string =>
+  `${NOTE_NAMES[pitch % 12]}${Math.floor(pitch / 12) - 1}`
+
+/**
+ * All string/fret positions that play a pitch on an instrument (the DAd strumstick by default)
+ * @returns Empty array for pitches missing from the fretboard or out of range
+ */
+export const pitchToFretPositions = (
+  pitch: number,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): Array<{ stringIndex: number; fret: number }> =>
+  getPitchPositions(instrument).get(pitch) || []
+
+/**
+ * Split a length in slots into note values, longest first (tied together by the caller)
+ */
+export const splitIntoDurations = (slots: number): Array<{ duration: NoteDuration; isDotted: boolean; slots: number }> => {
+  const parts: Array<{ duration: NoteDuration; isDotted: boolean; slots: number }> = []
+  let remaining = slots
+  while (remaining > 0) {
+    const choice = DURATION_CHOICES.find(candidate => candidate.slots <= remaining)!
+    parts.push(choice)
+    remaining -= choice.slots
+  }
+  return parts
+}
+
+// ===============================
+// SMF DECODING
+// ===============================
+
+/**
+ * Parse a Standard MIDI File (format 0 or 1) into note events
+ * Tempo and time signature are taken from the first meta events found
+ */
+export const parseMidiFile = (bytes: Uint8Array): ParsedMidiFile => {
+  let offset = 0
+
+  const readAscii = (length: number): string => {
+    const text = String.fromCharCode(...bytes.slice(offset, offset + length))
+    offset += length
+    return text
+  }
+  const readUint32 = (): number => {
+    const value = ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3]
+    offset += 4
+    return value
+  }
+  const readUint16 = (): number => {
+    const value = (bytes[offset] << 8) + bytes[offset + 1]
+    offset += 2
+    return value
+  }
+  const readVariableLength = (): number => {
+    let value = 0
+    for (let i = 0; i < 4; i++) {
+      const byte = bytes[offset++]
+      value = (value << 7) | (byte & 0x7f)
+      if (!(byte & 0x80)) return value
+    }
+    throw new Error('Invalid MIDI file: variable-length quantity is too long')
+  }
+
+  if (bytes.length < 14 || readAscii(4) !== 'MThd') {
+    throw new Error('Invalid MIDI file: missing MThd header')
+  }
+
+  const headerLength = readUint32()
+  const format = readUint16()
+  const trackCount = readUint16()
+  const division = readUint16()
+  offset = 8 + headerLength
+
+  if (format > 1) {
+    throw new Error(`Unsupported MIDI format ${format}. Only format 0 and 1 files can be imported`)
+  }
+  if (division & 0x8000) {
+    throw new Error('Unsupported MIDI timing: SMPTE time division')
+  }
+
+  let bpm: number | null = null
+  let timeSignature: { numerator: number; denominator: number } | null = null
+  const notes: ParsedMidiNote[] = []
+
+  for (let track = 0; track < trackCount && offset < bytes.length; track++) {
+    const chunkType = readAscii(4)
+    const chunkLength = readUint32()
+    const chunkEnd = offset + chunkLength
+
+    // Skip unknown chunks as the spec requires
+    if (chunkType !== 'MTrk') {
+      offset = chunkEnd
+      track--
+      continue
+    }
+
+    let tick = 0
+    let runningStatus = 0
+    const openNotes = new Map<string, Array<{ tick: number; velocity: number }>>()
+
+    const closeNote = (channel: number, pitch: number) => {
+      const started = openNotes.get(`${channel}:${pitch}`)?.shift()
+      if (started) {
+        notes.push({ tick: started.tick, durationTicks: tick - started.tick, pitch, channel, velocity: started.velocity })
+      }
+    }
+
+    while (offset < chunkEnd) {
+      tick += readVariableLength()
+
+      let status = bytes[offset]
+      if (status & 0x80) {
+        offset++
+      } else if (runningStatus) {
+        status = runningStatus
+      } else {
+        throw new Error('Invalid MIDI file: data byte without a status byte')
+      }
+
+      if (status === 0xff) {
+        const type = bytes[offset++]
+        const length = readVariableLength()
+        const data = bytes.slice(offset, offset + length)
+        offset += length
+
+        if (type === 0x51 && bpm === null && length === 3) {
+          bpm = Math.round(60_000_000 / ((data[0] << 16) + (data[1] << 8) + data[2]))
+        } else if (type === 0x58 && timeSignature === null && length >= 2) {
+          timeSignature = { numerator: data[0], denominator: Math.pow(2, data[1]) }
+        }
+        continue
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        offset += readVariableLength()
+        continue
+      }
+
+      runningStatus = status
+      const type = status & 0xf0
+      const channel = status & 0x0f
+
+      if (type === 0xc0 || type === 0xd0) {
+        offset += 1
+        continue
+      }
+
+      const pitch = bytes[offset]
+      const velocity = bytes[offset + 1]
+      offset += 2
+
+      if (type === 0x90 && velocity > 0) {
+        const key = `${channel}:${pitch}`
+        openNotes.set(key, [...(openNotes.get(key) || []), { tick, velocity }])
+      } else if (type === 0x80 || type === 0x90) {
+        closeNote(channel, pitch)
+      }
+    }
+
+    // Notes left hanging at the end of the track end there
+    openNotes.forEach((_, key) => {
+      const [channel, pitch] = key.split(':').map(Number)
+      while (openNotes.get(key)?.length) closeNote(channel, pitch)
+    })
+
+    offset = chunkEnd
+  }
+
+  notes.sort((a, b) => a.tick - b.tick || a.pitch - b.pitch)
+  return { format, ppq: division, bpm, timeSignature, notes }
+}
+
+// ===============================
+// FRET ASSIGNMENT
+// ===============================
+
+/**
+ * Choose a string/fret for each simultaneous pitch
+ * Tries every combination of positions and keeps the one with the lowest total fret,
+ * skipping strings that are still ringing from an earlier note
+ */
+const assignPositions = (
+  pitches: number[],
+  instrument: InstrumentProfile,
+  isStringFree: (stringIndex: number) => boolean
+): Array<{ stringIndex: number; fret: number } | null> => {
+  let best: Array<{ stringIndex: number; fret: number } | null> = pitches.map(() => null)
+  let bestScore = { placed: 0, frets: Infinity }
+
+  const search = (index: number, used: Set<number>, current: Array<{ stringIndex: number; fret: number } | null>) => {
+    if (index === pitches.length) {
+      const placed = current.filter(Boolean).length
+      const frets = current.reduce((sum, position) => sum + (position ? position.fret : 0), 0)
+      if (placed > bestScore.placed || (placed === bestScore.placed && frets < bestScore.frets)) {
+        best = [...current]
+        bestScore = { placed, frets }
+      }
+      return
+    }
+
+    pitchToFretPositions(pitches[index], instrument)
+      .filter(position => !used.has(position.stringIndex) && isStringFree(position.stringIndex))
+      .forEach(position => {
+        used.add(position.stringIndex)
+        search(index + 1, used, [...current, position])
+        used.delete(position.stringIndex)
+      })
+
+    search(index + 1, used, [...current, null])
+  }
+
+  search(0, new Set(), [])
+  return best
+}
+
+/**
+ * Map parsed MIDI notes onto TabData
+ * Pitches the instrument cannot play are listed in `unplayable` rather than dropped silently
+ * When every usable string is still ringing, the ringing note is cut short so the new one can sound
+ */
+export const midiToTabData = (
+  midi: ParsedMidiFile,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): MidiImportResult => {
+  const ticksPerSlot = midi.ppq / 4
+  const unplayable: UnplayableNote[] = []
+  const warnings: string[] = []
+  const placements: Array<{ stringIndex: number; fret: number; startSlot: number; endSlot: number }> = []
+  const stringBusyUntil = Array(instrument.stringCount).fill(0)
+  const playablePitches = Array.from(getPitchPositions(instrument).keys())
+  const lowestPitch = Math.min(...playablePitches)
+  const highestPitch = Math.max(...playablePitches)
+
+  const flag = (slot: number, pitch: number, reason: UnplayableNote['reason']) =>
+    unplayable.push({ slot, pitch, noteName: midiNoteToName(pitch), reason })
+
+  // Quantise to the slot grid and group by onset
+  const onsets = new Map<number, Array<{ pitch: number; endSlot: number }>>()
+  let quantisedCount = 0
+  midi.notes.forEach(note => {
+    const slot = Math.round(note.tick / ticksPerSlot)
+    const endSlot = Math.max(slot + 1, Math.round((note.tick + note.durationTicks) / ticksPerSlot))
+    if (slot * ticksPerSlot !== note.tick || endSlot * ticksPerSlot !== note.tick + note.durationTicks) {
+      quantisedCount++
+    }
+
+    if (note.channel === PERCUSSION_CHANNEL) {
+      flag(slot, note.pitch, 'percussion')
+      return
+    }
+    if (note.pitch < lowestPitch || note.pitch > highestPitch) {
+      flag(slot, note.pitch, 'out-of-range')
+      return
+    }
+    if (pitchToFretPositions(note.pitch, instrument).length === 0) {
+      flag(slot, note.pitch, 'chromatic')
+      return
+    }
+
+    const group = onsets.get(slot) || []
+    // Doubled pitches (e.g. two tracks in unison) collapse into one note
+    if (!group.some(existing => existing.pitch === note.pitch)) {
+      group.push({ pitch: note.pitch, endSlot })
+    }
+    onsets.set(slot, group)
+  })
+
+  if (quantisedCount > 0) {
+    warnings.push(`${quantisedCount} note(s) were moved to the nearest sixteenth note`)
+  }
+
+  let cutShortCount = 0
+  Array.from(onsets.keys()).sort((a, b) => a - b).forEach(slot => {
+    const group = onsets.get(slot)!.sort((a, b) => a.pitch - b.pitch)
+    const positions = assignPositions(group.map(entry => entry.pitch), instrument, stringIndex => stringBusyUntil[stringIndex] <= slot)
+
+    // A new note wins over one still ringing: retry what didn't fit on the strings this onset hasn't taken
+    const unplaced = group.filter((_, index) => !positions[index])
+    const taken = new Set(positions.filter(Boolean).map(position => position!.stringIndex))
+    const retried = assignPositions(unplaced.map(entry => entry.pitch), instrument, stringIndex => !taken.has(stringIndex))
+    unplaced.forEach((entry, index) => {
+      positions[group.indexOf(entry)] = retried[index]
+    })
+
+    group.forEach((entry, index) => {
+      const position = positions[index]
+      if (!position) {
+        flag(slot, entry.pitch, 'no-free-string')
+        return
+      }
+
+      if (stringBusyUntil[position.stringIndex] > slot) {
+        placements
+          .filter(placement => placement.stringIndex === position.stringIndex && placement.endSlot > slot)
+          .forEach(placement => {
+            placement.endSlot = slot
+          })
+        cutShortCount++
+      }
+
+      stringBusyUntil[position.stringIndex] = entry.endSlot
+      placements.push({ ...position, startSlot: slot, endSlot: entry.endSlot })
+    })
+  })
+
+  if (cutShortCount > 0) {
+    warnings.push(`${cutShortCount} ringing note(s) were cut short to make room for a new note`)
+  }
+
+  // Long or irregular lengths become a chain of tied notes
+  const tabNotes: Note[] = placements.flatMap(placement => {
+    let startSlot = placement.startSlot
+    const parts = splitIntoDurations(placement.endSlot - placement.startSlot)
+    return parts.map((part, partIndex) => {
+      const note: Note = {
+        type: 'note',
+        fret: placement.fret,
+        duration: part.duration,
+        stringIndex: placement.stringIndex,
+        startSlot,
+        isDotted: part.isDotted,
+        isTiedFrom: partIndex > 0 ? startSlot - parts[partIndex - 1].slots : undefined,
+        isTiedTo: partIndex < parts.length - 1 ? startSlot + part.slots : undefined
+      }
+      startSlot += part.slots
+      return note
+    })
+  })
+
+  const length = Math.max(0, ...placements.map(placement => placement.endSlot))
+  const tabData: TabData = Array.from({ length }, () => ({ notes: [] }))
+  tabNotes.forEach(note => tabData[note.startSlot].notes.push(note))
+
+  return {
+    tabData,
+    bpm: midi.bpm ?? 120,
+    timeSignature: midi.timeSignature || { numerator: 4, denominator: 4 },
+    unplayable,
+    warnings
+  }
+}
@@ -0,0 +1,40 @@
+// Tests for the Tempo Trainer Step Logic
+
+import {
+  normalizeTrainerSettings,
+  getTrainerStepCount,
+  getTrainerProgress,
+  DEFAULT_TEMPO_TRAINER
+} from './tempoTrainer'
+import type { TempoTrainerSettings } from './tempoTrainer'
+
+const LADDER: TempoTrainerSettings = { startBpm: 60, targetBpm: 72, increment: 5, repsPerStep: 2, pauseSeconds: 0 }
+
+describe('Tempo Trainer', () => {
+  test('counts the start, each increment and the target as steps', () => {
+    expect(getTrainerStepCount(LADDER)).toBe(4) // 60, 65, 70, 72
+    expect(getTrainerStepCount({ ...LADDER, targetBpm: 60 })).toBe(1)
+  })
+
+  test('steps up every few repetitions and lands on the target', () => {
+    expect(getTrainerProgress(LADDER, 0)).toEqual({ bpm: 60, rep: 1, step: 1, stepCount: 4, atTarget: false })
+    expect(getTrainerProgress(LADDER, 1)).toMatchObject({ bpm: 60, rep: 2, step: 1 })
+    expect(getTrainerProgress(LADDER, 2)).toMatchObject({ bpm: 65, rep: 1, step: 2 })
+    expect(getTrainerProgress(LADDER, 6)).toMatchObject({ bpm: 72, rep: 1, step: 4, atTarget: true })
+  })
+
+  test('keeps counting repetitions at the target tempo', () => {
+    expect(getTrainerProgress(LADDER, 11)).toMatchObject({ bpm: 72, rep: 6, step: 4 })
+  })
+
+  test('walks down when the target is slower than the start', () => {
+    const slowDown = { ...LADDER, startBpm: 100, targetBpm: 90, repsPerStep: 1 }
+    expect([0, 1, 2, 3].map(reps => getTrainerProgress(slowDown, reps).bpm)).toEqual([100, 95, 90, 90])
+  })
+
+  test('normalizes steps, repetitions and pause', () => {
+    expect(normalizeTrainerSettings({ startBpm: 60.4, targetBpm: 99.6, increment: -2.2, repsPerStep: 0, pauseSeconds: -1 }))
+      .toEqual({ startBpm: 60, targetBpm: 100, increment: 2, repsPerStep: 1, pauseSeconds: 0 })
+    expect(normalizeTrainerSettings(DEFAULT_TEMPO_TRAINER)).toEqual(DEFAULT_TEMPO_TRAINER)
+  })
+})
@@ -0,0 +1,70 @@
+// Tempo Trainer ("speed ladder")
+// Pure step logic for a practice loop that starts slow and speeds up every few repetitions
+
+export interface TempoTrainerSettings {
+  startBpm: number
+  targetBpm: number
+  increment: number // BPM change per step, towards the target
+  repsPerStep: number // Loop repetitions played at each tempo
+  pauseSeconds: number // Silence between repetitions (0 for none)
+}
+
+export interface TempoTrainerState {
+  settings: TempoTrainerSettings
+  completedReps: number // Loop repetitions finished since the trainer started
+}
+
+export interface TempoTrainerProgress {
+  bpm: number
+  rep: number // Repetition at the current tempo, from 1
+  step: number // Tempo step, from 1
+  stepCount: number
+  atTarget: boolean
+}
+
+export const DEFAULT_TEMPO_TRAINER: TempoTrainerSettings = {
+  startBpm: 60,
+  targetBpm: 120,
+  increment: 5,
+  repsPerStep: 2,
+  pauseSeconds: 0
+}
+
+/**
+ * Settings with whole-number steps and repetitions and no negative pause
+ */
+export const normalizeTrainerSettings = (settings: TempoTrainerSettings): TempoTrainerSettings => ({
+  startBpm: Math.round(settings.startBpm),
+  targetBpm: Math.round(settings.targetBpm),
+  increment: Math.max(1, Math.round(Math.abs(settings.increment))),
+  repsPerStep: Math.max(1, Math.round(settings.repsPerStep)),
+  pauseSeconds: Math.max(0, settings.pauseSeconds)
+})
+
+/**
+ * Number of tempos on the ladder, counting the start and the target
+ * The last step lands exactly on the target even when the increment overshoots it
+ */
+export const getTrainerStepCount = (settings: TempoTrainerSettings): number => {
+  const { startBpm, targetBpm, increment } = normalizeTrainerSettings(settings)
+  return Math.ceil(Math.abs(targetBpm - startBpm) / increment) + 1
+}
+
+/**
+ * Where the ladder is after a number of completed repetitions
+ * Once the target is reached it stays there and keeps counting repetitions
+ */
+export const getTrainerProgress = (settings: TempoTrainerSettings, completedReps: number): TempoTrainerProgress => {
+  const { startBpm, targetBpm, increment, repsPerStep } = normalizeTrainerSettings(settings)
+  const stepCount = getTrainerStepCount(settings)
+  const stepIndex = Math.min(Math.floor(completedReps / repsPerStep), stepCount - 1)
+  const distance = Math.min(stepIndex * increment, Math.abs(targetBpm - startBpm))
+
+  return {
+    bpm: startBpm + Math.sign(targetBpm - startBpm) * distance,
+    rep: completedReps - stepIndex * repsPerStep + 1,
+    step: stepIndex + 1,
+    stepCount,
+    atTarget: stepIndex === stepCount - 1
+  }
+}
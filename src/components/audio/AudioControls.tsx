@@ -3,16 +3,21 @@
 
 import React from 'react'
 import { useAudio, useAudioState, usePlaybackControls } from '../../contexts/AudioContext'
+import { DEFAULT_INSTRUMENT, type InstrumentProfile } from '../../types/notestack'
 
 interface AudioControlsProps {
   className?: string
+  instrument?: InstrumentProfile // Strings offered in the note preview
 }
 
-export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' }) => {
+export const AudioControls: React.FC<AudioControlsProps> = ({ className = '', instrument = DEFAULT_INSTRUMENT }) => {
   // Pure functional hooks
   const audioState = useAudioState()
   const { play, stop, pause, setTempo, jumpTo } = usePlaybackControls()
-  const { setVolume, toggleLoop, previewNote, initializeAudio } = useAudio()
+  const { setVolume, toggleLoop, previewNote, initializeAudio, setMetronome, toggleCountIn, setBackingTrackMix } = useAudio()
+  const { metronome, backingTrack } = audioState
+  // High to low string order for display
+  const previewStrings = Array.from({ length: instrument.stringCount }, (_, index) => instrument.stringCount - 1 - index)
 
   const handlePlayToggle = async () => {
     if (audioState.isPlaying) {
@@ -30,6 +35,10 @@ export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' })
     setVolume(Number(e.target.value) / 100)
   }
 
+  const handleMetronomeVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMetronome({ volume: Number(e.target.value) / 100 })
+  }
+
   const handlePositionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     jumpTo(Number(e.target.value))
   }
@@ -147,6 +156,98 @@ export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' })
         />
       </div>
 
+      {/* Metronome */}
+      <div style={{ marginBottom: '16px' }}>
+        <h4 style={{ marginBottom: '8px', color: '#555' }}>
+          Metronome: {Math.round(metronome.volume * 100)}%
+        </h4>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+          <button 
+            onClick={() => setMetronome({ enabled: !metronome.enabled })}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: metronome.enabled ? '#ffc107' : '#6c757d',
+              color: metronome.enabled ? '#000' : 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            🥁 Click {metronome.enabled ? 'ON' : 'OFF'}
+          </button>
+
+          <button 
+            onClick={() => setMetronome({ muted: !metronome.muted })}
+            disabled={!metronome.enabled}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: metronome.muted ? '#dc3545' : '#6c757d',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {metronome.muted ? '🔇 Muted' : '🔈 Mute'}
+          </button>
+
+          <select
+            value={metronome.subdivisions}
+            onChange={(e) => setMetronome({ subdivisions: Number(e.target.value) })}
+            title="Clicks per beat - 6/8 and other compound meters count dotted beats"
+          >
+            {[1, 2, 3, 4].map(count => (
+              <option key={count} value={count}>{count === 1 ? 'Beats only' : `${count} per beat`}</option>
+            ))}
+          </select>
+
+          <label style={{ fontSize: '12px', color: '#555' }}>
+            <input type="checkbox" checked={audioState.countInEnabled} onChange={toggleCountIn} /> Count-in
+          </label>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(metronome.volume * 100)}
+          onChange={handleMetronomeVolumeChange}
+          style={{ width: '200px' }}
+        />
+      </div>
+
+      {/* Backing Track */}
+      {backingTrack && (
+        <div style={{ marginBottom: '16px' }}>
+          <h4 style={{ marginBottom: '8px', color: '#555' }}>
+            Backing track: {Math.round(backingTrack.volume * 100)}%
+          </h4>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+            <span style={{ fontSize: '12px', color: '#555' }}>{backingTrack.name}</span>
+            <button 
+              onClick={() => setBackingTrackMix({ muted: !backingTrack.muted })}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: backingTrack.muted ? '#dc3545' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              {backingTrack.muted ? '🔇 Muted' : '🔈 Mute'}
+            </button>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(backingTrack.volume * 100)}
+            onChange={(e) => setBackingTrackMix({ volume: Number(e.target.value) / 100 })}
+            style={{ width: '200px' }}
+          />
+        </div>
+      )}
+
       {/* Position Control */}
       <div style={{ marginBottom: '16px' }}>
         <h4 style={{ marginBottom: '8px', color: '#555' }}>
@@ -168,7 +269,7 @@ export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' })
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '4px', maxWidth: '200px' }}>
           {[0, 1, 2, 3, 4].map(fret => (
             <div key={fret} style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
-              {[2, 1, 0].map(string => ( // High to low string order for display
+              {previewStrings.map(string => (
                 <button
                   key={`${string}-${fret}`}
                   onClick={() => handlePreviewNote(fret, string)}
@@ -182,7 +283,7 @@ export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' })
                     cursor: 'pointer',
                     minHeight: '24px'
                   }}
-                  title={`String ${string}, Fret ${fret}`}
+                  title={`String ${instrument.stringNames[string]}, Fret ${fret}`}
                 >
                   {fret}
                 </button>
@@ -191,7 +292,7 @@ export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' })
           ))}
         </div>
         <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-          Click buttons to preview notes. Columns = frets (0-4), Rows = strings (Hi D, A, Low D)
+          Click buttons to preview notes. Columns = frets (0-4), Rows = strings ({previewStrings.map(string => instrument.stringNames[string]).join(', ')})
         </div>
       </div>
 
@@ -207,6 +308,7 @@ export const AudioControls: React.FC<AudioControlsProps> = ({ className = '' })
         <div><strong>Status:</strong> {audioState.isPlaying ? '▶️ Playing' : '⏸️ Stopped'}</div>
         <div><strong>Sequence:</strong> {audioState.sequence.length} note stacks loaded</div>
         <div><strong>Loop:</strong> {audioState.isLooping ? 'Enabled' : 'Disabled'}</div>
+        <div><strong>Metronome:</strong> {metronome.enabled ? (metronome.muted ? 'Muted' : 'On') : 'Off'}</div>
       </div>
 
 
@@ -1,14 +1,32 @@
-import React, { createContext, useContext, useReducer } from 'react';
+import React, { createContext, useContext, useReducer, useMemo } from 'react';
+import {
+  performanceToWrittenPosition,
+  writtenToPerformancePosition,
+  type PerformanceSegment
+} from '../../services/PlaybackOrder';
+import {
+  addSyncPoint,
+  removeSyncPoint,
+  slotToVideoSeconds,
+  videoSecondsToSlot,
+  getLocalVideoBPM,
+  shiftSyncMap,
+  type SyncPoint
+} from '../../services/VideoSyncMap';
 
 // Types
 export interface VideoConfig {
   source: string | File;
+  libraryId?: string; // Key of the video in the local video library
   recordedBPM: number;  // BPM the video was recorded at
+  syncMap?: SyncPoint[]; // Tapped anchors (performed slot <-> video seconds) for human-played video
+  startOffset?: number; // Video seconds of the first beat (slot 0), skipping a spoken intro
+  endTime?: number; // Video seconds where the lesson ends; playback stops there
 }
 
 export interface TimePosition {
   timeSlot: number;     // Current position in tab (16th note slots)
-  seconds: number;      // Equivalent seconds based on current BPM
+  seconds: number;      // Video time when a video is configured, else seconds at the current BPM
 }
 
 interface SyncEngineState {
@@ -17,6 +35,7 @@ interface SyncEngineState {
   tabBPM: number;
   videoConfig: VideoConfig | null;
   timeSignature: string;
+  performanceOrder: PerformanceSegment[]; // In slots; empty when the tab plays straight through
 }
 
 // Actions
@@ -26,8 +45,14 @@ type SyncEngineAction =
   | { type: 'SEEK_TO_SLOT'; timeSlot: number }
   | { type: 'UPDATE_POSITION'; timeSlot: number }
   | { type: 'SET_TAB_BPM'; bpm: number }
-  | { type: 'SET_VIDEO_CONFIG'; config: VideoConfig }
-  | { type: 'SET_TIME_SIGNATURE'; signature: string };
+  | { type: 'SET_VIDEO_CONFIG'; config: VideoConfig | null }
+  | { type: 'SET_TIME_SIGNATURE'; signature: string }
+  | { type: 'SET_PERFORMANCE_ORDER'; segments: PerformanceSegment[] }
+  | { type: 'ADD_SYNC_POINT'; point: SyncPoint }
+  | { type: 'REMOVE_SYNC_POINT'; slot: number }
+  | { type: 'CLEAR_SYNC_MAP' }
+  | { type: 'SET_VIDEO_START'; seconds: number }
+  | { type: 'SET_VIDEO_END'; seconds: number | null };
 
 // Utility functions
 function getSlotsPerMeasure(timeSignature: string): number {
@@ -35,16 +60,42 @@ function getSlotsPerMeasure(timeSignature: string): number {
   return numerator * 4; // 4 sixteenth notes per beat
 }
 
-function timeSlotToSeconds(timeSlot: number, bpm: number): number {
+function timeSlotToSeconds(timeSlot: number, bpm: number, performanceOrder: PerformanceSegment[] = []): number {
   // Each timeSlot is a 16th note
   // At 120 BPM: 1 beat = 0.5 seconds, 1 sixteenth = 0.125 seconds
-  return timeSlot * (60 / bpm / 4);
+  // With repeats the video follows the performance, so use the slot's first performance
+  return writtenToPerformancePosition(performanceOrder, timeSlot) * (60 / bpm / 4);
+}
+
+function secondsToTimeSlot(seconds: number, bpm: number, performanceOrder: PerformanceSegment[] = []): number {
+  const performedSlot = Math.floor(seconds / (60 / bpm / 4));
+  return performanceToWrittenPosition(performanceOrder, performedSlot);
 }
 
 function getVideoPlaybackRate(tabBPM: number, videoBPM: number): number {
   return tabBPM / videoBPM;
 }
 
+// Video time of a written slot through the sync map (its first performance, like timeSlotToSeconds)
+function timeSlotToVideoSeconds(timeSlot: number, videoConfig: VideoConfig, performanceOrder: PerformanceSegment[] = []): number {
+  const performedSlot = writtenToPerformancePosition(performanceOrder, timeSlot);
+  return slotToVideoSeconds(videoConfig.syncMap ?? [], performedSlot, videoConfig.recordedBPM, videoConfig.startOffset);
+}
+
+function videoSecondsToTimeSlot(seconds: number, videoConfig: VideoConfig, performanceOrder: PerformanceSegment[] = []): number {
+  const performedSlot = Math.floor(
+    videoSecondsToSlot(videoConfig.syncMap ?? [], seconds, videoConfig.recordedBPM, videoConfig.startOffset)
+  );
+  return performanceToWrittenPosition(performanceOrder, Math.max(0, performedSlot));
+}
+
+// Seconds for a position: video time (offset and sync map applied) once a video is set up
+function positionToSeconds(state: SyncEngineState, timeSlot: number, bpm: number = state.tabBPM): number {
+  return state.videoConfig
+    ? timeSlotToVideoSeconds(timeSlot, state.videoConfig, state.performanceOrder)
+    : timeSlotToSeconds(timeSlot, bpm, state.performanceOrder);
+}
+
 // Reducer
 function syncEngineReducer(state: SyncEngineState, action: SyncEngineAction): SyncEngineState {
   switch (action.type) {
@@ -61,7 +112,7 @@ function syncEngineReducer(state: SyncEngineState, action: SyncEngineAction): Sy
       };
 
     case 'SEEK_TO_SLOT': {
-      const seconds = timeSlotToSeconds(action.timeSlot, state.tabBPM);
+      const seconds = positionToSeconds(state, action.timeSlot);
       return {
         ...state,
         currentPosition: {
@@ -72,7 +123,7 @@ function syncEngineReducer(state: SyncEngineState, action: SyncEngineAction): Sy
     }
 
     case 'UPDATE_POSITION': {
-      const seconds = timeSlotToSeconds(action.timeSlot, state.tabBPM);
+      const seconds = positionToSeconds(state, action.timeSlot);
       return {
         ...state,
         currentPosition: {
@@ -84,7 +135,7 @@ function syncEngineReducer(state: SyncEngineState, action: SyncEngineAction): Sy
 
     case 'SET_TAB_BPM': {
       // Recalculate current position in seconds with new BPM
-      const seconds = timeSlotToSeconds(state.currentPosition.timeSlot, action.bpm);
+      const seconds = positionToSeconds(state, state.currentPosition.timeSlot, action.bpm);
       return {
         ...state,
         tabBPM: action.bpm,
@@ -107,6 +158,54 @@ function syncEngineReducer(state: SyncEngineState, action: SyncEngineAction): Sy
         timeSignature: action.signature,
       };
 
+    case 'SET_PERFORMANCE_ORDER':
+      return {
+        ...state,
+        performanceOrder: action.segments,
+      };
+
+    case 'ADD_SYNC_POINT':
+      if (!state.videoConfig) return state;
+      return {
+        ...state,
+        videoConfig: { ...state.videoConfig, syncMap: addSyncPoint(state.videoConfig.syncMap ?? [], action.point) },
+      };
+
+    case 'REMOVE_SYNC_POINT':
+      if (!state.videoConfig) return state;
+      return {
+        ...state,
+        videoConfig: { ...state.videoConfig, syncMap: removeSyncPoint(state.videoConfig.syncMap ?? [], action.slot) },
+      };
+
+    case 'CLEAR_SYNC_MAP':
+      if (!state.videoConfig) return state;
+      return {
+        ...state,
+        videoConfig: { ...state.videoConfig, syncMap: [] },
+      };
+
+    case 'SET_VIDEO_START': {
+      // Moving the first beat carries any tapped anchors with it
+      if (!state.videoConfig) return state;
+      const delta = action.seconds - timeSlotToVideoSeconds(0, state.videoConfig);
+      return {
+        ...state,
+        videoConfig: {
+          ...state.videoConfig,
+          startOffset: action.seconds,
+          syncMap: shiftSyncMap(state.videoConfig.syncMap ?? [], delta),
+        },
+      };
+    }
+
+    case 'SET_VIDEO_END':
+      if (!state.videoConfig) return state;
+      return {
+        ...state,
+        videoConfig: { ...state.videoConfig, endTime: action.seconds ?? undefined },
+      };
+
     default:
       return state;
   }
@@ -122,6 +221,7 @@ const initialState: SyncEngineState = {
   tabBPM: 120,
   videoConfig: null,
   timeSignature: '4/4',
+  performanceOrder: [],
 };
 
 // Context
@@ -137,13 +237,25 @@ interface SyncEngineContextType {
   
   // Configuration
   setTabBPM(bpm: number): void;
-  setVideoConfig(config: VideoConfig): void;
+  setVideoConfig(config: VideoConfig | null): void; // null removes the video
   setTimeSignature(signature: string): void;
+  setPerformanceOrder(segments: PerformanceSegment[]): void;
+  
+  // Sync map (performed slots <-> video seconds)
+  addSyncPoint(point: SyncPoint): void;
+  removeSyncPoint(slot: number): void;
+  clearSyncMap(): void;
+  setVideoStart(seconds: number): void;
+  setVideoEnd(seconds: number | null): void;
   
   // Utility methods
   getVideoPlaybackRate(): number;
   getSlotsPerMeasure(): number;
   timeSlotToSeconds(timeSlot: number): number;
+  secondsToTimeSlot(seconds: number): number;
+  timeSlotToVideoSeconds(timeSlot: number): number;
+  videoSecondsToTimeSlot(seconds: number): number;
+  getVideoLoop(startSlot: number, endSlot: number): { loopStart: number; loopEnd: number };
 }
 
 const SyncEngineContext = createContext<SyncEngineContextType | null>(null);
@@ -156,9 +268,8 @@ interface SyncEngineProviderProps {
 export const SyncEngineProvider: React.FC<SyncEngineProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(syncEngineReducer, initialState);
 
-  const contextValue: SyncEngineContextType = {
-    state,
-
+  // Actions only dispatch, so they keep their identity across renders and can sit in effect dependencies
+  const actions = useMemo(() => ({
     play() {
       dispatch({ type: 'PLAY' });
     },
@@ -167,14 +278,6 @@ export const SyncEngineProvider: React.FC<SyncEngineProviderProps> = ({ children
       dispatch({ type: 'PAUSE' });
     },
 
-    togglePlayback() {
-      if (state.isPlaying) {
-        dispatch({ type: 'PAUSE' });
-      } else {
-        dispatch({ type: 'PLAY' });
-      }
-    },
-
     seekToSlot(timeSlot: number) {
       dispatch({ type: 'SEEK_TO_SLOT', timeSlot });
     },
@@ -187,7 +290,7 @@ export const SyncEngineProvider: React.FC<SyncEngineProviderProps> = ({ children
       dispatch({ type: 'SET_TAB_BPM', bpm });
     },
 
-    setVideoConfig(config: VideoConfig) {
+    setVideoConfig(config: VideoConfig | null) {
       dispatch({ type: 'SET_VIDEO_CONFIG', config });
     },
 
@@ -195,9 +298,49 @@ export const SyncEngineProvider: React.FC<SyncEngineProviderProps> = ({ children
       dispatch({ type: 'SET_TIME_SIGNATURE', signature });
     },
 
+    setPerformanceOrder(segments: PerformanceSegment[]) {
+      dispatch({ type: 'SET_PERFORMANCE_ORDER', segments });
+    },
+
+    addSyncPoint(point: SyncPoint) {
+      dispatch({ type: 'ADD_SYNC_POINT', point });
+    },
+
+    removeSyncPoint(slot: number) {
+      dispatch({ type: 'REMOVE_SYNC_POINT', slot });
+    },
+
+    clearSyncMap() {
+      dispatch({ type: 'CLEAR_SYNC_MAP' });
+    },
+
+    setVideoStart(seconds: number) {
+      dispatch({ type: 'SET_VIDEO_START', seconds });
+    },
+
+    setVideoEnd(seconds: number | null) {
+      dispatch({ type: 'SET_VIDEO_END', seconds });
+    },
+  }), []);
+
+  const contextValue: SyncEngineContextType = {
+    state,
+    ...actions,
+
+    togglePlayback() {
+      if (state.isPlaying) {
+        dispatch({ type: 'PAUSE' });
+      } else {
+        dispatch({ type: 'PLAY' });
+      }
+    },
+
     getVideoPlaybackRate(): number {
       if (!state.videoConfig) return 1.0;
-      return getVideoPlaybackRate(state.tabBPM, state.videoConfig.recordedBPM);
+      // With a sync map the video's tempo varies, so match the stretch being played
+      const performedSlot = writtenToPerformancePosition(state.performanceOrder, state.currentPosition.timeSlot);
+      const videoBPM = getLocalVideoBPM(state.videoConfig.syncMap ?? [], performedSlot, state.videoConfig.recordedBPM);
+      return getVideoPlaybackRate(state.tabBPM, videoBPM);
     },
 
     getSlotsPerMeasure(): number {
@@ -205,7 +348,31 @@ export const SyncEngineProvider: React.FC<SyncEngineProviderProps> = ({ children
     },
 
     timeSlotToSeconds(timeSlot: number): number {
-      return timeSlotToSeconds(timeSlot, state.tabBPM);
+      return timeSlotToSeconds(timeSlot, state.tabBPM, state.performanceOrder);
+    },
+
+    secondsToTimeSlot(seconds: number): number {
+      return secondsToTimeSlot(seconds, state.tabBPM, state.performanceOrder);
+    },
+
+    timeSlotToVideoSeconds(timeSlot: number): number {
+      if (!state.videoConfig) return timeSlotToSeconds(timeSlot, state.tabBPM, state.performanceOrder);
+      return timeSlotToVideoSeconds(timeSlot, state.videoConfig, state.performanceOrder);
+    },
+
+    videoSecondsToTimeSlot(seconds: number): number {
+      if (!state.videoConfig) return secondsToTimeSlot(seconds, state.tabBPM, state.performanceOrder);
+      return videoSecondsToTimeSlot(seconds, state.videoConfig, state.performanceOrder);
+    },
+
+    getVideoLoop(startSlot: number, endSlot: number) {
+      // Keep the loop inside the lesson: after the intro and before any end trim
+      const start = Math.max(state.videoConfig?.startOffset ?? 0, this.timeSlotToVideoSeconds(startSlot));
+      const end = this.timeSlotToVideoSeconds(endSlot);
+      return {
+        loopStart: start,
+        loopEnd: Math.max(start, state.videoConfig?.endTime !== undefined ? Math.min(end, state.videoConfig.endTime) : end),
+      };
     },
   };
 
@@ -1,11 +1,15 @@
 import React from 'react';
 import type { NoteDuration, NoteType } from '../../types';
+import type { Tuplet } from '../../types/notestack';
+import { TUPLET_PRESETS } from '../../types/notestack';
 
 interface NoteValuePaletteProps {
   selectedDuration: NoteDuration;
   onDurationChange: (duration: NoteDuration) => void;
   selectedNoteType?: NoteType;
   onNoteTypeChange?: (type: NoteType) => void;
+  selectedTuplet?: Tuplet | null;
+  onTupletChange?: (tuplet: Tuplet | null) => void;
   onAfterSelection?: () => void; // Callback for post-selection actions
 }
 
@@ -21,8 +25,15 @@ const NoteValuePalette: React.FC<NoteValuePaletteProps> = ({
   onDurationChange,
   selectedNoteType = 'note',
   onNoteTypeChange,
+  selectedTuplet = null,
+  onTupletChange,
   onAfterSelection,
 }) => {
+  const isSelectedTuplet = (tuplet: Tuplet | null) =>
+    tuplet === null
+      ? selectedTuplet === null
+      : selectedTuplet?.actual === tuplet.actual && selectedTuplet?.normal === tuplet.normal;
+
   const noteValues: NoteValue[] = [
     {
       duration: 'whole',
@@ -104,6 +115,33 @@ const NoteValuePalette: React.FC<NoteValuePaletteProps> = ({
           </div>
         ))}
       </div>
+
+      {/* Tuplet selector - new notes are grouped, e.g. three eighths in the time of two */}
+      {onTupletChange && (
+        <>
+          <span className="note-value-palette__label">Tuplet:</span>
+          <div className="note-value-palette__buttons">
+            {[null, ...TUPLET_PRESETS].map((tuplet) => (
+              <button
+                key={tuplet ? `${tuplet.actual}:${tuplet.normal}` : 'none'}
+                className={`note-value-button note-value-button--tuplet ${
+                  isSelectedTuplet(tuplet) ? 'note-value-button--active' : ''
+                }`}
+                onClick={() => {
+                  onTupletChange(tuplet);
+                  onAfterSelection?.();
+                }}
+                title={tuplet ? `${tuplet.actual} notes in the time of ${tuplet.normal}` : 'No tuplet'}
+                aria-label={tuplet ? `${tuplet.actual}:${tuplet.normal} tuplet` : 'No tuplet'}
+              >
+                <span className="note-value-button__symbol">
+                  {tuplet ? `${tuplet.actual}:${tuplet.normal}` : '—'}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 };
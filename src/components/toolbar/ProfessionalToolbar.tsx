@@ -2,17 +2,30 @@ import React from 'react';
 import './ProfessionalToolbar.css';
 import NoteValuePalette from './NoteValuePalette';
 import TimeSignatureSelector from './TimeSignatureSelector';
+import TempoControls from './TempoControls';
 import type { NoteDuration, NoteType, ToolMode, CursorPosition, Note } from '../../types';
+import type { Tuplet } from '../../types/notestack';
+import type { TempoTrainerSettings, TempoTrainerProgress } from '../../audio/tempoTrainer';
+import type { BeatEstimate } from '../../services/BeatDetection';
 
 interface ProfessionalToolbarProps {
   selectedDuration: NoteDuration;
   onDurationChange: (duration: NoteDuration) => void;
   selectedNoteType: NoteType;
   onNoteTypeChange: (type: NoteType) => void;
+  selectedTuplet?: Tuplet | null;
+  onTupletChange?: (tuplet: Tuplet | null) => void;
   currentToolMode: ToolMode;
   onToolModeChange: (mode: ToolMode) => void;
   tempo?: number;
   onTempoChange?: (tempo: number) => void;
+  tempoTrainer?: TempoTrainerProgress | null;
+  onTempoTrainerStart?: (settings: TempoTrainerSettings) => void;
+  onTempoTrainerStop?: () => void;
+  recordingLabel?: string;
+  videoPlaybackRate?: number;
+  onVideoTempoDetect?: () => Promise<BeatEstimate | null>;
+  onVideoTempoAccept?: (estimate: { bpm: number; firstBeat?: number }) => void;
   timeSignature: string;
   onTimeSignatureChange: (signature: string) => void;
   tieMode: boolean;
@@ -22,7 +35,18 @@ interface ProfessionalToolbarProps {
   onLoad?: () => void;
   onNew?: () => void;
   onSaveAs?: () => void;
+  onExportMidi?: () => void;
+  onExportPdf?: () => void;
+  onExportSvg?: () => void;
+  onExportMusicXML?: () => void;
+  onImportFile?: (file: File) => void;
+  onAsciiTab?: () => void;
   isModified?: boolean;
+  // Undo/redo
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   // Unified position/selection functionality
   currentPosition: CursorPosition;
   noteAtCurrentPosition?: Note | null;
@@ -42,8 +66,19 @@ const ProfessionalToolbar: React.FC<ProfessionalToolbarProps> = ({
   onDurationChange,
   selectedNoteType,
   onNoteTypeChange,
+  selectedTuplet,
+  onTupletChange,
   currentToolMode,
   onToolModeChange,
+  tempo,
+  onTempoChange,
+  tempoTrainer,
+  onTempoTrainerStart,
+  onTempoTrainerStop,
+  recordingLabel,
+  videoPlaybackRate,
+  onVideoTempoDetect,
+  onVideoTempoAccept,
   timeSignature,
   onTimeSignatureChange,
   tieMode,
@@ -52,7 +87,17 @@ const ProfessionalToolbar: React.FC<ProfessionalToolbarProps> = ({
   onLoad,
   onNew,
   onSaveAs,
+  onExportMidi,
+  onExportPdf,
+  onExportSvg,
+  onExportMusicXML,
+  onImportFile,
+  onAsciiTab,
   isModified = false,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   noteAtCurrentPosition,
   onToggleDotted,
   onAfterSelection,
@@ -97,6 +142,60 @@ const ProfessionalToolbar: React.FC<ProfessionalToolbarProps> = ({
             <span className="toolbar-button__icon">💾</span>
             <span className="toolbar-button__text">Save As...</span>
           </button>
+          <button 
+            className="toolbar-button" 
+            title="Export MIDI (.mid)"
+            onClick={onExportMidi}
+          >
+            <span className="toolbar-button__icon">🎹</span>
+            <span className="toolbar-button__text">MIDI</span>
+          </button>
+          <button 
+            className="toolbar-button" 
+            title="Export printable score (PDF)"
+            onClick={onExportPdf}
+          >
+            <span className="toolbar-button__icon">🖨️</span>
+            <span className="toolbar-button__text">PDF</span>
+          </button>
+          <button 
+            className="toolbar-button" 
+            title="Export printable score pages (SVG)"
+            onClick={onExportSvg}
+          >
+            <span className="toolbar-button__icon">🖼️</span>
+            <span className="toolbar-button__text">SVG</span>
+          </button>
+          <button 
+            className="toolbar-button" 
+            title="Export MusicXML (.musicxml)"
+            onClick={onExportMusicXML}
+          >
+            <span className="toolbar-button__icon">🎼</span>
+            <span className="toolbar-button__text">MusicXML</span>
+          </button>
+          <label className="toolbar-button" title="Import a MusicXML or MIDI file as a new project">
+            <span className="toolbar-button__icon">📥</span>
+            <span className="toolbar-button__text">Import</span>
+            <input
+              type="file"
+              accept=".musicxml,.xml,.mid,.midi"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportFile?.(file);
+                e.target.value = '';
+              }}
+              hidden
+            />
+          </label>
+          <button 
+            className="toolbar-button" 
+            title="Copy or paste plain-text ASCII tab"
+            onClick={onAsciiTab}
+          >
+            <span className="toolbar-button__icon">📝</span>
+            <span className="toolbar-button__text">ASCII</span>
+          </button>
         </div>
       ),
     },
@@ -105,11 +204,21 @@ const ProfessionalToolbar: React.FC<ProfessionalToolbarProps> = ({
       title: 'Edit',
       component: (
         <div className="toolbar-section__content">
-          <button className="toolbar-button" title="Undo (Ctrl+Z)">
+          <button 
+            className="toolbar-button" 
+            title="Undo (Ctrl+Z)"
+            onClick={onUndo}
+            disabled={!canUndo}
+          >
             <span className="toolbar-button__icon">↶</span>
             <span className="toolbar-button__text">Undo</span>
           </button>
-          <button className="toolbar-button" title="Redo (Ctrl+Y)">
+          <button 
+            className="toolbar-button" 
+            title="Redo (Ctrl+Shift+Z)"
+            onClick={onRedo}
+            disabled={!canRedo}
+          >
             <span className="toolbar-button__icon">↷</span>
             <span className="toolbar-button__text">Redo</span>
           </button>
@@ -139,6 +248,8 @@ const ProfessionalToolbar: React.FC<ProfessionalToolbarProps> = ({
             onDurationChange={onDurationChange}
             selectedNoteType={selectedNoteType}
             onNoteTypeChange={onNoteTypeChange}
+            selectedTuplet={selectedTuplet}
+            onTupletChange={onTupletChange}
             onAfterSelection={onAfterSelection}
           />
           <div className="toolbar-separator" />
@@ -200,6 +311,25 @@ const ProfessionalToolbar: React.FC<ProfessionalToolbarProps> = ({
         </div>
       ),
     },
+    ...(tempo !== undefined && onTempoChange ? [{
+      id: 'tempo',
+      title: 'Tempo',
+      component: (
+        <div className="toolbar-section__content">
+          <TempoControls
+            tempo={tempo}
+            onTempoChange={onTempoChange}
+            trainer={tempoTrainer}
+            onTrainerStart={onTempoTrainerStart}
+            onTrainerStop={onTempoTrainerStop}
+            recordingLabel={recordingLabel}
+            videoPlaybackRate={videoPlaybackRate}
+            onVideoTempoDetect={onVideoTempoDetect}
+            onVideoTempoAccept={onVideoTempoAccept}
+          />
+        </div>
+      ),
+    }] : []),
   ];
 
   return (
@@ -1,16 +1,75 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { DEFAULT_TEMPO_TRAINER } from '../../audio/tempoTrainer';
+import type { TempoTrainerSettings, TempoTrainerProgress } from '../../audio/tempoTrainer';
+import { estimateTapTempo, TAP_RESET_SECONDS, type BeatEstimate } from '../../services/BeatDetection';
 
 interface TempoControlsProps {
   tempo: number;
   onTempoChange: (tempo: number) => void;
+  // Speed ladder over the loop
+  trainer?: TempoTrainerProgress | null; // Progress while the trainer runs
+  onTrainerStart?: (settings: TempoTrainerSettings) => void;
+  onTrainerStop?: () => void;
+  // Estimating the BPM the video (or the backing track without one) was recorded at
+  recordingLabel?: string; // What the recording is called in the controls
+  videoPlaybackRate?: number; // Taps follow the video as heard, so they are scaled back by its rate
+  onVideoTempoDetect?: () => Promise<BeatEstimate | null>;
+  onVideoTempoAccept?: (estimate: { bpm: number; firstBeat?: number }) => void;
 }
 
+type DetectState = { status: 'idle' } | { status: 'running' } | { status: 'done'; estimate: BeatEstimate | null } | { status: 'error'; message: string };
+
+const TRAINER_FIELDS: { key: keyof TempoTrainerSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'startBpm', label: 'Start', min: 60, max: 200, step: 1 },
+  { key: 'targetBpm', label: 'Target', min: 60, max: 200, step: 1 },
+  { key: 'increment', label: '+BPM', min: 1, max: 50, step: 1 },
+  { key: 'repsPerStep', label: 'Every reps', min: 1, max: 20, step: 1 },
+  { key: 'pauseSeconds', label: 'Pause s', min: 0, max: 10, step: 0.5 },
+];
+
 const TempoControls: React.FC<TempoControlsProps> = ({
   tempo,
   onTempoChange,
+  trainer = null,
+  onTrainerStart,
+  onTrainerStop,
+  recordingLabel = 'video',
+  videoPlaybackRate = 1,
+  onVideoTempoDetect,
+  onVideoTempoAccept,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(tempo.toString());
+  const [showTrainer, setShowTrainer] = useState(false);
+  const [trainerSettings, setTrainerSettings] = useState<TempoTrainerSettings>(DEFAULT_TEMPO_TRAINER);
+  const tapTimesRef = useRef<number[]>([]);
+  const [tapBpm, setTapBpm] = useState<number | null>(null);
+  const [detect, setDetect] = useState<DetectState>({ status: 'idle' });
+
+  const handleTap = () => {
+    const now = performance.now() / 1000;
+    const taps = tapTimesRef.current;
+    if (taps.length > 0 && now - taps[taps.length - 1] > TAP_RESET_SECONDS) taps.length = 0;
+    taps.push(now);
+
+    const bpm = estimateTapTempo(taps);
+    setTapBpm(bpm !== null ? Math.round((bpm / videoPlaybackRate) * 10) / 10 : null);
+  };
+
+  const handleDetect = async () => {
+    if (!onVideoTempoDetect) return;
+    setDetect({ status: 'running' });
+    try {
+      setDetect({ status: 'done', estimate: await onVideoTempoDetect() });
+    } catch (error) {
+      console.error('Beat detection failed:', error);
+      // Oversized files get their own explanation; anything else is a file the browser can't decode
+      setDetect({
+        status: 'error',
+        message: error instanceof RangeError ? error.message : `Could not read the ${recordingLabel}'s audio`,
+      });
+    }
+  };
 
   const handleTempoIncrement = (delta: number) => {
     const newTempo = Math.max(30, Math.min(400, tempo + delta));
@@ -82,6 +141,126 @@ const TempoControls: React.FC<TempoControlsProps> = ({
           <span className="tempo-button__icon">+</span>
         </button>
       </div>
+
+      {onTrainerStart && (
+        <div className="tempo-trainer">
+          {trainer ? (
+            <>
+              <span className="tempo-trainer__status" title="Tempo trainer progress">
+                Rep {trainer.rep} · Step {trainer.step}/{trainer.stepCount} · {trainer.bpm} BPM
+                {trainer.atTarget ? ' (target)' : ''}
+              </span>
+              <button className="tempo-trainer__button" onClick={onTrainerStop} title="Stop the tempo trainer">
+                Stop
+              </button>
+            </>
+          ) : (
+            <button
+              className="tempo-trainer__button"
+              onClick={() => setShowTrainer(!showTrainer)}
+              aria-expanded={showTrainer}
+              title="Loop at a slow tempo and speed up every few repetitions"
+            >
+              Trainer…
+            </button>
+          )}
+
+          {showTrainer && !trainer && (
+            <div className="tempo-trainer__form">
+              {TRAINER_FIELDS.map(field => (
+                <label key={field.key} className="tempo-trainer__field">
+                  <span>{field.label}</span>
+                  <input
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={trainerSettings[field.key]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value)) setTrainerSettings({ ...trainerSettings, [field.key]: value });
+                    }}
+                  />
+                </label>
+              ))}
+              <button
+                className="tempo-trainer__button"
+                onClick={() => {
+                  onTrainerStart(trainerSettings);
+                  setShowTrainer(false);
+                }}
+                title="Start looping at the start tempo"
+              >
+                Start
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {onVideoTempoAccept && (
+        <div className="tempo-trainer">
+          <button
+            className="tempo-trainer__button"
+            onClick={handleTap}
+            title={`Tap along with the ${recordingLabel}'s beat to estimate the tempo it was recorded at`}
+          >
+            Tap
+          </button>
+          {tapBpm !== null && (
+            <>
+              <span className="tempo-trainer__status">
+                {recordingLabel.charAt(0).toUpperCase() + recordingLabel.slice(1)} {tapBpm} BPM
+              </span>
+              <button
+                className="tempo-trainer__button"
+                onClick={() => {
+                  onVideoTempoAccept({ bpm: tapBpm });
+                  tapTimesRef.current = [];
+                  setTapBpm(null);
+                }}
+                title={`Use the tapped tempo as the ${recordingLabel}'s recorded BPM`}
+              >
+                Use
+              </button>
+            </>
+          )}
+
+          {onVideoTempoDetect && (
+            <button
+              className="tempo-trainer__button"
+              onClick={handleDetect}
+              disabled={detect.status === 'running'}
+              title={`Analyse the ${recordingLabel}'s audio for its tempo and first beat`}
+            >
+              {detect.status === 'running' ? 'Analysing…' : 'Detect'}
+            </button>
+          )}
+          {detect.status === 'error' && (
+            <span className="tempo-trainer__status">{detect.message}</span>
+          )}
+          {detect.status === 'done' && !detect.estimate && (
+            <span className="tempo-trainer__status">No steady beat found</span>
+          )}
+          {detect.status === 'done' && detect.estimate && (
+            <>
+              <span className="tempo-trainer__status" title="Proposed recorded tempo and first beat">
+                {detect.estimate.bpm} BPM · beat 1 at {detect.estimate.firstBeat.toFixed(2)}s
+              </span>
+              <button
+                className="tempo-trainer__button"
+                onClick={() => {
+                  if (detect.estimate) onVideoTempoAccept(detect.estimate);
+                  setDetect({ status: 'idle' });
+                }}
+                title={`Use this tempo and first beat to line up the ${recordingLabel}`}
+              >
+                Accept
+              </button>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -12,9 +12,19 @@ interface PlaybackBarProps {
   onLoopToggle: () => void;
   onFretboardToggle: () => void;
   onCountInToggle: () => void;
+  onLoopClear?: () => void;
+  onMetronomeToggle?: () => void;
+  // Imported recording played along with the tab
+  onBackingTrackSelect?: (file: File) => void;
+  onBackingTrackMuteToggle?: () => void;
+  onBackingTrackClear?: () => void;
+  backingTrackName?: string | null;
+  backingTrackMuted?: boolean;
   isLooping?: boolean;
+  loopLabel?: string | null; // A/B region, e.g. "1.1 – 3.1"; null when the whole tab loops
   showFretboard?: boolean;
   countInEnabled?: boolean;
+  metronomeEnabled?: boolean;
 }
 
 const PlaybackBar: React.FC<PlaybackBarProps> = ({
@@ -28,9 +38,18 @@ const PlaybackBar: React.FC<PlaybackBarProps> = ({
   onLoopToggle,
   onFretboardToggle,
   onCountInToggle,
+  onLoopClear,
+  onMetronomeToggle,
+  onBackingTrackSelect,
+  onBackingTrackMuteToggle,
+  onBackingTrackClear,
+  backingTrackName = null,
+  backingTrackMuted = false,
   isLooping = false,
+  loopLabel = null,
   showFretboard = true,
   countInEnabled = false,
+  metronomeEnabled = false,
 }) => {
   const tempoIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -169,6 +188,61 @@ const PlaybackBar: React.FC<PlaybackBarProps> = ({
 
       {/* Right Section - Feature Buttons */}
       <div className="playback-bar__right">
+        {onMetronomeToggle && (
+          <button 
+            className={`playback-bar__feature-button ${metronomeEnabled ? 'active' : ''}`}
+            onClick={onMetronomeToggle}
+            aria-label="Toggle metronome"
+            title="Metronome: click along with playback"
+          >
+            <img 
+              src="/icons/metranome.svg" 
+              alt=""
+              width="16" 
+              height="16"
+            />
+            Click
+          </button>
+        )}
+        
+        {onBackingTrackSelect && !backingTrackName && (
+          <label className="playback-bar__feature-button" title="Play along with an MP3 or WAV recording">
+            Backing…
+            <input
+              type="file"
+              accept="audio/mpeg,audio/wav,.mp3,.wav"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onBackingTrackSelect(file);
+                e.target.value = '';
+              }}
+              hidden
+            />
+          </label>
+        )}
+        
+        {backingTrackName && (
+          <button 
+            className={`playback-bar__feature-button ${backingTrackMuted ? '' : 'active'}`}
+            onClick={onBackingTrackMuteToggle}
+            aria-label="Toggle backing track"
+            title={`Backing track: ${backingTrackName} - follows the tempo without changing pitch`}
+          >
+            Backing
+          </button>
+        )}
+        
+        {backingTrackName && onBackingTrackClear && (
+          <button 
+            className="playback-bar__feature-button"
+            onClick={onBackingTrackClear}
+            aria-label="Remove backing track"
+            title="Remove the backing track"
+          >
+            ×
+          </button>
+        )}
+        
         <button 
           className={`playback-bar__feature-button ${isLooping ? 'active' : ''}`}
           onClick={onLoopToggle}
@@ -178,8 +252,20 @@ const PlaybackBar: React.FC<PlaybackBarProps> = ({
             <path d="M17 2H7C5.9 2 5 2.9 5 4v16c0 1.1.9 2 2 2h10c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm-5 18l-4-4h3V8h2v8h3l-4 4z"/>
           </svg>
           Loop
+          {loopLabel && <span className="playback-bar__loop-range">{loopLabel}</span>}
         </button>
         
+        {loopLabel && onLoopClear && (
+          <button 
+            className="playback-bar__feature-button"
+            onClick={onLoopClear}
+            aria-label="Clear loop region"
+            title="Clear the A/B loop so looping repeats the whole tab"
+          >
+            ×
+          </button>
+        )}
+        
         <button 
           className={`playback-bar__feature-button ${showFretboard ? 'active' : ''}`}
           onClick={onFretboardToggle}
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import './SaveLoadDialog.css';
 import type { RecentFile, ProjectMetadata } from '../../services/FileManager';
+import type { NoteDuration } from '../../types';
 
 export interface SaveDialogProps {
   isOpen: boolean;
@@ -25,6 +26,13 @@ export interface NewProjectDialogProps {
   hasUnsavedChanges: boolean;
 }
 
+export interface AsciiTabDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  exportedTab: string;
+  onImport: (text: string, defaultDuration: NoteDuration) => void;
+}
+
 // Save Dialog Component
 export const SaveDialog: React.FC<SaveDialogProps> = ({
   isOpen,
@@ -322,4 +330,101 @@ export const NewProjectDialog: React.FC<NewProjectDialogProps> = ({
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+}; 
+
+// ASCII Tab Dialog - copy the current tab as text, or paste text tab to open it as a new project
+export const AsciiTabDialog: React.FC<AsciiTabDialogProps> = ({
+  isOpen,
+  onClose,
+  exportedTab,
+  onImport
+}) => {
+  const [pasted, setPasted] = useState('');
+  const [defaultDuration, setDefaultDuration] = useState<NoteDuration>('eighth');
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportedTab);
+      setCopied(true);
+    } catch (error) {
+      console.error('❌ Copy to clipboard failed:', error);
+      alert('Could not copy to the clipboard - select the text and copy it instead');
+    }
+  };
+
+  const handleImport = () => {
+    onImport(pasted, defaultDuration);
+    setPasted('');
+    onClose();
+  };
+
+  const handleClose = () => {
+    setCopied(false);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="dialog-overlay" onClick={handleClose}>
+      <div className="dialog-content dialog-content--large" onClick={e => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h2 className="dialog-title">ASCII Tab</h2>
+          <button className="dialog-close" onClick={handleClose}>×</button>
+        </div>
+
+        <div className="dialog-body">
+          <div className="form-field">
+            <label htmlFor="ascii-export">Current tab</label>
+            <textarea
+              id="ascii-export"
+              value={exportedTab}
+              readOnly
+              rows={8}
+              style={{ fontFamily: 'monospace' }}
+            />
+          </div>
+
+          <div className="form-field">
+            <label htmlFor="ascii-import">Paste tab to open as a new project</label>
+            <textarea
+              id="ascii-import"
+              value={pasted}
+              onChange={e => setPasted(e.target.value)}
+              placeholder={'d|--0--2--|\nA|---------|\nD|---------|'}
+              rows={8}
+              style={{ fontFamily: 'monospace' }}
+            />
+          </div>
+
+          <div className="form-field">
+            <label htmlFor="ascii-duration">Note length for each column</label>
+            <select
+              id="ascii-duration"
+              value={defaultDuration}
+              onChange={e => setDefaultDuration(e.target.value as NoteDuration)}
+            >
+              <option value="quarter">Quarter</option>
+              <option value="eighth">Eighth</option>
+              <option value="sixteenth">Sixteenth</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="dialog-footer">
+          <button className="dialog-button dialog-button--secondary" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy Tab'}
+          </button>
+          <button
+            className="dialog-button dialog-button--primary"
+            onClick={handleImport}
+            disabled={!pasted.trim()}
+          >
+            Open Pasted Tab
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
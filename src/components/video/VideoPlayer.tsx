@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useState } from 'react';
 import './VideoPlayer.css';
+import { VideoLibrary } from '../../services/VideoLibrary';
 
 interface VideoPlayerProps {
   source?: string | File;
@@ -7,24 +8,59 @@ interface VideoPlayerProps {
   isPlaying?: boolean;
   playbackRate?: number;
   isMuted?: boolean;
+  loopStart?: number; // A/B loop in seconds of media time
+  loopEnd?: number;
+  startOffset?: number; // Media time of the first beat
+  endTime?: number; // Media time where the lesson ends
   onTimeUpdate?: (time: number) => void;
   onDurationChange?: (duration: number) => void;
   onPlayStateChange?: (isPlaying: boolean) => void;
   onMuteToggle?: () => void;
+  onSourceSelect?: (file: File, handle?: FileSystemFileHandle) => void;
+  // Linked video that could not be re-attached from the library
+  missingMedia?: { name: string; needsPermission: boolean } | null;
+  onMediaReconnect?: () => void;
+  onFirstBeatSet?: (seconds: number) => void;
+  onEndSet?: (seconds: number | null) => void;
+  // Sync map tapping: each tap anchors the next downbeat to the current video time
+  syncPointCount?: number;
+  isTapping?: boolean;
+  onTapToggle?: () => void;
+  onTap?: (seconds: number) => void;
+  onSyncClear?: () => void;
 }
 
+// "1:05.3" style time for tooltips
+const formatVideoTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   source,
   currentTime = 0,
   isPlaying = false,
   playbackRate = 1.0,
   isMuted = false,
+  loopStart,
+  loopEnd,
+  startOffset = 0,
+  endTime,
   onTimeUpdate,
   onDurationChange,
   onPlayStateChange,
   onMuteToggle,
+  onSourceSelect,
+  missingMedia = null,
+  onMediaReconnect,
+  onFirstBeatSet,
+  onEndSet,
+  syncPointCount = 0,
+  isTapping = false,
+  onTapToggle,
+  onTap,
+  onSyncClear,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const [videoError, setVideoError] = useState<string | null>(null);
   const [videoSrc, setVideoSrc] = useState<string>('');
   const [isTransitioning, setIsTransitioning] = useState<boolean>(false);
@@ -90,6 +126,11 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   }, [currentTime, isTransitioning]);
 
+  // Take keyboard focus for tapping
+  useEffect(() => {
+    if (isTapping) containerRef.current?.focus();
+  }, [isTapping]);
+
   // Handle mute state
   useEffect(() => {
     if (!videoRef.current) return;
@@ -99,6 +140,18 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   // Video event handlers
   const handleTimeUpdate = () => {
     if (!videoRef.current) return;
+    
+    // Jump back to A when playback passes B
+    if (loopStart !== undefined && loopEnd !== undefined && loopEnd > loopStart && videoRef.current.currentTime >= loopEnd) {
+      videoRef.current.currentTime = loopStart;
+    }
+    
+    // Stop at the end of the lesson
+    if (endTime !== undefined && videoRef.current.currentTime >= endTime && !videoRef.current.paused) {
+      videoRef.current.pause();
+      onPlayStateChange?.(false);
+    }
+    
     onTimeUpdate?.(videoRef.current.currentTime);
   };
 
@@ -121,8 +174,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     setVideoError(null);
   };
 
+  const handleTap = () => {
+    if (!videoRef.current) return;
+    onTap?.(videoRef.current.currentTime);
+  };
+
+  // Space or T taps a downbeat while tapping in the sync map
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isTapping || (e.key !== ' ' && e.key.toLowerCase() !== 't')) return;
+    e.preventDefault();
+    handleTap();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onSourceSelect?.(file);
+    e.target.value = '';
+  };
+
+  // Keep a file handle where the browser allows it, so the library can reopen the original file
+  const handlePickVideo = async () => {
+    try {
+      const picked = await VideoLibrary.pickVideoFile();
+      if (picked) onSourceSelect?.(picked.file, picked.handle);
+    } catch (error) {
+      console.error('Error choosing video:', error);
+    }
+  };
+
   return (
-    <div className="video-player">
+    <div ref={containerRef} className="video-player" tabIndex={isTapping ? 0 : undefined} onKeyDown={handleKeyDown}>
       {videoSrc ? (
         <>
           <video
@@ -147,6 +228,47 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
             </button>
           )}
           
+          {onTapToggle && (
+            <div className="video-player__sync-bar">
+              <button
+                className={`video-player__sync-button ${isTapping ? 'active' : ''}`}
+                onClick={onTapToggle}
+                title="Tap each downbeat while the video plays to align it with the tab"
+              >
+                {isTapping ? 'Done' : 'Tap sync'}
+              </button>
+              {isTapping && (
+                <button className="video-player__sync-button" onClick={handleTap} title="Anchor the next downbeat here (Space or T)">
+                  Tap
+                </button>
+              )}
+              <span className="video-player__sync-count">{syncPointCount} anchors</span>
+              {onFirstBeatSet && !isTapping && (
+                <button
+                  className="video-player__sync-button"
+                  onClick={() => videoRef.current && onFirstBeatSet(videoRef.current.currentTime)}
+                  title={`Set first beat here - the tab starts at ${formatVideoTime(startOffset)}`}
+                >
+                  First beat here
+                </button>
+              )}
+              {onEndSet && !isTapping && (
+                <button
+                  className="video-player__sync-button"
+                  onClick={() => onEndSet(endTime !== undefined ? null : videoRef.current?.currentTime ?? null)}
+                  title={endTime !== undefined ? `Lesson ends at ${formatVideoTime(endTime)} - click to clear` : 'End the lesson here'}
+                >
+                  {endTime !== undefined ? 'Clear end' : 'End here'}
+                </button>
+              )}
+              {syncPointCount > 0 && onSyncClear && !isTapping && (
+                <button className="video-player__sync-button" onClick={onSyncClear} title="Remove all sync anchors">
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+          
           {videoError && (
             <div className="video-player__error">
               {videoError}
@@ -157,10 +279,38 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
         <div className="video-player__placeholder">
           <div className="video-player__placeholder-content">
             <span className="video-player__placeholder-icon">🎬</span>
-            <p>No video loaded</p>
-            <p className="video-player__placeholder-hint">
-              Add a video file to begin
-            </p>
+            {missingMedia ? (
+              <>
+                <p>Video not found</p>
+                <p className="video-player__placeholder-hint">
+                  {missingMedia.needsPermission
+                    ? `Allow access to "${missingMedia.name}" or locate it again`
+                    : `Locate "${missingMedia.name}" to re-attach it`}
+                </p>
+                {missingMedia.needsPermission && onMediaReconnect && (
+                  <button className="video-player__file-button" onClick={onMediaReconnect}>
+                    Allow access
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <p>No video loaded</p>
+                <p className="video-player__placeholder-hint">
+                  Add a video file to begin
+                </p>
+              </>
+            )}
+            {onSourceSelect && (VideoLibrary.supportsFileHandles() ? (
+              <button className="video-player__file-button" onClick={handlePickVideo}>
+                {missingMedia ? 'Locate video…' : 'Choose video…'}
+              </button>
+            ) : (
+              <label className="video-player__file-button">
+                {missingMedia ? 'Locate video…' : 'Choose video…'}
+                <input type="file" accept="video/*" onChange={handleFileChange} hidden />
+              </label>
+            ))}
           </div>
         </div>
       )}
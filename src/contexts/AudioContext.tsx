@@ -10,11 +10,20 @@ import {
   ticksToTransportTime,
   fretToNoteName,
   validateNoteStacks,
+  removeUnplayableNotes,
   calculateSequenceDuration
 } from '../audio/audioEngine'
 import { GuitarSynth } from '../audio/GuitarSynth'
+import { unrollTab, getTicksPerMeasure, expandRepeats, type PerformanceSegment } from '../services/PlaybackOrder'
+import { hasLoopRegion, toPerformanceLoopRegion } from '../services/LoopRegion'
 import type { AudioState, AudioAction } from '../audio/audioEngine'
-import type { NoteStack } from '../types/notestack'
+import type { TempoTrainerSettings } from '../audio/tempoTrainer'
+import { getMetronomeClicks, getCountInClicks, CLICK_SOUNDS } from '../audio/metronome'
+import type { MetronomeSettings } from '../audio/metronome'
+import { getBackingTrackCues } from '../audio/backingTrack'
+import type { BackingTrackSettings, BackingTrackSync } from '../audio/backingTrack'
+import type { NoteStack, InstrumentProfile } from '../types/notestack'
+import { DEFAULT_INSTRUMENT, TICKS_PER_QUARTER } from '../types/notestack'
 
 // ===============================
 // CONTEXT TYPE DEFINITION
@@ -28,7 +37,7 @@ interface AudioContextType {
   dispatch: React.Dispatch<AudioAction>
   
   // Convenience action creators (pure functions)
-  loadSequence: (stacks: NoteStack[]) => void
+  loadSequence: (stacks: NoteStack[], timeSignature?: { numerator: number; denominator: number }, instrument?: InstrumentProfile) => void
   play: () => void
   stop: () => void
   pause: () => void
@@ -36,7 +45,15 @@ interface AudioContextType {
   jumpTo: (position: number) => void
   setVolume: (volume: number) => void
   toggleLoop: () => void
-  setLoopPoints: (start: number, end: number) => void
+  setLoopPoints: (start: number, end: number) => void // Written ticks; equal points loop the whole tab
+  startTempoTrainer: (settings: TempoTrainerSettings) => void // Turns the loop on if it is off
+  stopTempoTrainer: () => void
+  setMetronome: (settings: Partial<MetronomeSettings>) => void
+  toggleCountIn: () => void
+  loadBackingTrack: (file: File) => Promise<void> // MP3/WAV recording to play along with
+  clearBackingTrack: () => void
+  setBackingTrackMix: (mix: Partial<Omit<BackingTrackSettings, 'name'>>) => void
+  setBackingTrackSync: (sync: BackingTrackSync | null) => void // The video's sync map, or null before one exists
   
   // Preview functions (for live playing as user types)
   previewNote: (fret: number, string: number) => void
@@ -63,8 +80,96 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   // Audio instances (kept in refs, not state - these are stateful audio objects)
   const guitarSynthRef = useRef<GuitarSynth | null>(null)
   const partRef = useRef<Tone.Part | null>(null)
+  const metronomePartRef = useRef<Tone.Part<{ time: string; level: keyof typeof CLICK_SOUNDS }> | null>(null)
   const isInitializedRef = useRef(false)
   
+  // Metronome settings as seen by the scheduled click part, and the meter it counts
+  const metronomeRef = useRef(state.metronome)
+  metronomeRef.current = state.metronome
+  const timeSignatureRef = useRef<{ numerator: number; denominator: number } | undefined>(undefined)
+  
+  // Performance order and length of the loaded sequence, and the A/B loop in written ticks,
+  // so the transport loop can be re-mapped whenever the tab changes
+  const segmentsRef = useRef<PerformanceSegment[]>([])
+  const sequenceDurationRef = useRef(0)
+  const loopPointsRef = useRef({ start: 0, end: 0 })
+  
+  // Tempo trainer as seen by the transport loop listener, and its pause between repetitions
+  const tempoTrainerRef = useRef(state.tempoTrainer)
+  tempoTrainerRef.current = state.tempoTrainer
+  const trainerPauseRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  
+  // Backing track player, how it lines up with the tab, and its pending re-cues on the transport
+  const backingPlayerRef = useRef<Tone.GrainPlayer | null>(null)
+  const backingSyncRef = useRef<BackingTrackSync | null>(null)
+  const backingCueIdsRef = useRef<number[]>([])
+  
+  const clearTrainerPause = useCallback(() => {
+    if (trainerPauseRef.current) {
+      clearTimeout(trainerPauseRef.current)
+      trainerPauseRef.current = null
+    }
+  }, [])
+  
+  // Point the transport loop at the A/B region (first performance of it) or the whole sequence
+  const applyTransportLoop = useCallback(() => {
+    const { start, end } = loopPointsRef.current
+    const region = hasLoopRegion(start, end)
+      ? toPerformanceLoopRegion(segmentsRef.current, { start, end })
+      : { start: 0, end: sequenceDurationRef.current }
+    if (region.end > region.start) {
+      Tone.Transport.setLoopPoints(ticksToTransportTime(region.start), ticksToTransportTime(region.end))
+    }
+  }, [])
+  
+  // Schedule the metronome clicks over the performed sequence, alongside the note part
+  // Enable, mute and volume are read as each click plays, so only the subdivision needs a reschedule
+  const scheduleMetronome = useCallback(() => {
+    if (metronomePartRef.current) {
+      metronomePartRef.current.dispose()
+      metronomePartRef.current = null
+    }
+    if (sequenceDurationRef.current <= 0) return
+    
+    const clicks = getMetronomeClicks(sequenceDurationRef.current, timeSignatureRef.current, metronomeRef.current.subdivisions)
+      .map(click => ({ time: ticksToTransportTime(click.position), level: click.level }))
+    
+    metronomePartRef.current = new Tone.Part((time, click) => {
+      const { enabled, muted, volume } = metronomeRef.current
+      if (!enabled || muted) return
+      const sound = CLICK_SOUNDS[click.level]
+      guitarSynthRef.current?.playClick(sound.frequency, sound.velocity * volume, time)
+    }, clicks)
+    metronomePartRef.current.start(0)
+  }, [])
+  
+  // Restart the backing track in step with the transport at an audio time, or just stop it (no time)
+  // GrainPlayer stretches time without changing pitch, so slowing the tab down keeps the recording in tune
+  const cueBackingTrack = useCallback((time?: number) => {
+    backingCueIdsRef.current.forEach(id => Tone.Transport.clear(id))
+    backingCueIdsRef.current = []
+    
+    const player = backingPlayerRef.current
+    if (!player) return
+    if (player.state === 'started') player.stop(time)
+    if (time === undefined) return
+    
+    const startCue = (cue: { offset: number; rate: number }, at: number) => {
+      player.playbackRate = cue.rate
+      // Positions before the recording begins wait for it
+      player.start(at + Math.max(0, -cue.offset) / cue.rate, Math.max(0, cue.offset))
+    }
+    
+    const sync = backingSyncRef.current ?? { syncMap: [], recordedBPM: Tone.Transport.bpm.value, startOffset: 0 }
+    const position = (Tone.Transport.getTicksAtTime(time) * TICKS_PER_QUARTER) / Tone.Transport.PPQ
+    const [first, ...anchors] = getBackingTrackCues(sync, position, sequenceDurationRef.current, Tone.Transport.bpm.value)
+    
+    startCue(first, time)
+    backingCueIdsRef.current = anchors.map(cue =>
+      Tone.Transport.schedule(at => startCue(cue, at), ticksToTransportTime(cue.position))
+    )
+  }, [])
+  
   // ===============================
   // AUDIO INITIALIZATION
   // ===============================
@@ -94,21 +199,49 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   
   useEffect(() => {
     // Listen to Transport events functionally (pure event handlers)
-    const handleStart = () => dispatch({ type: 'PLAY' })
-    const handleStop = () => dispatch({ type: 'STOP' })
-    const handlePause = () => dispatch({ type: 'PAUSE' })
+    // The backing track starts, stops and loops with the transport
+    const handleStart = (time: number) => {
+      dispatch({ type: 'PLAY' })
+      cueBackingTrack(time)
+    }
+    const handleStop = () => {
+      dispatch({ type: 'STOP' })
+      cueBackingTrack()
+    }
+    const handlePause = () => {
+      dispatch({ type: 'PAUSE' })
+      cueBackingTrack()
+    }
+    
+    // Each pass of the loop is one tempo trainer repetition; the next one starts after the pause
+    const handleLoop = (time: number) => {
+      cueBackingTrack(time)
+      const trainer = tempoTrainerRef.current
+      if (!trainer) return
+      
+      dispatch({ type: 'TEMPO_TRAINER_REP' })
+      if (trainer.settings.pauseSeconds > 0) {
+        Tone.Transport.pause()
+        trainerPauseRef.current = setTimeout(() => {
+          trainerPauseRef.current = null
+          Tone.Transport.start()
+        }, trainer.settings.pauseSeconds * 1000)
+      }
+    }
     
     Tone.Transport.on('start', handleStart)
     Tone.Transport.on('stop', handleStop)
     Tone.Transport.on('pause', handlePause)
+    Tone.Transport.on('loop', handleLoop)
     
     // Cleanup function
     return () => {
       Tone.Transport.off('start', handleStart)
       Tone.Transport.off('stop', handleStop)
       Tone.Transport.off('pause', handlePause)
+      Tone.Transport.off('loop', handleLoop)
     }
-  }, [])
+  }, [cueBackingTrack])
   
   // ===============================
   // TEMPO SYNCHRONIZATION
@@ -117,7 +250,16 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   useEffect(() => {
     // Sync Tone.js Transport tempo with our state
     Tone.Transport.bpm.value = state.tempo
-  }, [state.tempo])
+    // Re-stretch the backing track to the new tempo
+    if (Tone.Transport.state === 'started') cueBackingTrack(Tone.now())
+  }, [state.tempo, cueBackingTrack])
+  
+  useEffect(() => {
+    const player = backingPlayerRef.current
+    if (!player || !state.backingTrack) return
+    player.volume.value = Tone.gainToDb(state.backingTrack.volume)
+    player.mute = state.backingTrack.muted
+  }, [state.backingTrack])
   
   // ===============================
   // VOLUME SYNCHRONIZATION  
@@ -133,10 +275,23 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   // PURE ACTION CREATORS
   // ===============================
   
-  const loadSequence = useCallback((stacks: NoteStack[]) => {
+  const loadSequence = useCallback((
+    tabStacks: NoteStack[],
+    timeSignature?: { numerator: number; denominator: number },
+    instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+  ) => {
     try {
-      // Validate input (pure function)
-      validateNoteStacks(stacks)
+      // Notes the instrument can't play are skipped; the rest of the tab still plays
+      const { stacks, skipped } = removeUnplayableNotes(tabStacks, instrument)
+      if (skipped > 0) {
+        console.warn(`⚠️ ${skipped} note(s) not on the ${instrument.name} fretboard were left out of playback`)
+      }
+      
+      // Validate input (pure function); stacks emptied above stay as silent placeholders
+      validateNoteStacks(stacks.filter(stack => stack.notes.length > 0), instrument)
+      
+      // Playback and note previews follow the instrument's tuning and fret layout
+      GuitarSynth.getInstance().setInstrument(instrument)
       
       // Update state (pure action)
       dispatch({ type: 'LOAD_SEQUENCE', payload: stacks })
@@ -149,9 +304,14 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       
       // Clear any existing scheduled events
       Tone.Transport.cancel()
+      timeSignatureRef.current = timeSignature
+      sequenceDurationRef.current = 0
       
       if (stacks.length > 0) {
-        const events = noteStackToToneEvents(stacks)
+        // Schedule in performance order (repeats, endings, D.C./D.S. unrolled)
+        const performedStacks = unrollTab(stacks, getTicksPerMeasure(timeSignature))
+        segmentsRef.current = expandRepeats(stacks, getTicksPerMeasure(timeSignature))
+        const events = noteStackToToneEvents(performedStacks, instrument)
         
         partRef.current = new Tone.Part((time, event) => {
           // Play all notes in the stack simultaneously using GuitarSynth
@@ -160,7 +320,8 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               note.fret, 
               note.string, 
               event.duration as Tone.Unit.Time,
-              state.volume
+              state.volume,
+              note.technique
             )
           })
           
@@ -176,8 +337,10 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         partRef.current.start(0)
         
         // Calculate sequence end time and schedule completion
-        const sequenceEndTime = calculateSequenceDuration(stacks)
+        const sequenceEndTime = calculateSequenceDuration(performedStacks)
         const endTimeTransport = ticksToTransportTime(sequenceEndTime)
+        sequenceDurationRef.current = sequenceEndTime
+        applyTransportLoop()
         
         console.log(`🎯 Sequence duration: ${sequenceEndTime} ticks (${endTimeTransport})`)
         
@@ -197,26 +360,58 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }, endTimeTransport)
       }
       
+      scheduleMetronome()
+      // Clearing the transport dropped the backing track's re-cues
+      if (Tone.Transport.state === 'started') cueBackingTrack(Tone.now())
+      
       console.log(`Loaded ${stacks.length} note stacks for playback`)
     } catch (error) {
       console.error('Failed to load sequence:', error)
     }
-  }, [])
+  }, [applyTransportLoop, scheduleMetronome, cueBackingTrack])
+  
+  // Subdivision changes move the clicks
+  useEffect(() => {
+    scheduleMetronome()
+  }, [state.metronome.subdivisions, scheduleMetronome])
   
   const play = useCallback(async () => {
+    clearTrainerPause()
     await initializeAudio()
+    
+    // An A/B loop starts from A unless playback is already inside it
+    const { start, end } = loopPointsRef.current
+    if (state.isLooping && hasLoopRegion(start, end) && (state.currentPosition < start || state.currentPosition >= end)) {
+      Tone.Transport.position = ticksToTransportTime(toPerformanceLoopRegion(segmentsRef.current, { start, end }).start)
+    }
+    
+    // Count in one measure of clicks, then start the transport on the following downbeat
+    if (state.countInEnabled && Tone.Transport.state !== 'started') {
+      const clicks = getCountInClicks(timeSignatureRef.current, state.tempo)
+      const lead = clicks.length > 0 ? -clicks[0].time : 0
+      const start = Tone.now() + 0.1
+      clicks.forEach(click => {
+        const sound = CLICK_SOUNDS[click.level]
+        guitarSynthRef.current?.playClick(sound.frequency, sound.velocity * state.metronome.volume, start + lead + click.time)
+      })
+      Tone.Transport.start(`+${0.1 + lead}`)
+      return
+    }
+    
     Tone.Transport.start('+0.1') // Start with 100ms delay for precision
-  }, [initializeAudio])
+  }, [initializeAudio, clearTrainerPause, state.isLooping, state.currentPosition, state.countInEnabled, state.tempo, state.metronome.volume])
   
   const stop = useCallback(() => {
+    clearTrainerPause()
     Tone.Transport.stop()
     Tone.Transport.position = 0
     Tone.Transport.cancel() // Clear any scheduled completion events
-  }, [])
+  }, [clearTrainerPause])
   
   const pause = useCallback(() => {
+    clearTrainerPause()
     Tone.Transport.pause()
-  }, [])
+  }, [clearTrainerPause])
   
   const setTempo = useCallback((bpm: number) => {
     dispatch({ type: 'SET_TEMPO', payload: bpm })
@@ -234,22 +429,75 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const toggleLoop = useCallback(() => {
     dispatch({ type: 'TOGGLE_LOOP' })
     Tone.Transport.loop = !state.isLooping
+    if (state.isLooping) clearTrainerPause() // The trainer ends with the loop
     
     if (!state.isLooping && state.sequence.length > 0) {
-      // Set loop points based on sequence duration
-      const duration = calculateSequenceDuration(state.sequence)
-      Tone.Transport.setLoopPoints(0, ticksToTransportTime(duration))
+      // Loop the A/B region when one is set, otherwise the whole sequence
+      applyTransportLoop()
     }
-  }, [state.isLooping, state.sequence])
+  }, [state.isLooping, state.sequence, applyTransportLoop, clearTrainerPause])
   
   const setLoopPoints = useCallback((start: number, end: number) => {
     dispatch({ type: 'SET_LOOP_POINTS', payload: { start, end } })
-    Tone.Transport.setLoopPoints(
-      ticksToTransportTime(start), 
-      ticksToTransportTime(end)
-    )
+    loopPointsRef.current = { start: Math.max(0, start), end: Math.max(start, end) }
+    applyTransportLoop()
+    
+    // Move into a new region straight away when it is set during playback
+    if (state.isPlaying && hasLoopRegion(start, end) && (state.currentPosition < start || state.currentPosition >= end)) {
+      Tone.Transport.position = ticksToTransportTime(toPerformanceLoopRegion(segmentsRef.current, { start, end }).start)
+    }
+  }, [applyTransportLoop, state.isPlaying, state.currentPosition])
+  
+  const startTempoTrainer = useCallback((settings: TempoTrainerSettings) => {
+    dispatch({ type: 'START_TEMPO_TRAINER', payload: settings })
+    if (!state.isLooping) toggleLoop()
+  }, [state.isLooping, toggleLoop])
+  
+  const stopTempoTrainer = useCallback(() => {
+    clearTrainerPause()
+    dispatch({ type: 'STOP_TEMPO_TRAINER' })
+  }, [clearTrainerPause])
+  
+  const setMetronome = useCallback((settings: Partial<MetronomeSettings>) => {
+    dispatch({ type: 'SET_METRONOME', payload: settings })
+  }, [])
+  
+  const toggleCountIn = useCallback(() => {
+    dispatch({ type: 'TOGGLE_COUNT_IN' })
   }, [])
   
+  const loadBackingTrack = useCallback(async (file: File) => {
+    await initializeAudio()
+    const url = URL.createObjectURL(file)
+    try {
+      const buffer = await new Tone.ToneAudioBuffer().load(url)
+      cueBackingTrack()
+      backingPlayerRef.current?.dispose()
+      backingPlayerRef.current = new Tone.GrainPlayer({ url: buffer, grainSize: 0.1, overlap: 0.05 }).toDestination()
+      dispatch({ type: 'SET_BACKING_TRACK', payload: file.name })
+      if (Tone.Transport.state === 'started') cueBackingTrack(Tone.now())
+      console.log(`🎧 Backing track "${file.name}" loaded (${buffer.duration.toFixed(1)}s)`)
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }, [initializeAudio, cueBackingTrack])
+  
+  const clearBackingTrack = useCallback(() => {
+    cueBackingTrack()
+    backingPlayerRef.current?.dispose()
+    backingPlayerRef.current = null
+    dispatch({ type: 'SET_BACKING_TRACK', payload: null })
+  }, [cueBackingTrack])
+  
+  const setBackingTrackMix = useCallback((mix: Partial<Omit<BackingTrackSettings, 'name'>>) => {
+    dispatch({ type: 'SET_BACKING_TRACK_MIX', payload: mix })
+  }, [])
+  
+  const setBackingTrackSync = useCallback((sync: BackingTrackSync | null) => {
+    backingSyncRef.current = sync
+    if (Tone.Transport.state === 'started') cueBackingTrack(Tone.now())
+  }, [cueBackingTrack])
+  
   const previewNote = useCallback(async (fret: number, string: number) => {
     if (!isInitializedRef.current) {
       await initializeAudio()
@@ -272,6 +520,8 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       if (partRef.current) {
         partRef.current.dispose()
       }
+      metronomePartRef.current?.dispose()
+      backingPlayerRef.current?.dispose()
       // Note: GuitarSynth uses singleton pattern and manages its own cleanup
       
       console.log('🧹 AudioContext cleanup complete')
@@ -294,6 +544,14 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     setVolume,
     toggleLoop,
     setLoopPoints,
+    startTempoTrainer,
+    stopTempoTrainer,
+    setMetronome,
+    toggleCountIn,
+    loadBackingTrack,
+    clearBackingTrack,
+    setBackingTrackMix,
+    setBackingTrackSync,
     previewNote,
     initializeAudio,
     isAudioInitialized: isInitializedRef.current
@@ -5,6 +5,8 @@ interface AppLayoutState {
   zoom: number;
   showFretboard: boolean;
   splitRatio: number;
+  pageView: boolean; // Wrap the tab into stacked lines that fit the viewport
+  showStaff: boolean; // Standard-notation staff above the tab
   // isPlaying removed - now handled by AudioContext
 }
 
@@ -12,13 +14,17 @@ interface AppLayoutState {
 type AppLayoutAction = 
   | { type: 'SET_ZOOM'; payload: number }
   | { type: 'TOGGLE_FRETBOARD' }
-  | { type: 'SET_SPLIT_RATIO'; payload: number };
+  | { type: 'SET_SPLIT_RATIO'; payload: number }
+  | { type: 'TOGGLE_PAGE_VIEW' }
+  | { type: 'TOGGLE_STAFF' };
 
 // Initial state
 const initialState: AppLayoutState = {
   zoom: 1,
   showFretboard: true,
   splitRatio: 0.5,
+  pageView: false,
+  showStaff: false,
 };
 
 // App layout reducer
@@ -42,6 +48,18 @@ const appLayoutReducer = (state: AppLayoutState, action: AppLayoutAction): AppLa
         splitRatio: Math.max(0.1, Math.min(0.9, action.payload))
       };
     
+    case 'TOGGLE_PAGE_VIEW':
+      return {
+        ...state,
+        pageView: !state.pageView
+      };
+    
+    case 'TOGGLE_STAFF':
+      return {
+        ...state,
+        showStaff: !state.showStaff
+      };
+    
     default:
       return state;
   }
@@ -49,7 +67,7 @@ const appLayoutReducer = (state: AppLayoutState, action: AppLayoutAction): AppLa
 
 /**
  * Hook for managing app-wide layout and UI state
- * Handles zoom, fretboard visibility, split panes, and playback UI state
+ * Handles zoom, fretboard visibility, split panes, page view, notation staff, and playback UI state
  */
 export const useAppLayout = () => {
   const [state, dispatch] = useReducer(appLayoutReducer, initialState);
@@ -77,6 +95,16 @@ export const useAppLayout = () => {
     dispatch({ type: 'SET_SPLIT_RATIO', payload: ratio });
   }, []);
   
+  // Page view (wrapped lines) vs a single horizontal row
+  const togglePageView = useCallback(() => {
+    dispatch({ type: 'TOGGLE_PAGE_VIEW' });
+  }, []);
+  
+  // Notation staff above the tab
+  const toggleStaff = useCallback(() => {
+    dispatch({ type: 'TOGGLE_STAFF' });
+  }, []);
+  
   // Playback UI state removed - now handled by AudioContext
   
   return {
@@ -89,6 +117,8 @@ export const useAppLayout = () => {
     zoomOut,
     toggleFretboard,
     setSplitRatio,
+    togglePageView,
+    toggleStaff,
     // setPlaying removed - now handled by AudioContext
   };
 }; 
\ No newline at end of file
@@ -4,6 +4,7 @@
 import { useCallback, useEffect } from 'react'
 import type { TabEditorAPI } from './useTabEditor'
 import type { Note, NoteDuration, NoteType } from '../types'
+import { TECHNIQUE_SHORTCUTS, getFretSemitones, parseFret } from '../types/notestack'
 
 interface UseNoteInputOptions {
   enabled?: boolean // Allow disabling input when in playback mode, etc.
@@ -18,7 +19,7 @@ export const useNoteInput = (
   options: UseNoteInputOptions = {}
 ) => {
   const { enabled = true } = options
-  const { state, addNote, updateFretInput, clearFretInput, moveCursor } = tabEditor
+  const { state, addNote, updateNote, updateFretInput, clearFretInput, moveCursor, undo, redo } = tabEditor
 
   /**
    * Create a note at the current cursor position
@@ -129,6 +130,38 @@ export const useNoteInput = (
     return false
   }, [enabled, state.currentFretInput, updateFretInput, createNoteAtCursor, moveCursor, clearFretInput])
 
+  /**
+   * Half-fret entry ("6+" for the 6½ fret)
+   * Finishes typed digits as a half-fret, otherwise toggles the note just entered on the
+   * cursor's string (the closest one before the cursor) between its fret and half-fret
+   */
+  const handleHalfFret = useCallback(() => {
+    if (state.currentFretInput) {
+      const fret = parseFret(`${state.currentFretInput}+`)
+      if (fret !== null && getFretSemitones(fret) !== null) {
+        createNoteAtCursor(fret, undefined, 'note')
+        moveCursor('right')
+      }
+      clearFretInput()
+      return true
+    }
+
+    let index = -1
+    state.notes.forEach((note, candidate) => {
+      if (note.type !== 'note' || note.fret === null) return
+      if (note.stringIndex !== state.cursor.stringIndex || note.startSlot >= state.cursor.timeSlot) return
+      if (index === -1 || note.startSlot > state.notes[index].startSlot) index = candidate
+    })
+    if (index === -1) return false
+
+    const current = state.notes[index].fret as number
+    const fret = Number.isInteger(current) ? current + 0.5 : Math.floor(current)
+    if (getFretSemitones(fret) === null) return false
+
+    updateNote(index, { fret })
+    return true
+  }, [state.currentFretInput, state.notes, state.cursor, createNoteAtCursor, moveCursor, clearFretInput, updateNote])
+
   /**
    * Handle special key inputs
    */
@@ -169,6 +202,13 @@ export const useNoteInput = (
         }
         break
 
+      case '+': // Half-fret
+        if (handleHalfFret()) {
+          event.preventDefault()
+          return true
+        }
+        break
+
       case ' ': // Spacebar for rest
         event.preventDefault()
         addRest()
@@ -183,7 +223,7 @@ export const useNoteInput = (
         return false
     }
     return false
-  }, [enabled, state.currentFretInput, createNoteAtCursor, moveCursor, clearFretInput, updateFretInput, addRest])
+  }, [enabled, state.currentFretInput, createNoteAtCursor, moveCursor, clearFretInput, updateFretInput, addRest, handleHalfFret])
 
   /**
    * Handle arrow key navigation
@@ -219,14 +259,66 @@ export const useNoteInput = (
     }
   }, [enabled, moveCursor])
 
+  /**
+   * Handle technique shortcuts (h, p, s or /, b, v or ~)
+   * Toggles the technique on the note under the cursor; the technique it already has is cleared
+   */
+  const handleTechniqueKey = useCallback((event: KeyboardEvent) => {
+    if (!enabled || event.ctrlKey || event.metaKey) return false
+
+    const technique = TECHNIQUE_SHORTCUTS[event.key.toLowerCase()]
+    if (!technique) return false
+
+    const index = state.notes.findIndex(note =>
+      note.type === 'note' &&
+      note.startSlot === state.cursor.timeSlot &&
+      note.stringIndex === state.cursor.stringIndex
+    )
+    if (index === -1) return false
+
+    event.preventDefault()
+    updateNote(index, { technique: state.notes[index].technique === technique ? undefined : technique })
+    return true
+  }, [enabled, state.notes, state.cursor, updateNote])
+
+  /**
+   * Handle undo/redo shortcuts (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z, Ctrl/Cmd+Y)
+   */
+  const handleHistoryKey = useCallback((event: KeyboardEvent) => {
+    if (!enabled || !(event.ctrlKey || event.metaKey)) return false
+
+    const key = event.key.toLowerCase()
+    if (key === 'z') {
+      event.preventDefault()
+      clearFretInput()
+      if (event.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+      return true
+    }
+    if (key === 'y') {
+      event.preventDefault()
+      clearFretInput()
+      redo()
+      return true
+    }
+    return false
+  }, [enabled, clearFretInput, undo, redo])
+
   /**
    * Main keyboard event handler
    * Modified for immediate note creation
    */
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    // Shortcuts with modifiers take priority over note entry
+    if (handleHistoryKey(event)) return
+    
     // Check for special keys first
     if (handleSpecialKey(event)) return
     if (handleNavigationKey(event)) return
+    if (handleTechniqueKey(event)) return
     
     // For immediate note creation: single digit = immediate note
     // For multi-digit frets: Hold Shift while typing for input mode
@@ -243,7 +335,7 @@ export const useNoteInput = (
         return
       }
     }
-  }, [handleSpecialKey, handleNavigationKey, handleNumericKey, handleMultiDigitFret])
+  }, [handleHistoryKey, handleSpecialKey, handleNavigationKey, handleTechniqueKey, handleNumericKey, handleMultiDigitFret])
 
   /**
    * Handle key press events (for character input)
@@ -1,6 +1,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { useNoteStackEditor } from './useNoteStackEditor';
 import type { Tab } from '../types/notestack';
+import { INSTRUMENT_PROFILES } from '../types/notestack';
 
 describe('useNoteStackEditor Hook', () => {
   it('should initialize with empty state', () => {
@@ -193,6 +194,35 @@ describe('useNoteStackEditor Hook', () => {
       expect(result.current.state.currentPosition).toBe(1920);
       expect(result.current.state.selectedString).toBe(0);
     });
+
+    it('should drop notes the new fret map or instrument has no fret for', () => {
+      const { result } = renderHook(() => useNoteStackEditor());
+      
+      act(() => {
+        result.current.setInstrument(INSTRUMENT_PROFILES['dulcimer-4']);
+      });
+      act(() => {
+        result.current.loadTab([
+          { id: 'half', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 6.5 }, { string: 1, fret: 3 }] },
+          { id: 'high', musicalPosition: 960, duration: 'quarter', notes: [{ string: 2, fret: 13 }] }
+        ]);
+      });
+      
+      // Leaving the half-fret map drops the 6½ but keeps the high fret the diatonic map still has
+      act(() => {
+        result.current.setFretMap('diatonic');
+      });
+      expect(result.current.state.tab.map(stack => stack.notes)).toEqual([
+        [{ string: 1, fret: 3 }],
+        [{ string: 2, fret: 13 }]
+      ]);
+      
+      // The strumstick fretboard stops at 12
+      act(() => {
+        result.current.setInstrument(INSTRUMENT_PROFILES['strumstick-dad']);
+      });
+      expect(result.current.state.tab.map(stack => stack.notes)).toEqual([[{ string: 1, fret: 3 }]]);
+    });
   });
 
   describe('File Operations', () => {
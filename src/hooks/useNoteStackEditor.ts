@@ -2,8 +2,18 @@
 // New state management hook using the NoteStack architecture
 
 import { useReducer, useCallback, useMemo } from 'react';
-import type { Tab, Duration, AppState as NoteStackAppState } from '../types/notestack';
-import { DURATION_TO_TICKS } from '../types/notestack';
+import type {
+  Tab,
+  Duration,
+  Tuplet,
+  Technique,
+  NavigationMarker,
+  BeamOverride,
+  InstrumentProfile,
+  AppState as NoteStackAppState
+} from '../types/notestack';
+import { getDurationTicks, getNotePitch, withFretMap, FRET_MAPS, DEFAULT_INSTRUMENT } from '../types/notestack';
+import type { LyricSyllable, ChordSymbol, SectionMarker } from '../types';
 import type { NoteSelection } from '../services/NoteStackSelection';
 import {
   addNoteToStack, 
@@ -13,8 +23,13 @@ import {
   updateStackDuration,
   moveStack,
   removeStack,
+  updateStackStructure,
+  setNoteTechnique as setTechniqueOnNote,
+  findRepeatStart,
   getNextAvailablePosition,
-  getPreviousStackPosition
+  getPreviousStackPosition,
+  removeNotesOffInstrument,
+  type StackStructure
 } from '../services/NoteStackOperations';
 import {
   selectNotesOnString,
@@ -25,15 +40,28 @@ import {
   pasteNotesPreservingStrings,
   deleteNotesFromSelection
 } from '../services/NoteStackSelection';
+import { transposeTab, type UntransposableNote } from '../services/Transposition';
+import { setLyricSyllable, setChordSymbol } from '../services/Lyrics';
+import { setSectionMarker as setMarkerInList, getSlotsPerMeasure } from '../services/Sections';
 import { calculateDisplayPositions, getTotalTabWidth } from '../services/NoteStackLayout';
+import { createHistoryReducer, createHistoryState, canUndo, canRedo } from '../state/history';
 
 // Extended musical state - pure note/tab editing concerns
 interface ExtendedAppState extends NoteStackAppState {
   // Current input state
   selectedDuration: Duration;
-  selectedString: number; // 0=Low D, 1=A, 2=High D
+  selectedTuplet: Tuplet | null; // New notes join a tuplet group when set
+  selectedString: number; // 0 = lowest string
   currentFretInput: string;
   
+  // Instrument the tab is written for - its strings, tuning and fretboard
+  instrument: InstrumentProfile;
+  
+  // Annotation lanes, anchored to 16th-note slots
+  lyrics: LyricSyllable[];
+  chords: ChordSymbol[];
+  sections: SectionMarker[]; // Rehearsal marks and text annotations
+  
   // File management
   isModified: boolean;
   currentProjectName?: string;
@@ -42,18 +70,29 @@ interface ExtendedAppState extends NoteStackAppState {
   selection: NoteSelection;
 }
 
+// Everything attached to the tab's time slots besides the notes
+export interface Annotations {
+  lyrics: LyricSyllable[];
+  chords: ChordSymbol[];
+  sections: SectionMarker[];
+}
+
 // Action types
 type NoteStackAction = 
-  | { type: 'ADD_NOTE'; payload: { position: number; string: number; fret: number; duration: Duration } }
+  | { type: 'ADD_NOTE'; payload: { position: number; string: number; fret: number; duration: Duration; tuplet?: Tuplet } }
   | { type: 'REMOVE_NOTE'; payload: { position: number; string: number } }
   | { type: 'UPDATE_STACK_DURATION'; payload: { stackId: string; duration: Duration } }
   | { type: 'MOVE_STACK'; payload: { stackId: string; newPosition: number } }
   | { type: 'REMOVE_STACK'; payload: { stackId: string } }
+  | { type: 'UPDATE_STACK_STRUCTURE'; payload: { stackId: string; structure: Partial<StackStructure> } }
+  | { type: 'SET_NOTE_TECHNIQUE'; payload: { position: number; string: number; technique: Technique | null } }
   | { type: 'SET_CURSOR_POSITION'; payload: number }
   | { type: 'SET_SELECTED_STACKS'; payload: string[] }
   | { type: 'SET_BPM'; payload: number }
   | { type: 'SET_TIME_SIGNATURE'; payload: { numerator: number; denominator: number } }
+  | { type: 'SET_INSTRUMENT'; payload: InstrumentProfile }
   | { type: 'SET_SELECTED_DURATION'; payload: Duration }
+  | { type: 'SET_SELECTED_TUPLET'; payload: Tuplet | null }
   | { type: 'SET_SELECTED_STRING'; payload: number }
   | { type: 'SET_FRET_INPUT'; payload: string }
   | { type: 'CLEAR_FRET_INPUT' }
@@ -63,6 +102,11 @@ type NoteStackAction =
   | { type: 'COPY_SELECTION' }
   | { type: 'PASTE_CLIPBOARD'; payload: { position: number; string?: number } }
   | { type: 'DELETE_SELECTION' }
+  | { type: 'APPLY_TRANSPOSITION'; payload: { tab: Tab; instrument: InstrumentProfile; selection: NoteSelection } }
+  | { type: 'SET_LYRIC'; payload: { slot: number; verse: number; text: string } }
+  | { type: 'SET_CHORD'; payload: { slot: number; name: string } }
+  | { type: 'SET_SECTION_MARKER'; payload: SectionMarker }
+  | { type: 'LOAD_ANNOTATIONS'; payload: Annotations }
 
   | { type: 'SET_MODIFIED'; payload: boolean }
   | { type: 'LOAD_TAB'; payload: Tab }
@@ -79,9 +123,18 @@ const initialState: ExtendedAppState = {
   
   // Input state
   selectedDuration: 'quarter',
-  selectedString: 2, // 0=Low D, 1=A, 2=High D
+  selectedTuplet: null,
+  selectedString: DEFAULT_INSTRUMENT.stringCount - 1, // Top string
   currentFretInput: '',
   
+  // Instrument
+  instrument: DEFAULT_INSTRUMENT,
+  
+  // Annotations
+  lyrics: [],
+  chords: [],
+  sections: [],
+  
   // File management
   isModified: false,
   
@@ -93,8 +146,8 @@ const initialState: ExtendedAppState = {
 const noteStackReducer = (state: ExtendedAppState, action: NoteStackAction): ExtendedAppState => {
   switch (action.type) {
     case 'ADD_NOTE': {
-      const { position, string, fret, duration } = action.payload;
-      const newTab = addNoteToStack(state.tab, position, string, fret, duration);
+      const { position, string, fret, duration, tuplet } = action.payload;
+      const newTab = addNoteToStack(state.tab, position, string, fret, duration, tuplet);
       return {
         ...state,
         tab: newTab,
@@ -142,6 +195,25 @@ const noteStackReducer = (state: ExtendedAppState, action: NoteStackAction): Ext
       };
     }
     
+    case 'UPDATE_STACK_STRUCTURE': {
+      const { stackId, structure } = action.payload;
+      const newTab = updateStackStructure(state.tab, stackId, structure);
+      return {
+        ...state,
+        tab: newTab,
+        isModified: true
+      };
+    }
+    
+    case 'SET_NOTE_TECHNIQUE': {
+      const { position, string, technique } = action.payload;
+      return {
+        ...state,
+        tab: setTechniqueOnNote(state.tab, position, string, technique),
+        isModified: true
+      };
+    }
+    
     case 'SET_CURSOR_POSITION':
       console.log('Reducer SET_CURSOR_POSITION:', { 
         oldPosition: state.currentPosition, 
@@ -172,16 +244,34 @@ const noteStackReducer = (state: ExtendedAppState, action: NoteStackAction): Ext
         isModified: true
       };
     
+    case 'SET_INSTRUMENT': {
+      // Notes on strings or frets the new instrument lacks are dropped (undo brings them back)
+      const instrument = action.payload;
+      return {
+        ...state,
+        instrument,
+        tab: removeNotesOffInstrument(state.tab, instrument),
+        selectedString: Math.min(state.selectedString, instrument.stringCount - 1),
+        isModified: true
+      };
+    }
+    
     case 'SET_SELECTED_DURATION':
       return {
         ...state,
         selectedDuration: action.payload
       };
     
+    case 'SET_SELECTED_TUPLET':
+      return {
+        ...state,
+        selectedTuplet: action.payload
+      };
+    
     case 'SET_SELECTED_STRING':
       return {
         ...state,
-        selectedString: Math.max(0, Math.min(2, action.payload)) // Clamp to 0-2
+        selectedString: Math.max(0, Math.min(state.instrument.stringCount - 1, action.payload)) // Clamp to the instrument's strings
       };
     
     case 'SET_FRET_INPUT':
@@ -249,7 +339,46 @@ const noteStackReducer = (state: ExtendedAppState, action: NoteStackAction): Ext
       };
     }
     
-
+    case 'APPLY_TRANSPOSITION': {
+      const { tab, instrument, selection } = action.payload;
+      return {
+        ...state,
+        tab,
+        instrument,
+        selection,
+        selectedString: Math.min(state.selectedString, instrument.stringCount - 1),
+        isModified: true
+      };
+    }
+    
+    case 'SET_LYRIC': {
+      const { slot, verse, text } = action.payload;
+      return {
+        ...state,
+        lyrics: setLyricSyllable(state.lyrics, slot, verse, text),
+        isModified: true
+      };
+    }
+    
+    case 'SET_CHORD':
+      return {
+        ...state,
+        chords: setChordSymbol(state.chords, action.payload.slot, action.payload.name),
+        isModified: true
+      };
+    
+    case 'SET_SECTION_MARKER':
+      return {
+        ...state,
+        sections: setMarkerInList(state.sections, action.payload, getSlotsPerMeasure(state.timeSignature)),
+        isModified: true
+      };
+    
+    case 'LOAD_ANNOTATIONS':
+      return {
+        ...state,
+        ...action.payload
+      };
     
     case 'SET_MODIFIED':
       return {
@@ -276,11 +405,57 @@ const noteStackReducer = (state: ExtendedAppState, action: NoteStackAction): Ext
   }
 };
 
+// Actions that edit the tab itself - cursor, input and selection changes are not undoable.
+// SET_BPM is excluded because the audio system pushes tempo changes back into the editor.
+const UNDOABLE_ACTIONS = new Set<NoteStackAction['type']>([
+  'ADD_NOTE',
+  'REMOVE_NOTE',
+  'UPDATE_STACK_DURATION',
+  'MOVE_STACK',
+  'REMOVE_STACK',
+  'UPDATE_STACK_STRUCTURE',
+  'SET_NOTE_TECHNIQUE',
+  'SET_TIME_SIGNATURE',
+  'SET_INSTRUMENT',
+  'CUT_SELECTION',
+  'PASTE_CLIPBOARD',
+  'DELETE_SELECTION',
+  'APPLY_TRANSPOSITION',
+  'SET_LYRIC',
+  'SET_CHORD',
+  'SET_SECTION_MARKER'
+]);
+
+// History-wrapped reducer - fret typing on the same string/position coalesces into one step
+const noteStackHistoryReducer = createHistoryReducer<ExtendedAppState, NoteStackAction>(noteStackReducer, {
+  isUndoable: action => UNDOABLE_ACTIONS.has(action.type),
+  clearsHistory: action => action.type === 'LOAD_TAB' || action.type === 'RESET_TAB',
+  getCoalesceKey: action => action.type === 'ADD_NOTE'
+    ? `note:${action.payload.position}:${action.payload.string}`
+    : null,
+  snapshot: state => ({
+    tab: state.tab,
+    timeSignature: state.timeSignature,
+    instrument: state.instrument,
+    lyrics: state.lyrics,
+    chords: state.chords,
+    sections: state.sections
+  }),
+  restore: (state, snapshot) => ({
+    ...state,
+    ...snapshot,
+    selectedString: Math.min(state.selectedString, (snapshot.instrument ?? state.instrument).stringCount - 1),
+    selection: [],
+    isModified: true
+  })
+});
+
 /**
  * Main hook for NoteStack editor functionality
  */
 export const useNoteStackEditor = () => {
-  const [state, dispatch] = useReducer(noteStackReducer, initialState);
+  const [history, dispatch] = useReducer(noteStackHistoryReducer, initialState, createHistoryState);
+  const state = history.present;
   
   // === Derived state (memoized) ===
   const layoutItems = useMemo(() => calculateDisplayPositions(state.tab), [state.tab]);
@@ -288,14 +463,15 @@ export const useNoteStackEditor = () => {
   
   // === Note management actions ===
   
-  const addNote = useCallback((position: number, string: number, fret: number, duration: Duration) => {
+  const addNote = useCallback((position: number, string: number, fret: number, duration: Duration, tuplet?: Tuplet | null) => {
     dispatch({
       type: 'ADD_NOTE',
       payload: {
         position,
         string,
         fret,
-        duration
+        duration,
+        tuplet: tuplet ?? undefined
       }
     });
   }, []);
@@ -314,6 +490,92 @@ export const useNoteStackEditor = () => {
     });
   }, []);
   
+  // === Repeats, endings and navigation markers ===
+  // These attach to the stack at a position and apply to that stack's measure
+  
+  const toggleRepeatStart = useCallback((position: number) => {
+    const stack = findStackAtPosition(state.tab, position);
+    if (!stack) return;
+    dispatch({
+      type: 'UPDATE_STACK_STRUCTURE',
+      payload: { stackId: stack.id, structure: { repeatStart: stack.repeatStart ? undefined : true } }
+    });
+  }, [state.tab]);
+  
+  const setRepeatEnd = useCallback((position: number, timesToRepeat: number | null) => {
+    const stack = findStackAtPosition(state.tab, position);
+    if (!stack) return;
+    const target = findRepeatStart(state.tab, position);
+    dispatch({
+      type: 'UPDATE_STACK_STRUCTURE',
+      payload: {
+        stackId: stack.id,
+        structure: {
+          repeatEnd: timesToRepeat === null || !target
+            ? undefined
+            : { jumpToStackId: target.id, timesToRepeat }
+        }
+      }
+    });
+  }, [state.tab]);
+  
+  const setEnding = useCallback((position: number, passes: number[] | null, measures?: number) => {
+    const stack = findStackAtPosition(state.tab, position);
+    if (!stack) return;
+    dispatch({
+      type: 'UPDATE_STACK_STRUCTURE',
+      payload: { stackId: stack.id, structure: { ending: passes && passes.length > 0 ? { passes, measures } : undefined } }
+    });
+  }, [state.tab]);
+  
+  const setNavigationMarker = useCallback((position: number, marker: NavigationMarker | null) => {
+    const stack = findStackAtPosition(state.tab, position);
+    if (!stack) return;
+    dispatch({
+      type: 'UPDATE_STACK_STRUCTURE',
+      payload: { stackId: stack.id, structure: { marker: marker ?? undefined } }
+    });
+  }, [state.tab]);
+  
+  // Manual beaming: break the beam before the stack or join it to the previous one (null = automatic)
+  const setBeamOverride = useCallback((position: number, beam: BeamOverride | null) => {
+    const stack = findStackAtPosition(state.tab, position);
+    if (!stack) return;
+    dispatch({
+      type: 'UPDATE_STACK_STRUCTURE',
+      payload: { stackId: stack.id, structure: { beam: beam ?? undefined } }
+    });
+  }, [state.tab]);
+  
+  // Move the note at a position between a fret and its half-fret ("6" <-> "6+")
+  // Returns false when there is no note or the fretboard has no such fret
+  const toggleHalfFret = useCallback((position: number, string: number): boolean => {
+    const stack = findStackAtPosition(state.tab, position);
+    const note = stack?.notes.find(candidate => candidate.string === string);
+    if (!stack || !note) return false;
+    
+    const fret = Number.isInteger(note.fret) ? note.fret + 0.5 : Math.floor(note.fret);
+    if (getNotePitch(fret, string, state.instrument) === null) return false;
+    
+    dispatch({
+      type: 'ADD_NOTE',
+      payload: { position, string, fret, duration: stack.duration, tuplet: stack.tuplet }
+    });
+    return true;
+  }, [state.tab, state.instrument]);
+  
+  // === Playing techniques ===
+  
+  // Toggle a technique on the note at a position - applying the one it already has clears it
+  const toggleNoteTechnique = useCallback((position: number, string: number, technique: Technique) => {
+    const note = findStackAtPosition(state.tab, position)?.notes.find(candidate => candidate.string === string);
+    if (!note) return;
+    dispatch({
+      type: 'SET_NOTE_TECHNIQUE',
+      payload: { position, string, technique: note.technique === technique ? null : technique }
+    });
+  }, [state.tab]);
+  
   // === Cursor and navigation ===
   
   const setCursorPosition = useCallback((position: number) => {
@@ -339,7 +601,7 @@ export const useNoteStackEditor = () => {
   // === Arrow key navigation (by selected duration) ===
   
   const moveCursorLeftByDuration = useCallback(() => {
-    const durationTicks = DURATION_TO_TICKS[state.selectedDuration];
+    const durationTicks = getDurationTicks(state.selectedDuration, state.selectedTuplet ?? undefined);
     const newPosition = Math.max(0, state.currentPosition - durationTicks);
     console.log('moveCursorLeftByDuration (Arrow Left):', { 
       from: state.currentPosition, 
@@ -348,10 +610,10 @@ export const useNoteStackEditor = () => {
       ticks: durationTicks 
     });
     setCursorPosition(newPosition);
-  }, [state.currentPosition, state.selectedDuration, setCursorPosition]);
+  }, [state.currentPosition, state.selectedDuration, state.selectedTuplet, setCursorPosition]);
 
   const moveCursorRightByDuration = useCallback(() => {
-    const durationTicks = DURATION_TO_TICKS[state.selectedDuration];
+    const durationTicks = getDurationTicks(state.selectedDuration, state.selectedTuplet ?? undefined);
     const newPosition = state.currentPosition + durationTicks;
     console.log('moveCursorRightByDuration (Arrow Right):', { 
       from: state.currentPosition, 
@@ -360,15 +622,15 @@ export const useNoteStackEditor = () => {
       ticks: durationTicks 
     });
     setCursorPosition(newPosition);
-  }, [state.currentPosition, state.selectedDuration, setCursorPosition]);
+  }, [state.currentPosition, state.selectedDuration, state.selectedTuplet, setCursorPosition]);
   
   // === String navigation (up/down arrows) ===
   
   const moveStringUp = useCallback(() => {
     // Visual "up" means higher pitch, higher string index
-    // Display order: Hi D (2), A (1), Low D (0)
+    // Display order: highest string index on top, 0 (lowest string) at the bottom
     const newString = state.selectedString + 1;
-    if (newString <= 2) {
+    if (newString < state.instrument.stringCount) {
       console.log('moveStringUp (Arrow Up):', { 
         from: state.selectedString, 
         to: newString 
@@ -378,7 +640,7 @@ export const useNoteStackEditor = () => {
         payload: newString
       });
     }
-  }, [state.selectedString]);
+  }, [state.selectedString, state.instrument]);
 
   const moveStringDown = useCallback(() => {
     // Visual "down" means lower pitch, lower string index
@@ -464,6 +726,39 @@ export const useNoteStackEditor = () => {
     });
   }, []);
   
+  const setInstrument = useCallback((instrument: InstrumentProfile) => {
+    dispatch({
+      type: 'SET_INSTRUMENT',
+      payload: instrument
+    });
+  }, []);
+  
+  // Swap the fretboard (e.g. to add the 6½ fret) while keeping the strings
+  const setFretMap = useCallback((fretMapId: string) => {
+    const fretMap = FRET_MAPS[fretMapId];
+    if (!fretMap) return;
+    dispatch({
+      type: 'SET_INSTRUMENT',
+      payload: withFretMap(state.instrument, fretMap)
+    });
+  }, [state.instrument]);
+  
+  // Transpose the selection (or the whole tab) and/or refinger it onto another instrument
+  // Returns the notes that had no place on the target and were removed
+  const transpose = useCallback((semitones: number, target: InstrumentProfile = state.instrument): UntransposableNote[] => {
+    const result = transposeTab(state.tab, {
+      from: state.instrument,
+      to: target,
+      semitones,
+      selection: state.selection
+    });
+    dispatch({
+      type: 'APPLY_TRANSPOSITION',
+      payload: { tab: result.tab, instrument: target, selection: result.selection }
+    });
+    return result.unplayable;
+  }, [state.tab, state.instrument, state.selection]);
+  
   const setSelectedDuration = useCallback((duration: Duration) => {
     dispatch({
       type: 'SET_SELECTED_DURATION',
@@ -471,6 +766,13 @@ export const useNoteStackEditor = () => {
     });
   }, []);
   
+  const setSelectedTuplet = useCallback((tuplet: Tuplet | null) => {
+    dispatch({
+      type: 'SET_SELECTED_TUPLET',
+      payload: tuplet
+    });
+  }, []);
+  
   const setSelectedString = useCallback((string: number) => {
     dispatch({
       type: 'SET_SELECTED_STRING',
@@ -478,8 +780,41 @@ export const useNoteStackEditor = () => {
     });
   }, []);
   
+  // === Lyrics, chords and sections ===
+  
+  // Empty text removes the syllable; a trailing "_" holds it over the following notes
+  const setLyric = useCallback((slot: number, verse: number, text: string) => {
+    dispatch({
+      type: 'SET_LYRIC',
+      payload: { slot, verse, text }
+    });
+  }, []);
+  
+  const setChord = useCallback((slot: number, name: string) => {
+    dispatch({
+      type: 'SET_CHORD',
+      payload: { slot, name }
+    });
+  }, []);
+  
+  // Set, replace or (with empty text) remove a section mark or text annotation
+  const setSectionMarker = useCallback((marker: SectionMarker) => {
+    dispatch({
+      type: 'SET_SECTION_MARKER',
+      payload: marker
+    });
+  }, []);
+  
   // === File operations ===
   
+  // Replace the lyrics, chords and sections of a loaded project (call before loadTab, which clears history)
+  const loadAnnotations = useCallback((annotations: Annotations) => {
+    dispatch({
+      type: 'LOAD_ANNOTATIONS',
+      payload: annotations
+    });
+  }, []);
+  
   const loadTab = useCallback((tab: Tab) => {
     dispatch({
       type: 'LOAD_TAB',
@@ -498,6 +833,16 @@ export const useNoteStackEditor = () => {
     });
   }, []);
   
+  // === History ===
+  
+  const undo = useCallback(() => {
+    dispatch({ type: 'UNDO' });
+  }, []);
+  
+  const redo = useCallback(() => {
+    dispatch({ type: 'REDO' });
+  }, []);
+  
 
   
   return {
@@ -508,9 +853,22 @@ export const useNoteStackEditor = () => {
     
     // Note operations
     addNote,
+    toggleHalfFret,
     removeNote,
     updateDuration,
     
+    // Repeats and navigation markers
+    toggleRepeatStart,
+    setRepeatEnd,
+    setEnding,
+    setNavigationMarker,
+    
+    // Beaming
+    setBeamOverride,
+    
+    // Playing techniques
+    toggleNoteTechnique,
+    
     // Navigation
     setCursorPosition,
     moveCursorLeft,
@@ -542,14 +900,29 @@ export const useNoteStackEditor = () => {
     // Settings
     setBpm,
     setTimeSignature,
+    setInstrument,
+    setFretMap,
+    transpose,
     setSelectedDuration,
+    setSelectedTuplet,
     setSelectedString,
     
+    // Lyrics, chords and sections
+    setLyric,
+    setChord,
+    setSectionMarker,
+    
     // File operations
+    loadAnnotations,
     loadTab,
     resetTab,
     setModified,
     
+    // History
+    undo,
+    redo,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
 
   };
 };
@@ -2,8 +2,9 @@
 // This hook encapsulates the main application state management using our unified reducer and memoized selectors.
 
 import { useReducer, useCallback } from 'react'
-import { appReducer, actionCreators } from '../state/reducer' 
+import { appHistoryReducer, actionCreators } from '../state/reducer' 
 import { initialState } from '../state/initialState'
+import { createHistoryState, canUndo, canRedo } from '../state/history'
 import { useMemoizedAppSelectors } from '../state/selectors'
 import type { AppState, AppAction } from '../state/types'
 import type { Note, CursorPosition, NoteDuration, NoteType } from '../types'
@@ -13,8 +14,9 @@ import type { Note, CursorPosition, NoteDuration, NoteType } from '../types'
  * This replaces the scattered state management across App.tsx
  */
 export const useTabEditor = () => {
-  // Core state management with our unified reducer
-  const [state, dispatch] = useReducer(appReducer, initialState)
+  // Core state management with our unified reducer, wrapped in undo/redo history
+  const [history, dispatch] = useReducer(appHistoryReducer, initialState, createHistoryState)
+  const state = history.present
   
   // Memoized selectors for derived state calculations
   const selectors = useMemoizedAppSelectors(state)
@@ -215,6 +217,16 @@ export const useTabEditor = () => {
     dispatch({ type: 'TOGGLE_SYNTH_MUTE' })
   }, [])
   
+  // === Undo/Redo ===
+  
+  const undo = useCallback(() => {
+    dispatch(actionCreators.undo())
+  }, [])
+  
+  const redo = useCallback(() => {
+    dispatch(actionCreators.redo())
+  }, [])
+  
   // Return comprehensive API
   return {
     // Core state
@@ -291,6 +303,12 @@ export const useTabEditor = () => {
     toggleVideoMute,
     toggleSynthMute,
     
+    // History
+    undo,
+    redo,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+    
     // Raw dispatch for advanced use cases
     dispatch
   }
@@ -2,9 +2,9 @@
 // Conversion functions between old TabData structure and new NoteStack architecture
 // This enables gradual migration from the existing system to the new NoteStack system
 
-import type { TabData, Note, NoteDuration } from '../types';
+import type { TabData, Note, NoteDuration, StructureMarker } from '../types';
 import type { Tab, NoteStack, Duration } from '../types/notestack';
-import { DURATION_TO_TICKS, TICKS_PER_QUARTER } from '../types/notestack';
+import { DURATION_TO_TICKS, TICKS_PER_QUARTER, getStackTicks } from '../types/notestack';
 
 // Mapping between old and new duration types
 const OLD_TO_NEW_DURATION: Record<NoteDuration, Duration> = {
@@ -36,7 +36,8 @@ export const convertTabDataToNoteStack = (tabData: TabData): Tab => {
       if (note.startSlot !== timeSlot) return; // Only process notes that start here
       
       // Convert slot position to musical position (ticks)
-      const musicalPosition = timeSlot * (TICKS_PER_QUARTER / 4); // Each slot is a sixteenth note (1/4 of quarter)
+      // Each slot is a sixteenth note (1/4 of quarter); tuplet notes may sit part-way into a slot
+      const musicalPosition = Math.round((timeSlot + (note.tupletOffset ?? 0)) * (TICKS_PER_QUARTER / 4));
       
       // Get or create stack at this position
       let stack = noteStacks.get(musicalPosition);
@@ -49,6 +50,7 @@ export const convertTabDataToNoteStack = (tabData: TabData): Tab => {
           duration: OLD_TO_NEW_DURATION[note.duration],
           notes: []
         };
+        if (note.tuplet) stack.tuplet = note.tuplet;
         noteStacks.set(musicalPosition, stack);
       }
       
@@ -56,7 +58,8 @@ export const convertTabDataToNoteStack = (tabData: TabData): Tab => {
       if (note.type === 'note' && note.fret !== null) {
         stack.notes.push({
           string: note.stringIndex,
-          fret: note.fret
+          fret: note.fret,
+          ...(note.technique && { technique: note.technique })
         });
         
         // Update stack duration to the longest note duration
@@ -81,9 +84,8 @@ export const convertNoteStackToTabData = (tab: Tab): TabData => {
   // Find the maximum time slot needed
   let maxTimeSlot = 0;
   tab.forEach(stack => {
-    const timeSlot = Math.floor(stack.musicalPosition / (TICKS_PER_QUARTER / 4));
-    const duration = DURATION_TO_TICKS[stack.duration];
-    const endSlot = timeSlot + Math.floor(duration / (TICKS_PER_QUARTER / 4));
+    // Tuplet stacks can end part-way into a slot, so round the end up
+    const endSlot = Math.ceil((stack.musicalPosition + getStackTicks(stack)) / (TICKS_PER_QUARTER / 4));
     maxTimeSlot = Math.max(maxTimeSlot, endSlot);
   });
   
@@ -95,6 +97,7 @@ export const convertNoteStackToTabData = (tab: Tab): TabData => {
   // Convert each stack to old format
   tab.forEach(stack => {
     const timeSlot = Math.floor(stack.musicalPosition / (TICKS_PER_QUARTER / 4));
+    const tupletOffset = (stack.musicalPosition % (TICKS_PER_QUARTER / 4)) / (TICKS_PER_QUARTER / 4);
     
     // Convert each note in the stack
     stack.notes.forEach(note => {
@@ -106,6 +109,9 @@ export const convertNoteStackToTabData = (tab: Tab): TabData => {
         startSlot: timeSlot,
         isDotted: false
       };
+      if (stack.tuplet) oldNote.tuplet = stack.tuplet;
+      if (note.technique) oldNote.technique = note.technique;
+      if (tupletOffset > 0) oldNote.tupletOffset = tupletOffset;
       
       // Add to the appropriate time slot
       if (tabData[timeSlot]) {
@@ -117,6 +123,68 @@ export const convertNoteStackToTabData = (tab: Tab): TabData => {
   return tabData;
 };
 
+/**
+ * Pull repeat/ending/navigation markers and beam overrides off NoteStacks so they can be saved alongside TabData
+ * Repeat jump targets are stored as slots because stack IDs are not persisted
+ */
+export const extractStructureMarkers = (tab: Tab): StructureMarker[] => {
+  return tab
+    .filter(stack => stack.repeatStart || stack.repeatEnd || stack.ending || stack.marker || stack.beam)
+    .map(stack => {
+      const marker: StructureMarker = { slot: musicalPositionToTimeSlot(stack.musicalPosition) };
+      if (stack.repeatStart) marker.repeatStart = true;
+      if (stack.repeatEnd) {
+        const target = tab.find(candidate => candidate.id === stack.repeatEnd!.jumpToStackId);
+        marker.repeatEnd = {
+          jumpToSlot: target ? musicalPositionToTimeSlot(target.musicalPosition) : 0,
+          timesToRepeat: stack.repeatEnd.timesToRepeat
+        };
+      }
+      if (stack.ending) marker.ending = stack.ending;
+      if (stack.marker) marker.marker = stack.marker;
+      if (stack.beam) marker.beam = stack.beam;
+      return marker;
+    });
+};
+
+/**
+ * Re-attach saved structure markers to the stacks starting at their slots
+ * Markers whose slot has no stack are returned as dropped
+ */
+export const applyStructureMarkers = (
+  tab: Tab,
+  markers: StructureMarker[]
+): { tab: Tab; dropped: StructureMarker[] } => {
+  const stackAtSlot = (slot: number) =>
+    tab.find(stack => stack.musicalPosition === timeSlotToMusicalPosition(slot));
+  const dropped: StructureMarker[] = [];
+  const updates = new Map<string, Partial<NoteStack>>();
+
+  markers.forEach(marker => {
+    const stack = stackAtSlot(marker.slot);
+    if (!stack) {
+      dropped.push(marker);
+      return;
+    }
+
+    const update: Partial<NoteStack> = {};
+    if (marker.repeatStart) update.repeatStart = true;
+    if (marker.repeatEnd) {
+      const target = stackAtSlot(marker.repeatEnd.jumpToSlot) ?? tab[0];
+      update.repeatEnd = { jumpToStackId: target.id, timesToRepeat: marker.repeatEnd.timesToRepeat };
+    }
+    if (marker.ending) update.ending = marker.ending;
+    if (marker.marker) update.marker = marker.marker;
+    if (marker.beam) update.beam = marker.beam;
+    updates.set(stack.id, { ...updates.get(stack.id), ...update });
+  });
+
+  return {
+    tab: tab.map(stack => updates.has(stack.id) ? { ...stack, ...updates.get(stack.id) } : stack),
+    dropped
+  };
+};
+
 /**
  * Convert a single old Note to NoteStack format (for adding individual notes)
  */
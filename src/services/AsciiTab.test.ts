@@ -0,0 +1,152 @@
+import { describe, it, expect } from '@jest/globals';
+import { exportAsciiTab, importAsciiTab } from './AsciiTab';
+import type { TabData, Note, CustomMeasureLine } from '../types';
+import { INSTRUMENT_PROFILES } from '../types/notestack';
+
+const note = (startSlot: number, stringIndex: number, fret: number): Note => ({
+  type: 'note',
+  fret,
+  duration: 'eighth',
+  stringIndex,
+  startSlot
+});
+
+const buildTabData = (notes: Note[], length: number): TabData => {
+  const tabData: TabData = Array.from({ length }, () => ({ notes: [] }));
+  notes.forEach(n => tabData[n.startSlot].notes.push(n));
+  return tabData;
+};
+
+describe('ASCII Tab', () => {
+  const measureLines: CustomMeasureLine[] = [{ slot: 4, measureNumber: 2 }];
+
+  describe('exportAsciiTab', () => {
+    it('should render three labelled lines with bars at measure boundaries', () => {
+      const tabData = buildTabData([note(0, 2, 0), note(2, 0, 2), note(4, 1, 10)], 8);
+
+      expect(exportAsciiTab(tabData, measureLines)).toBe([
+        'd|-0-------|----------|',
+        'A|---------|-10-------|',
+        'D|-----2---|----------|',
+        ''
+      ].join('\n'));
+    });
+
+    it('should write one labelled line per string of the instrument', () => {
+      const tabData = buildTabData([note(0, 3, 2), note(2, 0, 0)], 4);
+      const output = exportAsciiTab(tabData, [], { instrument: INSTRUMENT_PROFILES['dulcimer-4'] });
+
+      expect(output.trim().split('\n')).toEqual([
+        'd|-2-------|',
+        'd|---------|',
+        'A|---------|',
+        'D|-----0---|'
+      ]);
+      expect(importAsciiTab(output, { instrument: INSTRUMENT_PROFILES['dulcimer-4'] }).warnings).toEqual([]);
+    });
+
+    it('should wrap systems after the configured number of measures', () => {
+      const tabData = buildTabData([note(0, 0, 0)], 8);
+      const output = exportAsciiTab(tabData, measureLines, { measuresPerLine: 1 });
+
+      expect(output.trim().split('\n\n')).toHaveLength(2);
+    });
+
+    it('should line chord names and lyrics up with their slots', () => {
+      const tabData = buildTabData([note(0, 2, 0), note(2, 0, 2), note(4, 1, 10)], 8);
+      const output = exportAsciiTab(tabData, measureLines, {
+        chords: [{ slot: 0, name: 'D' }, { slot: 4, name: 'G' }],
+        lyrics: [
+          { slot: 0, verse: 0, text: 'Sun-' },
+          { slot: 2, verse: 0, text: 'shine' },
+          { slot: 4, verse: 0, text: 'oh', extender: true }
+        ]
+      });
+
+      expect(output).toBe([
+        '   D         G',
+        'd|-0-------|----------|',
+        'A|---------|-10-------|',
+        'D|-----2---|----------|',
+        '   Sun- shine oh_',
+        ''
+      ].join('\n'));
+      expect(importAsciiTab(output).tabData).toEqual(importAsciiTab(exportAsciiTab(tabData, measureLines)).tabData);
+    });
+  });
+
+  describe('importAsciiTab', () => {
+    it('should parse fret columns into notes of the default duration', () => {
+      const result = importAsciiTab([
+        'd|--0-----|------|',
+        'A|-----3--|--12--|',
+        'D|--0-----|------|'
+      ].join('\n'), { defaultDuration: 'quarter' });
+
+      expect(result.tabData).toHaveLength(12);
+      expect(result.tabData[0].notes).toHaveLength(2);
+      expect(result.tabData[4].notes[0]).toMatchObject({ stringIndex: 1, fret: 3, duration: 'quarter' });
+      expect(result.tabData[8].notes[0]).toMatchObject({ stringIndex: 1, fret: 12 });
+      expect(result.customMeasureLines).toEqual([{ slot: 8, measureNumber: 2 }]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should round-trip exported tab', () => {
+      const tabData = buildTabData([note(0, 2, 0), note(2, 0, 2), note(4, 1, 10)], 8);
+      const result = importAsciiTab(exportAsciiTab(tabData, measureLines), { defaultDuration: 'eighth' });
+
+      const frets = result.tabData.flatMap(cell => cell.notes.map(n => [n.stringIndex, n.fret]));
+      expect(frets).toEqual([[2, 0], [0, 2], [1, 10]]);
+    });
+
+    it('should round-trip half-frets written as "6+"', () => {
+      const tabData = buildTabData([note(0, 0, 6.5), note(2, 0, 13.5)], 4);
+      const ascii = exportAsciiTab(tabData, []);
+      expect(ascii).toContain('6+');
+
+      const result = importAsciiTab(ascii, { defaultDuration: 'eighth' });
+      expect(result.tabData.flatMap(cell => cell.notes).map(n => n.fret)).toEqual([6.5, 13.5]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should round-trip triplets through their own columns and a tuplet number line', () => {
+      const triplet = { tuplet: { actual: 3, normal: 2 } };
+      const tabData = buildTabData([
+        note(0, 1, 2),
+        { ...note(2, 0, 0), ...triplet },
+        { ...note(3, 0, 1), ...triplet, tupletOffset: 1 / 3 },
+        { ...note(4, 0, 2), ...triplet, tupletOffset: 2 / 3 },
+        note(6, 2, 4)
+      ], 8);
+      const ascii = exportAsciiTab(tabData, []);
+
+      expect(ascii.split('\n')[0]).toBe('       3');
+
+      const result = importAsciiTab(ascii, { defaultDuration: 'eighth' });
+      const notes = result.tabData.flatMap(cell => cell.notes);
+      expect(notes.map(n => [n.startSlot, n.tupletOffset ?? 0, n.fret])).toEqual([
+        [0, 0, 2], [2, 0, 0], [3, 1 / 3, 1], [4, 2 / 3, 2], [6, 0, 4]
+      ]);
+      expect(notes.map(n => n.tuplet?.actual)).toEqual([undefined, 3, 3, 3, undefined]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should warn about technique symbols and systems that are not three lines', () => {
+      const result = importAsciiTab([
+        'e|--0--|',
+        'B|--1--|',
+        '',
+        'd|--5h7--|',
+        'A|-------|',
+        'D|-------|'
+      ].join('\n'));
+
+      expect(result.warnings).toHaveLength(2);
+      expect(result.tabData.flatMap(cell => cell.notes).map(n => n.fret)).toEqual([5, 7]);
+    });
+
+    it('should reject text without any tab lines', () => {
+      expect(() => importAsciiTab('just some words')).toThrow('No ASCII tab found');
+    });
+  });
+});
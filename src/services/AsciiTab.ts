@@ -0,0 +1,294 @@
+// ASCII Tab Interchange
+// Render TabData as plain-text tab (one line per string) and parse pasted tab back into notes
+// Strings are written high to low, e.g. d, A, D on the DAd strumstick
+
+import type { TabData, Note, NoteDuration, CustomMeasureLine, LyricSyllable, ChordSymbol } from '../types';
+import { DURATION_SLOTS, getCustomMeasureBoundaries, getNoteStartPosition } from '../types';
+import type { InstrumentProfile, Tuplet } from '../types/notestack';
+import { DEFAULT_INSTRUMENT, TICKS_PER_QUARTER, TUPLET_PRESETS, formatFret, parseFret } from '../types/notestack';
+import { getVerseCount, getVerseSyllables } from './Lyrics';
+import { convertTabDataToNoteStack } from './ArchitectureBridge';
+import { findTupletGroups } from './NoteStackOperations';
+
+export interface AsciiTabExportOptions {
+  measuresPerLine?: number; // Bars per system before wrapping
+  instrument?: InstrumentProfile; // Strings and their labels, defaults to the DAd strumstick
+  chords?: ChordSymbol[]; // Written on a line above each system
+  lyrics?: LyricSyllable[]; // One line per verse below each system
+}
+
+export interface AsciiTabImportOptions {
+  defaultDuration?: NoteDuration; // Duration given to every note column
+  instrument?: InstrumentProfile; // Number of lines per system, defaults to the DAd strumstick
+}
+
+export interface AsciiTabImportResult {
+  tabData: TabData;
+  customMeasureLines: CustomMeasureLine[];
+  warnings: string[];
+}
+
+const DEFAULT_MEASURES_PER_LINE = 4;
+const TICKS_PER_SLOT = TICKS_PER_QUARTER / 4;
+
+const getStartTicks = (note: Note): number => Math.round(getNoteStartPosition(note) * TICKS_PER_SLOT);
+
+/**
+ * String indices in the order their lines are written - highest string on top
+ */
+const getStringOrder = (instrument: InstrumentProfile): number[] =>
+  Array.from({ length: instrument.stringCount }, (_, line) => instrument.stringCount - 1 - line);
+
+/**
+ * Render one slot as equal-width cells for each string (top line first)
+ */
+const renderSlot = (notes: Note[], stringOrder: number[]): string[] => {
+  const frets = stringOrder.map(stringIndex => {
+    const note = notes.find(candidate => candidate.stringIndex === stringIndex);
+    return note && note.type === 'note' && note.fret !== null ? formatFret(note.fret) : '';
+  });
+  const width = Math.max(1, ...frets.map(fret => fret.length));
+  return frets.map(fret => fret.padEnd(width, '-') + '-');
+};
+
+/**
+ * Write texts at their columns, pushing any that would touch the previous one to the right
+ */
+const renderTextLine = (items: Array<{ column: number; text: string }>): string =>
+  items.reduce((line, item) => {
+    const column = line.length > 0 ? Math.max(item.column, line.length + 1) : item.column;
+    return line.padEnd(column, ' ') + item.text;
+  }, '');
+
+/**
+ * Export TabData as ASCII tab, one line per string
+ * Bars come from getCustomMeasureBoundaries; systems wrap after `measuresPerLine` bars
+ * Chord names go above each system and lyric verses below it, lined up with their slots
+ * Tuplet notes get a column each, and a line of tuplet numbers (e.g. "3") sits over the first note of every group
+ */
+export const exportAsciiTab = (
+  tabData: TabData,
+  customMeasureLines: CustomMeasureLine[],
+  options: AsciiTabExportOptions = {}
+): string => {
+  const measuresPerLine = options.measuresPerLine ?? DEFAULT_MEASURES_PER_LINE;
+  const instrument = options.instrument ?? DEFAULT_INSTRUMENT;
+  const stringOrder = getStringOrder(instrument);
+  const boundaries = getCustomMeasureBoundaries(tabData, customMeasureLines)
+    .filter(boundary => boundary > 0 && boundary < tabData.length);
+
+  // Split the slot range into measures
+  const starts = [0, ...boundaries];
+  const measures = starts.map((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] : tabData.length;
+    const lines = stringOrder.map(() => '-');
+    const columns = new Map<number, number>(); // Slot -> column within the measure
+    const tickColumns = new Map<number, number>(); // Start tick of each tuplet column -> column within the measure
+    for (let slot = start; slot < end; slot++) {
+      const notes = (tabData[slot]?.notes || []).filter(note => note.startSlot === slot);
+      columns.set(slot, lines[0].length);
+
+      // Tuplet notes part-way into the slot follow in columns of their own
+      const ticks = Array.from(new Set([slot * TICKS_PER_SLOT, ...notes.map(getStartTicks)])).sort((a, b) => a - b);
+      ticks.forEach(tick => {
+        tickColumns.set(tick, lines[0].length);
+        renderSlot(notes.filter(note => getStartTicks(note) === tick), stringOrder).forEach((cell, line) => {
+          lines[line] += cell;
+        });
+      });
+    }
+    return { lines, columns, tickColumns };
+  });
+
+  const tupletStarts = findTupletGroups(convertTabDataToNoteStack(tabData))
+    .map(group => ({ tick: group.start, actual: group.tuplet.actual }));
+
+  const chords = options.chords ?? [];
+  const lyrics = options.lyrics ?? [];
+  const verseCount = getVerseCount(lyrics);
+
+  const systems: string[] = [];
+  for (let index = 0; index < measures.length; index += measuresPerLine) {
+    const group = measures.slice(index, index + measuresPerLine);
+    const tabLines = stringOrder.map((stringIndex, line) =>
+      `${instrument.stringNames[stringIndex]}|${group.map(measure => measure.lines[line]).join('|')}|`
+    );
+
+    // Absolute column of every slot and tuplet note on this system
+    const slotColumns = new Map<number, number>();
+    const tickColumns = new Map<number, number>();
+    let offset = `${instrument.stringNames[stringOrder[0]]}|`.length;
+    group.forEach(measure => {
+      measure.columns.forEach((column, slot) => slotColumns.set(slot, offset + column));
+      measure.tickColumns.forEach((column, tick) => tickColumns.set(tick, offset + column));
+      offset += measure.lines[0].length + 1;
+    });
+    const place = <T extends { slot: number }>(items: T[], text: (item: T) => string) => renderTextLine(
+      items
+        .filter(item => slotColumns.has(item.slot))
+        .map(item => ({ column: slotColumns.get(item.slot)!, text: text(item) }))
+    );
+
+    const chordLine = place(chords, chord => chord.name);
+    const tupletLine = renderTextLine(
+      tupletStarts
+        .filter(start => tickColumns.has(start.tick))
+        .map(start => ({ column: tickColumns.get(start.tick)!, text: String(start.actual) }))
+    );
+    const lyricLines = Array.from({ length: verseCount }, (_, verse) =>
+      place(getVerseSyllables(lyrics, verse), syllable => `${syllable.text}${syllable.extender ? '_' : ''}`)
+    ).filter(line => line.length > 0);
+
+    systems.push([
+      ...(chordLine ? [chordLine] : []),
+      ...(tupletLine ? [tupletLine] : []),
+      ...tabLines,
+      ...lyricLines
+    ].join('\n'));
+  }
+
+  return systems.join('\n\n') + '\n';
+};
+
+// A tab line: optional string label, then a bar, then tab characters
+const TAB_LINE_PATTERN = /^\s*([A-Ga-g][#b]?)?\s*\|/;
+
+const isTabLine = (line: string): boolean =>
+  TAB_LINE_PATTERN.test(line) && (line.match(/-/g) || []).length >= 3;
+
+// Tuplet numbers written over a system, e.g. "     3       5"
+const TUPLET_LINE_PATTERN = /^\s*\d+(\s+\d+)*\s*$/;
+
+interface AsciiSystem {
+  lines: string[];
+  tupletLine?: string; // Line of tuplet numbers directly above the tab lines
+}
+
+/**
+ * Group consecutive tab lines into systems
+ */
+const findSystems = (text: string): AsciiSystem[] => {
+  const systems: AsciiSystem[] = [];
+  let current: string[] = [];
+  let previous = '';
+  let tupletLine: string | undefined;
+
+  text.split(/\r?\n/).forEach(line => {
+    if (isTabLine(line)) {
+      if (current.length === 0) tupletLine = TUPLET_LINE_PATTERN.test(previous) ? previous : undefined;
+      current.push(line);
+    } else if (current.length > 0) {
+      systems.push({ lines: current, tupletLine });
+      current = [];
+    }
+    previous = line;
+  });
+  if (current.length > 0) systems.push({ lines: current, tupletLine });
+
+  return systems;
+};
+
+/**
+ * Ratio for a tuplet number: the preset with that many notes, otherwise in the time of the next power of two down
+ */
+const getTupletForCount = (actual: number): Tuplet =>
+  TUPLET_PRESETS.find(preset => preset.actual === actual && preset.normal < actual)
+    ?? { actual, normal: 2 ** Math.floor(Math.log2(actual)) };
+
+/**
+ * Parse pasted ASCII tab into TabData
+ * Every column that starts a fret number becomes one note of `defaultDuration`; bars become custom measure lines
+ * A tuplet number over a column turns it and the next columns into a tuplet group of that many notes
+ */
+export const importAsciiTab = (text: string, options: AsciiTabImportOptions = {}): AsciiTabImportResult => {
+  const defaultDuration = options.defaultDuration ?? 'eighth';
+  const stringOrder = getStringOrder(options.instrument ?? DEFAULT_INSTRUMENT);
+  const ticksPerColumn = DURATION_SLOTS[defaultDuration] * TICKS_PER_SLOT;
+  const warnings: string[] = [];
+  const notes: Note[] = [];
+  const barSlots: number[] = [];
+  let position = 0; // Ticks
+  let ignoredSymbols = 0;
+
+  const systems = findSystems(text);
+  if (systems.length === 0) {
+    throw new Error('No ASCII tab found. Expected lines like "d|--0--2--|"');
+  }
+
+  systems.forEach((system, systemIndex) => {
+    if (system.lines.length !== stringOrder.length) {
+      warnings.push(`System ${systemIndex + 1} has ${system.lines.length} lines instead of ${stringOrder.length} and was skipped`);
+      return;
+    }
+
+    // Drop the string labels so every line starts at its first bar
+    const labelWidth = system.lines[0].indexOf('|') + 1;
+    const lines = system.lines.map(line => line.slice(line.indexOf('|') + 1));
+    const tupletLine = system.tupletLine?.slice(labelWidth) ?? '';
+    const width = Math.max(...lines.map(line => line.length));
+    let tuplet: Tuplet | undefined;
+    let tupletNotesLeft = 0;
+
+    for (let column = 0; column < width; column++) {
+      const chars = lines.map(line => line[column] || '-');
+
+      if (chars.every(char => char === '|')) {
+        const slot = Math.ceil(position / TICKS_PER_SLOT);
+        if (slot > 0 && !barSlots.includes(slot)) barSlots.push(slot);
+        continue;
+      }
+
+      const tupletNumber = /\d/.test(tupletLine[column - 1] ?? '') ? null : /^\d+/.exec(tupletLine.slice(column));
+      if (tupletNumber && Number(tupletNumber[0]) > 1) {
+        tuplet = getTupletForCount(Number(tupletNumber[0]));
+        tupletNotesLeft = tuplet.actual;
+      }
+      const slot = Math.floor(position / TICKS_PER_SLOT);
+      const tupletOffset = (position % TICKS_PER_SLOT) / TICKS_PER_SLOT;
+
+      let hasNote = false;
+      chars.forEach((char, line) => {
+        const previous = column > 0 ? lines[line][column - 1] : '';
+        if (/\d/.test(char) && !/\d/.test(previous || '')) {
+          const digits = /^\d+\+?/.exec(lines[line].slice(column))![0];
+          notes.push({
+            type: 'note',
+            fret: parseFret(digits)!,
+            duration: defaultDuration,
+            stringIndex: stringOrder[line],
+            startSlot: slot,
+            ...(tupletNotesLeft > 0 ? { tuplet } : {}),
+            ...(tupletOffset > 0 ? { tupletOffset } : {})
+          });
+          hasNote = true;
+        } else if (!/[\d\-|\s]/.test(char) && !(char === '+' && /\d/.test(previous || ''))) {
+          ignoredSymbols++;
+        }
+      });
+
+      if (!hasNote) continue;
+      if (tupletNotesLeft > 0) {
+        position += Math.round((ticksPerColumn * tuplet!.normal) / tuplet!.actual);
+        tupletNotesLeft--;
+      } else {
+        position += ticksPerColumn;
+      }
+    }
+  });
+
+  if (ignoredSymbols > 0) {
+    warnings.push(`Ignored ${ignoredSymbols} technique or unknown symbol(s)`);
+  }
+
+  const length = Math.ceil(position / TICKS_PER_SLOT);
+  const tabData: TabData = Array.from({ length }, () => ({ notes: [] }));
+  notes.forEach(note => tabData[note.startSlot].notes.push(note));
+
+  return {
+    tabData,
+    customMeasureLines: barSlots
+      .filter(barSlot => barSlot < length)
+      .map((barSlot, index) => ({ slot: barSlot, measureNumber: index + 2 })),
+    warnings
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { findBeamGroups, getBeamGroupTicks, isCompoundMeter, type BeamableItem } from './Beaming';
+import type { Duration } from '../types/notestack';
+import { DURATION_TO_TICKS } from '../types/notestack';
+
+// Back-to-back notes starting at 0
+const run = (durations: Duration[]): BeamableItem[] => {
+  let position = 0;
+  return durations.map(duration => {
+    const item = { position, ticks: DURATION_TO_TICKS[duration], duration };
+    position += item.ticks;
+    return item;
+  });
+};
+
+const COMMON_TIME = { numerator: 4, denominator: 4 };
+const SIX_EIGHT = { numerator: 6, denominator: 8 };
+
+describe('Beaming', () => {
+  describe('meters', () => {
+    it('should tell compound meters from simple ones', () => {
+      expect(isCompoundMeter(SIX_EIGHT)).toBe(true);
+      expect(isCompoundMeter({ numerator: 12, denominator: 8 })).toBe(true);
+      expect(isCompoundMeter({ numerator: 3, denominator: 4 })).toBe(false);
+      expect(isCompoundMeter({ numerator: 3, denominator: 8 })).toBe(false);
+    });
+
+    it('should beam by the beat', () => {
+      expect(getBeamGroupTicks(COMMON_TIME)).toBe(960);
+      expect(getBeamGroupTicks({ numerator: 2, denominator: 2 })).toBe(1920);
+      expect(getBeamGroupTicks(SIX_EIGHT)).toBe(1440);
+      expect(getBeamGroupTicks({ numerator: 3, denominator: 8 })).toBe(1440);
+    });
+  });
+
+  describe('findBeamGroups', () => {
+    it('should beam eighths in pairs in 4/4 and in threes in 6/8', () => {
+      const eighths = run(Array(6).fill('eighth'));
+
+      expect(findBeamGroups(eighths, COMMON_TIME)).toEqual([[0, 1], [2, 3], [4, 5]]);
+      expect(findBeamGroups(eighths, SIX_EIGHT)).toEqual([[0, 1, 2], [3, 4, 5]]);
+    });
+
+    it('should mix eighths and sixteenths within a beat', () => {
+      const items = run(['eighth', 'sixteenth', 'sixteenth', 'quarter', 'sixteenth', 'eighth']);
+
+      expect(findBeamGroups(items, COMMON_TIME)).toEqual([[0, 1, 2], [4, 5]]);
+    });
+
+    it('should stop at rests and gaps', () => {
+      const items = run(['eighth', 'eighth', 'eighth', 'eighth']);
+      items[1] = { ...items[1], isRest: true };
+      items[3] = { ...items[3], position: items[3].position + 240 };
+
+      expect(findBeamGroups(items, SIX_EIGHT)).toEqual([]);
+    });
+
+    it('should apply manual breaks and joins', () => {
+      const items = run(['eighth', 'eighth', 'eighth', 'eighth']);
+      items[1] = { ...items[1], beam: 'break' };
+      items[2] = { ...items[2], beam: 'join' };
+
+      expect(findBeamGroups(items, COMMON_TIME)).toEqual([[1, 2, 3]]);
+    });
+
+    it('should not join across a barline', () => {
+      const items = run(Array(8).fill('sixteenth')).map(item => ({ ...item, position: item.position + 3360 }));
+      items[2] = { ...items[2], beam: 'join' };
+
+      expect(findBeamGroups(items, COMMON_TIME)).toEqual([[0, 1], [2, 3, 4, 5], [6, 7]]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+// Beaming
+// Groups eighths and sixteenths under beams following the beat structure of the time signature
+// Simple meters beam by the beat (quarter in 4/4, half in 2/2); compound meters by the dotted beat (6/8, 12/8)
+
+import type { BeamOverride, Duration, Tuplet } from '../types/notestack';
+import { TICKS_PER_MEASURE_4_4 } from '../types/notestack';
+import { getTicksPerMeasure } from './PlaybackOrder';
+
+export type TimeSignature = { numerator: number; denominator: number };
+
+// Anything that can sit under a beam: a note stack, or a piece of one on the notation staff
+export type BeamableItem = {
+  position: number;                // Ticks
+  ticks: number;                   // Sounding length
+  duration: Duration;
+  tuplet?: Tuplet;
+  beam?: BeamOverride;
+  isRest?: boolean;
+};
+
+const BEAMABLE_DURATIONS: Duration[] = ['eighth', 'sixteenth'];
+
+/**
+ * Compound meters have three beat units per beat: 6/8, 9/8, 12/8
+ */
+export const isCompoundMeter = (timeSignature: TimeSignature): boolean =>
+  timeSignature.denominator >= 8 && timeSignature.numerator > 3 && timeSignature.numerator % 3 === 0;
+
+/**
+ * Length in ticks of one beam group - the beat of the time signature
+ * Eighth-note meters in threes (3/8 as well as the compound ones) beam three at a time
+ */
+export const getBeamGroupTicks = (timeSignature: TimeSignature): number => {
+  const unit = TICKS_PER_MEASURE_4_4 / timeSignature.denominator;
+  return timeSignature.denominator >= 8 && timeSignature.numerator % 3 === 0 ? unit * 3 : unit;
+};
+
+/**
+ * Split items into beam groups (indices into `items`, which must be in time order)
+ * Consecutive beamable notes in the same beat share a beam; a rest, a gap, a longer note or a
+ * change of tuplet ends it, as does the barline. A 'break' override starts a new beam, a 'join'
+ * continues the previous one across the beat. Groups of a single note are left out - they keep their flags.
+ */
+export const findBeamGroups = (items: BeamableItem[], timeSignature: TimeSignature): number[][] => {
+  const measureTicks = getTicksPerMeasure(timeSignature);
+  const groupTicks = getBeamGroupTicks(timeSignature);
+  const measureOf = (position: number) => Math.floor(position / measureTicks);
+  const beatOf = (position: number) => Math.floor((position % measureTicks) / groupTicks);
+
+  const groups: number[][] = [];
+  let current: number[] = [];
+
+  const close = () => {
+    if (current.length > 1) groups.push(current);
+    current = [];
+  };
+
+  items.forEach((item, index) => {
+    if (item.isRest || !BEAMABLE_DURATIONS.includes(item.duration)) {
+      close();
+      return;
+    }
+
+    const previous = current.length > 0 ? items[current[current.length - 1]] : null;
+    if (previous) {
+      const contiguous = previous.position + previous.ticks === item.position;
+      const sameTuplet = previous.tuplet?.actual === item.tuplet?.actual
+        && previous.tuplet?.normal === item.tuplet?.normal;
+      const sameMeasure = measureOf(previous.position) === measureOf(item.position);
+      const sameBeat = sameMeasure && beatOf(previous.position) === beatOf(item.position);
+
+      if (item.beam === 'break' || !contiguous || !sameTuplet || !sameMeasure || (!sameBeat && item.beam !== 'join')) {
+        close();
+      }
+    }
+    current.push(index);
+  });
+  close();
+
+  return groups;
+};
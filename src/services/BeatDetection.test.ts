@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { estimateTapTempo, getOnsetEnvelope, estimateBeats, analyzeMediaBeats, MAX_ANALYSIS_BYTES } from './BeatDetection';
+
+const SAMPLE_RATE = 11025;
+
+// Short decaying 1kHz blips at a steady tempo after a silent intro
+const clickTrack = (bpm: number, firstBeat: number, seconds: number): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let time = firstBeat; time < seconds; time += 60 / bpm) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < 400 && start + i < samples.length; i++) {
+      samples[start + i] = Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE) * Math.exp(-i / 80);
+    }
+  }
+  return samples;
+};
+
+describe('BeatDetection', () => {
+  it('should average the tapped intervals', () => {
+    expect(estimateTapTempo([1, 1.5])).toBeNull();
+    expect(estimateTapTempo([1, 1.5, 2, 2.5])).toBe(120);
+    expect(estimateTapTempo([0, 0.6, 1.2, 1.9, 2.5])).toBe(96);
+  });
+
+  it('should find the tempo and first beat of a click track', () => {
+    const estimate = estimateBeats(getOnsetEnvelope(clickTrack(120, 1.3, 12)), SAMPLE_RATE / 128);
+
+    expect(estimate).not.toBeNull();
+    expect(estimate!.bpm).toBeCloseTo(120, 0);
+    expect(Math.abs(estimate!.firstBeat - 1.3)).toBeLessThan(0.03);
+  });
+
+  it('should prefer the beat over half time for slower pulses', () => {
+    const estimate = estimateBeats(getOnsetEnvelope(clickTrack(90, 0.2, 12)), SAMPLE_RATE / 128);
+    expect(Math.abs(estimate!.bpm - 90)).toBeLessThan(1);
+  });
+
+  it('should give up on silence', () => {
+    expect(estimateBeats(getOnsetEnvelope(new Float32Array(SAMPLE_RATE * 5)), SAMPLE_RATE / 128)).toBeNull();
+  });
+
+  it('should refuse to read a whole file over the size limit', async () => {
+    // Only the size and an undecodable prefix are looked at, so nothing that large is allocated
+    const oversized = { size: MAX_ANALYSIS_BYTES * 2, slice: () => new Blob(['not audio']) } as unknown as Blob;
+
+    await expect(analyzeMediaBeats(oversized)).rejects.toThrow(RangeError);
+    await expect(analyzeMediaBeats(oversized)).rejects.toThrow(/too large to analyse \(512 MB, limit 256 MB\)/);
+  });
+});
@@ -0,0 +1,176 @@
+// Beat Detection
+// Estimates the tempo a video was recorded at, from tapped beats or from its audio track
+// The audio path decodes offline, builds an onset envelope and picks the strongest beat period by autocorrelation
+
+export interface BeatEstimate {
+  bpm: number;
+  firstBeat: number; // Seconds of the first beat in the media
+}
+
+// Analysis runs on a mono downmix at a low rate - plenty for onsets and quick to render
+const ANALYSIS_SAMPLE_RATE = 11025;
+const HOP_SIZE = 128; // ~11.6ms frames
+
+// Only the opening of the media is analysed - plenty of beats for a steady estimate
+const ANALYSIS_SECONDS = 90;
+// Leading bytes tried first: stream-friendly formats (mp3, webm, ogg) decode from a prefix
+const ANALYSIS_PREFIX_BYTES = 16 * 1024 * 1024;
+// Formats that need the whole file (mp4 with its index at the end) are only read up to this size
+export const MAX_ANALYSIS_BYTES = 256 * 1024 * 1024;
+
+// Taps further apart than this start a new count
+export const TAP_RESET_SECONDS = 2;
+
+// Only the most recent taps count, so the estimate follows a drifting player
+const MAX_TAP_INTERVALS = 8;
+
+/**
+ * BPM from tap times in seconds, averaging the most recent intervals
+ * Returns null until there are at least two intervals to average
+ */
+export const estimateTapTempo = (tapTimes: number[]): number | null => {
+  if (tapTimes.length < 3) return null;
+
+  const recent = tapTimes.slice(-(MAX_TAP_INTERVALS + 1));
+  const averageInterval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1);
+  if (averageInterval <= 0) return null;
+
+  return Math.round((60 / averageInterval) * 10) / 10;
+};
+
+/**
+ * Onset strength per frame: the rise in log energy from the previous frame
+ */
+export const getOnsetEnvelope = (samples: Float32Array, hopSize: number = HOP_SIZE): Float32Array => {
+  const frameCount = Math.floor(samples.length / hopSize);
+  const envelope = new Float32Array(frameCount);
+  let previous = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0;
+    for (let i = frame * hopSize; i < (frame + 1) * hopSize; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const logEnergy = Math.log(energy / hopSize + 1e-10);
+    envelope[frame] = frame > 0 ? Math.max(0, logEnergy - previous) : 0;
+    previous = logEnergy;
+  }
+
+  return envelope;
+};
+
+// Prefer tempos near 120 BPM when a period and its double score alike (octave errors)
+const tempoWeight = (bpm: number): number => Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+
+/**
+ * Beat period and phase of an onset envelope
+ * Returns null when the envelope is too short or has no onsets
+ */
+export const estimateBeats = (
+  envelope: Float32Array,
+  frameRate: number,
+  minBpm: number = 60,
+  maxBpm: number = 200
+): BeatEstimate | null => {
+  const minLag = Math.floor((60 * frameRate) / maxBpm);
+  const maxLag = Math.ceil((60 * frameRate) / minBpm);
+  if (envelope.length < maxLag * 2) return null;
+
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / envelope.length;
+  const centred = envelope.map(value => value - mean);
+  const variance = centred.reduce((sum, value) => sum + value * value, 0) / centred.length;
+  if (variance === 0) return null;
+
+  // Autocorrelation per lag, normalised by overlap length
+  const correlation = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < centred.length; i++) sum += centred[i] * centred[i + lag];
+    correlation[lag] = sum / (centred.length - lag);
+  }
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const score = correlation[lag] * tempoWeight((60 * frameRate) / lag);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation between neighbouring lags for a fractional period
+  const [before, peak, after] = [correlation[bestLag - 1], correlation[bestLag], correlation[bestLag + 1]];
+  const curvature = before - 2 * peak + after;
+  const period = bestLag + (curvature < 0 ? (0.5 * (before - after)) / curvature : 0);
+
+  // Phase: the offset whose beat grid collects the most onset strength
+  let bestPhase = 0;
+  let bestPhaseScore = -Infinity;
+  for (let phase = 0; phase < bestLag; phase++) {
+    let score = 0;
+    for (let position = phase; position < envelope.length; position += period) {
+      score += envelope[Math.round(position)] ?? 0;
+    }
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  // The first beat is the grid line nearest the first clear onset, skipping any quiet intro
+  const threshold = mean + 2 * Math.sqrt(variance);
+  const firstOnset = envelope.findIndex(value => value > threshold);
+  const beatIndex = Math.max(0, Math.round((Math.max(0, firstOnset) - bestPhase) / period));
+  const firstBeatFrame = bestPhase + beatIndex * period;
+
+  return {
+    bpm: Math.round(((60 * frameRate) / period) * 10) / 10,
+    firstBeat: Math.round((firstBeatFrame / frameRate) * 1000) / 1000
+  };
+};
+
+const decodeAudio = async (media: Blob): Promise<AudioBuffer> =>
+  new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE).decodeAudioData(await media.arrayBuffer());
+
+/**
+ * Decode the audio of a media file without reading more of it than needed
+ * A prefix is tried first; the whole file is only read when it is within MAX_ANALYSIS_BYTES, otherwise a RangeError says why
+ */
+const decodeMediaOpening = async (media: Blob): Promise<AudioBuffer> => {
+  if (media.size > ANALYSIS_PREFIX_BYTES) {
+    try {
+      return await decodeAudio(media.slice(0, ANALYSIS_PREFIX_BYTES));
+    } catch {
+      // This container can't be decoded from its start alone
+    }
+  }
+
+  if (media.size > MAX_ANALYSIS_BYTES) {
+    const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+    throw new RangeError(
+      `File is too large to analyse (${megabytes(media.size)} MB, limit ${megabytes(MAX_ANALYSIS_BYTES)} MB) - tap the tempo instead`
+    );
+  }
+  return decodeAudio(media);
+};
+
+/**
+ * Decode the opening of a media file's audio offline and estimate its tempo and first beat
+ */
+export const analyzeMediaBeats = async (source: string | Blob): Promise<BeatEstimate | null> => {
+  // Object URLs resolve to their blob without copying the contents
+  const media = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const decoded = await decodeMediaOpening(media);
+
+  // Render through an offline graph to get a mono downmix at the analysis rate
+  const seconds = Math.min(decoded.duration, ANALYSIS_SECONDS);
+  const context = new OfflineAudioContext(1, Math.ceil(seconds * ANALYSIS_SAMPLE_RATE), ANALYSIS_SAMPLE_RATE);
+  const bufferSource = context.createBufferSource();
+  bufferSource.buffer = decoded;
+  bufferSource.connect(context.destination);
+  bufferSource.start();
+  const rendered = await context.startRendering();
+
+  return estimateBeats(getOnsetEnvelope(rendered.getChannelData(0)), ANALYSIS_SAMPLE_RATE / HOP_SIZE);
+};
@@ -1,11 +1,21 @@
-import type { TabData, NoteDuration, NoteType, CursorPosition, CustomMeasureLine } from '../types';
+import type { TabData, NoteDuration, NoteType, CursorPosition, CustomMeasureLine, StructureMarker, LyricSyllable, ChordSymbol, SectionMarker } from '../types';
 import type { VideoConfig } from '../components/sync/SyncEngine';
+import type { SyncPoint } from './VideoSyncMap';
+import type { InstrumentProfile } from '../types/notestack';
+import { TECHNIQUE_SYMBOLS, DEFAULT_INSTRUMENT } from '../types/notestack';
+import { exportMusicXML, importMusicXML } from './MusicXML';
+import { notesToMidiNotes, writeMidiFile } from '../audio/midiExport';
+import { parseMidiFile, midiToTabData } from '../audio/midiImport';
+import { exportAsciiTab, importAsciiTab, type AsciiTabExportOptions, type AsciiTabImportOptions } from './AsciiTab';
+import { engraveScore, renderPageSvg, type EngravingOptions } from './ScoreEngraver';
+import { renderPdf } from './PdfWriter';
 
 // Project data structure for serialization
 export interface StrumstickProjectData {
   version: string;
   metadata: ProjectMetadata;
   tab: TabSerializedData;
+  instrument?: InstrumentProfile; // Strings, tuning and fretboard the tab is written for (DAd strumstick when absent)
   playback: PlaybackSettings;
   video?: VideoSyncData;
   ui?: UIPreferences;
@@ -29,11 +39,15 @@ export interface TabSerializedData {
   totalTimeSlots: number;
   data: TabData; // Raw tab data
   customMeasureLines?: CustomMeasureLine[]; // Custom measure lines for pickup measures
+  structure?: StructureMarker[]; // Repeats, endings, D.C./D.S. markers and beam overrides
+  lyrics?: LyricSyllable[]; // Lyric syllables of every verse, anchored to time slots
+  chords?: ChordSymbol[]; // Chord names above the tab, anchored to time slots
+  sections?: SectionMarker[]; // Rehearsal marks, section labels and text annotations
 }
 
 export interface PlaybackSettings {
   loopEnabled: boolean;
-  loopStart?: number;
+  loopStart?: number; // A/B loop in time slots, end exclusive; absent when the whole tab loops
   loopEnd?: number;
   metronomeEnabled: boolean;
   countInEnabled: boolean;
@@ -42,9 +56,13 @@ export interface PlaybackSettings {
 }
 
 export interface VideoSyncData {
-  source: string;
+  source: string; // File name or URL
+  libraryId?: string; // Content hash of the video in the browser's local video library
   recordedBPM: number;
   enabled: boolean;
+  syncMap?: SyncPoint[]; // Tapped anchors: performed slot <-> video seconds
+  startOffset?: number; // Video seconds of the first beat
+  endTime?: number; // Video seconds where the lesson ends
 }
 
 export interface UIPreferences {
@@ -66,10 +84,18 @@ export interface AppState {
   selectedDuration: NoteDuration;
   selectedNoteType: NoteType;
   customMeasureLines: CustomMeasureLine[];
+  structure?: StructureMarker[];
+  lyrics?: LyricSyllable[];
+  chords?: ChordSymbol[];
+  sections?: SectionMarker[];
+  instrument?: InstrumentProfile;
   zoom: number;
   showFretboard: boolean;
   countInEnabled: boolean;
+  metronomeEnabled?: boolean;
   isLooping: boolean;
+  loopStart?: number; // Time slots
+  loopEnd?: number;
   splitRatio: number;
   videoSource: string;
   videoConfig?: VideoConfig;
@@ -89,6 +115,7 @@ export interface SaveResult {
   success: boolean;
   error?: string;
   filename?: string;
+  warnings?: string[]; // Content that could not be represented in the target format
 }
 
 // Load result interface
@@ -96,6 +123,14 @@ export interface LoadResult {
   success: boolean;
   data?: StrumstickProjectData;
   error?: string;
+  warnings?: string[]; // Content dropped while importing a foreign format
+}
+
+// Save dialog file type
+interface SaveFileType {
+  description: string;
+  mimeType: string;
+  extension: string;
 }
 
 // Recent file interface
@@ -108,11 +143,18 @@ export interface RecentFile {
 }
 
 export class FileManager {
-  private static readonly CURRENT_VERSION = '1.0.0';
+  private static readonly CURRENT_VERSION = '1.2.0';
   private static readonly FILE_EXTENSION = '.stab';
   private static readonly MIME_TYPE = 'application/json';
   private static readonly LOCAL_STORAGE_KEY = 'strumstick-recent-files';
   private static readonly MAX_RECENT_FILES = 10;
+  private static readonly MUSICXML_EXTENSIONS = ['.musicxml', '.xml'];
+  private static readonly MUSICXML_MIME_TYPE = 'application/vnd.recordare.musicxml+xml';
+  private static readonly MIDI_EXTENSION = '.mid';
+  private static readonly MIDI_IMPORT_EXTENSIONS = ['.mid', '.midi'];
+  private static readonly PDF_MIME_TYPE = 'application/pdf';
+  private static readonly SVG_MIME_TYPE = 'image/svg+xml';
+  private static readonly MIDI_MIME_TYPE = 'audio/midi';
 
   // Core save operation
   async saveProject(
@@ -229,6 +271,296 @@ export class FileManager {
     }
   }
 
+  // Export the current state as MusicXML tablature
+  async exportMusicXML(
+    appState: AppState,
+    filename?: string,
+    metadata?: Partial<ProjectMetadata>
+  ): Promise<SaveResult> {
+    try {
+      console.log('🎼 Starting MusicXML export...');
+
+      const projectData = this.serializeState(appState, metadata);
+      const { xml, warnings } = exportMusicXML(projectData);
+      if (warnings.length > 0) {
+        console.warn('⚠️ MusicXML export warnings:', warnings);
+      }
+
+      const blob = new Blob([xml], { type: FileManager.MUSICXML_MIME_TYPE });
+      const finalFilename = filename ||
+        this.generateFilename(projectData.metadata.title).slice(0, -FileManager.FILE_EXTENSION.length) +
+        FileManager.MUSICXML_EXTENSIONS[0];
+
+      const success = await this.saveFile(blob, finalFilename, {
+        description: 'MusicXML Files',
+        mimeType: FileManager.MUSICXML_MIME_TYPE,
+        extension: FileManager.MUSICXML_EXTENSIONS[0]
+      });
+
+      if (success) {
+        console.log('✅ MusicXML export completed successfully');
+        return { success: true, filename: finalFilename, warnings };
+      } else {
+        return { success: false, error: 'Failed to save file' };
+      }
+    } catch (error) {
+      console.error('❌ MusicXML export failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Import MusicXML tablature as a new project for the given instrument
+  async importMusicXML(file: File, instrument: InstrumentProfile = DEFAULT_INSTRUMENT): Promise<LoadResult> {
+    try {
+      console.log('🎼 Starting MusicXML import...');
+
+      const lowerName = file.name.toLowerCase();
+      if (!FileManager.MUSICXML_EXTENSIONS.some(extension => lowerName.endsWith(extension))) {
+        return {
+          success: false,
+          error: `Invalid file type. Expected ${FileManager.MUSICXML_EXTENSIONS.join(' or ')} file.`
+        };
+      }
+
+      const content = await this.readFileContent(file);
+      const imported = importMusicXML(content, instrument);
+      if (imported.dropped.length > 0) {
+        console.warn('⚠️ MusicXML import dropped content:', imported.dropped);
+      }
+
+      const data = this.createImportedProject(imported.title || file.name.replace(/\.[^.]+$/, ''), imported, instrument);
+
+      const validation = this.validateProjectData(data);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Invalid MusicXML file: ${validation.errors.join(', ')}`
+        };
+      }
+
+      console.log('✅ MusicXML import completed successfully');
+      return { success: true, data, warnings: imported.dropped };
+    } catch (error) {
+      console.error('❌ MusicXML import failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Export the current state as a type-1 Standard MIDI File
+  async exportMidi(
+    appState: AppState,
+    filename?: string,
+    metadata?: Partial<ProjectMetadata>
+  ): Promise<SaveResult> {
+    try {
+      console.log('🎹 Starting MIDI export...');
+
+      const projectData = this.serializeState(appState, metadata);
+      const notes = projectData.tab.data.flatMap((cell, timeSlot) =>
+        cell.notes.filter(note => note.startSlot === timeSlot)
+      );
+      const instrument = projectData.instrument ?? DEFAULT_INSTRUMENT;
+      const bytes = writeMidiFile(notesToMidiNotes(notes, undefined, undefined, instrument), {
+        bpm: projectData.tab.bpm,
+        timeSignature: projectData.tab.timeSignature,
+        title: projectData.metadata.title,
+        instrument
+      });
+
+      const blob = new Blob([bytes], { type: FileManager.MIDI_MIME_TYPE });
+      const finalFilename = filename ||
+        this.generateFilename(projectData.metadata.title).slice(0, -FileManager.FILE_EXTENSION.length) +
+        FileManager.MIDI_EXTENSION;
+
+      const success = await this.saveFile(blob, finalFilename, {
+        description: 'MIDI Files',
+        mimeType: FileManager.MIDI_MIME_TYPE,
+        extension: FileManager.MIDI_EXTENSION
+      });
+
+      if (success) {
+        console.log('✅ MIDI export completed successfully');
+        return { success: true, filename: finalFilename };
+      } else {
+        return { success: false, error: 'Failed to save file' };
+      }
+    } catch (error) {
+      console.error('❌ MIDI export failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Export a printable, paginated score as PDF
+  async exportScorePdf(
+    appState: AppState,
+    metadata?: Partial<ProjectMetadata>,
+    options?: EngravingOptions
+  ): Promise<SaveResult> {
+    try {
+      console.log('🖨️ Starting PDF export...');
+
+      const projectData = this.serializeState(appState, metadata);
+      const pages = engraveScore(projectData, options);
+      const blob = new Blob([renderPdf(pages, projectData.metadata.title)], { type: FileManager.PDF_MIME_TYPE });
+      const filename = this.generateFilename(projectData.metadata.title).slice(0, -FileManager.FILE_EXTENSION.length) + '.pdf';
+
+      const success = await this.saveFile(blob, filename, {
+        description: 'PDF Documents',
+        mimeType: FileManager.PDF_MIME_TYPE,
+        extension: '.pdf'
+      });
+
+      if (success) {
+        console.log(`✅ PDF export completed successfully (${pages.length} page(s))`);
+        return { success: true, filename };
+      } else {
+        return { success: false, error: 'Failed to save file' };
+      }
+    } catch (error) {
+      console.error('❌ PDF export failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Export a printable, paginated score as one standalone SVG file per page
+  async exportScoreSvg(
+    appState: AppState,
+    metadata?: Partial<ProjectMetadata>,
+    options?: EngravingOptions
+  ): Promise<SaveResult> {
+    try {
+      console.log('🖨️ Starting SVG export...');
+
+      const projectData = this.serializeState(appState, metadata);
+      const pages = engraveScore(projectData, options);
+      const baseName = this.generateFilename(projectData.metadata.title).slice(0, -FileManager.FILE_EXTENSION.length);
+
+      for (let index = 0; index < pages.length; index++) {
+        const blob = new Blob([renderPageSvg(pages[index])], { type: FileManager.SVG_MIME_TYPE });
+        const success = await this.saveFile(blob, `${baseName}-page-${index + 1}.svg`, {
+          description: 'SVG Images',
+          mimeType: FileManager.SVG_MIME_TYPE,
+          extension: '.svg'
+        });
+        if (!success) {
+          return { success: false, error: `Failed to save page ${index + 1}` };
+        }
+      }
+
+      console.log(`✅ SVG export completed successfully (${pages.length} page(s))`);
+      return { success: true, filename: `${baseName}-page-1.svg` };
+    } catch (error) {
+      console.error('❌ SVG export failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Import a Standard MIDI File as a new project, mapping pitches onto the instrument's frets
+  async importMidi(file: File, instrument: InstrumentProfile = DEFAULT_INSTRUMENT): Promise<LoadResult> {
+    try {
+      console.log('🎹 Starting MIDI import...');
+
+      const lowerName = file.name.toLowerCase();
+      if (!FileManager.MIDI_IMPORT_EXTENSIONS.some(extension => lowerName.endsWith(extension))) {
+        return {
+          success: false,
+          error: `Invalid file type. Expected ${FileManager.MIDI_IMPORT_EXTENSIONS.join(' or ')} file.`
+        };
+      }
+
+      const bytes = new Uint8Array(await this.readFileBuffer(file));
+      const imported = midiToTabData(parseMidiFile(bytes), instrument);
+      const warnings = [
+        ...imported.warnings,
+        ...imported.unplayable.map(note =>
+          `Slot ${note.slot}: ${note.noteName} can't be played (${note.reason.replace(/-/g, ' ')})`
+        )
+      ];
+      if (warnings.length > 0) {
+        console.warn('⚠️ MIDI import warnings:', warnings);
+      }
+
+      const data = this.createImportedProject(file.name.replace(/\.[^.]+$/, ''), imported, instrument);
+
+      const validation = this.validateProjectData(data);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Invalid MIDI file: ${validation.errors.join(', ')}`
+        };
+      }
+
+      console.log('✅ MIDI import completed successfully');
+      return { success: true, data, warnings };
+    } catch (error) {
+      console.error('❌ MIDI import failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Import pasted ASCII tab as a new project
+  importAsciiTab(text: string, options?: AsciiTabImportOptions, title: string = 'Pasted Tab'): LoadResult {
+    try {
+      console.log('📋 Starting ASCII tab import...');
+
+      const imported = importAsciiTab(text, options);
+      if (imported.warnings.length > 0) {
+        console.warn('⚠️ ASCII tab import warnings:', imported.warnings);
+      }
+
+      const data = this.createImportedProject(title, {
+        ...imported,
+        bpm: 120,
+        timeSignature: { numerator: 4, denominator: 4 }
+      }, options?.instrument);
+
+      const validation = this.validateProjectData(data);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Invalid ASCII tab: ${validation.errors.join(', ')}`
+        };
+      }
+
+      console.log('✅ ASCII tab import completed successfully');
+      return { success: true, data, warnings: imported.warnings };
+    } catch (error) {
+      console.error('❌ ASCII tab import failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Render the current tab as plain-text ASCII tab
+  exportAsciiTab(appState: AppState, options?: AsciiTabExportOptions): string {
+    return exportAsciiTab(appState.tabData, appState.customMeasureLines, {
+      instrument: appState.instrument,
+      chords: appState.chords,
+      lyrics: appState.lyrics,
+      ...options
+    });
+  }
+
   // Serialize current application state to project data
   serializeState(appState: AppState, additionalMetadata?: Partial<ProjectMetadata>): StrumstickProjectData {
     const now = new Date().toISOString();
@@ -236,6 +568,10 @@ export class FileManager {
     
     // Calculate duration
     const duration = this.calculateDuration(appState.tabData, appState.tempo);
+    
+    // Only an A/B region is saved; without one looping covers the whole tab
+    const { loopStart = 0, loopEnd = 0 } = appState;
+    const hasLoopRegion = loopEnd > loopStart;
 
     return {
       version: FileManager.CURRENT_VERSION,
@@ -255,21 +591,30 @@ export class FileManager {
         bpm: appState.tempo,
         totalTimeSlots: appState.tabData.length,
         data: appState.tabData,
-        customMeasureLines: appState.customMeasureLines
+        customMeasureLines: appState.customMeasureLines,
+        structure: appState.structure && appState.structure.length > 0 ? appState.structure : undefined,
+        lyrics: appState.lyrics && appState.lyrics.length > 0 ? appState.lyrics : undefined,
+        chords: appState.chords && appState.chords.length > 0 ? appState.chords : undefined,
+        sections: appState.sections && appState.sections.length > 0 ? appState.sections : undefined
       },
+      instrument: appState.instrument ?? DEFAULT_INSTRUMENT,
       playback: {
         loopEnabled: appState.isLooping,
-        loopStart: undefined, // TODO: Implement loop regions
-        loopEnd: undefined,
-        metronomeEnabled: true, // TODO: Make this configurable
+        loopStart: hasLoopRegion ? loopStart : undefined,
+        loopEnd: hasLoopRegion ? loopEnd : undefined,
+        metronomeEnabled: appState.metronomeEnabled ?? false,
         countInEnabled: appState.countInEnabled,
         synthVolume: 0.7, // TODO: Make this configurable
         isMuted: appState.isSynthMuted
       },
       video: appState.videoConfig ? {
         source: appState.videoSource,
+        libraryId: appState.videoConfig.libraryId,
         recordedBPM: appState.videoConfig.recordedBPM,
-        enabled: true
+        enabled: true,
+        syncMap: appState.videoConfig.syncMap && appState.videoConfig.syncMap.length > 0 ? appState.videoConfig.syncMap : undefined,
+        startOffset: appState.videoConfig.startOffset || undefined,
+        endTime: appState.videoConfig.endTime
       } : undefined,
       ui: {
         splitRatio: appState.splitRatio,
@@ -294,15 +639,27 @@ export class FileManager {
       selectedDuration: projectData.ui?.selectedDuration || 'quarter',
       selectedNoteType: projectData.ui?.selectedNoteType || 'note',
       customMeasureLines: projectData.tab.customMeasureLines || [],
+      structure: projectData.tab.structure || [],
+      lyrics: projectData.tab.lyrics || [],
+      chords: projectData.tab.chords || [],
+      sections: projectData.tab.sections || [],
+      instrument: projectData.instrument ?? DEFAULT_INSTRUMENT,
       zoom: projectData.ui?.zoom || 1.0,
       showFretboard: projectData.ui?.fretboardVisible ?? true,
       countInEnabled: projectData.playback.countInEnabled,
+      metronomeEnabled: projectData.playback.metronomeEnabled,
       isLooping: projectData.playback.loopEnabled,
+      loopStart: projectData.playback.loopStart,
+      loopEnd: projectData.playback.loopEnd,
       splitRatio: projectData.ui?.splitRatio || 0.5,
       videoSource: projectData.video?.source || '',
       videoConfig: projectData.video ? {
         source: projectData.video.source,
-        recordedBPM: projectData.video.recordedBPM
+        libraryId: projectData.video.libraryId,
+        recordedBPM: projectData.video.recordedBPM,
+        syncMap: projectData.video.syncMap || [],
+        startOffset: projectData.video.startOffset,
+        endTime: projectData.video.endTime
       } : undefined,
       isSynthMuted: projectData.playback.isMuted,
       isVideoMuted: false // Default value, not stored in project
@@ -347,11 +704,48 @@ export class FileManager {
       if (!Array.isArray(data.tab.data)) {
         errors.push('Invalid tab data format');
       }
+      if (data.tab.structure !== undefined && !Array.isArray(data.tab.structure)) {
+        errors.push('Invalid repeat structure format');
+      }
+      if (data.tab.lyrics !== undefined && !Array.isArray(data.tab.lyrics)) {
+        errors.push('Invalid lyrics format');
+      }
+      if (data.tab.chords !== undefined && !Array.isArray(data.tab.chords)) {
+        errors.push('Invalid chord symbols format');
+      }
+      if (data.tab.sections !== undefined && !Array.isArray(data.tab.sections)) {
+        errors.push('Invalid sections format');
+      }
+    }
+
+    // Check instrument profile
+    if (data.instrument !== undefined) {
+      const instrument = data.instrument;
+      const stringCount = instrument?.stringCount;
+      if (
+        !instrument || typeof instrument !== 'object' ||
+        !Number.isInteger(stringCount) || stringCount < 1 ||
+        !Array.isArray(instrument.openPitches) || instrument.openPitches.length !== stringCount ||
+        !Array.isArray(instrument.stringNames) || instrument.stringNames.length !== stringCount ||
+        !instrument.fretMap || !Array.isArray(instrument.fretMap.octave) ||
+        typeof instrument.maxFret !== 'number'
+      ) {
+        errors.push('Invalid instrument profile');
+      } else if (Array.isArray(data.tab?.data) && (data.tab.data as TabData).some(cell =>
+        cell?.notes?.some(note => note.stringIndex >= stringCount)
+      )) {
+        warnings.push(`Some notes are on strings the ${instrument.name} does not have`);
+      }
     }
 
     // Check playback settings
     if (!data.playback || typeof data.playback !== 'object') {
       errors.push('Missing playback section');
+    } else if (
+      (data.playback.loopStart !== undefined && typeof data.playback.loopStart !== 'number') ||
+      (data.playback.loopEnd !== undefined && typeof data.playback.loopEnd !== 'number')
+    ) {
+      errors.push('Invalid loop points');
     }
 
     // Warnings for optional sections
@@ -360,6 +754,13 @@ export class FileManager {
     }
     if (!data.video) {
       warnings.push('No video sync data found');
+    } else if (data.video.syncMap !== undefined && !Array.isArray(data.video.syncMap)) {
+      errors.push('Invalid video sync map');
+    } else if (
+      (data.video.startOffset !== undefined && typeof data.video.startOffset !== 'number') ||
+      (data.video.endTime !== undefined && typeof data.video.endTime !== 'number')
+    ) {
+      errors.push('Invalid video trim');
     }
 
     return {
@@ -370,21 +771,94 @@ export class FileManager {
   }
 
   // Handle version migration
+  // Each step upgrades one version to the next, so old files pass through every step in turn
   migrateVersion(data: StrumstickProjectData): StrumstickProjectData {
-    // Currently only version 1.0.0 exists, but this is where we'd handle upgrades
     if (data.version === FileManager.CURRENT_VERSION) {
       return data;
     }
 
     console.log(`🔄 Migrating from version ${data.version} to ${FileManager.CURRENT_VERSION}`);
-    
-    // For now, just update the version
+    let migrated = data;
+
+    // 1.0.0 -> 1.1.0: notes gained playing techniques. 1.0.0 never wrote them, so any
+    // value found in a note's technique field is not one of ours and is dropped
+    if (migrated.version === '1.0.0') {
+      const knownTechniques = Object.keys(TECHNIQUE_SYMBOLS);
+      migrated = {
+        ...migrated,
+        version: '1.1.0',
+        tab: {
+          ...migrated.tab,
+          data: migrated.tab.data.map(cell => ({
+            ...cell,
+            notes: cell.notes.map(note => {
+              if (note.technique === undefined || knownTechniques.includes(note.technique)) return note;
+              const { technique, ...rest } = note;
+              console.warn(`⚠️ Dropping unknown technique "${technique}" at slot ${note.startSlot}`);
+              return rest;
+            })
+          }))
+        }
+      };
+    }
+
+    // 1.1.0 -> 1.2.0: projects record their instrument profile. Earlier files were all
+    // written for the DAd strumstick
+    if (migrated.version === '1.1.0') {
+      migrated = {
+        ...migrated,
+        version: '1.2.0',
+        instrument: migrated.instrument ?? DEFAULT_INSTRUMENT
+      };
+    }
+
+    // Unknown older versions: just update the version
     return {
-      ...data,
+      ...migrated,
       version: FileManager.CURRENT_VERSION
     };
   }
 
+  // Wrap tab data produced by an importer in a fresh project
+  private createImportedProject(
+    title: string,
+    imported: {
+      tabData: TabData;
+      bpm: number;
+      timeSignature: { numerator: number; denominator: number };
+      customMeasureLines?: CustomMeasureLine[];
+    },
+    instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+  ): StrumstickProjectData {
+    const now = new Date().toISOString();
+
+    return {
+      version: FileManager.CURRENT_VERSION,
+      metadata: {
+        title,
+        tags: [],
+        createdAt: now,
+        modifiedAt: now,
+        duration: this.calculateDuration(imported.tabData, imported.bpm)
+      },
+      tab: {
+        timeSignature: imported.timeSignature,
+        bpm: imported.bpm,
+        totalTimeSlots: imported.tabData.length,
+        data: imported.tabData,
+        customMeasureLines: imported.customMeasureLines || []
+      },
+      instrument,
+      playback: {
+        loopEnabled: false,
+        metronomeEnabled: false,
+        countInEnabled: false,
+        synthVolume: 0.7,
+        isMuted: false
+      }
+    };
+  }
+
   // Calculate project duration in seconds
   private calculateDuration(tabData: TabData, bpm: number): number {
     if (tabData.length === 0) return 0;
@@ -418,16 +892,34 @@ export class FileManager {
     });
   }
 
+  // Read file content as binary
+  private async readFileBuffer(file: File): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
   // Save file using File System Access API or download fallback
-  private async saveFile(blob: Blob, filename: string): Promise<boolean> {
+  private async saveFile(
+    blob: Blob,
+    filename: string,
+    fileType: SaveFileType = {
+      description: 'Strumstick Tab Files',
+      mimeType: FileManager.MIME_TYPE,
+      extension: FileManager.FILE_EXTENSION
+    }
+  ): Promise<boolean> {
     try {
       // Try File System Access API (Chrome)
       if ('showSaveFilePicker' in window) {
         const fileHandle = await (window as any).showSaveFilePicker({
           suggestedName: filename,
           types: [{
-            description: 'Strumstick Tab Files',
-            accept: { [FileManager.MIME_TYPE]: [FileManager.FILE_EXTENSION] }
+            description: fileType.description,
+            accept: { [fileType.mimeType]: [fileType.extension] }
           }]
         });
         
@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeLoopRegion,
+  getSelectionLoopRegion,
+  hasLoopRegion,
+  toPerformanceLoopRegion,
+  formatLoopPoint
+} from './LoopRegion';
+import type { NoteStack } from '../types/notestack';
+
+const stack = (id: string, musicalPosition: number, duration: NoteStack['duration'] = 'quarter'): NoteStack => ({
+  id,
+  musicalPosition,
+  duration,
+  notes: [{ string: 0, fret: 0 }]
+});
+
+describe('LoopRegion', () => {
+  describe('normalizeLoopRegion', () => {
+    it('should order the points and widen them to whole slots', () => {
+      expect(normalizeLoopRegion(2000, 100)).toEqual({ start: 0, end: 2160 });
+      expect(normalizeLoopRegion(960, 1920)).toEqual({ start: 960, end: 1920 });
+    });
+
+    it('should ignore a drag that stays within one slot', () => {
+      expect(normalizeLoopRegion(250, 300)).toBeNull();
+    });
+  });
+
+  it('should loop the stacks of the selected notes', () => {
+    const tab = [stack('a', 0), stack('b', 960, 'half'), stack('c', 3840)];
+    const selection = [
+      { stackId: 'b', note: { string: 0, fret: 0 } },
+      { stackId: 'a', note: { string: 0, fret: 0 } }
+    ];
+
+    expect(getSelectionLoopRegion(tab, selection)).toEqual({ start: 0, end: 2880 });
+    expect(getSelectionLoopRegion(tab, [])).toBeNull();
+  });
+
+  it('should tell an A/B region from the whole-tab loop', () => {
+    expect(hasLoopRegion(0, 0)).toBe(false);
+    expect(hasLoopRegion(960, 3840)).toBe(true);
+  });
+
+  it('should map a written region onto its first performance', () => {
+    // Measures 1-2 repeated, then measure 3
+    const segments = [
+      { start: 0, end: 7680, performanceStart: 0 },
+      { start: 0, end: 7680, performanceStart: 7680 },
+      { start: 7680, end: 11520, performanceStart: 15360 }
+    ];
+
+    expect(toPerformanceLoopRegion(segments, { start: 3840, end: 7680 })).toEqual({ start: 3840, end: 7680 });
+    expect(toPerformanceLoopRegion(segments, { start: 7680, end: 11520 })).toEqual({ start: 15360, end: 19200 });
+    expect(toPerformanceLoopRegion([], { start: 960, end: 1920 })).toEqual({ start: 960, end: 1920 });
+  });
+
+  it('should format loop points as measure and beat', () => {
+    expect(formatLoopPoint(0, { numerator: 4, denominator: 4 })).toBe('1.1');
+    expect(formatLoopPoint(4800, { numerator: 4, denominator: 4 })).toBe('2.2');
+    expect(formatLoopPoint(2880, { numerator: 6, denominator: 8 })).toBe('2.1');
+  });
+});
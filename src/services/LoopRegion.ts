@@ -0,0 +1,64 @@
+// Loop Region
+// A/B practice loop over a written stretch of the tab, in ticks
+// The transport runs in performance order, so regions are mapped onto the first time they are played
+
+import type { Tab, NoteStack } from '../types/notestack';
+import { TICKS_PER_QUARTER, getStackTicks } from '../types/notestack';
+import type { NoteSelection } from './NoteStackSelection';
+import { writtenToPerformancePosition, type PerformanceSegment } from './PlaybackOrder';
+
+export interface LoopRegion {
+  start: number; // Written ticks
+  end: number; // Exclusive
+}
+
+// Loop points snap to sixteenth-note slots
+const TICKS_PER_SLOT = TICKS_PER_QUARTER / 4;
+
+/**
+ * Loop between two points in either order, widened to whole slots
+ * Returns null when the points fall in the same slot (a click rather than a drag)
+ */
+export const normalizeLoopRegion = (a: number, b: number): LoopRegion | null => {
+  const start = Math.floor(Math.max(0, Math.min(a, b)) / TICKS_PER_SLOT) * TICKS_PER_SLOT;
+  const end = Math.ceil(Math.max(0, a, b) / TICKS_PER_SLOT) * TICKS_PER_SLOT;
+  return end - start > TICKS_PER_SLOT ? { start, end } : null;
+};
+
+/**
+ * Region covering the stacks of the selected notes, from the first onset to the end of the last
+ */
+export const getSelectionLoopRegion = (tab: Tab, selection: NoteSelection): LoopRegion | null => {
+  const stackIds = new Set(selection.map(item => item.stackId));
+  const stacks = tab.filter((stack: NoteStack) => stackIds.has(stack.id));
+  if (stacks.length === 0) return null;
+
+  return {
+    start: Math.min(...stacks.map(stack => stack.musicalPosition)),
+    end: Math.max(...stacks.map(stack => stack.musicalPosition + getStackTicks(stack)))
+  };
+};
+
+/**
+ * Whether loop points describe an A/B region rather than the whole tab
+ */
+export const hasLoopRegion = (start: number, end: number): boolean => end > start;
+
+/**
+ * Where the transport should loop to play a written region
+ */
+export const toPerformanceLoopRegion = (segments: PerformanceSegment[], region: LoopRegion): LoopRegion => ({
+  start: writtenToPerformancePosition(segments, region.start),
+  end: writtenToPerformancePosition(segments, region.end - 1) + 1
+});
+
+/**
+ * Loop point as "measure.beat" (both counted from 1), e.g. "3.2"
+ */
+export const formatLoopPoint = (position: number, timeSignature: { numerator: number; denominator: number }): string => {
+  const beatTicks = (TICKS_PER_QUARTER * 4) / timeSignature.denominator;
+  const measureTicks = beatTicks * timeSignature.numerator;
+  const measure = Math.floor(position / measureTicks) + 1;
+  const beat = Math.floor((position % measureTicks) / beatTicks) + 1;
+  return `${measure}.${beat}`;
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  setLyricSyllable,
+  setChordSymbol,
+  getSyllableEditText,
+  getVerseCount,
+  findActiveIndex,
+  getExtenderEndSlot,
+  formatVerseText
+} from './Lyrics';
+import type { LyricSyllable } from '../types';
+
+describe('Lyrics', () => {
+  describe('setLyricSyllable', () => {
+    it('should add, replace and remove syllables per verse', () => {
+      let lyrics: LyricSyllable[] = [];
+      lyrics = setLyricSyllable(lyrics, 4, 0, 'shine');
+      lyrics = setLyricSyllable(lyrics, 0, 0, 'Sun-');
+      lyrics = setLyricSyllable(lyrics, 0, 1, 'Moon-');
+      lyrics = setLyricSyllable(lyrics, 4, 0, 'light');
+
+      expect(lyrics).toEqual([
+        { slot: 0, verse: 0, text: 'Sun-' },
+        { slot: 4, verse: 0, text: 'light' },
+        { slot: 0, verse: 1, text: 'Moon-' }
+      ]);
+      expect(setLyricSyllable(lyrics, 4, 0, '  ')).toHaveLength(2);
+      expect(getVerseCount(lyrics)).toBe(2);
+    });
+
+    it('should turn a trailing underscore into a melisma extender', () => {
+      const lyrics = setLyricSyllable([], 8, 0, 'oh_');
+
+      expect(lyrics).toEqual([{ slot: 8, verse: 0, text: 'oh', extender: true }]);
+      expect(getSyllableEditText(lyrics[0])).toBe('oh_');
+    });
+  });
+
+  describe('setChordSymbol', () => {
+    it('should keep chords sorted and remove empty names', () => {
+      const chords = setChordSymbol(setChordSymbol([], 16, 'G'), 0, ' D ');
+
+      expect(chords).toEqual([{ slot: 0, name: 'D' }, { slot: 16, name: 'G' }]);
+      expect(setChordSymbol(chords, 16, '')).toEqual([{ slot: 0, name: 'D' }]);
+    });
+  });
+
+  describe('findActiveIndex', () => {
+    it('should find the last item at or before the slot', () => {
+      const items = [{ slot: 0 }, { slot: 4 }, { slot: 12 }];
+
+      expect(findActiveIndex(items, 5)).toBe(1);
+      expect(findActiveIndex(items, 12)).toBe(2);
+      expect(findActiveIndex([{ slot: 2 }], 0)).toBe(-1);
+    });
+  });
+
+  describe('getExtenderEndSlot', () => {
+    it('should run to the last note before the next syllable', () => {
+      const syllable = { slot: 0, verse: 0, text: 'oh', extender: true };
+
+      expect(getExtenderEndSlot(syllable, { slot: 12, verse: 0, text: 'yeah' }, [0, 4, 8, 12, 16])).toBe(8);
+      expect(getExtenderEndSlot(syllable, undefined, [0, 4, 8, 12, 16])).toBe(16);
+    });
+  });
+
+  describe('formatVerseText', () => {
+    it('should join hyphenated syllables', () => {
+      const lyrics = [
+        { slot: 0, verse: 0, text: 'Sun-' },
+        { slot: 4, verse: 0, text: 'shine' },
+        { slot: 8, verse: 0, text: 'on' },
+        { slot: 12, verse: 0, text: 'me' }
+      ];
+
+      expect(formatVerseText(lyrics, 0)).toBe('Sunshine on me');
+    });
+  });
+});
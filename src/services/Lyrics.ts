@@ -0,0 +1,88 @@
+// Lyrics and Chord Symbols
+// Pure operations on the lyric and chord lanes, which are anchored to 16th-note slots
+
+import type { LyricSyllable, ChordSymbol } from '../types';
+
+/**
+ * Set, replace or (with empty text) remove the syllable at a slot of one verse
+ * Typing "_" after a syllable marks a melisma, held over the following notes
+ */
+export const setLyricSyllable = (
+  lyrics: LyricSyllable[],
+  slot: number,
+  verse: number,
+  text: string
+): LyricSyllable[] => {
+  const others = lyrics.filter(syllable => !(syllable.slot === slot && syllable.verse === verse));
+  const trimmed = text.trim();
+  const extender = trimmed.endsWith('_');
+  const syllableText = extender ? trimmed.slice(0, -1).trim() : trimmed;
+  if (!syllableText) return others;
+
+  const syllable: LyricSyllable = { slot, verse, text: syllableText, ...(extender && { extender }) };
+  return [...others, syllable].sort((a, b) => a.verse - b.verse || a.slot - b.slot);
+};
+
+/**
+ * Set, replace or (with an empty name) remove the chord symbol at a slot
+ */
+export const setChordSymbol = (chords: ChordSymbol[], slot: number, name: string): ChordSymbol[] => {
+  const others = chords.filter(chord => chord.slot !== slot);
+  const trimmed = name.trim();
+  if (!trimmed) return others;
+  return [...others, { slot, name: trimmed }].sort((a, b) => a.slot - b.slot);
+};
+
+/**
+ * Text to show when editing a syllable - the reverse of setLyricSyllable
+ */
+export const getSyllableEditText = (syllable: LyricSyllable | undefined): string =>
+  syllable ? `${syllable.text}${syllable.extender ? '_' : ''}` : '';
+
+/**
+ * Number of verse lines in use
+ */
+export const getVerseCount = (lyrics: LyricSyllable[]): number =>
+  lyrics.reduce((count, syllable) => Math.max(count, syllable.verse + 1), 0);
+
+/**
+ * One verse's syllables in slot order
+ */
+export const getVerseSyllables = (lyrics: LyricSyllable[], verse: number): LyricSyllable[] =>
+  lyrics.filter(syllable => syllable.verse === verse).sort((a, b) => a.slot - b.slot);
+
+/**
+ * Index of the item sounding at a slot: the last one starting at or before it, -1 before the first
+ */
+export const findActiveIndex = (items: Array<{ slot: number }>, slot: number): number => {
+  let active = -1;
+  items.forEach((item, index) => {
+    if (item.slot <= slot) active = index;
+  });
+  return active;
+};
+
+/**
+ * Where a melisma extender ends: the last note slot before the verse's next syllable
+ * Returns the syllable's own slot when no later note starts under it
+ */
+export const getExtenderEndSlot = (
+  syllable: LyricSyllable,
+  nextSyllable: LyricSyllable | undefined,
+  noteSlots: number[]
+): number =>
+  noteSlots
+    .filter(slot => slot > syllable.slot && (!nextSyllable || slot < nextSyllable.slot))
+    .reduce((end, slot) => Math.max(end, slot), syllable.slot);
+
+/**
+ * A verse as plain text: hyphenated syllables run together, the rest are separated by spaces
+ */
+export const formatVerseText = (lyrics: LyricSyllable[], verse: number): string =>
+  getVerseSyllables(lyrics, verse)
+    .map((syllable, index, syllables) => {
+      const isLast = index === syllables.length - 1;
+      if (syllable.text.endsWith('-')) return isLast ? syllable.text : syllable.text.slice(0, -1);
+      return isLast ? syllable.text : `${syllable.text} `;
+    })
+    .join('');
@@ -0,0 +1,195 @@
+import { describe, it, expect } from '@jest/globals';
+import { exportMusicXML, importMusicXML } from './MusicXML';
+import type { StrumstickProjectData } from './FileManager';
+import type { TabData, Note } from '../types';
+import { INSTRUMENT_PROFILES } from '../types/notestack';
+
+const buildTabData = (notes: Note[], length = 16): TabData => {
+  const tabData: TabData = Array.from({ length }, () => ({ notes: [] }));
+  notes.forEach(note => tabData[note.startSlot].notes.push(note));
+  return tabData;
+};
+
+const buildProject = (tabData: TabData, numerator = 4, denominator = 4): StrumstickProjectData => ({
+  version: '1.0.0',
+  metadata: {
+    title: 'Test & Song',
+    tags: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    modifiedAt: '2024-01-01T00:00:00.000Z',
+    duration: 0
+  },
+  tab: {
+    timeSignature: { numerator, denominator },
+    bpm: 96,
+    totalTimeSlots: tabData.length,
+    data: tabData
+  },
+  playback: {
+    loopEnabled: false,
+    metronomeEnabled: true,
+    countInEnabled: false,
+    synthVolume: 0.7,
+    isMuted: false
+  }
+});
+
+const note = (startSlot: number, stringIndex: number, fret: number, extra: Partial<Note> = {}): Note => ({
+  type: 'note',
+  fret,
+  duration: 'quarter',
+  stringIndex,
+  startSlot,
+  ...extra
+});
+
+describe('MusicXML', () => {
+  describe('exportMusicXML', () => {
+    it('should emit a three-string TAB staff tuned D3/A3/D4', () => {
+      const { xml } = exportMusicXML(buildProject(buildTabData([])));
+
+      expect(xml).toContain('<sign>TAB</sign>');
+      expect(xml).toContain('<staff-lines>3</staff-lines>');
+      expect(xml).toMatch(/<staff-tuning line="1">\s*<tuning-step>D<\/tuning-step>\s*<tuning-octave>3<\/tuning-octave>/);
+      expect(xml).toMatch(/<staff-tuning line="2">\s*<tuning-step>A<\/tuning-step>\s*<tuning-octave>3<\/tuning-octave>/);
+      expect(xml).toMatch(/<staff-tuning line="3">\s*<tuning-step>D<\/tuning-step>\s*<tuning-octave>4<\/tuning-octave>/);
+      expect(xml).toContain('<work-title>Test &amp; Song</work-title>');
+      expect(xml).toContain('<sound tempo="96"/>');
+    });
+
+    it('should use the diatonic fret mapping for pitches', () => {
+      // Fret 2 on the low D string is F#3
+      const { xml } = exportMusicXML(buildProject(buildTabData([note(0, 0, 2)])));
+
+      expect(xml).toMatch(/<step>F<\/step>\s*<alter>1<\/alter>\s*<octave>3<\/octave>/);
+      expect(xml).toMatch(/<string>3<\/string>\s*<fret>2<\/fret>/);
+    });
+
+    it('should fill the rest of the measure with rests', () => {
+      const { xml } = exportMusicXML(buildProject(buildTabData([note(4, 1, 0)])));
+
+      // Quarter rest, the note, then a half rest
+      expect(xml.match(/<rest\/>/g)).toHaveLength(2);
+      expect(xml).toContain('<type>half</type>');
+    });
+
+    it('should write time modifications and brackets for tuplets', () => {
+      const triplet = { duration: 'eighth' as const, tuplet: { actual: 3, normal: 2 } };
+      const { xml, warnings } = exportMusicXML(buildProject(buildTabData([
+        note(0, 0, 0, triplet),
+        note(1, 0, 1, { ...triplet, tupletOffset: 1 / 3 }),
+        note(2, 0, 2, { ...triplet, tupletOffset: 2 / 3 })
+      ])));
+
+      expect(warnings).toEqual([]);
+      // A triplet eighth is a third of a quarter, so divisions go up from 4 to 12
+      expect(xml).toContain('<divisions>12</divisions>');
+      expect(xml.match(/<actual-notes>3<\/actual-notes><normal-notes>2<\/normal-notes>/g)).toHaveLength(3);
+      expect(xml.match(/<duration>4<\/duration>/g)).toHaveLength(3);
+      expect(xml.indexOf('<tuplet type="start"/>')).toBeLessThan(xml.indexOf('<tuplet type="stop"/>'));
+    });
+
+    it('should warn about frets outside the diatonic map', () => {
+      const { xml, warnings } = exportMusicXML(buildProject(buildTabData([note(0, 0, 15)])));
+
+      expect(warnings).toHaveLength(1);
+      expect(xml).not.toContain('<fret>15</fret>');
+    });
+  });
+
+  describe('importMusicXML', () => {
+    it('should round-trip notes, chords, dots, ties and time signature', () => {
+      const tabData = buildTabData([
+        note(0, 0, 3, { isDotted: true, isTiedTo: 6 }),
+        note(0, 2, 5, { isDotted: true }),
+        note(6, 0, 3, { duration: 'eighth', isTiedFrom: 0 }),
+        note(8, 1, 4, { duration: 'half' })
+      ], 12);
+
+      const result = importMusicXML(exportMusicXML(buildProject(tabData, 3, 4)).xml);
+
+      expect(result.dropped).toEqual([]);
+      expect(result.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+      expect(result.bpm).toBe(96);
+      expect(result.title).toBe('Test & Song');
+
+      expect(result.tabData[0].notes).toHaveLength(2);
+      expect(result.tabData[0].notes[0]).toMatchObject({
+        stringIndex: 0,
+        fret: 3,
+        duration: 'quarter',
+        isDotted: true,
+        isTiedTo: 6
+      });
+      expect(result.tabData[6].notes[0]).toMatchObject({ stringIndex: 0, fret: 3, duration: 'eighth', isTiedFrom: 0 });
+      expect(result.tabData[8].notes[0]).toMatchObject({ stringIndex: 1, fret: 4, duration: 'half' });
+    });
+
+    it('should round-trip half-frets as a whole fret plus a half-fret mark', () => {
+      const dulcimer = INSTRUMENT_PROFILES['dulcimer-4'];
+      const project = { ...buildProject(buildTabData([note(0, 0, 6.5), note(4, 0, 6)])), instrument: dulcimer };
+
+      const { xml, warnings } = exportMusicXML(project);
+      expect(warnings).toEqual([]);
+      expect(xml).not.toContain('<fret>6.5</fret>');
+      expect(xml).toMatch(/<fret>6<\/fret>\s*<other-technical>half-fret<\/other-technical>/);
+
+      const result = importMusicXML(xml, dulcimer);
+      expect(result.dropped).toEqual([]);
+      expect(result.tabData[0].notes[0]).toMatchObject({ stringIndex: 0, fret: 6.5 });
+      expect(result.tabData[4].notes[0]).toMatchObject({ stringIndex: 0, fret: 6 });
+    });
+
+    it('should round-trip tuplets that start between slots', () => {
+      const triplet = { duration: 'eighth' as const, tuplet: { actual: 3, normal: 2 } };
+      const tabData = buildTabData([
+        note(0, 1, 2, { duration: 'eighth' }),
+        note(2, 0, 0, triplet),
+        note(3, 0, 1, { ...triplet, tupletOffset: 1 / 3 }),
+        note(4, 0, 2, { ...triplet, tupletOffset: 2 / 3 }),
+        note(6, 2, 4, { duration: 'eighth' })
+      ]);
+
+      const result = importMusicXML(exportMusicXML(buildProject(tabData)).xml);
+
+      expect(result.dropped).toEqual([]);
+      expect(result.tabData[2].notes[0]).toMatchObject({ fret: 0, duration: 'eighth', tuplet: { actual: 3, normal: 2 } });
+      expect(result.tabData[2].notes[0].tupletOffset).toBeUndefined();
+      expect(result.tabData[3].notes[0]).toMatchObject({ fret: 1, tuplet: { actual: 3, normal: 2 } });
+      expect(result.tabData[3].notes[0].tupletOffset).toBeCloseTo(1 / 3);
+      expect(result.tabData[4].notes[0].tupletOffset).toBeCloseTo(2 / 3);
+      expect(result.tabData[6].notes[0]).toMatchObject({ fret: 4, stringIndex: 2, duration: 'eighth' });
+      expect(result.tabData[6].notes[0].tuplet).toBeUndefined();
+    });
+
+    it('should report notes it had to drop', () => {
+      const xml = `<?xml version="1.0"?>
+        <score-partwise version="4.0">
+          <part-list><score-part id="P1"><part-name>Guitar</part-name></score-part></part-list>
+          <part id="P1">
+            <measure number="1">
+              <attributes><divisions>2</divisions></attributes>
+              <note><pitch><step>E</step><octave>2</octave></pitch><duration>2</duration><type>quarter</type>
+                <notations><technical><string>6</string><fret>0</fret></technical></notations></note>
+              <note><pitch><step>C</step><octave>4</octave></pitch><duration>2</duration><type>quarter</type></note>
+              <note><pitch><step>A</step><octave>3</octave></pitch><duration>2</duration><type>quarter</type>
+                <notations><technical><string>2</string><fret>4</fret></technical></notations></note>
+            </measure>
+          </part>
+        </score-partwise>`;
+
+      const result = importMusicXML(xml);
+
+      expect(result.dropped).toHaveLength(2);
+      expect(result.dropped[0]).toContain('string 6');
+      expect(result.dropped[1]).toContain('without tab string/fret');
+      expect(result.tabData[8].notes[0]).toMatchObject({ stringIndex: 1, fret: 4, startSlot: 8 });
+      expect(result.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+    });
+
+    it('should reject documents that are not partwise MusicXML', () => {
+      expect(() => importMusicXML('<not-xml')).toThrow();
+      expect(() => importMusicXML('<?xml version="1.0"?><foo/>')).toThrow(/score-partwise/);
+    });
+  });
+});
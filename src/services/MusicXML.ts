@@ -0,0 +1,605 @@
+// MusicXML Interchange
+// Export .stab projects as a TAB staff with a line per string and import MusicXML tablature back into TabData
+// Pitches follow the project's instrument profile via fretToNoteName; positions use 16th-note slots
+
+import type { TabData, Note, NoteDuration } from '../types';
+import { getNoteDurationSlots, getNoteDurationValue, getNoteStartPosition } from '../types';
+import type { InstrumentProfile, Tuplet } from '../types/notestack';
+import { DEFAULT_INSTRUMENT, TICKS_PER_QUARTER, TUPLET_PRESETS } from '../types/notestack';
+import { fretToNoteName } from '../audio/audioEngine';
+import { midiNoteToName } from '../audio/midiImport';
+import { convertTabDataToNoteStack } from './ArchitectureBridge';
+import { findTupletGroups } from './NoteStackOperations';
+import type { StrumstickProjectData } from './FileManager';
+
+// Positions are worked out in ticks; divisions are the coarsest grid that holds every note,
+// so a plain tab exports with four divisions per quarter and tuplets add finer ones
+const TICKS_PER_SLOT = TICKS_PER_QUARTER / 4;
+
+// MusicXML numbers strings from the highest-pitched one down
+const toMusicXMLString = (stringIndex: number, stringCount: number): number => stringCount - stringIndex;
+const fromMusicXMLString = (string: number, stringCount: number): number => stringCount - string;
+
+// <fret> only holds whole numbers: a half-fret is written as the fret below plus this <other-technical> mark
+const HALF_FRET_MARK = 'half-fret';
+
+const DURATION_TO_TYPE: Record<NoteDuration, string> = {
+  whole: 'whole',
+  half: 'half',
+  quarter: 'quarter',
+  eighth: 'eighth',
+  sixteenth: '16th'
+};
+
+const TYPE_TO_DURATION: Record<string, NoteDuration> = {
+  whole: 'whole',
+  half: 'half',
+  quarter: 'quarter',
+  eighth: 'eighth',
+  '16th': 'sixteenth'
+};
+
+// Largest first, used to fill gaps with rests and to infer durations without a <type>
+const DURATIONS_BY_SIZE: NoteDuration[] = ['whole', 'half', 'quarter', 'eighth', 'sixteenth'];
+
+export interface MusicXMLExportResult {
+  xml: string;
+  warnings: string[];
+}
+
+export interface MusicXMLImportResult {
+  tabData: TabData;
+  timeSignature: { numerator: number; denominator: number };
+  bpm: number;
+  title?: string;
+  dropped: string[]; // Human-readable descriptions of everything that could not be represented
+}
+
+// ===============================
+// EXPORT
+// ===============================
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Split a note name like "F#3" into MusicXML pitch parts
+ */
+const parseNoteName = (noteName: string): { step: string; alter: number; octave: number } => {
+  const match = /^([A-G])(#|b)?(-?\d+)$/.exec(noteName);
+  if (!match) {
+    throw new Error(`Invalid note name: ${noteName}`);
+  }
+  const alter = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return { step: match[1], alter, octave: Number(match[3]) };
+};
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+const getNoteTicks = (note: Note): number =>
+  Math.round(getNoteDurationValue(note.duration, note.isDotted, note.tuplet) * TICKS_PER_QUARTER);
+
+const getNoteStartTicks = (note: Note): number => Math.round(getNoteStartPosition(note) * TICKS_PER_SLOT);
+
+const renderTimeModification = (tuplet: Tuplet, indent: string): string =>
+  `${indent}  <time-modification><actual-notes>${tuplet.actual}</actual-notes><normal-notes>${tuplet.normal}</normal-notes></time-modification>`;
+
+/**
+ * Split a gap into rests: plain values first, then tuplet values for what is left inside a tuplet group
+ */
+const getRestValues = (ticks: number, unit: number): Array<{ duration: NoteDuration; tuplet?: Tuplet; ticks: number }> => {
+  const values = [
+    ...DURATIONS_BY_SIZE.map(duration => ({ duration, ticks: getNoteDurationSlots(duration) * TICKS_PER_SLOT })),
+    ...TUPLET_PRESETS.flatMap(tuplet => DURATIONS_BY_SIZE.map(duration => ({
+      duration,
+      tuplet,
+      ticks: (getNoteDurationSlots(duration) * TICKS_PER_SLOT * tuplet.normal) / tuplet.actual
+    })))
+  ].filter(value => Number.isInteger(value.ticks) && value.ticks % unit === 0);
+
+  const rests: Array<{ duration: NoteDuration; tuplet?: Tuplet; ticks: number }> = [];
+  let remaining = ticks;
+  while (remaining > 0) {
+    const value = values.reduce<typeof values[number] | null>(
+      (best, candidate) => candidate.ticks <= remaining && (!best || candidate.ticks > best.ticks) ? candidate : best,
+      null
+    ) ?? { duration: 'sixteenth' as const, ticks: remaining };
+    rests.push(value);
+    remaining -= value.ticks;
+  }
+  return rests;
+};
+
+/**
+ * Render rests covering a gap of ticks
+ */
+const renderRests = (ticks: number, unit: number, indent: string): string[] =>
+  getRestValues(ticks, unit).map(rest => [
+    `${indent}<note>`,
+    `${indent}  <rest/>`,
+    `${indent}  <duration>${rest.ticks / unit}</duration>`,
+    `${indent}  <voice>1</voice>`,
+    `${indent}  <type>${DURATION_TO_TYPE[rest.duration]}</type>`,
+    ...(rest.tuplet ? [renderTimeModification(rest.tuplet, indent)] : []),
+    `${indent}</note>`
+  ].join('\n'));
+
+const renderNote = (
+  note: Note,
+  isChord: boolean,
+  indent: string,
+  warnings: string[],
+  instrument: InstrumentProfile,
+  unit: number,
+  tupletBracket: Array<'start' | 'stop'> = []
+): string | null => {
+  const lines: string[] = [`${indent}<note>`];
+
+  if (isChord) {
+    lines.push(`${indent}  <chord/>`);
+  }
+
+  if (note.type === 'rest' || note.fret === null) {
+    lines.push(`${indent}  <rest/>`);
+  } else {
+    let pitch: { step: string; alter: number; octave: number };
+    try {
+      pitch = parseNoteName(fretToNoteName(note.fret, note.stringIndex, instrument));
+    } catch (error) {
+      warnings.push(`Skipped note at slot ${note.startSlot}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+    lines.push(`${indent}  <pitch>`);
+    lines.push(`${indent}    <step>${pitch.step}</step>`);
+    if (pitch.alter !== 0) {
+      lines.push(`${indent}    <alter>${pitch.alter}</alter>`);
+    }
+    lines.push(`${indent}    <octave>${pitch.octave}</octave>`);
+    lines.push(`${indent}  </pitch>`);
+  }
+
+  lines.push(`${indent}  <duration>${getNoteTicks(note) / unit}</duration>`);
+  if (note.isTiedFrom !== undefined) lines.push(`${indent}  <tie type="stop"/>`);
+  if (note.isTiedTo !== undefined) lines.push(`${indent}  <tie type="start"/>`);
+  lines.push(`${indent}  <voice>1</voice>`);
+  lines.push(`${indent}  <type>${DURATION_TO_TYPE[note.duration]}</type>`);
+  if (note.isDotted) lines.push(`${indent}  <dot/>`);
+  if (note.tuplet) lines.push(renderTimeModification(note.tuplet, indent));
+
+  if (note.type === 'note' && note.fret !== null) {
+    lines.push(`${indent}  <notations>`);
+    if (note.isTiedFrom !== undefined) lines.push(`${indent}    <tied type="stop"/>`);
+    if (note.isTiedTo !== undefined) lines.push(`${indent}    <tied type="start"/>`);
+    tupletBracket.forEach(type => lines.push(`${indent}    <tuplet type="${type}"/>`));
+    lines.push(`${indent}    <technical>`);
+    lines.push(`${indent}      <string>${toMusicXMLString(note.stringIndex, instrument.stringCount)}</string>`);
+    lines.push(`${indent}      <fret>${Math.floor(note.fret)}</fret>`);
+    if (!Number.isInteger(note.fret)) lines.push(`${indent}      <other-technical>${HALF_FRET_MARK}</other-technical>`);
+    lines.push(`${indent}    </technical>`);
+    lines.push(`${indent}  </notations>`);
+  }
+
+  lines.push(`${indent}</note>`);
+  return lines.join('\n');
+};
+
+const renderAttributes = (
+  numerator: number,
+  denominator: number,
+  divisions: number,
+  indent: string,
+  instrument: InstrumentProfile
+): string => {
+  const tunings = instrument.openPitches.map(pitch => parseNoteName(midiNoteToName(pitch)));
+  const staffTuning = tunings.map((tuning, stringIndex) => [
+    `${indent}    <staff-tuning line="${stringIndex + 1}">`,
+    `${indent}      <tuning-step>${tuning.step}</tuning-step>`,
+    `${indent}      <tuning-octave>${tuning.octave}</tuning-octave>`,
+    `${indent}    </staff-tuning>`
+  ].join('\n'));
+
+  return [
+    `${indent}<attributes>`,
+    `${indent}  <divisions>${divisions}</divisions>`,
+    `${indent}  <key><fifths>2</fifths></key>`,
+    `${indent}  <time><beats>${numerator}</beats><beat-type>${denominator}</beat-type></time>`,
+    `${indent}  <clef><sign>TAB</sign><line>5</line></clef>`,
+    `${indent}  <staff-details>`,
+    `${indent}    <staff-lines>${instrument.stringCount}</staff-lines>`,
+    ...staffTuning,
+    `${indent}  </staff-details>`,
+    `${indent}</attributes>`
+  ].join('\n');
+};
+
+/**
+ * Export a project as a MusicXML partwise score with a single TAB staff
+ * Notes starting at the same time become a chord; gaps are filled with rests
+ * Tuplet notes carry <time-modification>, and each tuplet group is bracketed with <tuplet> start/stop
+ */
+export const exportMusicXML = (projectData: StrumstickProjectData): MusicXMLExportResult => {
+  const warnings: string[] = [];
+  const instrument = projectData.instrument ?? DEFAULT_INSTRUMENT;
+  const { numerator, denominator } = projectData.tab.timeSignature;
+  const ticksPerMeasure = Math.round((numerator * 16) / denominator) * TICKS_PER_SLOT;
+  const tabData = projectData.tab.data;
+
+  // Group notes by the tick they start on - tuplet notes can share a slot
+  const notesByTick = new Map<number, Note[]>();
+  tabData.forEach((cell, timeSlot) => {
+    cell.notes
+      .filter(note => note.startSlot === timeSlot)
+      .forEach(note => {
+        const tick = getNoteStartTicks(note);
+        notesByTick.set(tick, [...(notesByTick.get(tick) || []), note]);
+      });
+  });
+  notesByTick.forEach(notes => notes.sort((a, b) => a.stringIndex - b.stringIndex));
+
+  const allNotes = Array.from(notesByTick.values()).flat();
+  const unit = [...notesByTick.keys(), ...allNotes.map(getNoteTicks), ticksPerMeasure].reduce(greatestCommonDivisor, TICKS_PER_SLOT);
+  const divisions = TICKS_PER_QUARTER / unit;
+
+  // Where tuplet brackets open and close
+  const tupletGroups = findTupletGroups(convertTabDataToNoteStack(tabData));
+  const tupletStarts = new Set(tupletGroups.map(group => group.start));
+  const tupletStops = new Set(tupletGroups.map(group => group.stacks[group.stacks.length - 1].musicalPosition));
+
+  const lastTick = Math.max(0, ...allNotes.map(note => getNoteStartTicks(note) + getNoteTicks(note)));
+  const measureCount = Math.max(1, Math.ceil(lastTick / ticksPerMeasure));
+  const ticks = Array.from(notesByTick.keys()).sort((a, b) => a - b);
+
+  const measures: string[] = [];
+  let cursor = 0;
+
+  for (let measureIndex = 0; measureIndex < measureCount; measureIndex++) {
+    const measureStart = measureIndex * ticksPerMeasure;
+    const measureEnd = measureStart + ticksPerMeasure;
+    const content: string[] = [];
+    const indent = '      ';
+
+    if (measureIndex === 0) {
+      content.push(renderAttributes(numerator, denominator, divisions, indent, instrument));
+      content.push([
+        `${indent}<direction placement="above">`,
+        `${indent}  <direction-type>`,
+        `${indent}    <metronome><beat-unit>quarter</beat-unit><per-minute>${projectData.tab.bpm}</per-minute></metronome>`,
+        `${indent}  </direction-type>`,
+        `${indent}  <sound tempo="${projectData.tab.bpm}"/>`,
+        `${indent}</direction>`
+      ].join('\n'));
+    }
+
+    // A note that rang over the previous barline pushes the cursor into this measure
+    cursor = Math.max(cursor, measureStart);
+
+    ticks.filter(tick => tick >= measureStart && tick < measureEnd).forEach(tick => {
+      const notes = notesByTick.get(tick)!;
+      const slot = notes[0].startSlot;
+
+      if (tick < cursor) {
+        warnings.push(`Skipped ${notes.length} note(s) at slot ${slot}: overlaps the previous note`);
+        return;
+      }
+
+      content.push(...renderRests(tick - cursor, unit, indent));
+
+      // A chord shares a single duration, taken from its first note; the first note carries the tuplet bracket
+      const chordTicks = getNoteTicks(notes[0]);
+      const bracket = [
+        ...(tupletStarts.has(tick) ? ['start' as const] : []),
+        ...(tupletStops.has(tick) ? ['stop' as const] : [])
+      ];
+      let renderedCount = 0;
+      notes.forEach(note => {
+        if (getNoteTicks(note) !== chordTicks) {
+          warnings.push(`Note at slot ${slot} on string ${note.stringIndex} exported with the chord's duration`);
+          note = { ...note, duration: notes[0].duration, isDotted: notes[0].isDotted, tuplet: notes[0].tuplet };
+        }
+        const rendered = renderNote(note, renderedCount > 0, indent, warnings, instrument, unit, renderedCount === 0 ? bracket : []);
+        if (rendered) {
+          content.push(rendered);
+          renderedCount++;
+        }
+      });
+
+      if (renderedCount === 0) return;
+      if (tick + chordTicks > measureEnd) {
+        warnings.push(`Note at slot ${slot} crosses the barline at slot ${measureEnd / TICKS_PER_SLOT}`);
+      }
+      cursor = tick + chordTicks;
+    });
+
+    if (cursor < measureEnd) {
+      content.push(...renderRests(measureEnd - cursor, unit, indent));
+      cursor = measureEnd;
+    }
+
+    measures.push([
+      `    <measure number="${measureIndex + 1}">`,
+      ...content,
+      '    </measure>'
+    ].join('\n'));
+  }
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `  <work><work-title>${escapeXml(projectData.metadata.title)}</work-title></work>`,
+    projectData.metadata.artist || projectData.metadata.composer
+      ? `  <identification><creator type="composer">${escapeXml(projectData.metadata.composer || projectData.metadata.artist || '')}</creator></identification>`
+      : null,
+    '  <part-list>',
+    '    <score-part id="P1">',
+    '      <part-name>Strumstick</part-name>',
+    '    </score-part>',
+    '  </part-list>',
+    '  <part id="P1">',
+    ...measures,
+    '  </part>',
+    '</score-partwise>',
+    ''
+  ].filter((line): line is string => line !== null).join('\n');
+
+  return { xml, warnings };
+};
+
+// ===============================
+// IMPORT
+// ===============================
+
+const childText = (element: Element, tagName: string): string | null => {
+  const child = Array.from(element.children).find(node => node.tagName === tagName);
+  return child ? (child.textContent || '').trim() : null;
+};
+
+const childNumber = (element: Element, tagName: string): number | null => {
+  const text = childText(element, tagName);
+  if (text === null || text === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const hasChild = (element: Element, tagName: string): boolean =>
+  Array.from(element.children).some(node => node.tagName === tagName);
+
+/**
+ * Resolve the NoteDuration of a MusicXML note from its <type>/<dot>, falling back to its length in slots
+ */
+const resolveDuration = (
+  noteElement: Element,
+  slots: number
+): { duration: NoteDuration; isDotted: boolean } | null => {
+  const typeName = childText(noteElement, 'type');
+  const isDotted = noteElement.getElementsByTagName('dot').length > 0;
+
+  if (typeName !== null) {
+    const duration = TYPE_TO_DURATION[typeName];
+    if (!duration) return null;
+    if (noteElement.getElementsByTagName('dot').length > 1) return null;
+    return { duration, isDotted };
+  }
+
+  for (const duration of DURATIONS_BY_SIZE) {
+    if (getNoteDurationSlots(duration) === slots) return { duration, isDotted: false };
+    if (getNoteDurationSlots(duration, true) === slots) return { duration, isDotted: true };
+  }
+  return null;
+};
+
+// <time-modification> of a tuplet note, e.g. 3 in the time of 2
+const readTimeModification = (noteElement: Element): Tuplet | undefined => {
+  const modification = noteElement.getElementsByTagName('time-modification')[0];
+  if (!modification) return undefined;
+  const actual = childNumber(modification, 'actual-notes');
+  const normal = childNumber(modification, 'normal-notes');
+  return actual && normal && actual !== normal ? { actual, normal } : undefined;
+};
+
+/**
+ * Import a MusicXML partwise score into TabData
+ * Only notes carrying <technical><string>/<fret> on the instrument's strings are kept; everything else is reported in `dropped`
+ */
+export const importMusicXML = (xml: string, instrument: InstrumentProfile = DEFAULT_INSTRUMENT): MusicXMLImportResult => {
+  const dropped: string[] = [];
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid MusicXML: the document is not well-formed XML');
+  }
+  if (document.getElementsByTagName('score-timewise').length > 0) {
+    throw new Error('Timewise MusicXML is not supported; please export as partwise');
+  }
+
+  const root = document.getElementsByTagName('score-partwise')[0];
+  if (!root) {
+    throw new Error('Invalid MusicXML: missing <score-partwise> root element');
+  }
+
+  const parts = Array.from(root.getElementsByTagName('part'));
+  if (parts.length === 0) {
+    throw new Error('Invalid MusicXML: the score has no parts');
+  }
+
+  // Prefer the first part that carries tablature, otherwise fall back to the first part
+  const part = parts.find(candidate => candidate.getElementsByTagName('fret').length > 0) || parts[0];
+  parts
+    .filter(candidate => candidate !== part)
+    .forEach(candidate => dropped.push(`Part "${candidate.getAttribute('id') || '?'}" (only one part is imported)`));
+
+  const title = root.getElementsByTagName('work-title')[0]?.textContent?.trim()
+    || root.getElementsByTagName('movement-title')[0]?.textContent?.trim()
+    || undefined;
+
+  let timeSignature: { numerator: number; denominator: number } | null = null;
+  let bpm: number | null = null;
+  let divisions = 1;
+  let position = 0; // Current position in ticks
+  let previousNoteStart = 0;
+
+  const notes: Note[] = [];
+  const tieTypes = new Map<Note, { start: boolean; stop: boolean }>();
+  const occupied = new Set<string>();
+
+  Array.from(part.getElementsByTagName('measure')).forEach(measure => {
+    const measureNumber = measure.getAttribute('number') || '?';
+
+    Array.from(measure.children).forEach(element => {
+      switch (element.tagName) {
+        case 'attributes': {
+          divisions = childNumber(element, 'divisions') ?? divisions;
+          const time = element.getElementsByTagName('time')[0];
+          if (time) {
+            const numerator = childNumber(time, 'beats');
+            const denominator = childNumber(time, 'beat-type');
+            if (numerator && denominator) {
+              if (timeSignature && (timeSignature.numerator !== numerator || timeSignature.denominator !== denominator)) {
+                dropped.push(`Time signature change to ${numerator}/${denominator} in measure ${measureNumber}`);
+              } else {
+                timeSignature = { numerator, denominator };
+              }
+            }
+          }
+          break;
+        }
+
+        case 'direction':
+        case 'sound': {
+          const sound = element.tagName === 'sound' ? element : element.getElementsByTagName('sound')[0];
+          const tempo = sound ? Number(sound.getAttribute('tempo')) : NaN;
+          if (Number.isFinite(tempo) && tempo > 0) {
+            if (bpm === null) {
+              bpm = Math.round(tempo);
+            } else if (Math.round(tempo) !== bpm) {
+              dropped.push(`Tempo change to ${Math.round(tempo)} BPM in measure ${measureNumber}`);
+            }
+          }
+          break;
+        }
+
+        case 'backup':
+          position -= ((childNumber(element, 'duration') ?? 0) * TICKS_PER_QUARTER) / divisions;
+          break;
+
+        case 'forward':
+          position += ((childNumber(element, 'duration') ?? 0) * TICKS_PER_QUARTER) / divisions;
+          break;
+
+        case 'note': {
+          const isChord = hasChild(element, 'chord');
+          const startTick = isChord ? previousNoteStart : position;
+          const ticks = ((childNumber(element, 'duration') ?? 0) * TICKS_PER_QUARTER) / divisions;
+
+          if (hasChild(element, 'grace')) {
+            dropped.push(`Grace note in measure ${measureNumber}`);
+            return;
+          }
+
+          previousNoteStart = startTick;
+          if (!isChord) position += ticks;
+
+          // Rests are implied by gaps in TabData
+          if (hasChild(element, 'rest')) return;
+
+          // Only tuplet notes may start between sixteenth-note slots
+          const tuplet = readTimeModification(element);
+          if (!Number.isInteger(startTick) || (!tuplet && startTick % TICKS_PER_SLOT !== 0)) {
+            dropped.push(`Note off the sixteenth-note grid in measure ${measureNumber}`);
+            return;
+          }
+
+          const string = element.getElementsByTagName('string')[0];
+          const fret = element.getElementsByTagName('fret')[0];
+          if (!string || !fret) {
+            dropped.push(`Note without tab string/fret in measure ${measureNumber}`);
+            return;
+          }
+
+          const stringNumber = Number((string.textContent || '').trim());
+          const fretNumber = Number((fret.textContent || '').trim());
+          const stringIndex = fromMusicXMLString(stringNumber, instrument.stringCount);
+          if (!Number.isInteger(stringNumber) || stringIndex < 0 || stringIndex >= instrument.stringCount) {
+            dropped.push(`Note on string ${stringNumber} in measure ${measureNumber} (${instrument.name} has ${instrument.stringCount} strings)`);
+            return;
+          }
+          if (!Number.isInteger(fretNumber) || fretNumber < 0) {
+            dropped.push(`Note with fret "${(fret.textContent || '').trim()}" in measure ${measureNumber}`);
+            return;
+          }
+          const isHalfFret = Array.from(element.getElementsByTagName('other-technical'))
+            .some(mark => (mark.textContent || '').trim() === HALF_FRET_MARK);
+
+          const resolved = resolveDuration(element, ticks / TICKS_PER_SLOT);
+          if (!resolved) {
+            dropped.push(`Note with unsupported duration in measure ${measureNumber}`);
+            return;
+          }
+
+          const key = `${startTick}:${stringIndex}`;
+          if (occupied.has(key)) {
+            dropped.push(`Second note on string ${stringNumber} at the same time in measure ${measureNumber}`);
+            return;
+          }
+          occupied.add(key);
+
+          const ties = Array.from(element.getElementsByTagName('tie')).map(tie => tie.getAttribute('type'));
+          const note: Note = {
+            type: 'note',
+            fret: isHalfFret ? fretNumber + 0.5 : fretNumber,
+            duration: resolved.duration,
+            stringIndex,
+            startSlot: Math.floor(startTick / TICKS_PER_SLOT),
+            isDotted: resolved.isDotted,
+            ...(tuplet ? { tuplet } : {}),
+            ...(startTick % TICKS_PER_SLOT !== 0 ? { tupletOffset: (startTick % TICKS_PER_SLOT) / TICKS_PER_SLOT } : {})
+          };
+          notes.push(note);
+          tieTypes.set(note, { start: ties.includes('start'), stop: ties.includes('stop') });
+          break;
+        }
+      }
+    });
+  });
+
+  // Link ties to the next note on the same string
+  const byString = new Map<number, Note[]>();
+  notes.forEach(note => {
+    const stringNotes = byString.get(note.stringIndex) || [];
+    stringNotes.push(note);
+    byString.set(note.stringIndex, stringNotes);
+  });
+  byString.forEach(stringNotes => {
+    stringNotes.sort((a, b) => getNoteStartPosition(a) - getNoteStartPosition(b));
+    stringNotes.forEach((note, index) => {
+      if (!tieTypes.get(note)?.start) return;
+      const next = stringNotes[index + 1];
+      if (next && tieTypes.get(next)?.stop && next.fret === note.fret) {
+        note.isTiedTo = next.startSlot;
+        next.isTiedFrom = note.startSlot;
+      } else {
+        dropped.push(`Tie from slot ${note.startSlot} on string ${toMusicXMLString(note.stringIndex, instrument.stringCount)} has no matching note`);
+      }
+    });
+  });
+
+  const length = Math.max(0, ...notes.map(note =>
+    Math.ceil(getNoteStartPosition(note) + getNoteDurationValue(note.duration, note.isDotted, note.tuplet) * 4)
+  ));
+  const tabData: TabData = Array.from({ length }, () => ({ notes: [] }));
+  notes.forEach(note => {
+    tabData[note.startSlot].notes.push(note);
+  });
+
+  return {
+    tabData,
+    timeSignature: timeSignature || { numerator: 4, denominator: 4 },
+    bpm: bpm ?? 120,
+    title,
+    dropped
+  };
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect } from '@jest/globals';
+import { layoutNotationStaff, noteNameToStaffStep, splitIntoNoteValues } from './NotationStaff';
+import type { Tab, NoteStack, Duration } from '../types/notestack';
+
+const stack = (id: string, musicalPosition: number, duration: Duration, notes: NoteStack['notes']): NoteStack => ({
+  id,
+  musicalPosition,
+  duration,
+  notes
+});
+
+describe('NotationStaff', () => {
+  describe('noteNameToStaffStep', () => {
+    it('should write pitches an octave up', () => {
+      // D3 is written as D4, the space below the staff
+      expect(noteNameToStaffStep('D3')).toEqual({ step: 29, alter: 0 });
+      expect(noteNameToStaffStep('F#3')).toEqual({ step: 31, alter: 1 });
+    });
+  });
+
+  describe('splitIntoNoteValues', () => {
+    it('should use dotted values where they fit', () => {
+      expect(splitIntoNoteValues(1440).map(value => [value.duration, value.dotted])).toEqual([['quarter', true]]);
+      expect(splitIntoNoteValues(2400).map(value => [value.duration, value.dotted])).toEqual([
+        ['half', false],
+        ['eighth', false]
+      ]);
+    });
+  });
+
+  describe('layoutNotationStaff', () => {
+    it('should fill gaps and the end of the measure with rests', () => {
+      const tab: Tab = [stack('a', 960, 'quarter', [{ string: 0, fret: 0 }])];
+
+      const { events } = layoutNotationStaff(tab);
+
+      expect(events.map(event => [event.type, event.position, event.duration])).toEqual([
+        ['rest', 0, 'quarter'],
+        ['note', 960, 'quarter'],
+        ['rest', 1920, 'half']
+      ]);
+    });
+
+    it('should split notes across a barline and tie them', () => {
+      const tab: Tab = [stack('a', 2880, 'half', [{ string: 0, fret: 0 }])];
+
+      const notes = layoutNotationStaff(tab).events.filter(event => event.type === 'note');
+
+      expect(notes.map(event => [event.position, event.duration, event.tiedToNext])).toEqual([
+        [2880, 'quarter', true],
+        [3840, 'quarter', false]
+      ]);
+    });
+
+    it('should mark accidentals against the key of D for the rest of the measure', () => {
+      // On the d string fret 6 is C5 (natural against the key) and fret 7 is C#5
+      const tab: Tab = [
+        stack('a', 0, 'quarter', [{ string: 2, fret: 6 }]),
+        stack('b', 960, 'quarter', [{ string: 2, fret: 6 }]),
+        stack('c', 1920, 'quarter', [{ string: 2, fret: 7 }]),
+        stack('d', 3840, 'quarter', [{ string: 2, fret: 6 }])
+      ];
+
+      const notes = layoutNotationStaff(tab).events.filter(event => event.type === 'note');
+
+      expect(notes.map(event => event.heads[0].accidental)).toEqual(['natural', null, 'sharp', 'natural']);
+    });
+
+    it('should beam eighths within a beat', () => {
+      const tab: Tab = [
+        stack('a', 0, 'eighth', [{ string: 0, fret: 0 }]),
+        stack('b', 480, 'eighth', [{ string: 0, fret: 1 }]),
+        stack('c', 960, 'eighth', [{ string: 0, fret: 2 }]),
+        stack('d', 1440, 'quarter', [{ string: 0, fret: 3 }])
+      ];
+
+      const { events, beams } = layoutNotationStaff(tab);
+
+      expect(beams).toEqual([{ events: [0, 1], stemUp: true }]);
+      expect(events[2].beam).toBeNull();
+    });
+
+    it('should beam by the time signature and honour beam overrides', () => {
+      const tab: Tab = [0, 480, 960, 1440, 1920, 2400].map((position, index) =>
+        stack(`s${index}`, position, 'eighth', [{ string: 0, fret: 0 }])
+      );
+      tab[2] = { ...tab[2], beam: 'break' };
+
+      const { beams } = layoutNotationStaff(tab, undefined, { numerator: 6, denominator: 8 });
+
+      expect(beams.map(beam => beam.events)).toEqual([[0, 1], [3, 4, 5]]);
+    });
+
+    it('should merge unisons into one head', () => {
+      // B3 on both the low string and the middle string
+      const tab: Tab = [stack('a', 0, 'whole', [{ string: 0, fret: 5 }, { string: 1, fret: 1 }])];
+
+      const [event] = layoutNotationStaff(tab).events;
+
+      expect(event.heads.map(head => head.noteName)).toEqual(['B3']);
+    });
+
+    it('should offset heads a step apart', () => {
+      const tab: Tab = [stack('a', 0, 'whole', [{ string: 0, fret: 5 }, { string: 1, fret: 2 }, { string: 2, fret: 0 }])];
+
+      const [event] = layoutNotationStaff(tab).events;
+
+      expect(event.heads.map(head => [head.noteName, head.displaced])).toEqual([
+        ['B3', false],
+        ['C#4', true],
+        ['D4', false]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+// Notation Staff Layout
+// Turns NoteStacks into treble-staff events (note heads, rests, ties, beams) in D major
+// Pitches come from fretToNoteName and are written an octave up, as for guitar (treble 8vb)
+
+import type { BeamOverride, Duration, NoteStack, Tab, Tuplet, InstrumentProfile } from '../types/notestack';
+import { DEFAULT_INSTRUMENT, TICKS_PER_QUARTER, getStackTicks } from '../types/notestack';
+import { fretToNoteName } from '../audio/audioEngine';
+import { getTicksPerMeasure } from './PlaybackOrder';
+import { findBeamGroups, type TimeSignature } from './Beaming';
+
+// Diatonic staff steps: octave * 7 + letter (C = 0 ... B = 6), on the written pitch
+export const STAFF_BOTTOM_LINE_STEP = 30;   // E4
+export const STAFF_MIDDLE_LINE_STEP = 34;   // B4
+export const STAFF_TOP_LINE_STEP = 38;      // F5
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// D major: F♯ and C♯, drawn on the top line and third space
+export const KEY_SIGNATURE_SHARPS: Array<{ letter: string; step: number }> = [
+  { letter: 'F', step: 38 },
+  { letter: 'C', step: 35 }
+];
+
+export type NoteValue = { duration: Duration; dotted: boolean; ticks: number };
+
+// Longest first
+const NOTE_VALUES: NoteValue[] = (['whole', 'half', 'quarter', 'eighth', 'sixteenth'] as Duration[])
+  .flatMap((duration, index) => {
+    const ticks = TICKS_PER_QUARTER * 4 / Math.pow(2, index);
+    return [
+      { duration, dotted: true, ticks: ticks * 1.5 },
+      { duration, dotted: false, ticks }
+    ];
+  })
+  .filter(value => !(value.duration === 'whole' && value.dotted));
+
+const SHORTEST_VALUE = NOTE_VALUES[NOTE_VALUES.length - 1].ticks;
+
+export type StaffHead = {
+  noteName: string;                // Sounding pitch, e.g. "F#3"
+  step: number;                    // Written staff step
+  accidental: 'sharp' | 'natural' | null;
+  displaced: boolean;              // Pushed sideways to clear the head a step below
+};
+
+export type StaffEvent = {
+  type: 'note' | 'rest';
+  stackId: string | null;
+  position: number;                // Ticks
+  duration: Duration;
+  dotted: boolean;
+  tuplet?: Tuplet;
+  heads: StaffHead[];              // Lowest first, empty for rests
+  ledgerSteps: number[];           // Ledger lines needed above/below the staff
+  stemUp: boolean;
+  tiedToNext: boolean;             // Held into the next event (note split at a barline)
+  beam: number | null;             // Index into StaffLayout.beams
+};
+
+export type StaffBeam = {
+  events: number[];                // Indices into StaffLayout.events
+  stemUp: boolean;
+};
+
+export type StaffLayout = {
+  events: StaffEvent[];
+  beams: StaffBeam[];
+};
+
+/**
+ * Written staff step and alteration of a note name like "F#3", an octave up (treble 8vb)
+ */
+export const noteNameToStaffStep = (noteName: string): { step: number; alter: number } => {
+  const match = /^([A-G])(#?)(-?\d+)$/.exec(noteName);
+  if (!match) {
+    throw new Error(`Invalid note name: ${noteName}`);
+  }
+  const octave = parseInt(match[3], 10) + 1;
+  return { step: octave * 7 + LETTERS.indexOf(match[1]), alter: match[2] ? 1 : 0 };
+};
+
+/**
+ * Split a length into written note values, longest first
+ * Remainders shorter than a sixteenth are dropped
+ */
+export const splitIntoNoteValues = (ticks: number): NoteValue[] => {
+  const values: NoteValue[] = [];
+  let remaining = ticks;
+  while (remaining >= SHORTEST_VALUE) {
+    const value = NOTE_VALUES.find(candidate => candidate.ticks <= remaining)!;
+    values.push(value);
+    remaining -= value.ticks;
+  }
+  return values;
+};
+
+/**
+ * Rest values for a gap, each starting on a multiple of its own length so rests follow the beats
+ */
+const splitIntoRestValues = (start: number, ticks: number): NoteValue[] => {
+  const values: NoteValue[] = [];
+  let position = start;
+  let remaining = ticks;
+  while (remaining >= SHORTEST_VALUE) {
+    const value = NOTE_VALUES.find(candidate =>
+      !candidate.dotted && candidate.ticks <= remaining && position % candidate.ticks === 0
+    ) ?? NOTE_VALUES.find(candidate => candidate.ticks <= remaining)!;
+    values.push(value);
+    position += value.ticks;
+    remaining -= value.ticks;
+  }
+  return values;
+};
+
+/**
+ * Ledger lines for heads above or below the five staff lines
+ */
+const getLedgerSteps = (steps: number[]): number[] => {
+  const ledgers: number[] = [];
+  const lowest = Math.min(...steps);
+  const highest = Math.max(...steps);
+  for (let step = STAFF_BOTTOM_LINE_STEP - 2; step >= lowest; step -= 2) ledgers.push(step);
+  for (let step = STAFF_TOP_LINE_STEP + 2; step <= highest; step += 2) ledgers.push(step);
+  return ledgers;
+};
+
+/**
+ * Stems go down when the heads sit mostly on or above the middle line
+ */
+const isStemUp = (steps: number[]): boolean =>
+  (Math.min(...steps) + Math.max(...steps)) / 2 < STAFF_MIDDLE_LINE_STEP;
+
+/**
+ * Beam the staff's eighths and sixteenths by the beats of the time signature
+ * Tied continuations of a note take the note's beam override only on its first piece
+ */
+const findBeams = (events: StaffEvent[], overrides: Map<string, BeamOverride>, timeSignature: TimeSignature): StaffBeam[] => {
+  const items = events.map((event, index) => ({
+    position: event.position,
+    ticks: events[index + 1] ? events[index + 1].position - event.position : 0,
+    duration: event.duration,
+    tuplet: event.tuplet,
+    isRest: event.type === 'rest',
+    beam: event.stackId && events[index - 1]?.stackId !== event.stackId ? overrides.get(event.stackId) : undefined
+  }));
+
+  return findBeamGroups(items, timeSignature).map(group => {
+    const steps = group.flatMap(index => events[index].heads.map(head => head.step));
+    const stemUp = isStemUp(steps);
+    group.forEach(index => {
+      events[index].stemUp = stemUp;
+    });
+    return { events: group, stemUp };
+  });
+};
+
+/**
+ * Lay out a tab as treble-staff events
+ * Gaps between stacks become rests, notes crossing a barline are split and tied, and accidentals
+ * are shown against the D major key signature, carrying through the rest of the measure
+ */
+export const layoutNotationStaff = (
+  tab: Tab,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT,
+  timeSignature: TimeSignature = { numerator: 4, denominator: 4 }
+): StaffLayout => {
+  const measureTicks = getTicksPerMeasure(timeSignature);
+  const events: StaffEvent[] = [];
+  const overrides = new Map<string, BeamOverride>();
+  const measureAccidentals = new Map<number, Map<number, number>>();
+  let cursor = 0;
+
+  const keyAlter = (step: number) =>
+    KEY_SIGNATURE_SHARPS.some(sharp => LETTERS[step % 7] === sharp.letter) ? 1 : 0;
+
+  const getAccidental = (position: number, step: number, alter: number): StaffHead['accidental'] => {
+    const measure = Math.floor(position / measureTicks);
+    if (!measureAccidentals.has(measure)) measureAccidentals.set(measure, new Map());
+    const current = measureAccidentals.get(measure)!;
+    const expected = current.get(step) ?? keyAlter(step);
+    current.set(step, alter);
+    if (alter === expected) return null;
+    return alter === 1 ? 'sharp' : 'natural';
+  };
+
+  // Cut a span into pieces that each stay inside one measure
+  const splitAtBarlines = (start: number, end: number): Array<{ start: number; ticks: number }> => {
+    const pieces: Array<{ start: number; ticks: number }> = [];
+    let position = start;
+    while (position < end) {
+      const barline = (Math.floor(position / measureTicks) + 1) * measureTicks;
+      const pieceEnd = Math.min(barline, end);
+      pieces.push({ start: position, ticks: pieceEnd - position });
+      position = pieceEnd;
+    }
+    return pieces;
+  };
+
+  const pushRests = (start: number, end: number) => {
+    splitAtBarlines(start, end).forEach(piece => {
+      const values = piece.ticks === measureTicks
+        ? [{ duration: 'whole' as Duration, dotted: false, ticks: measureTicks }]
+        : splitIntoRestValues(piece.start, piece.ticks);
+      let position = piece.start;
+      values.forEach(value => {
+        events.push({
+          type: 'rest',
+          stackId: null,
+          position,
+          duration: value.duration,
+          dotted: value.dotted,
+          heads: [],
+          ledgerSteps: [],
+          stemUp: true,
+          tiedToNext: false,
+          beam: null
+        });
+        position += value.ticks;
+      });
+    });
+  };
+
+  const getHeads = (stack: NoteStack): Array<{ noteName: string; step: number; alter: number }> => {
+    const heads = new Map<string, { noteName: string; step: number; alter: number }>();
+    stack.notes.forEach(note => {
+      try {
+        const noteName = fretToNoteName(note.fret, note.string, instrument);
+        heads.set(noteName, { noteName, ...noteNameToStaffStep(noteName) });
+      } catch {
+        // Notes off the instrument have no pitch to show
+      }
+    });
+    return [...heads.values()].sort((a, b) => a.step - b.step);
+  };
+
+  [...tab].sort((a, b) => a.musicalPosition - b.musicalPosition).forEach(stack => {
+    const pitches = getHeads(stack);
+    if (pitches.length === 0) return;
+    if (stack.beam) overrides.set(stack.id, stack.beam);
+
+    if (stack.musicalPosition > cursor) pushRests(cursor, stack.musicalPosition);
+
+    const end = stack.musicalPosition + getStackTicks(stack);
+    const pieces = stack.tuplet
+      ? [{ start: stack.musicalPosition, values: [{ duration: stack.duration, dotted: false, ticks: end - stack.musicalPosition }] }]
+      : splitAtBarlines(stack.musicalPosition, end).map(piece => ({ start: piece.start, values: splitIntoNoteValues(piece.ticks) }));
+    const parts = pieces.flatMap(piece => {
+      let position = piece.start;
+      return piece.values.map(value => {
+        const part = { position, value };
+        position += value.ticks;
+        return part;
+      });
+    });
+
+    parts.forEach((part, partIndex) => {
+      const steps = pitches.map(pitch => pitch.step);
+      const heads: StaffHead[] = [];
+      pitches.forEach((pitch, index) => {
+        heads.push({
+          noteName: pitch.noteName,
+          step: pitch.step,
+          accidental: partIndex === 0 ? getAccidental(part.position, pitch.step, pitch.alter) : null,
+          displaced: index > 0 && pitch.step - pitches[index - 1].step === 1 && !heads[index - 1].displaced
+        });
+      });
+
+      events.push({
+        type: 'note',
+        stackId: stack.id,
+        position: part.position,
+        duration: part.value.duration,
+        dotted: part.value.dotted,
+        ...(stack.tuplet && { tuplet: stack.tuplet }),
+        heads,
+        ledgerSteps: getLedgerSteps(steps),
+        stemUp: isStemUp(steps),
+        tiedToNext: partIndex < parts.length - 1,
+        beam: null
+      });
+    });
+
+    cursor = Math.max(cursor, end);
+  });
+
+  // Complete the last measure with rests
+  if (cursor % measureTicks !== 0) {
+    pushRests(cursor, (Math.floor(cursor / measureTicks) + 1) * measureTicks);
+  }
+
+  const beams = findBeams(events, overrides, timeSignature);
+  beams.forEach((beam, index) => beam.events.forEach(event => {
+    events[event].beam = index;
+  }));
+  return { events, beams };
+};
@@ -1,14 +1,17 @@
 // NoteStack Layout System
 // Based on Strumstick Tab Viewer Architecture Specification v2.0
 
-import type { Tab, LayoutItem, MeasureLine, Duration } from '../types/notestack';
+import type { Tab, LayoutItem, MeasureLine, Duration, Tuplet } from '../types/notestack';
 import { 
   INITIAL_INDENT, 
   MEASURE_LINE_WIDTH, 
   MEASURE_LINE_SPACING, 
   PIXELS_PER_TICK,
   DURATION_TO_TICKS,
-  TICKS_PER_MEASURE_4_4
+  TICKS_PER_MEASURE_4_4,
+  DEFAULT_INSTRUMENT,
+  getDurationTicks,
+  getStackTicks
 } from '../types/notestack';
 
 /**
@@ -26,7 +29,7 @@ export const calculateDisplayPositions = (tab: Tab): LayoutItem[] => {
     
     // Add width of previous stack
     if (prevStack) {
-      const prevStackWidth = durationToPixels(prevStack.duration);
+      const prevStackWidth = durationToPixels(prevStack.duration, prevStack.tuplet);
       currentDisplayX += prevStackWidth;
       
       // Add measure lines and spacing
@@ -60,10 +63,10 @@ export const calculateDisplayPositions = (tab: Tab): LayoutItem[] => {
 };
 
 /**
- * Convert duration to pixel width
+ * Convert duration to pixel width (tuplet notes are proportionally narrower)
  */
-export const durationToPixels = (duration: Duration): number => {
-  return DURATION_TO_TICKS[duration] * PIXELS_PER_TICK;
+export const durationToPixels = (duration: Duration, tuplet?: Tuplet): number => {
+  return getDurationTicks(duration, tuplet) * PIXELS_PER_TICK;
 };
 
 /**
@@ -109,7 +112,7 @@ export const generateMeasureLines = (tab: Tab): MeasureLine[] => {
   if (tab.length === 0) return [];
   
   const lastStack = tab[tab.length - 1];
-  const totalDuration = lastStack.musicalPosition + DURATION_TO_TICKS[lastStack.duration];
+  const totalDuration = lastStack.musicalPosition + getStackTicks(lastStack);
   
   const measureLines: MeasureLine[] = [];
   
@@ -142,8 +145,8 @@ export const calculateMeasureLineDisplayX = (musicalPosition: number, tab: Tab):
   }
   
   // Calculate position based on the stack before plus its duration
-  const stackEndX = stackBefore.displayX + durationToPixels(stackBefore.duration);
-  const remainingTicks = musicalPosition - (stackBefore.musicalPosition + DURATION_TO_TICKS[stackBefore.duration]);
+  const stackEndX = stackBefore.displayX + durationToPixels(stackBefore.duration, stackBefore.tuplet);
+  const remainingTicks = musicalPosition - (stackBefore.musicalPosition + getStackTicks(stackBefore));
   
   return stackEndX + (remainingTicks * PIXELS_PER_TICK) + MEASURE_LINE_SPACING;
 };
@@ -162,7 +165,7 @@ export const getTotalTabWidth = (tab: Tab): number => {
   
   if (!lastItem) return minimumWidth;
   
-  const calculatedWidth = lastItem.displayX + durationToPixels(lastItem.duration) + 40; // Add some padding at the end
+  const calculatedWidth = lastItem.displayX + durationToPixels(lastItem.duration, lastItem.tuplet) + 40; // Add some padding at the end
   
   // Return the larger of calculated width or minimum width
   return Math.max(calculatedWidth, minimumWidth);
@@ -175,7 +178,7 @@ export const findStackAtDisplayX = (tab: Tab, displayX: number): LayoutItem | nu
   const layoutItems = calculateDisplayPositions(tab);
   
   for (const item of layoutItems) {
-    const stackWidth = durationToPixels(item.duration);
+    const stackWidth = durationToPixels(item.duration, item.tuplet);
     if (displayX >= item.displayX && displayX <= item.displayX + stackWidth) {
       return item;
     }
@@ -202,23 +205,23 @@ export const displayXToMusicalPosition = (tab: Tab, displayX: number): number =>
     
     if (!nextItem || displayX <= nextItem.displayX) {
       // Position is within or after this stack
-      if (displayX <= currentItem.displayX + durationToPixels(currentItem.duration)) {
+      if (displayX <= currentItem.displayX + durationToPixels(currentItem.duration, currentItem.tuplet)) {
         // Position is within this stack
         return currentItem.musicalPosition;
       } else {
         // Position is after this stack, interpolate
-        const pixelsFromStackEnd = displayX - (currentItem.displayX + durationToPixels(currentItem.duration));
+        const pixelsFromStackEnd = displayX - (currentItem.displayX + durationToPixels(currentItem.duration, currentItem.tuplet));
         const additionalTicks = pixelsFromStackEnd / PIXELS_PER_TICK;
-        return currentItem.musicalPosition + DURATION_TO_TICKS[currentItem.duration] + additionalTicks;
+        return currentItem.musicalPosition + getStackTicks(currentItem) + additionalTicks;
       }
     }
   }
   
   // Position is after the last stack
   const lastItem = layoutItems[layoutItems.length - 1];
-  const pixelsFromLastStack = displayX - (lastItem.displayX + durationToPixels(lastItem.duration));
+  const pixelsFromLastStack = displayX - (lastItem.displayX + durationToPixels(lastItem.duration, lastItem.tuplet));
   const additionalTicks = pixelsFromLastStack / PIXELS_PER_TICK;
-  return lastItem.musicalPosition + DURATION_TO_TICKS[lastItem.duration] + additionalTicks;
+  return lastItem.musicalPosition + getStackTicks(lastItem) + additionalTicks;
 };
 
 /**
@@ -234,10 +237,13 @@ export const snapToGrid = (position: number, snapToQuarterNotes: boolean = true)
 /**
  * Get Y positions for strings (for rendering)
  */
-export const getStringPositions = (stringSpacing: number = 30, topMargin: number = 50): number[] => {
-  return [
-    topMargin + (stringSpacing * 2), // String 0 (Low D) - bottom
-    topMargin + stringSpacing,       // String 1 (A) - middle  
-    topMargin                        // String 2 (Hi D) - top
-  ];
+export const getStringPositions = (
+  stringSpacing: number = 30,
+  topMargin: number = 50,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
+): number[] => {
+  // String 0 (lowest) at the bottom, the highest string at topMargin
+  return Array.from({ length: stringCount }, (_, stringIndex) =>
+    topMargin + stringSpacing * (stringCount - 1 - stringIndex)
+  );
 }; 
\ No newline at end of file
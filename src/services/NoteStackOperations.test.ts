@@ -7,11 +7,18 @@ import {
   updateStackDuration,
   moveStack,
   removeStack,
+  updateStackStructure,
+  setNoteTechnique,
+  findPreviousNoteOnString,
+  findRepeatStart,
+  findTupletGroups,
   getNextAvailablePosition,
   validateTab,
+  removeNotesOffInstrument,
   getTotalDuration
 } from './NoteStackOperations';
 import type { Tab, NoteStack, Duration } from '../types/notestack';
+import { getTechniqueSymbol, INSTRUMENT_PROFILES } from '../types/notestack';
 
 describe('NoteStack Operations', () => {
   describe('addNoteToStack', () => {
@@ -45,6 +52,15 @@ describe('NoteStack Operations', () => {
       expect(result[0].notes).toContainEqual({ string: 1, fret: 7 });
     });
 
+    it('should store the tuplet on the stack', () => {
+      const triplet = { actual: 3, normal: 2 };
+      const withTuplet = addNoteToStack([], 320, 0, 2, 'eighth', triplet);
+      const cleared = addNoteToStack(withTuplet, 320, 1, 4, 'eighth');
+      
+      expect(withTuplet[0].tuplet).toEqual(triplet);
+      expect(cleared[0].tuplet).toBeUndefined();
+    });
+
     it('should replace note on same string in existing stack', () => {
       const existingStack: NoteStack = {
         id: 'stack-1',
@@ -149,6 +165,40 @@ describe('NoteStack Operations', () => {
     });
   });
 
+  describe('removeNotesOffInstrument', () => {
+    it('should drop notes on strings the instrument lacks and empty stacks with them', () => {
+      const tab: Tab = [
+        { id: 'stack-1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 1 }, { string: 3, fret: 2 }] },
+        { id: 'stack-2', musicalPosition: 960, duration: 'quarter', notes: [{ string: 3, fret: 4 }] }
+      ];
+      
+      const result = removeNotesOffInstrument(tab, INSTRUMENT_PROFILES['strumstick-dad']);
+      
+      expect(result).toHaveLength(1);
+      expect(result[0].notes).toEqual([{ string: 0, fret: 1 }]);
+    });
+
+    it('should return the same tab when every note fits', () => {
+      const tab: Tab = [
+        { id: 'stack-1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 3, fret: 2 }] }
+      ];
+      
+      expect(removeNotesOffInstrument(tab, INSTRUMENT_PROFILES['dulcimer-4'])).toBe(tab);
+    });
+
+    it('should drop notes on frets the fretboard lacks', () => {
+      const tab: Tab = [
+        { id: 'stack-1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 6.5 }, { string: 1, fret: 3 }] },
+        { id: 'stack-2', musicalPosition: 960, duration: 'quarter', notes: [{ string: 2, fret: 13 }] }
+      ];
+      
+      const result = removeNotesOffInstrument(tab, INSTRUMENT_PROFILES['strumstick-dad']);
+      
+      expect(result).toHaveLength(1);
+      expect(result[0].notes).toEqual([{ string: 1, fret: 3 }]);
+    });
+  });
+
   describe('findStackAtPosition', () => {
     it('should find stack at exact position', () => {
       const stack: NoteStack = {
@@ -264,6 +314,107 @@ describe('NoteStack Operations', () => {
     });
   });
 
+  describe('updateStackStructure', () => {
+    it('should set and clear repeat markers on one stack', () => {
+      const tab: Tab = [
+        { id: 'stack-1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 1 }] },
+        { id: 'stack-2', musicalPosition: 3840, duration: 'quarter', notes: [{ string: 1, fret: 3 }] }
+      ];
+      
+      const marked = updateStackStructure(tab, 'stack-2', { repeatEnd: { jumpToStackId: 'stack-1' }, marker: 'fine' });
+      expect(marked[1]).toMatchObject({ repeatEnd: { jumpToStackId: 'stack-1' }, marker: 'fine' });
+      expect(marked[0]).toBe(tab[0]);
+      
+      const cleared = updateStackStructure(marked, 'stack-2', { marker: undefined });
+      expect('marker' in cleared[1]).toBe(false);
+      expect(cleared[1].repeatEnd).toBeDefined();
+    });
+
+    it('should find the closest repeat start before a position', () => {
+      const tab: Tab = [
+        { id: 'stack-1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 0, fret: 1 }] },
+        { id: 'stack-2', musicalPosition: 3840, duration: 'quarter', notes: [{ string: 1, fret: 3 }], repeatStart: true },
+        { id: 'stack-3', musicalPosition: 7680, duration: 'quarter', notes: [{ string: 2, fret: 5 }] }
+      ];
+      
+      expect(findRepeatStart(tab, 7680)?.id).toBe('stack-2');
+      expect(findRepeatStart(tab, 960)?.id).toBe('stack-1');
+    });
+  });
+
+  describe('setNoteTechnique', () => {
+    const tab: Tab = [
+      { id: 'stack-1', musicalPosition: 0, duration: 'eighth', notes: [{ string: 0, fret: 2 }, { string: 1, fret: 0 }] }
+    ];
+
+    it('should set the technique on the note on one string only', () => {
+      const result = setNoteTechnique(tab, 0, 0, 'hammer-on');
+      
+      expect(result[0].notes).toEqual([{ string: 0, fret: 2, technique: 'hammer-on' }, { string: 1, fret: 0 }]);
+      expect(tab[0].notes[0]).not.toHaveProperty('technique');
+    });
+
+    it('should clear the technique when given null', () => {
+      const result = setNoteTechnique(setNoteTechnique(tab, 0, 1, 'vibrato'), 0, 1, null);
+      
+      expect(result[0].notes[1]).toEqual({ string: 1, fret: 0 });
+    });
+  });
+
+  describe('findPreviousNoteOnString', () => {
+    const tab: Tab = [
+      { id: 'stack-1', musicalPosition: 0, duration: 'eighth', notes: [{ string: 0, fret: 5 }] },
+      { id: 'stack-2', musicalPosition: 480, duration: 'eighth', notes: [{ string: 1, fret: 3 }] },
+      { id: 'stack-3', musicalPosition: 960, duration: 'eighth', notes: [{ string: 0, fret: 3, technique: 'slide' }] }
+    ];
+
+    it('should skip stacks without a note on the string', () => {
+      const previous = findPreviousNoteOnString(tab, 960, 0);
+      
+      expect(previous?.stack.id).toBe('stack-1');
+      expect(previous?.fret).toBe(5);
+      expect(findPreviousNoteOnString(tab, 0, 0)).toBeNull();
+    });
+
+    it('should point slides the way they travel', () => {
+      expect(getTechniqueSymbol('slide', 5, 3)).toBe('\\');
+      expect(getTechniqueSymbol('slide', 3, 5)).toBe('/');
+      expect(getTechniqueSymbol('pull-off', 5, 3)).toBe('p');
+    });
+  });
+
+  describe('findTupletGroups', () => {
+    const triplet = { actual: 3, normal: 2 };
+    const eighthTriplet = (position: number): NoteStack => ({
+      id: `stack-${position}`,
+      musicalPosition: position,
+      duration: 'eighth',
+      tuplet: triplet,
+      notes: [{ string: 0, fret: 0 }]
+    });
+
+    it('should group consecutive tuplet stacks until their time is used up', () => {
+      const tab: Tab = [0, 320, 640, 960, 1280, 1600].map(eighthTriplet);
+      
+      const groups = findTupletGroups(tab);
+      
+      expect(groups.map(group => [group.start, group.end])).toEqual([[0, 960], [960, 1920]]);
+      expect(groups[0].stacks).toHaveLength(3);
+    });
+
+    it('should break groups at gaps and plain stacks', () => {
+      const tab: Tab = [
+        eighthTriplet(0),
+        { id: 'plain', musicalPosition: 320, duration: 'eighth', notes: [{ string: 1, fret: 2 }] },
+        eighthTriplet(1920)
+      ];
+      
+      const groups = findTupletGroups(tab);
+      
+      expect(groups.map(group => group.stacks.map(stack => stack.id))).toEqual([['stack-0'], ['stack-1920']]);
+    });
+  });
+
   describe('getNextAvailablePosition', () => {
     it('should stay in place when cursor is not on existing stack', () => {
       const tab: Tab = [
@@ -326,6 +477,15 @@ describe('NoteStack Operations', () => {
       expect(result.errors).toContain('Invalid string index: -1 in stack stack-1');
       expect(result.errors).toContain('Invalid string index: 3 in stack stack-2');
     });
+
+    it('should check strings and frets against the instrument', () => {
+      const tab: Tab = [
+        { id: 'stack-1', musicalPosition: 0, duration: 'quarter', notes: [{ string: 3, fret: 6.5 }] }
+      ];
+      
+      expect(validateTab(tab).isValid).toBe(false);
+      expect(validateTab(tab, INSTRUMENT_PROFILES['dulcimer-4']).isValid).toBe(true);
+    });
   });
 
   describe('getTotalDuration', () => {
@@ -1,8 +1,15 @@
 // NoteStack Core Operations
 // Based on Strumstick Tab Viewer Architecture Specification v2.0
 
-import type { NoteStack, Tab, Duration } from '../types/notestack';
-import { TICKS_PER_QUARTER, DURATION_TO_TICKS } from '../types/notestack';
+import type { NoteStack, Tab, Duration, Tuplet, Technique, InstrumentProfile } from '../types/notestack';
+import {
+  TICKS_PER_QUARTER,
+  DURATION_TO_TICKS,
+  DEFAULT_INSTRUMENT,
+  getStackTicks,
+  getFretSemitones,
+  isValidString
+} from '../types/notestack';
 
 // Utility function to generate unique IDs
 const generateUniqueId = (): string => {
@@ -15,13 +22,15 @@ const generateUniqueId = (): string => {
  * Add a note to a stack at a specific position
  * If no stack exists at the position, creates a new one
  * If a stack exists, adds/replaces the note on the specified string
+ * A tuplet makes the stack part of a tuplet group; omitting it makes the stack a plain note
  */
 export const addNoteToStack = (
   tab: Tab, 
   position: number, 
   string: number, 
   fret: number, 
-  duration: Duration
+  duration: Duration,
+  tuplet?: Tuplet
 ): Tab => {
   const existingStack = tab.find(stack => stack.musicalPosition === position);
   
@@ -30,18 +39,21 @@ export const addNoteToStack = (
     const updatedNotes = existingStack.notes.filter(note => note.string !== string);
     updatedNotes.push({ string, fret });
     
-    return tab.map(stack => 
-      stack.id === existingStack.id 
-        ? { ...stack, notes: updatedNotes, duration }
-        : stack
-    );
+    return tab.map(stack => {
+      if (stack.id !== existingStack.id) return stack;
+      const updated: NoteStack = { ...stack, notes: updatedNotes, duration };
+      if (tuplet) updated.tuplet = tuplet;
+      else delete updated.tuplet;
+      return updated;
+    });
   } else {
     // Create new stack
     const newStack: NoteStack = {
       id: generateUniqueId(),
       musicalPosition: position,
       duration,
-      notes: [{ string, fret }]
+      notes: [{ string, fret }],
+      ...(tuplet && { tuplet })
     };
     
     return [...tab, newStack].sort((a, b) => a.musicalPosition - b.musicalPosition);
@@ -62,6 +74,25 @@ export const removeNoteFromString = (tab: Tab, position: number, string: number)
   }).filter(Boolean) as Tab;
 };
 
+/**
+ * Remove notes on strings or frets the instrument does not have (e.g. 6½ after leaving a half-fret map)
+ * Stacks left without notes are removed; the tab is returned unchanged when every note fits
+ */
+export const removeNotesOffInstrument = (tab: Tab, instrument: InstrumentProfile): Tab => {
+  const fits = (note: NoteStack['notes'][number]) =>
+    isValidString(note.string, instrument) &&
+    getFretSemitones(note.fret, instrument.fretMap, instrument.maxFret) !== null;
+
+  if (tab.every(stack => stack.notes.every(fits))) {
+    return tab;
+  }
+  
+  return tab.map(stack => {
+    const updatedNotes = stack.notes.filter(fits);
+    return updatedNotes.length > 0 ? { ...stack, notes: updatedNotes } : null;
+  }).filter(Boolean) as Tab;
+};
+
 /**
  * Find stack at specific position
  */
@@ -122,6 +153,125 @@ export const removeStack = (tab: Tab, stackId: string): Tab => {
   return tab.filter(stack => stack.id !== stackId);
 };
 
+// Structural annotations a stack can carry besides its notes
+export type StackStructure = Pick<NoteStack, 'repeatStart' | 'repeatEnd' | 'ending' | 'marker' | 'beam'>;
+
+/**
+ * Set or clear repeat, ending, navigation markers and beam overrides on a stack
+ * Keys passed as undefined are removed from the stack
+ */
+export const updateStackStructure = (tab: Tab, stackId: string, structure: Partial<StackStructure>): Tab => {
+  return tab.map(stack => {
+    if (stack.id !== stackId) return stack;
+    
+    const updated = { ...stack, ...structure };
+    (Object.keys(structure) as Array<keyof StackStructure>).forEach(key => {
+      if (structure[key] === undefined) delete updated[key];
+    });
+    return updated;
+  });
+};
+
+/**
+ * Find the stack a repeat ending at a position should jump back to
+ * The closest repeat start at or before the position, else the first stack
+ */
+export const findRepeatStart = (tab: Tab, position: number): NoteStack | undefined => {
+  const starts = tab.filter(stack => stack.repeatStart && stack.musicalPosition <= position);
+  return starts.length > 0
+    ? starts.reduce((closest, stack) => stack.musicalPosition > closest.musicalPosition ? stack : closest)
+    : tab[0];
+};
+
+/**
+ * Set or clear the playing technique of the note on a string at a position
+ */
+export const setNoteTechnique = (tab: Tab, position: number, string: number, technique: Technique | null): Tab => {
+  return tab.map(stack => {
+    if (stack.musicalPosition !== position) return stack;
+    
+    return {
+      ...stack,
+      notes: stack.notes.map(note => {
+        if (note.string !== string) return note;
+        const updated = { ...note };
+        if (technique) updated.technique = technique;
+        else delete updated.technique;
+        return updated;
+      })
+    };
+  });
+};
+
+/**
+ * Find the closest earlier note on a string - the note a hammer-on, pull-off or slide leads from
+ */
+export const findPreviousNoteOnString = (
+  tab: Tab,
+  position: number,
+  string: number
+): { stack: NoteStack; fret: number } | null => {
+  let previous: { stack: NoteStack; fret: number } | null = null;
+  
+  for (const stack of tab) {
+    if (stack.musicalPosition >= position) continue;
+    const note = stack.notes.find(candidate => candidate.string === string);
+    if (note && (!previous || stack.musicalPosition > previous.stack.musicalPosition)) {
+      previous = { stack, fret: note.fret };
+    }
+  }
+  
+  return previous;
+};
+
+// A run of stacks drawn under one tuplet bracket
+export interface TupletGroup {
+  tuplet: Tuplet;
+  start: number; // Position of the first stack
+  end: number; // Position where the group's time is used up
+  stacks: NoteStack[];
+}
+
+/**
+ * Group consecutive tuplet stacks for bracket drawing
+ * A group holds `actual` notes (or their time) of the same ratio with no gaps
+ */
+export const findTupletGroups = (tab: Tab): TupletGroup[] => {
+  const groups: TupletGroup[] = [];
+  let current: TupletGroup | null = null;
+  
+  let span = 0; // The group lasts `normal` notes of its first stack's value
+  
+  for (const stack of [...tab].sort((a, b) => a.musicalPosition - b.musicalPosition)) {
+    const { tuplet } = stack;
+    const continues = current !== null && tuplet !== undefined &&
+      tuplet.actual === current.tuplet.actual &&
+      tuplet.normal === current.tuplet.normal &&
+      stack.musicalPosition === current.end;
+    
+    if (current && !continues) {
+      groups.push(current);
+      current = null;
+    }
+    if (!tuplet) continue;
+    
+    if (!current) {
+      current = { tuplet, start: stack.musicalPosition, end: stack.musicalPosition, stacks: [] };
+      span = DURATION_TO_TICKS[stack.duration] * tuplet.normal;
+    }
+    current.stacks.push(stack);
+    current.end = stack.musicalPosition + getStackTicks(stack);
+    
+    if (current.end - current.start >= span - 1e-6) {
+      groups.push(current);
+      current = null;
+    }
+  }
+  
+  if (current) groups.push(current);
+  return groups;
+};
+
 /**
  * Get the next available position for Tab key navigation
  * If cursor is on existing note stack, jump forward by that stack's duration
@@ -133,7 +283,7 @@ export const getNextAvailablePosition = (tab: Tab, fromPosition: number = 0): nu
   
   if (stackAtPosition) {
     // Cursor is on an existing note stack - jump forward by its duration
-    const stackDurationTicks = DURATION_TO_TICKS[stackAtPosition.duration];
+    const stackDurationTicks = getStackTicks(stackAtPosition);
     return fromPosition + stackDurationTicks;
   } else {
     // Cursor is not on a note stack - don't move
@@ -162,9 +312,12 @@ export const getPreviousStackPosition = (tab: Tab, fromPosition: number): number
 };
 
 /**
- * Validate that the tab data is consistent
+ * Validate that the tab data is consistent with itself and playable on the instrument
  */
-export const validateTab = (tab: Tab): { isValid: boolean; errors: string[] } => {
+export const validateTab = (
+  tab: Tab,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
   
   // Check for duplicate positions
@@ -177,10 +330,10 @@ export const validateTab = (tab: Tab): { isValid: boolean; errors: string[] } =>
   // Check for valid string indices
   for (const stack of tab) {
     for (const note of stack.notes) {
-      if (note.string < 0 || note.string > 2) {
+      if (!isValidString(note.string, instrument)) {
         errors.push(`Invalid string index: ${note.string} in stack ${stack.id}`);
       }
-      if (note.fret < 0 || note.fret > 12) {
+      if (getFretSemitones(note.fret, instrument.fretMap, instrument.maxFret) === null) {
         errors.push(`Invalid fret number: ${note.fret} in stack ${stack.id}`);
       }
     }
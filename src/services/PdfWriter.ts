@@ -0,0 +1,123 @@
+// PDF Writer
+// Minimal dependency-free PDF 1.4 output for engraved score pages
+// Uses the standard Helvetica fonts, so no font embedding is needed
+
+import type { EngravedPage, EngravingElement } from './ScoreEngraver';
+
+// CSS pixels (96 dpi) to PDF points (72 dpi)
+const PX_TO_PT = 0.75;
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em (from the standard AFM metrics)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const BOLD_WIDTH_FACTOR = 1.05; // Helvetica-Bold runs slightly wider
+
+// Kappa for approximating a circle with four cubic Béziers
+const CIRCLE_KAPPA = 0.5523;
+
+/**
+ * Approximate rendered text width in the units of `size`
+ */
+export const measureText = (text: string, size: number, bold = false): number => {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+};
+
+// PDF strings are WinAnsi here; characters outside Latin-1 become "?"
+const escapePdfText = (text: string): string =>
+  Array.from(text, char => (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Convert one display-list element into PDF content stream operators
+ */
+const renderElement = (element: EngravingElement, pageHeight: number): string => {
+  const x = (value: number) => num(value * PX_TO_PT);
+  const y = (value: number) => num((pageHeight - value) * PX_TO_PT);
+
+  switch (element.type) {
+    case 'line':
+      return `${num(element.width * PX_TO_PT)} w ${x(element.x1)} ${y(element.y1)} m ${x(element.x2)} ${y(element.y2)} l S`;
+    case 'rect':
+      return `1 g ${x(element.x)} ${y(element.y + element.height)} ${num(element.width * PX_TO_PT)} ${num(element.height * PX_TO_PT)} re f 0 g`;
+    case 'curve':
+      return `${num(element.width * PX_TO_PT)} w ${x(element.x1)} ${y(element.y1)} m ` +
+        `${x(element.cx1)} ${y(element.cy1)} ${x(element.cx2)} ${y(element.cy2)} ${x(element.x2)} ${y(element.y2)} c S`;
+    case 'dot': {
+      const { cx, cy, r } = element;
+      const k = r * CIRCLE_KAPPA;
+      return [
+        `${x(cx + r)} ${y(cy)} m`,
+        `${x(cx + r)} ${y(cy - k)} ${x(cx + k)} ${y(cy - r)} ${x(cx)} ${y(cy - r)} c`,
+        `${x(cx - k)} ${y(cy - r)} ${x(cx - r)} ${y(cy - k)} ${x(cx - r)} ${y(cy)} c`,
+        `${x(cx - r)} ${y(cy + k)} ${x(cx - k)} ${y(cy + r)} ${x(cx)} ${y(cy + r)} c`,
+        `${x(cx + k)} ${y(cy + r)} ${x(cx + r)} ${y(cy + k)} ${x(cx + r)} ${y(cy)} c f`
+      ].join(' ');
+    }
+    case 'text': {
+      const width = measureText(element.text, element.size, element.bold);
+      const offset = element.anchor === 'middle' ? width / 2 : element.anchor === 'end' ? width : 0;
+      const font = element.bold ? '/F2' : '/F1';
+      return `BT ${font} ${num(element.size * PX_TO_PT)} Tf ${x(element.x - offset)} ${y(element.y)} Td (${escapePdfText(element.text)}) Tj ET`;
+    }
+  }
+};
+
+/**
+ * Write engraved pages as a PDF document
+ * @returns The file bytes, ready to be wrapped in a Blob
+ */
+export const renderPdf = (pages: EngravedPage[], title?: string): Uint8Array => {
+  const objects: string[] = [];
+  const addObject = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject(''); // Filled in once the page tree exists
+  const pagesId = addObject('');
+  const fontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const infoId = addObject(`<< /Producer (Strumstick Tab Viewer)${title ? ` /Title (${escapePdfText(title)})` : ''} >>`);
+
+  const pageIds = pages.map(page => {
+    const content = page.elements.map(element => renderElement(element, page.height)).join('\n');
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width * PX_TO_PT)} ${num(page.height * PX_TO_PT)}] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Every character is a single Latin-1 byte, so string offsets are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getPerformedMeasures,
+  expandRepeats,
+  unrollTab,
+  performanceToWrittenPosition,
+  writtenToPerformancePosition,
+  getTicksPerMeasure
+} from './PlaybackOrder';
+import type { NoteStack, Tab } from '../types/notestack';
+
+const MEASURE = 3840;
+
+// One whole-note stack per measure, with optional structure per measure
+const buildTab = (measures: number, structure: Record<number, Partial<NoteStack>> = {}): Tab =>
+  Array.from({ length: measures }, (_, index) => ({
+    id: `m${index}`,
+    musicalPosition: index * MEASURE,
+    duration: 'whole' as const,
+    notes: [{ string: 0, fret: index }],
+    ...structure[index]
+  }));
+
+describe('Playback Order', () => {
+  it('should play a tab without structure straight through', () => {
+    const tab = buildTab(3);
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 2]);
+    expect(expandRepeats(tab)).toEqual([{ start: 0, end: 3 * MEASURE, performanceStart: 0 }]);
+  });
+
+  it('should repeat back to the repeat start', () => {
+    const tab = buildTab(4, {
+      1: { repeatStart: true },
+      2: { repeatEnd: { jumpToStackId: 'm1' } }
+    });
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 2, 1, 2, 3]);
+  });
+
+  it('should honour timesToRepeat and fall back to the nearest repeat start', () => {
+    const tab = buildTab(2, {
+      0: { repeatStart: true },
+      1: { repeatEnd: { jumpToStackId: 'missing', timesToRepeat: 2 } }
+    });
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 0, 1, 0, 1]);
+  });
+
+  it('should take 1st and 2nd endings on the matching pass', () => {
+    const tab = buildTab(5, {
+      2: { ending: { passes: [1] }, repeatEnd: { jumpToStackId: 'm0' } },
+      3: { ending: { passes: [2] } }
+    });
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 2, 0, 1, 3, 4]);
+  });
+
+  it('should take each of two consecutive volta sections', () => {
+    // |: m0 [1. m1] :| [2. m2] |: m3 [1. m4] :| [2. m5]
+    const tab = buildTab(6, {
+      0: { repeatStart: true },
+      1: { ending: { passes: [1] }, repeatEnd: { jumpToStackId: 'm0' } },
+      2: { ending: { passes: [2] } },
+      3: { repeatStart: true },
+      4: { ending: { passes: [1] }, repeatEnd: { jumpToStackId: 'm3' } },
+      5: { ending: { passes: [2] } }
+    });
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 0, 2, 3, 4, 3, 5]);
+  });
+
+  it('should expand D.C. al Fine', () => {
+    const tab = buildTab(4, {
+      1: { marker: 'fine' },
+      3: { marker: 'dc-al-fine' }
+    });
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 2, 3, 0, 1]);
+  });
+
+  it('should expand D.S. al Coda without retaking repeats', () => {
+    const tab = buildTab(6, {
+      1: { marker: 'segno', repeatStart: true },
+      2: { marker: 'to-coda', repeatEnd: { jumpToStackId: 'm1' } },
+      3: { marker: 'ds-al-coda' },
+      5: { marker: 'coda' }
+    });
+
+    expect(getPerformedMeasures(tab)).toEqual([0, 1, 2, 1, 2, 3, 1, 2, 5]);
+  });
+
+  it('should unroll stacks to performance positions and map positions both ways', () => {
+    const tab = buildTab(3, {
+      1: { repeatEnd: { jumpToStackId: 'm0' } }
+    });
+    const segments = expandRepeats(tab);
+    const performed = unrollTab(tab);
+
+    expect(performed.map(stack => stack.musicalPosition / MEASURE)).toEqual([0, 1, 2, 3, 4]);
+    expect(performed.map(stack => stack.writtenPosition / MEASURE)).toEqual([0, 1, 0, 1, 2]);
+    expect(new Set(performed.map(stack => stack.id)).size).toBe(performed.length);
+    expect(performanceToWrittenPosition(segments, 2 * MEASURE + 960)).toBe(960);
+    expect(writtenToPerformancePosition(segments, 2 * MEASURE)).toBe(4 * MEASURE);
+  });
+
+  it('should size measures from the time signature', () => {
+    expect(getTicksPerMeasure({ numerator: 3, denominator: 4 })).toBe(2880);
+    expect(getTicksPerMeasure({ numerator: 6, denominator: 8 })).toBe(2880);
+  });
+});
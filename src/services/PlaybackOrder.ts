@@ -0,0 +1,219 @@
+// Playback Order
+// Unrolls repeats, 1st/2nd endings and D.C./D.S. jumps into a performance order
+// All structure is measure-aligned: a marker applies to the measure its stack sits in
+
+import type { NoteStack, Tab, NavigationMarker } from '../types/notestack';
+import { TICKS_PER_MEASURE_4_4, getStackTicks } from '../types/notestack';
+
+// A contiguous written range [start, end) played starting at performanceStart
+export interface PerformanceSegment {
+  start: number;
+  end: number;
+  performanceStart: number;
+}
+
+// A stack placed at its performance position, remembering where it is written
+export type PerformedStack = NoteStack & { writtenPosition: number };
+
+// Structure gathered for one measure
+interface MeasureInfo {
+  repeatEnd?: { target: number; times: number };
+  ending?: { passes: number[]; measures: number };
+  markers: NavigationMarker[];
+}
+
+// Safety net against malformed structure (e.g. a repeat that jumps forward)
+const MAX_PASSES_PER_MEASURE = 32;
+
+/**
+ * Ticks in one measure for a time signature
+ */
+export const getTicksPerMeasure = (timeSignature?: { numerator: number; denominator: number }): number => {
+  if (!timeSignature) return TICKS_PER_MEASURE_4_4;
+  return timeSignature.numerator * (TICKS_PER_MEASURE_4_4 / timeSignature.denominator);
+};
+
+/**
+ * Check whether a tab uses any repeat, ending or navigation markers
+ */
+export const hasRepeatStructure = (tab: Tab): boolean =>
+  tab.some(stack => stack.repeatStart || stack.repeatEnd || stack.ending || stack.marker);
+
+const collectMeasures = (tab: Tab, ticksPerMeasure: number): MeasureInfo[] => {
+  const measureOf = (stack: NoteStack) => Math.floor(stack.musicalPosition / ticksPerMeasure);
+  const end = tab.reduce((max, stack) => Math.max(max, stack.musicalPosition + getStackTicks(stack)), 0);
+  const measures: MeasureInfo[] = Array.from({ length: Math.ceil(end / ticksPerMeasure) }, () => ({ markers: [] }));
+
+  tab.forEach(stack => {
+    const info = measures[measureOf(stack)];
+
+    if (stack.repeatEnd) {
+      // Jump back to the named stack, else the closest repeat start, else the top
+      const named = tab.find(candidate => candidate.id === stack.repeatEnd!.jumpToStackId);
+      const fallback = [...tab]
+        .filter(candidate => candidate.repeatStart && candidate.musicalPosition <= stack.musicalPosition)
+        .sort((a, b) => b.musicalPosition - a.musicalPosition)[0];
+      const target = named ?? fallback;
+      info.repeatEnd = {
+        target: target ? measureOf(target) : 0,
+        times: Math.max(1, stack.repeatEnd.timesToRepeat ?? 1)
+      };
+    }
+    if (stack.ending && stack.ending.passes.length > 0) {
+      info.ending = { passes: stack.ending.passes, measures: Math.max(1, stack.ending.measures ?? 1) };
+    }
+    if (stack.marker) {
+      info.markers.push(stack.marker);
+    }
+  });
+
+  return measures;
+};
+
+/**
+ * Work out the order measures are performed in
+ * Repeats are not taken again after a D.C./D.S. jump, and only the last ending of a chain is played
+ */
+export const getPerformedMeasures = (tab: Tab, ticksPerMeasure: number = TICKS_PER_MEASURE_4_4): number[] => {
+  const measures = collectMeasures(tab, ticksPerMeasure);
+  const findMarker = (marker: NavigationMarker) => measures.findIndex(info => info.markers.includes(marker));
+  const isLastEnding = (index: number) => {
+    const next = measures[index + measures[index].ending!.measures];
+    return !next?.ending;
+  };
+
+  const performed: number[] = [];
+  const repeatsTaken = new Map<number, number>();
+  const limit = measures.length * MAX_PASSES_PER_MEASURE;
+  let pass = 1;
+  let jump: 'fine' | 'coda' | 'end' | null = null;
+  let index = 0;
+  let chainFinished = false;
+
+  while (index < measures.length && performed.length < limit) {
+    const info = measures[index];
+
+    // Past the last ending of a finished repeat, so the next repeat counts from its first pass
+    if (chainFinished && !info.ending) {
+      chainFinished = false;
+      pass = 1;
+    }
+
+    // Skip endings that do not belong to this pass
+    if (info.ending && !(jump ? isLastEnding(index) : info.ending.passes.includes(pass))) {
+      // A repeat closed inside a skipped ending is finished; its pass count ends with the ending chain
+      for (let skipped = index; skipped < index + info.ending.measures; skipped++) {
+        if (measures[skipped]?.repeatEnd && repeatsTaken.delete(skipped)) chainFinished = true;
+      }
+      index += info.ending.measures;
+      continue;
+    }
+
+    performed.push(index);
+
+    if (jump === 'fine' && info.markers.includes('fine')) break;
+    if (jump === 'coda' && info.markers.includes('to-coda')) {
+      const coda = findMarker('coda');
+      if (coda > index) {
+        index = coda;
+        continue;
+      }
+    }
+
+    if (info.repeatEnd && !jump) {
+      const taken = repeatsTaken.get(index) ?? 0;
+      if (taken < info.repeatEnd.times) {
+        repeatsTaken.set(index, taken + 1);
+        pass++;
+        index = info.repeatEnd.target;
+        continue;
+      }
+      repeatsTaken.delete(index);
+      pass = 1;
+    }
+
+    const navigation = info.markers.find(marker => marker.startsWith('dc') || marker.startsWith('ds'));
+    if (navigation && !jump) {
+      jump = navigation.endsWith('al-fine') ? 'fine' : navigation.endsWith('al-coda') ? 'coda' : 'end';
+      pass = 1;
+      index = navigation.startsWith('ds') ? Math.max(0, findMarker('segno')) : 0;
+      continue;
+    }
+
+    index++;
+  }
+
+  return performed;
+};
+
+/**
+ * Unroll repeats into contiguous performance segments (in ticks)
+ * A tab without structure produces a single segment covering everything
+ */
+export const expandRepeats = (tab: Tab, ticksPerMeasure: number = TICKS_PER_MEASURE_4_4): PerformanceSegment[] => {
+  const segments: PerformanceSegment[] = [];
+  let performancePosition = 0;
+
+  getPerformedMeasures(tab, ticksPerMeasure).forEach(measure => {
+    const start = measure * ticksPerMeasure;
+    const last = segments[segments.length - 1];
+
+    if (last && last.end === start) {
+      last.end += ticksPerMeasure;
+    } else {
+      segments.push({ start, end: start + ticksPerMeasure, performanceStart: performancePosition });
+    }
+    performancePosition += ticksPerMeasure;
+  });
+
+  return segments;
+};
+
+/**
+ * Place every stack at each of its performance positions
+ */
+export const unrollTab = (tab: Tab, ticksPerMeasure: number = TICKS_PER_MEASURE_4_4): PerformedStack[] => {
+  if (!hasRepeatStructure(tab)) {
+    return tab.map(stack => ({ ...stack, writtenPosition: stack.musicalPosition }));
+  }
+
+  return expandRepeats(tab, ticksPerMeasure).flatMap((segment, segmentIndex) =>
+    tab
+      .filter(stack => stack.musicalPosition >= segment.start && stack.musicalPosition < segment.end)
+      .map(stack => ({
+        ...stack,
+        id: `${stack.id}@${segmentIndex}`,
+        musicalPosition: segment.performanceStart + (stack.musicalPosition - segment.start),
+        writtenPosition: stack.musicalPosition
+      }))
+  );
+};
+
+/**
+ * Map a performance position back to where it is written
+ */
+export const performanceToWrittenPosition = (segments: PerformanceSegment[], position: number): number => {
+  const segment = segments.find(candidate =>
+    position >= candidate.performanceStart &&
+    position < candidate.performanceStart + (candidate.end - candidate.start)
+  );
+  return segment ? segment.start + (position - segment.performanceStart) : position;
+};
+
+/**
+ * Map a written position to the first time it is performed
+ */
+export const writtenToPerformancePosition = (segments: PerformanceSegment[], position: number): number => {
+  const segment = segments.find(candidate => position >= candidate.start && position < candidate.end);
+  return segment ? segment.performanceStart + (position - segment.start) : position;
+};
+
+/**
+ * Rescale segments to another unit, e.g. ticks to sixteenth-note slots
+ */
+export const scaleSegments = (segments: PerformanceSegment[], factor: number): PerformanceSegment[] =>
+  segments.map(segment => ({
+    start: segment.start * factor,
+    end: segment.end * factor,
+    performanceStart: segment.performanceStart * factor
+  }));
@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+import { engraveScore, getMeasureRanges, renderPageSvg } from './ScoreEngraver';
+import { renderPdf, measureText } from './PdfWriter';
+import type { StrumstickProjectData } from './FileManager';
+import type { TabData, Note } from '../types';
+
+const buildProject = (slots: number, notes: Note[] = []): StrumstickProjectData => {
+  const data: TabData = Array.from({ length: slots }, () => ({ notes: [] }));
+  notes.forEach(note => data[note.startSlot].notes.push(note));
+  return {
+    version: '1.0.0',
+    metadata: {
+      title: 'Boil Them Cabbage',
+      artist: 'Traditional',
+      composer: 'Anon',
+      difficulty: 'beginner',
+      tags: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      modifiedAt: '2024-01-01T00:00:00.000Z',
+      duration: 0
+    },
+    tab: {
+      timeSignature: { numerator: 4, denominator: 4 },
+      bpm: 100,
+      totalTimeSlots: slots,
+      data
+    },
+    playback: {
+      loopEnabled: false,
+      metronomeEnabled: true,
+      countInEnabled: false,
+      synthVolume: 0.7,
+      isMuted: false
+    }
+  };
+};
+
+const texts = (project: StrumstickProjectData, measuresPerSystem = 4) =>
+  engraveScore(project, { measuresPerSystem }).map(page =>
+    page.elements.flatMap(element => (element.type === 'text' ? [element.text] : []))
+  );
+
+describe('Score Engraver', () => {
+  describe('getMeasureRanges', () => {
+    it('should follow the time signature', () => {
+      expect(getMeasureRanges(40, { numerator: 3, denominator: 4 })).toHaveLength(4);
+      expect(getMeasureRanges(0, { numerator: 4, denominator: 4 })).toEqual([{ number: 1, startSlot: 0, endSlot: 16 }]);
+    });
+
+    it('should honour a pickup measure line', () => {
+      const ranges = getMeasureRanges(36, { numerator: 4, denominator: 4 }, [{ slot: 4, measureNumber: 2 }]);
+      expect(ranges.map(range => range.startSlot)).toEqual([0, 4, 20]);
+    });
+  });
+
+  describe('engraveScore', () => {
+    it('should add a title block from the project metadata', () => {
+      const [firstPage] = texts(buildProject(16));
+
+      expect(firstPage).toEqual(expect.arrayContaining([
+        'Boil Them Cabbage',
+        'Traditional',
+        'Music by Anon',
+        'Difficulty: Beginner',
+        'Tempo: 100 BPM'
+      ]));
+    });
+
+    it('should number the first measure of every system', () => {
+      const [firstPage] = texts(buildProject(16 * 6), 2);
+
+      expect(firstPage).toEqual(expect.arrayContaining(['1', '3', '5']));
+    });
+
+    it('should paginate long tunes and number the pages', () => {
+      const pages = texts(buildProject(16 * 80));
+
+      expect(pages.length).toBeGreaterThan(1);
+      expect(pages[0]).toContain(`Page 1 of ${pages.length}`);
+      expect(pages[pages.length - 1]).toContain(`Page ${pages.length} of ${pages.length}`);
+    });
+
+    it('should engrave fret numbers, stems and ties', () => {
+      const project = buildProject(16, [
+        { type: 'note', fret: 7, duration: 'quarter', stringIndex: 1, startSlot: 0, isTiedTo: 4 },
+        { type: 'note', fret: 7, duration: 'eighth', stringIndex: 1, startSlot: 4, isTiedFrom: 0, isDotted: true }
+      ]);
+      const [page] = engraveScore(project);
+
+      expect(page.elements.filter(element => element.type === 'text' && element.text === '7')).toHaveLength(2);
+      expect(page.elements.filter(element => element.type === 'curve')).toHaveLength(2); // Eighth flag + tie
+      expect(page.elements.filter(element => element.type === 'dot')).toHaveLength(1);
+    });
+
+    it('should space tuplet notes by their start and bracket the group', () => {
+      const triplet = { type: 'note' as const, duration: 'eighth' as const, stringIndex: 0, tuplet: { actual: 3, normal: 2 } };
+      const project = buildProject(16, [
+        { ...triplet, fret: 1, startSlot: 0 },
+        { ...triplet, fret: 2, startSlot: 1, tupletOffset: 1 / 3 },
+        { ...triplet, fret: 3, startSlot: 2, tupletOffset: 2 / 3 }
+      ]);
+      const [page] = engraveScore(project);
+
+      const fretXs = ['1', '2', '3'].map(fret =>
+        page.elements.find(element => element.type === 'text' && element.text === fret && element.size === 11)
+      ).map(element => (element as { x: number }).x);
+      // Evenly spaced at 4/3 of a slot apart
+      expect(fretXs[1] - fretXs[0]).toBeCloseTo(fretXs[2] - fretXs[1]);
+      expect(page.elements.filter(element => element.type === 'text' && element.text === '3' && element.size === 8)).toHaveLength(1);
+    });
+
+    it('should engrave chord names and lyric lines with hyphens and extenders', () => {
+      const project = buildProject(16, [0, 4, 8, 12].map(startSlot => (
+        { type: 'note', fret: 2, duration: 'quarter', stringIndex: 0, startSlot } as Note
+      )));
+      project.tab.chords = [{ slot: 0, name: 'D' }, { slot: 8, name: 'G' }];
+      project.tab.lyrics = [
+        { slot: 0, verse: 0, text: 'Sun-' },
+        { slot: 4, verse: 0, text: 'shine', extender: true },
+        { slot: 0, verse: 1, text: 'Rain' }
+      ];
+      const [page] = engraveScore(project);
+      const pageTexts = page.elements.flatMap(element => (element.type === 'text' ? [element.text] : []));
+
+      expect(pageTexts).toEqual(expect.arrayContaining(['D', 'G', 'Sun', '-', 'shine', 'Rain']));
+      expect(page.elements.filter(element => element.type === 'line' && element.width === 0.6)).toHaveLength(1);
+    });
+  });
+
+  describe('renderPageSvg', () => {
+    it('should produce a standalone SVG document with escaped text', () => {
+      const project = buildProject(16);
+      project.metadata.title = 'Salt & Pepper';
+      const svg = renderPageSvg(engraveScore(project)[0]);
+
+      expect(svg).toMatch(/^<\?xml/);
+      expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+      expect(svg).toContain('Salt &amp; Pepper');
+    });
+  });
+
+  describe('renderPdf', () => {
+    it('should write one PDF page per engraved page with a valid trailer', () => {
+      const pages = engraveScore(buildProject(16 * 80));
+      const pdf = String.fromCharCode(...renderPdf(pages, 'Tune (live)'));
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain(`/Count ${pages.length}`);
+      expect(pdf).toContain('/Title (Tune \\(live\\))');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+      // The startxref offset must point at the xref table
+      const startxref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    });
+
+    it('should measure Helvetica text widths', () => {
+      expect(measureText('0', 10)).toBeCloseTo(5.56);
+      expect(measureText('i', 10)).toBeLessThan(measureText('W', 10));
+    });
+  });
+});
@@ -0,0 +1,400 @@
+// Score Engraver
+// Lays out a project as printable pages: title block, wrapped systems of TAB staff, measure and page numbers
+// Pages are described as a display list so the same layout renders to SVG and PDF
+
+import type { TabData, Note, NoteDuration, CustomMeasureLine } from '../types';
+import { getNoteDurationValue, getNoteStartPosition } from '../types';
+import { DEFAULT_INSTRUMENT, TICKS_PER_QUARTER, formatFret } from '../types/notestack';
+import type { StrumstickProjectData } from './FileManager';
+import { getVerseCount, getVerseSyllables, getExtenderEndSlot } from './Lyrics';
+import { convertTabDataToNoteStack } from './ArchitectureBridge';
+import { findTupletGroups } from './NoteStackOperations';
+
+// ===============================
+// TYPES
+// ===============================
+
+export type EngravingElement =
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width: number }
+  | { type: 'text'; x: number; y: number; text: string; size: number; anchor: 'start' | 'middle' | 'end'; bold?: boolean }
+  | { type: 'rect'; x: number; y: number; width: number; height: number } // White knockout behind fret numbers
+  | { type: 'curve'; x1: number; y1: number; cx1: number; cy1: number; cx2: number; cy2: number; x2: number; y2: number; width: number }
+  | { type: 'dot'; cx: number; cy: number; r: number };
+
+export interface EngravedPage {
+  width: number;
+  height: number;
+  elements: EngravingElement[];
+}
+
+export interface EngravingOptions {
+  measuresPerSystem?: number;
+  pageWidth?: number; // CSS pixels at 96 dpi
+  pageHeight?: number;
+  margin?: number;
+}
+
+export interface MeasureRange {
+  number: number;
+  startSlot: number;
+  endSlot: number;
+}
+
+// ===============================
+// LAYOUT CONSTANTS
+// ===============================
+
+// US Letter at 96 dpi
+const DEFAULT_PAGE_WIDTH = 816;
+const DEFAULT_PAGE_HEIGHT = 1056;
+const DEFAULT_MARGIN = 56;
+const DEFAULT_MEASURES_PER_SYSTEM = 4;
+
+const STRING_SPACING = 12;
+const STAFF_INDENT = 36; // Room for the TAB clef / string labels
+const TITLE_BLOCK_HEIGHT = 110;
+const SYSTEM_HEIGHT = 96; // Measure number, three-line staff, stems and gap below; grows with more strings
+const MEASURE_PADDING_START = 14;
+const MEASURE_PADDING_END = 10;
+const STEM_LENGTH = 20;
+const HALF_STEM_LENGTH = 10;
+const FLAG_SPACING = 5;
+const CHORD_ROW_HEIGHT = 16; // Chord names above the measure numbers
+const LYRIC_OFFSET = 40; // First verse's baseline below the staff, under the stems
+const LYRIC_LINE_HEIGHT = 14;
+const TUPLET_BRACKET_OFFSET = 29; // Below the staff, just past the stems and above the lyrics
+const TICKS_PER_SLOT = TICKS_PER_QUARTER / 4;
+
+// ===============================
+// MEASURES
+// ===============================
+
+/**
+ * Split the tab into measures
+ * Custom measure lines (pickups) are honoured, then measures follow the time signature
+ */
+export const getMeasureRanges = (
+  totalSlots: number,
+  timeSignature: { numerator: number; denominator: number },
+  customMeasureLines: CustomMeasureLine[] = []
+): MeasureRange[] => {
+  const slotsPerMeasure = Math.max(1, Math.round((timeSignature.numerator * 16) / timeSignature.denominator));
+  const customStarts = customMeasureLines
+    .map(line => line.slot)
+    .filter(slot => slot > 0)
+    .sort((a, b) => a - b);
+
+  const starts = [0, ...customStarts.filter((slot, index) => customStarts.indexOf(slot) === index)];
+  let next = starts[starts.length - 1] + slotsPerMeasure;
+  while (next < totalSlots) {
+    starts.push(next);
+    next += slotsPerMeasure;
+  }
+
+  return starts.map((startSlot, index) => ({
+    number: index + 1,
+    startSlot,
+    endSlot: index + 1 < starts.length ? starts[index + 1] : Math.max(startSlot + slotsPerMeasure, totalSlots)
+  }));
+};
+
+// ===============================
+// ENGRAVING
+// ===============================
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced'
+};
+
+const stringY = (staffTop: number, stringIndex: number, stringCount: number): number =>
+  staffTop + (stringCount - 1 - stringIndex) * STRING_SPACING;
+
+/**
+ * Flags and stem for one slot, drawn below the staff in the usual tab style
+ */
+const engraveRhythm = (
+  elements: EngravingElement[],
+  x: number,
+  staffBottom: number,
+  duration: NoteDuration,
+  isDotted?: boolean
+) => {
+  if (duration === 'whole') return;
+
+  const stemTop = staffBottom + 6;
+  const stemBottom = stemTop + (duration === 'half' ? HALF_STEM_LENGTH : STEM_LENGTH);
+  elements.push({ type: 'line', x1: x, y1: stemTop, x2: x, y2: stemBottom, width: 1 });
+
+  const flagCount = duration === 'eighth' ? 1 : duration === 'sixteenth' ? 2 : 0;
+  for (let flag = 0; flag < flagCount; flag++) {
+    const y = stemBottom - flag * FLAG_SPACING;
+    elements.push({ type: 'curve', x1: x, y1: y, cx1: x + 4, cy1: y - 2, cx2: x + 8, cy2: y - 6, x2: x + 7, y2: y - 10, width: 1 });
+  }
+
+  if (isDotted) {
+    elements.push({ type: 'dot', cx: x + 5, cy: stemBottom, r: 1.6 });
+  }
+};
+
+/**
+ * Engrave a project into printable pages
+ */
+export const engraveScore = (projectData: StrumstickProjectData, options: EngravingOptions = {}): EngravedPage[] => {
+  const pageWidth = options.pageWidth ?? DEFAULT_PAGE_WIDTH;
+  const pageHeight = options.pageHeight ?? DEFAULT_PAGE_HEIGHT;
+  const margin = options.margin ?? DEFAULT_MARGIN;
+  const measuresPerSystem = Math.max(1, options.measuresPerSystem ?? DEFAULT_MEASURES_PER_SYSTEM);
+
+  const { metadata } = projectData;
+  const instrument = projectData.instrument ?? DEFAULT_INSTRUMENT;
+  const { stringCount } = instrument;
+  const tabData: TabData = projectData.tab.data;
+  const lyrics = projectData.tab.lyrics ?? [];
+  const chords = projectData.tab.chords ?? [];
+  const verseCount = getVerseCount(lyrics);
+  const chordRowHeight = chords.length > 0 ? CHORD_ROW_HEIGHT : 0;
+  const lyricsHeight = verseCount > 0 ? verseCount * LYRIC_LINE_HEIGHT + 6 : 0;
+  const systemHeight = SYSTEM_HEIGHT + (stringCount - 3) * STRING_SPACING + chordRowHeight + lyricsHeight;
+  const { numerator, denominator } = projectData.tab.timeSignature;
+  const measures = getMeasureRanges(tabData.length, projectData.tab.timeSignature, projectData.tab.customMeasureLines);
+
+  const systems: MeasureRange[][] = [];
+  for (let index = 0; index < measures.length; index += measuresPerSystem) {
+    systems.push(measures.slice(index, index + measuresPerSystem));
+  }
+
+  // Locate every note so ties can be drawn to their partner; tuplet notes are keyed by their fractional start
+  const notePositions = new Map<string, { x: number; y: number; system: number }>();
+  const keyOf = (slot: number, stringIndex: number) => `${slot}:${stringIndex}`;
+
+  const pages: EngravedPage[] = [];
+  let elements: EngravingElement[] = [];
+  let cursorY = margin;
+
+  const startPage = () => {
+    elements = [];
+    pages.push({ width: pageWidth, height: pageHeight, elements });
+    cursorY = margin;
+  };
+
+  // Title block
+  startPage();
+  elements.push({ type: 'text', x: pageWidth / 2, y: cursorY + 28, text: metadata.title, size: 24, anchor: 'middle', bold: true });
+  if (metadata.artist) {
+    elements.push({ type: 'text', x: pageWidth / 2, y: cursorY + 52, text: metadata.artist, size: 13, anchor: 'middle' });
+  }
+  if (metadata.composer) {
+    elements.push({ type: 'text', x: pageWidth - margin, y: cursorY + 76, text: `Music by ${metadata.composer}`, size: 11, anchor: 'end' });
+  }
+  elements.push({ type: 'text', x: margin, y: cursorY + 76, text: `Tempo: ${projectData.tab.bpm} BPM`, size: 11, anchor: 'start' });
+  if (metadata.difficulty) {
+    elements.push({ type: 'text', x: margin, y: cursorY + 92, text: `Difficulty: ${DIFFICULTY_LABELS[metadata.difficulty]}`, size: 11, anchor: 'start' });
+  }
+  cursorY += TITLE_BLOCK_HEIGHT;
+
+  const staffLeft = margin + STAFF_INDENT;
+  const staffRight = pageWidth - margin;
+  const ties: Array<{ from: string; to: string }> = [];
+  const tupletGroups = findTupletGroups(convertTabDataToNoteStack(tabData));
+
+  // Slots where notes start - melisma extenders run to the last of these under the syllable
+  const noteSlots = tabData
+    .map((cell, slot) => (cell.notes.some(note => note.startSlot === slot && note.type === 'note') ? slot : -1))
+    .filter(slot => slot >= 0);
+
+  systems.forEach((system, systemIndex) => {
+    if (cursorY + systemHeight > pageHeight - margin) {
+      startPage();
+    }
+
+    const staffTop = cursorY + 20 + chordRowHeight;
+    const staffBottom = staffTop + (stringCount - 1) * STRING_SPACING;
+    const measureWidth = (staffRight - staffLeft) / measuresPerSystem;
+    const systemRight = staffLeft + measureWidth * system.length;
+    const systemStart = system[0].startSlot;
+    const systemEnd = system[system.length - 1].endSlot;
+
+    // X of a (possibly fractional) slot on this system, placed like the notes in its measure
+    const getSlotX = (slot: number): number => {
+      const measureIndex = system.findIndex(measure => slot >= measure.startSlot && slot < measure.endSlot);
+      const measure = system[measureIndex];
+      const slotWidth = (measureWidth - MEASURE_PADDING_START - MEASURE_PADDING_END) / Math.max(1, measure.endSlot - measure.startSlot);
+      return staffLeft + measureWidth * measureIndex + MEASURE_PADDING_START + (slot - measure.startSlot) * slotWidth;
+    };
+    const inSystem = (slot: number) => slot >= systemStart && slot < systemEnd;
+
+    // Staff lines and string labels
+    Array.from({ length: stringCount }, (_, line) => stringCount - 1 - line).forEach(stringIndex => {
+      const y = stringY(staffTop, stringIndex, stringCount);
+      elements.push({ type: 'line', x1: margin, y1: y, x2: systemRight, y2: y, width: 0.8 });
+      elements.push({ type: 'text', x: margin + 8, y: y + 3.5, text: instrument.stringNames[stringIndex], size: 9, anchor: 'middle' });
+    });
+    elements.push({ type: 'line', x1: margin, y1: staffTop, x2: margin, y2: staffBottom, width: 1 });
+
+    // Time signature on the first system
+    if (systemIndex === 0) {
+      elements.push({ type: 'text', x: margin + 26, y: staffTop + 9, text: String(numerator), size: 13, anchor: 'middle', bold: true });
+      elements.push({ type: 'text', x: margin + 26, y: staffBottom + 1, text: String(denominator), size: 13, anchor: 'middle', bold: true });
+    }
+
+    // Measure number at the start of each system
+    elements.push({ type: 'text', x: staffLeft, y: staffTop - 8, text: String(system[0].number), size: 9, anchor: 'start' });
+
+    system.forEach((measure, measureIndex) => {
+      const measureLeft = staffLeft + measureWidth * measureIndex;
+      const measureRight = measureLeft + measureWidth;
+      const usableWidth = measureWidth - MEASURE_PADDING_START - MEASURE_PADDING_END;
+      const slotWidth = usableWidth / Math.max(1, measure.endSlot - measure.startSlot);
+
+      elements.push({ type: 'line', x1: measureRight, y1: staffTop, x2: measureRight, y2: staffBottom, width: 1 });
+
+      for (let slot = measure.startSlot; slot < measure.endSlot && slot < tabData.length; slot++) {
+        const notes: Note[] = tabData[slot].notes.filter(note => note.startSlot === slot);
+        const sounding = notes.filter(note => note.type === 'note' && note.fret !== null);
+
+        // Tuplet notes part-way into the slot are placed proportionally after it
+        const positions = Array.from(new Set(sounding.map(getNoteStartPosition))).sort((a, b) => a - b);
+        positions.forEach(position => {
+          const chord = sounding.filter(note => getNoteStartPosition(note) === position);
+          const x = measureLeft + MEASURE_PADDING_START + (position - measure.startSlot) * slotWidth;
+
+          chord.forEach(note => {
+            const y = stringY(staffTop, note.stringIndex, stringCount);
+            const text = formatFret(note.fret as number);
+            const boxWidth = text.length * 6.5 + 3;
+            elements.push({ type: 'rect', x: x - boxWidth / 2, y: y - 6, width: boxWidth, height: 12 });
+            elements.push({ type: 'text', x, y: y + 4, text, size: 11, anchor: 'middle' });
+
+            notePositions.set(keyOf(position, note.stringIndex), { x, y, system: systemIndex });
+            if (note.isTiedTo !== undefined) {
+              ties.push({ from: keyOf(position, note.stringIndex), to: keyOf(note.isTiedTo, note.stringIndex) });
+            }
+          });
+
+          // Rhythm follows the longest note starting here
+          const longest = chord.reduce((a, b) =>
+            getNoteDurationValue(b.duration, b.isDotted, b.tuplet) > getNoteDurationValue(a.duration, a.isDotted, a.tuplet) ? b : a
+          );
+          engraveRhythm(elements, x, staffBottom, longest.duration, longest.isDotted);
+        });
+      }
+    });
+
+    // Tuplet number in a bracket under the stems of each group
+    tupletGroups.filter(group => inSystem(group.start / TICKS_PER_SLOT)).forEach(group => {
+      const lastSlot = group.stacks[group.stacks.length - 1].musicalPosition / TICKS_PER_SLOT;
+      const x1 = getSlotX(group.start / TICKS_PER_SLOT);
+      const x2 = inSystem(lastSlot) ? getSlotX(lastSlot) : systemRight - 2;
+      const y = staffBottom + TUPLET_BRACKET_OFFSET;
+      const middle = (x1 + x2) / 2;
+      elements.push({ type: 'line', x1, y1: y - 3, x2: x1, y2: y, width: 0.8 });
+      elements.push({ type: 'line', x1, y1: y, x2: middle - 5, y2: y, width: 0.8 });
+      elements.push({ type: 'line', x1: middle + 5, y1: y, x2, y2: y, width: 0.8 });
+      elements.push({ type: 'line', x1: x2, y1: y, x2, y2: y - 3, width: 0.8 });
+      elements.push({ type: 'text', x: middle, y: y + 3, text: String(group.tuplet.actual), size: 8, anchor: 'middle' });
+    });
+
+    // Chord names above the staff
+    chords.filter(chord => inSystem(chord.slot)).forEach(chord => {
+      elements.push({ type: 'text', x: getSlotX(chord.slot) - 3, y: staffTop - 22, text: chord.name, size: 11, anchor: 'start', bold: true });
+    });
+
+    // Lyrics under the stems, one line per verse, with hyphens and melisma extenders
+    for (let verse = 0; verse < verseCount; verse++) {
+      const y = staffBottom + LYRIC_OFFSET + verse * LYRIC_LINE_HEIGHT;
+      const syllables = getVerseSyllables(lyrics, verse);
+      syllables.forEach((syllable, index) => {
+        if (!inSystem(syllable.slot)) return;
+        const x = getSlotX(syllable.slot);
+        const next = syllables[index + 1];
+        const hyphenated = syllable.text.endsWith('-');
+        const text = hyphenated ? syllable.text.slice(0, -1) : syllable.text;
+        const textEndX = x + text.length * 2.8;
+        elements.push({ type: 'text', x, y, text, size: 10, anchor: 'middle' });
+
+        if (hyphenated) {
+          const hyphenX = next && inSystem(next.slot) ? (x + getSlotX(next.slot)) / 2 : textEndX + 5;
+          elements.push({ type: 'text', x: hyphenX, y, text: '-', size: 10, anchor: 'middle' });
+        }
+        if (syllable.extender) {
+          const endSlot = getExtenderEndSlot(syllable, next, noteSlots);
+          const endX = inSystem(endSlot) ? getSlotX(endSlot) + 4 : systemRight - 2;
+          if (endX > textEndX + 3) {
+            elements.push({ type: 'line', x1: textEndX + 2, y1: y + 1, x2: endX, y2: y + 1, width: 0.6 });
+          }
+        }
+      });
+    }
+
+    // Ties on this system; a tie into the next system runs to the end of the staff
+    ties.splice(0).forEach(tie => {
+      const from = notePositions.get(tie.from);
+      const to = notePositions.get(tie.to);
+      if (!from) return;
+      const x1 = from.x + 6;
+      const x2 = to && to.system === systemIndex ? to.x - 6 : systemRight - 2;
+      const y = from.y - 7;
+      elements.push({ type: 'curve', x1, y1: y, cx1: x1 + (x2 - x1) / 3, cy1: y - 6, cx2: x2 - (x2 - x1) / 3, cy2: y - 6, x2, y2: y, width: 1 });
+    });
+
+    cursorY += systemHeight;
+  });
+
+  // Page numbers
+  pages.forEach((page, index) => {
+    page.elements.push({
+      type: 'text',
+      x: pageWidth / 2,
+      y: pageHeight - margin / 2,
+      text: `Page ${index + 1} of ${pages.length}`,
+      size: 9,
+      anchor: 'middle'
+    });
+  });
+
+  return pages;
+};
+
+// ===============================
+// SVG RENDERING
+// ===============================
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Render an engraved page as a standalone SVG document
+ */
+export const renderPageSvg = (page: EngravedPage): string => {
+  const body = page.elements.map(element => {
+    switch (element.type) {
+      case 'line':
+        return `<line x1="${round(element.x1)}" y1="${round(element.y1)}" x2="${round(element.x2)}" y2="${round(element.y2)}" stroke="#000" stroke-width="${element.width}"/>`;
+      case 'text':
+        return `<text x="${round(element.x)}" y="${round(element.y)}" font-size="${element.size}" text-anchor="${element.anchor}"${element.bold ? ' font-weight="bold"' : ''}>${escapeXml(element.text)}</text>`;
+      case 'rect':
+        return `<rect x="${round(element.x)}" y="${round(element.y)}" width="${round(element.width)}" height="${round(element.height)}" fill="#fff"/>`;
+      case 'curve':
+        return `<path d="M ${round(element.x1)} ${round(element.y1)} C ${round(element.cx1)} ${round(element.cy1)} ${round(element.cx2)} ${round(element.cy2)} ${round(element.x2)} ${round(element.y2)}" fill="none" stroke="#000" stroke-width="${element.width}"/>`;
+      case 'dot':
+        return `<circle cx="${round(element.cx)}" cy="${round(element.cy)}" r="${element.r}" fill="#000"/>`;
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${page.width}" height="${page.height}" viewBox="0 0 ${page.width} ${page.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${page.width}" height="${page.height}" fill="#fff"/>`,
+    ...body,
+    '</svg>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getSlotsPerMeasure,
+  getMarkerSlot,
+  setSectionMarker,
+  findMarkerAt,
+  getSectionRanges,
+  findAdjacentSection,
+  getNextRehearsalMark
+} from './Sections';
+import type { SectionMarker } from '../types';
+
+const MARKERS: SectionMarker[] = [
+  { slot: 0, kind: 'section', text: 'A', measure: true },
+  { slot: 6, kind: 'text', text: 'let ring' },
+  { slot: 32, kind: 'section', text: 'B', measure: true }
+];
+
+describe('Sections', () => {
+  it('should snap measure-anchored markers to the start of their measure', () => {
+    expect(getSlotsPerMeasure({ numerator: 6, denominator: 8 })).toBe(12);
+    expect(getMarkerSlot({ slot: 21, kind: 'section', text: 'A', measure: true }, 16)).toBe(16);
+    expect(getMarkerSlot({ slot: 21, kind: 'text', text: 'rit.' }, 16)).toBe(21);
+  });
+
+  describe('setSectionMarker', () => {
+    it('should replace the marker of the same kind at the same spot', () => {
+      const markers = setSectionMarker(MARKERS, { slot: 40, kind: 'section', text: 'Chorus', measure: true }, 16);
+
+      expect(markers.filter(marker => marker.kind === 'section').map(marker => [marker.slot, marker.text]))
+        .toEqual([[0, 'A'], [32, 'Chorus']]);
+      expect(findMarkerAt(markers, 'text', 6, 16)?.text).toBe('let ring');
+    });
+
+    it('should remove a marker given empty text', () => {
+      expect(setSectionMarker(MARKERS, { slot: 6, kind: 'text', text: ' ' }, 16)).toHaveLength(2);
+    });
+  });
+
+  describe('getSectionRanges', () => {
+    it('should run each section to the next one and the last to the end', () => {
+      expect(getSectionRanges(MARKERS, 16, 60).map(({ start, end }) => [start, end])).toEqual([[0, 32], [32, 60]]);
+    });
+  });
+
+  describe('findAdjacentSection', () => {
+    it('should step between section starts, ignoring text annotations', () => {
+      expect(findAdjacentSection(MARKERS, 16, 4, 'next')).toBe(32);
+      expect(findAdjacentSection(MARKERS, 16, 40, 'previous')).toBe(32);
+      expect(findAdjacentSection(MARKERS, 16, 32, 'previous')).toBe(0);
+      expect(findAdjacentSection(MARKERS, 16, 32, 'next')).toBeNull();
+    });
+  });
+
+  it('should suggest the first unused rehearsal letter', () => {
+    expect(getNextRehearsalMark(MARKERS)).toBe('C');
+    expect(getNextRehearsalMark([])).toBe('A');
+  });
+});
@@ -0,0 +1,96 @@
+// Sections and Text Annotations
+// Rehearsal marks / section labels ("A", "Chorus") and teaching notes ("let ring") anchored to slots or measures
+// Each section runs from its mark to the next one, so sections double as navigation targets and loop ranges
+
+import type { SectionMarker } from '../types';
+
+export interface SectionRange {
+  marker: SectionMarker;
+  start: number; // Slot where the section begins
+  end: number; // Slot where the next section (or the tab) begins
+}
+
+/**
+ * Sixteenth-note slots in one measure of the time signature
+ */
+export const getSlotsPerMeasure = (timeSignature: { numerator: number; denominator: number }): number =>
+  Math.max(1, Math.round((timeSignature.numerator * 16) / timeSignature.denominator));
+
+/**
+ * Slot a marker is drawn at - measure-anchored markers snap to the start of their measure
+ */
+export const getMarkerSlot = (marker: SectionMarker, slotsPerMeasure: number): number =>
+  marker.measure ? Math.floor(marker.slot / slotsPerMeasure) * slotsPerMeasure : marker.slot;
+
+/**
+ * Set, replace or (with empty text) remove the marker of a kind at a slot
+ * Measure-anchored markers are stored at the start of their measure
+ */
+export const setSectionMarker = (
+  markers: SectionMarker[],
+  marker: SectionMarker,
+  slotsPerMeasure: number
+): SectionMarker[] => {
+  const slot = getMarkerSlot(marker, slotsPerMeasure);
+  const others = markers.filter(existing =>
+    !(existing.kind === marker.kind && getMarkerSlot(existing, slotsPerMeasure) === slot)
+  );
+  const text = marker.text.trim();
+  if (!text) return others;
+
+  return [...others, { ...marker, slot, text }].sort((a, b) => a.slot - b.slot);
+};
+
+/**
+ * The marker of a kind drawn at a slot, if any
+ */
+export const findMarkerAt = (
+  markers: SectionMarker[],
+  kind: SectionMarker['kind'],
+  slot: number,
+  slotsPerMeasure: number
+): SectionMarker | undefined =>
+  markers.find(marker => marker.kind === kind && getMarkerSlot(marker, slotsPerMeasure) === slot);
+
+/**
+ * Sections in order, each ending where the next begins
+ */
+export const getSectionRanges = (markers: SectionMarker[], slotsPerMeasure: number, endSlot: number): SectionRange[] => {
+  const sections = markers
+    .filter(marker => marker.kind === 'section')
+    .map(marker => ({ marker, start: getMarkerSlot(marker, slotsPerMeasure) }))
+    .sort((a, b) => a.start - b.start);
+
+  return sections.map((section, index) => ({
+    ...section,
+    end: index + 1 < sections.length ? sections[index + 1].start : Math.max(endSlot, section.start + slotsPerMeasure)
+  }));
+};
+
+/**
+ * Start of the next section after a slot, or of the section before the one the slot is in
+ * Returns null when there is nowhere to go
+ */
+export const findAdjacentSection = (
+  markers: SectionMarker[],
+  slotsPerMeasure: number,
+  slot: number,
+  direction: 'next' | 'previous'
+): number | null => {
+  const starts = getSectionRanges(markers, slotsPerMeasure, 0).map(section => section.start);
+  const target = direction === 'next'
+    ? starts.find(start => start > slot)
+    : [...starts].reverse().find(start => start < slot);
+  return target ?? null;
+};
+
+/**
+ * First rehearsal letter (A, B, ... Z, then AA, BB ...) not used by a section yet
+ */
+export const getNextRehearsalMark = (markers: SectionMarker[]): string => {
+  const used = new Set(markers.filter(marker => marker.kind === 'section').map(marker => marker.text));
+  for (let index = 0; ; index++) {
+    const letter = String.fromCharCode(65 + (index % 26)).repeat(Math.floor(index / 26) + 1);
+    if (!used.has(letter)) return letter;
+  }
+};
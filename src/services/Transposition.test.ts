@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { transposeTab } from './Transposition';
+import { INSTRUMENT_PROFILES, DEFAULT_INSTRUMENT } from '../types/notestack';
+import type { Tab, NoteStack } from '../types/notestack';
+
+const stack = (id: string, musicalPosition: number, notes: NoteStack['notes']): NoteStack => ({
+  id,
+  musicalPosition,
+  duration: 'quarter',
+  notes
+});
+
+describe('Transposition', () => {
+  describe('transposeTab', () => {
+    it('should shift notes by an interval on the same instrument', () => {
+      const tab: Tab = [stack('a', 0, [{ string: 0, fret: 0 }])];
+
+      const result = transposeTab(tab, { from: DEFAULT_INSTRUMENT, semitones: 2 });
+
+      expect(result.tab[0].notes).toEqual([{ string: 0, fret: 1 }]);
+      expect(result.unplayable).toEqual([]);
+    });
+
+    it('should keep pitches when retargeting to another tuning', () => {
+      // A3 is the open middle string on DAd and the first fret of the G string on DGd
+      const tab: Tab = [stack('a', 0, [{ string: 1, fret: 0, technique: 'vibrato' }])];
+
+      const result = transposeTab(tab, { from: DEFAULT_INSTRUMENT, to: INSTRUMENT_PROFILES['strumstick-dgd'] });
+
+      expect(result.tab[0].notes).toEqual([{ string: 1, fret: 1, technique: 'vibrato' }]);
+    });
+
+    it('should prefer the string that keeps the hand in position', () => {
+      // Both notes become B3 - fret 5 on the low string or fret 1 on the middle string
+      const tab: Tab = [
+        stack('a', 0, [{ string: 0, fret: 4 }]),
+        stack('b', 960, [{ string: 1, fret: 0 }])
+      ];
+
+      const result = transposeTab(tab, { from: DEFAULT_INSTRUMENT, semitones: 2 });
+
+      expect(result.tab[0].notes).toEqual([{ string: 0, fret: 5 }]);
+      expect(result.tab[1].notes).toEqual([{ string: 0, fret: 5 }]);
+    });
+
+    it('should report and remove notes missing from the diatonic frets', () => {
+      const tab: Tab = [
+        stack('a', 0, [{ string: 0, fret: 0 }]),
+        stack('b', 960, [{ string: 2, fret: 2 }])
+      ];
+
+      const result = transposeTab(tab, { from: DEFAULT_INSTRUMENT, semitones: 1 });
+
+      // D#3 falls between frets; G4 is the d string's 3rd fret
+      expect(result.tab).toHaveLength(1);
+      expect(result.tab[0].id).toBe('b');
+      expect(result.unplayable).toEqual([
+        { stackId: 'a', musicalPosition: 0, string: 0, fret: 0, pitch: 51, noteName: 'D#3', reason: 'chromatic' }
+      ]);
+    });
+
+    it('should report notes below the lowest string as out of range', () => {
+      const tab: Tab = [stack('a', 0, [{ string: 0, fret: 0 }, { string: 2, fret: 0 }])];
+
+      const result = transposeTab(tab, { from: DEFAULT_INSTRUMENT, semitones: -2 });
+
+      expect(result.unplayable.map(note => note.reason)).toEqual(['out-of-range']);
+      expect(result.tab[0].notes).toHaveLength(1);
+    });
+
+    it('should only move selected notes and return them as the new selection', () => {
+      const tab: Tab = [
+        stack('a', 0, [{ string: 0, fret: 0 }, { string: 2, fret: 0 }]),
+        stack('b', 960, [{ string: 0, fret: 0 }])
+      ];
+
+      const result = transposeTab(tab, {
+        from: DEFAULT_INSTRUMENT,
+        semitones: 2,
+        selection: [{ stackId: 'a', note: { string: 0, fret: 0 } }]
+      });
+
+      expect(result.tab[0].notes).toEqual([{ string: 0, fret: 1 }, { string: 2, fret: 0 }]);
+      expect(result.tab[1]).toBe(tab[1]);
+      expect(result.selection).toEqual([{ stackId: 'a', note: { string: 0, fret: 1 } }]);
+    });
+
+    it('should refinger unselected notes at their pitch when retuning', () => {
+      const tab: Tab = [stack('a', 0, [{ string: 0, fret: 0 }, { string: 1, fret: 0 }])];
+
+      const result = transposeTab(tab, {
+        from: DEFAULT_INSTRUMENT,
+        to: INSTRUMENT_PROFILES['strumstick-dgd'],
+        semitones: 2,
+        selection: [{ stackId: 'a', note: { string: 0, fret: 0 } }]
+      });
+
+      // E3 on the low string; the A3 stays an A3 at the G string's 1st fret
+      expect(result.tab[0].notes).toEqual([{ string: 0, fret: 1 }, { string: 1, fret: 1 }]);
+      expect(result.selection).toEqual([{ stackId: 'a', note: { string: 0, fret: 1 } }]);
+    });
+
+    it('should report notes on strings the source instrument lacks', () => {
+      const tab: Tab = [stack('a', 0, [{ string: 3, fret: 0 }])];
+
+      const result = transposeTab(tab, { from: DEFAULT_INSTRUMENT, to: INSTRUMENT_PROFILES['dulcimer-4'] });
+
+      expect(result.tab).toEqual([]);
+      expect(result.unplayable[0].reason).toBe('invalid-source');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+// Transposition and Refingering
+// Shifts notes by an interval and/or moves them to another tuning, re-solving string/fret choices
+
+import type { NoteStack, Tab, InstrumentProfile } from '../types/notestack';
+import { getFrets, getNotePitch } from '../types/notestack';
+import { midiNoteToName, pitchToFretPositions } from '../audio/midiImport';
+import type { NoteSelection } from './NoteStackSelection';
+
+type StackNote = NoteStack['notes'][number];
+type Position = { stringIndex: number; fret: number };
+
+export interface TranspositionOptions {
+  from: InstrumentProfile;         // Instrument the notes are currently written for
+  to?: InstrumentProfile;          // Instrument to refinger onto (defaults to `from`)
+  semitones?: number;              // Interval to shift by, 0 keeps the pitches
+  selection?: NoteSelection;       // Notes to transpose; the whole tab when omitted or empty
+}
+
+// A note that could not be placed on the target instrument; it is removed from the result
+export interface UntransposableNote {
+  stackId: string;
+  musicalPosition: number;
+  string: number;
+  fret: number;
+  pitch: number | null;            // Target pitch, null when the source fret doesn't exist
+  noteName: string;
+  reason: 'chromatic' | 'out-of-range' | 'no-free-string' | 'invalid-source';
+}
+
+export interface TranspositionResult {
+  tab: Tab;
+  selection: NoteSelection;        // The transposed notes at their new positions
+  unplayable: UntransposableNote[];
+}
+
+/**
+ * Lowest and highest pitch the instrument can play
+ */
+const getPitchRange = (instrument: InstrumentProfile): { lowest: number; highest: number } => {
+  const frets = getFrets(instrument.fretMap).filter(fret => fret <= instrument.maxFret);
+  const pitches = instrument.openPitches.flatMap((_, stringIndex) =>
+    frets.map(fret => getNotePitch(fret, stringIndex, instrument) ?? -Infinity)
+  );
+  return { lowest: Math.min(...instrument.openPitches), highest: Math.max(...pitches) };
+};
+
+/**
+ * Choose a string/fret for each pitch of a chord, using each string at most once
+ * Places as many pitches as possible, then minimises movement away from the current hand
+ * position, then prefers the original strings and the lowest frets
+ */
+const solveStack = (
+  pitches: number[],
+  originalStrings: number[],
+  instrument: InstrumentProfile,
+  usedStrings: Set<number>,
+  handPosition: number | null
+): Array<Position | null> => {
+  let best: Array<Position | null> = pitches.map(() => null);
+  let bestScore = [0, Infinity, Infinity, Infinity];
+
+  const isBetter = (score: number[]) => {
+    const [placed, ...costs] = score;
+    const [bestPlaced, ...bestCosts] = bestScore;
+    if (placed !== bestPlaced) return placed > bestPlaced;
+    for (let i = 0; i < costs.length; i++) {
+      if (costs[i] !== bestCosts[i]) return costs[i] < bestCosts[i];
+    }
+    return false;
+  };
+
+  const search = (index: number, current: Array<Position | null>) => {
+    if (index === pitches.length) {
+      const placed = current.filter((position): position is Position => position !== null);
+      const movement = placed.reduce((sum, position) =>
+        sum + (position.fret > 0 && handPosition !== null ? Math.abs(position.fret - handPosition) : 0), 0);
+      const stringChanges = current.filter((position, i) => position && position.stringIndex !== originalStrings[i]).length;
+      const frets = placed.reduce((sum, position) => sum + position.fret, 0);
+      const score = [placed.length, movement, stringChanges, frets];
+      if (isBetter(score)) {
+        best = [...current];
+        bestScore = score;
+      }
+      return;
+    }
+
+    pitchToFretPositions(pitches[index], instrument)
+      .filter(position => !usedStrings.has(position.stringIndex))
+      .forEach(position => {
+        usedStrings.add(position.stringIndex);
+        search(index + 1, [...current, position]);
+        usedStrings.delete(position.stringIndex);
+      });
+
+    search(index + 1, [...current, null]);
+  };
+
+  search(0, []);
+  return best;
+};
+
+/**
+ * Average fret of the stopped notes in a stack - where the fretting hand sits afterwards
+ */
+const getHandPosition = (notes: StackNote[], previous: number | null): number | null => {
+  const stopped = notes.filter(note => note.fret > 0);
+  if (stopped.length === 0) return previous;
+  return stopped.reduce((sum, note) => sum + note.fret, 0) / stopped.length;
+};
+
+/**
+ * Transpose notes by an interval and/or retarget them to another instrument's tuning
+ * Each note's pitch is worked out on the source instrument, shifted, and given a new string/fret
+ * on the target; notes the target can't play are removed and listed in `unplayable`.
+ * Notes outside the selection keep their string and fret, or just their pitch when retuning.
+ */
+export const transposeTab = (tab: Tab, options: TranspositionOptions): TranspositionResult => {
+  const { from, semitones = 0, selection = [] } = options;
+  const to = options.to ?? from;
+  const retuning = to !== from;
+  const range = getPitchRange(to);
+  const isSelected = (stack: NoteStack, note: StackNote) =>
+    selection.length === 0 || selection.some(item => item.stackId === stack.id && item.note.string === note.string);
+
+  const unplayable: UntransposableNote[] = [];
+  const newSelection: NoteSelection = [];
+  let handPosition: number | null = null;
+
+  const newTab = tab.map(stack => {
+    // On a new instrument every note has to be refingered, unselected ones at their current pitch
+    const kept = retuning ? [] : stack.notes.filter(note => !isSelected(stack, note));
+    const moving = retuning ? stack.notes : stack.notes.filter(note => isSelected(stack, note));
+    if (moving.length === 0) {
+      handPosition = getHandPosition(stack.notes, handPosition);
+      return stack;
+    }
+
+    const report = (note: StackNote, pitch: number | null, reason: UntransposableNote['reason']) => {
+      unplayable.push({
+        stackId: stack.id,
+        musicalPosition: stack.musicalPosition,
+        string: note.string,
+        fret: note.fret,
+        pitch,
+        noteName: pitch === null ? '' : midiNoteToName(pitch),
+        reason
+      });
+    };
+
+    const sourced = moving.filter(note => {
+      if (getNotePitch(note.fret, note.string, from) !== null) return true;
+      report(note, null, 'invalid-source');
+      return false;
+    });
+    const pitches = sourced.map(note =>
+      getNotePitch(note.fret, note.string, from)! + (isSelected(stack, note) ? semitones : 0)
+    );
+
+    const positions = solveStack(
+      pitches,
+      sourced.map(note => note.string),
+      to,
+      new Set(kept.map(note => note.string)),
+      handPosition
+    );
+
+    const placed: StackNote[] = [];
+    sourced.forEach((note, index) => {
+      const position = positions[index];
+      const pitch = pitches[index];
+      if (position) {
+        const moved = { ...note, string: position.stringIndex, fret: position.fret };
+        placed.push(moved);
+        if (isSelected(stack, note)) {
+          newSelection.push({ stackId: stack.id, note: { string: moved.string, fret: moved.fret } });
+        }
+      } else if (pitchToFretPositions(pitch, to).length > 0) {
+        report(note, pitch, 'no-free-string');
+      } else {
+        report(note, pitch, pitch >= range.lowest && pitch <= range.highest ? 'chromatic' : 'out-of-range');
+      }
+    });
+
+    const notes = [...kept, ...placed].sort((a, b) => a.string - b.string);
+    handPosition = getHandPosition(notes, handPosition);
+    return notes.length > 0 ? { ...stack, notes } : null;
+  }).filter(Boolean) as Tab;
+
+  return { tab: newTab, selection: newSelection, unplayable };
+};
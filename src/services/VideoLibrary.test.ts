@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { VideoLibrary } from './VideoLibrary';
+
+// In-memory stand-in for IndexedDB: one object store keyed by id, requests succeed on the next tick
+interface FakeRequest<T> {
+  result?: T;
+  error: null;
+  onsuccess?: () => void;
+  onerror?: () => void;
+}
+
+const installFakeIndexedDB = (): Map<string, unknown> => {
+  const records = new Map<string, unknown>();
+  const request = <T>(run: () => T): FakeRequest<T> => {
+    const pending: FakeRequest<T> = { error: null };
+    setTimeout(() => {
+      pending.result = run();
+      pending.onsuccess?.();
+    });
+    return pending;
+  };
+
+  const store = {
+    get: (id: string) => request(() => records.get(id)),
+    put: (entry: { id: string }) => request(() => {
+      records.set(entry.id, entry);
+      return entry.id;
+    }),
+    delete: (id: string) => request(() => records.delete(id))
+  };
+  const db = { transaction: () => ({ objectStore: () => store }) };
+  (globalThis as unknown as { indexedDB: unknown }).indexedDB = { open: () => request(() => db) };
+  return records;
+};
+
+// File System Access handle whose permission and file can be controlled per test
+const fakeHandle = (options: { permission: PermissionState; file?: File; afterRequest?: PermissionState }) =>
+  ({
+    queryPermission: async () => options.permission,
+    requestPermission: async () => options.afterRequest ?? options.permission,
+    getFile: async () => {
+      if (!options.file) throw new DOMException('File not found', 'NotFoundError');
+      return options.file;
+    }
+  }) as unknown as FileSystemFileHandle;
+
+const HASH_CHUNK_BYTES = 8 * 1024 * 1024;
+
+describe('VideoLibrary', () => {
+  describe('hashFile', () => {
+    it('should hash small files from their whole contents', async () => {
+      const hash = await VideoLibrary.hashFile(new Blob(['lesson one']));
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(await VideoLibrary.hashFile(new Blob(['lesson one']))).toBe(hash);
+      expect(await VideoLibrary.hashFile(new Blob(['lesson two']))).not.toBe(hash);
+    });
+
+    it('should hash long files from their first and last chunks', async () => {
+      const bytes = new Uint8Array(HASH_CHUNK_BYTES * 2 + 1024);
+      const original = await VideoLibrary.hashFile(new Blob([bytes]));
+
+      // A change in the middle falls between the hashed chunks
+      bytes[HASH_CHUNK_BYTES + 512] = 1;
+      expect(await VideoLibrary.hashFile(new Blob([bytes]))).toBe(original);
+
+      bytes[bytes.length - 1] = 1;
+      expect(await VideoLibrary.hashFile(new Blob([bytes]))).not.toBe(original);
+    });
+  });
+
+  describe('lookup', () => {
+    let library: VideoLibrary;
+    let records: Map<string, unknown>;
+    const video = new File(['frames'], 'lesson.mp4', { type: 'video/mp4' });
+
+    beforeEach(() => {
+      records = installFakeIndexedDB();
+      library = new VideoLibrary();
+    });
+
+    it('should return a stored copy of the video', async () => {
+      const id = await library.add(video);
+      const result = await library.lookup(id);
+
+      expect(result.status).toBe('found');
+      const file = (result as { file: File }).file;
+      expect(file.name).toBe('lesson.mp4');
+      expect(file.type).toBe('video/mp4');
+      expect(await file.text()).toBe('frames');
+    });
+
+    it('should keep a handle instead of a copy and open the file through it', async () => {
+      const id = await library.add(video, fakeHandle({ permission: 'granted', file: video }));
+
+      expect(records.get(id)).not.toHaveProperty('blob');
+      expect(await library.lookup(id)).toEqual({ status: 'found', file: video });
+    });
+
+    it('should ask for permission again when the handle is not granted', async () => {
+      const id = await library.add(video, fakeHandle({ permission: 'prompt', file: video, afterRequest: 'granted' }));
+
+      expect(await library.lookup(id)).toEqual({ status: 'permission', name: 'lesson.mp4' });
+      expect(await library.lookup(id, true)).toEqual({ status: 'found', file: video });
+    });
+
+    it('should report a denied handle as needing permission', async () => {
+      const id = await library.add(video, fakeHandle({ permission: 'denied', file: video }));
+
+      expect(await library.lookup(id, true)).toEqual({ status: 'permission', name: 'lesson.mp4' });
+    });
+
+    it('should report a moved file or an unknown key as missing', async () => {
+      const id = await library.add(video, fakeHandle({ permission: 'granted' }));
+
+      expect(await library.lookup(id)).toEqual({ status: 'missing' });
+      expect(await library.lookup('not-in-the-library')).toEqual({ status: 'missing' });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// Video Library
+// Browser-local store of lesson videos in IndexedDB, keyed by a hash of their contents
+// Projects only save the key, so reopening a .stab re-attaches its video without re-picking the file
+// Where the File System Access API exists a file handle is kept instead of copying the video
+
+export interface VideoLibraryEntry {
+  id: string; // Content hash
+  name: string;
+  type: string;
+  size: number;
+  addedAt: string;
+  blob?: Blob; // Copy of the video when no file handle is available
+  handle?: FileSystemFileHandle;
+}
+
+export type VideoLookup =
+  | { status: 'found'; file: File }
+  | { status: 'permission'; name: string } // Handle kept, but the browser needs a click to grant access again
+  | { status: 'missing' };
+
+// File System Access pieces not yet in the DOM typings
+interface PermissionedFileHandle extends FileSystemFileHandle {
+  queryPermission?: (descriptor: { mode: 'read' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: 'read' }) => Promise<PermissionState>;
+}
+
+interface FilePickerWindow {
+  showOpenFilePicker: (options: {
+    types: { description: string; accept: Record<string, string[]> }[];
+    multiple: boolean;
+  }) => Promise<FileSystemFileHandle[]>;
+}
+
+// Long videos are hashed from their size plus the first and last chunks, which is enough to tell files apart
+const HASH_CHUNK_BYTES = 8 * 1024 * 1024;
+
+export class VideoLibrary {
+  private static readonly DB_NAME = 'strumstick-video-library';
+  private static readonly STORE_NAME = 'videos';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static supportsFileHandles(): boolean {
+    return typeof window !== 'undefined' && 'showOpenFilePicker' in window;
+  }
+
+  // Content hash used as the library key
+  static async hashFile(file: Blob): Promise<string> {
+    const parts: BlobPart[] = [String(file.size)];
+    if (file.size <= HASH_CHUNK_BYTES * 2) {
+      parts.push(await file.arrayBuffer());
+    } else {
+      parts.push(await file.slice(0, HASH_CHUNK_BYTES).arrayBuffer());
+      parts.push(await file.slice(file.size - HASH_CHUNK_BYTES).arrayBuffer());
+    }
+
+    const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Pick a video through the File System Access API, keeping its handle
+  static async pickVideoFile(): Promise<{ file: File; handle: FileSystemFileHandle } | null> {
+    try {
+      const [handle] = await (window as unknown as FilePickerWindow).showOpenFilePicker({
+        types: [{ description: 'Videos', accept: { 'video/*': ['.mp4', '.webm', '.mov', '.m4v', '.ogv'] } }],
+        multiple: false
+      });
+      return { file: await handle.getFile(), handle };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+
+  // Store a video (or its handle) and return its library key
+  async add(file: File, handle?: FileSystemFileHandle): Promise<string> {
+    const id = await VideoLibrary.hashFile(file);
+    const entry: VideoLibraryEntry = {
+      id,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      addedAt: new Date().toISOString(),
+      ...(handle ? { handle } : { blob: file })
+    };
+
+    await this.request(store => store.put(entry), 'readwrite');
+    console.log(`🎞️ Video "${file.name}" stored in the library`);
+    return id;
+  }
+
+  async get(id: string): Promise<VideoLibraryEntry | undefined> {
+    return this.request<VideoLibraryEntry | undefined>(store => store.get(id));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.request(store => store.delete(id), 'readwrite');
+  }
+
+  /**
+   * Find a linked video
+   * Asking for permission needs a user gesture, so only pass requestPermission from a click handler
+   */
+  async lookup(id: string, requestPermission: boolean = false): Promise<VideoLookup> {
+    const entry = await this.get(id);
+    if (!entry) return { status: 'missing' };
+
+    if (entry.blob) {
+      return { status: 'found', file: new File([entry.blob], entry.name, { type: entry.type }) };
+    }
+    if (!entry.handle) return { status: 'missing' };
+
+    const handle = entry.handle as PermissionedFileHandle;
+    const permission = requestPermission
+      ? await handle.requestPermission?.({ mode: 'read' })
+      : await handle.queryPermission?.({ mode: 'read' });
+    if (permission !== undefined && permission !== 'granted') {
+      return { status: 'permission', name: entry.name };
+    }
+
+    try {
+      return { status: 'found', file: await handle.getFile() };
+    } catch (error) {
+      // The file was moved or deleted since it was linked
+      console.warn(`Linked video "${entry.name}" could not be opened:`, error);
+      return { status: 'missing' };
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(VideoLibrary.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(VideoLibrary.STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    operation: (store: IDBObjectStore) => IDBRequest,
+    mode: IDBTransactionMode = 'readonly'
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(VideoLibrary.STORE_NAME, mode).objectStore(VideoLibrary.STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  addSyncPoint,
+  removeSyncPoint,
+  slotToVideoSeconds,
+  videoSecondsToSlot,
+  getLocalVideoBPM,
+  shiftSyncMap,
+  type SyncPoint
+} from './VideoSyncMap';
+
+// Bar 1 at 10s, bar 2 four seconds later (60 BPM), bar 3 two seconds after that (120 BPM)
+const MAP: SyncPoint[] = [
+  { slot: 0, seconds: 10 },
+  { slot: 16, seconds: 14 },
+  { slot: 32, seconds: 16 }
+];
+
+describe('VideoSyncMap', () => {
+  describe('addSyncPoint', () => {
+    it('should keep anchors in slot order and replace one at the same slot', () => {
+      const map = addSyncPoint(addSyncPoint(MAP, { slot: 8, seconds: 12.5 }), { slot: 16, seconds: 14.2 });
+      expect(map).toEqual([
+        { slot: 0, seconds: 10 },
+        { slot: 8, seconds: 12.5 },
+        { slot: 16, seconds: 14.2 },
+        { slot: 32, seconds: 16 }
+      ]);
+    });
+
+    it('should drop anchors that would run time backwards', () => {
+      expect(addSyncPoint(MAP, { slot: 24, seconds: 17 })).toEqual([
+        { slot: 0, seconds: 10 },
+        { slot: 16, seconds: 14 },
+        { slot: 24, seconds: 17 }
+      ]);
+    });
+  });
+
+  it('should remove the anchor at a slot', () => {
+    expect(removeSyncPoint(MAP, 16).map(point => point.slot)).toEqual([0, 32]);
+  });
+
+  it('should interpolate between anchors and extrapolate at the recorded tempo', () => {
+    expect(slotToVideoSeconds(MAP, 8, 120)).toBe(12);
+    expect(slotToVideoSeconds(MAP, 24, 120)).toBe(15);
+    expect(slotToVideoSeconds(MAP, -8, 120)).toBe(9); // 8 slots at 120 BPM = 1s
+    expect(slotToVideoSeconds(MAP, 40, 120)).toBe(17);
+    expect(slotToVideoSeconds([], 16, 120)).toBe(2);
+  });
+
+  it('should start at the video offset when nothing is tapped', () => {
+    expect(slotToVideoSeconds([], 16, 120, 25)).toBe(27);
+    expect(videoSecondsToSlot([], 27, 120, 25)).toBe(16);
+    expect(shiftSyncMap(MAP, 5)[0]).toEqual({ slot: 0, seconds: 15 });
+  });
+
+  it('should map video time back to the slot', () => {
+    [-8, 0, 5, 16, 27, 40].forEach(slot => {
+      expect(videoSecondsToSlot(MAP, slotToVideoSeconds(MAP, slot, 100), 100)).toBeCloseTo(slot);
+    });
+  });
+
+  it('should give the tempo the video plays at between anchors', () => {
+    expect(getLocalVideoBPM(MAP, 4, 90)).toBe(60);
+    expect(getLocalVideoBPM(MAP, 16, 90)).toBe(120);
+    expect(getLocalVideoBPM(MAP, 40, 90)).toBe(90);
+  });
+});
@@ -0,0 +1,83 @@
+// Video Sync Map
+// Anchor points tying performed tab slots to video seconds, tapped in while watching
+// Between anchors time is interpolated linearly; outside them it runs at the recorded BPM
+// Without anchors slot 0 sits at the video's start offset (the first beat after any spoken intro)
+
+export interface SyncPoint {
+  slot: number; // Performed sixteenth-note slot (repeats unrolled)
+  seconds: number; // Video time
+}
+
+const secondsPerSlot = (bpm: number): number => 60 / bpm / 4;
+
+/**
+ * Add or move the anchor at a slot
+ * Anchors that would make time run backwards against the new one are dropped
+ */
+export const addSyncPoint = (map: SyncPoint[], point: SyncPoint): SyncPoint[] =>
+  [
+    ...map.filter(existing =>
+      existing.slot < point.slot ? existing.seconds < point.seconds : existing.slot > point.slot && existing.seconds > point.seconds
+    ),
+    point
+  ].sort((a, b) => a.slot - b.slot);
+
+/**
+ * Remove the anchor at a slot
+ */
+export const removeSyncPoint = (map: SyncPoint[], slot: number): SyncPoint[] =>
+  map.filter(point => point.slot !== slot);
+
+// The two anchors whose span holds a value (or the nearest end pair), or null without two anchors
+const findSpan = (map: SyncPoint[], value: number, key: keyof SyncPoint): [SyncPoint, SyncPoint] | null => {
+  if (map.length < 2) return null;
+  const index = Math.max(1, Math.min(map.length - 1, map.findIndex(point => point[key] > value)));
+  return [map[index - 1], map[index]];
+};
+
+/**
+ * Video time of a performed slot
+ */
+export const slotToVideoSeconds = (map: SyncPoint[], slot: number, recordedBPM: number, startOffset: number = 0): number => {
+  if (map.length === 0) return startOffset + slot * secondsPerSlot(recordedBPM);
+
+  const first = map[0];
+  const last = map[map.length - 1];
+  if (slot <= first.slot) return first.seconds - (first.slot - slot) * secondsPerSlot(recordedBPM);
+  if (slot >= last.slot) return last.seconds + (slot - last.slot) * secondsPerSlot(recordedBPM);
+
+  const [a, b] = findSpan(map, slot, 'slot')!;
+  return a.seconds + ((slot - a.slot) / (b.slot - a.slot)) * (b.seconds - a.seconds);
+};
+
+/**
+ * Performed slot (fractional) at a video time - the inverse of slotToVideoSeconds
+ */
+export const videoSecondsToSlot = (map: SyncPoint[], seconds: number, recordedBPM: number, startOffset: number = 0): number => {
+  if (map.length === 0) return (seconds - startOffset) / secondsPerSlot(recordedBPM);
+
+  const first = map[0];
+  const last = map[map.length - 1];
+  if (seconds <= first.seconds) return first.slot - (first.seconds - seconds) / secondsPerSlot(recordedBPM);
+  if (seconds >= last.seconds) return last.slot + (seconds - last.seconds) / secondsPerSlot(recordedBPM);
+
+  const [a, b] = findSpan(map, seconds, 'seconds')!;
+  return a.slot + ((seconds - a.seconds) / (b.seconds - a.seconds)) * (b.slot - a.slot);
+};
+
+/**
+ * Move every anchor by the same amount, e.g. when the first beat is re-placed
+ */
+export const shiftSyncMap = (map: SyncPoint[], deltaSeconds: number): SyncPoint[] =>
+  map.map(point => ({ ...point, seconds: point.seconds + deltaSeconds }));
+
+/**
+ * Tempo the video is actually playing at around a performed slot
+ * Falls back to the recorded BPM outside the anchored stretch
+ */
+export const getLocalVideoBPM = (map: SyncPoint[], slot: number, recordedBPM: number): number => {
+  if (map.length < 2 || slot < map[0].slot || slot >= map[map.length - 1].slot) return recordedBPM;
+
+  const [a, b] = findSpan(map, slot, 'slot')!;
+  return (60 * (b.slot - a.slot)) / 4 / (b.seconds - a.seconds);
+};
@@ -0,0 +1,120 @@
+// Tests for the Undo/Redo History layer
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { createHistoryReducer, createHistoryState, canUndo, canRedo, type HistoryState } from './history'
+
+describe('History Reducer', () => {
+  type CounterState = { value: number; cursor: number }
+  type CounterAction =
+    | { type: 'ADD'; amount: number }
+    | { type: 'TYPE'; amount: number }
+    | { type: 'MOVE_CURSOR' }
+    | { type: 'LOAD'; value: number }
+
+  const counterReducer = (state: CounterState, action: CounterAction): CounterState => {
+    switch (action.type) {
+      case 'ADD':
+      case 'TYPE':
+        return { ...state, value: state.value + action.amount }
+      case 'MOVE_CURSOR':
+        return { ...state, cursor: state.cursor + 1 }
+      case 'LOAD':
+        return { ...state, value: action.value }
+      default:
+        return state
+    }
+  }
+
+  let clock: number
+  const reducer = createHistoryReducer<CounterState, CounterAction>(counterReducer, {
+    isUndoable: action => action.type !== 'MOVE_CURSOR',
+    clearsHistory: action => action.type === 'LOAD',
+    getCoalesceKey: action => (action.type === 'TYPE' ? 'typing' : null),
+    coalesceWindowMs: 500,
+    snapshot: state => ({ value: state.value }),
+    restore: (state, snapshot) => ({ ...state, ...snapshot }),
+    limit: 3,
+    now: () => clock
+  })
+
+  let history: HistoryState<CounterState>
+
+  beforeEach(() => {
+    clock = 0
+    history = createHistoryState<CounterState>({ value: 0, cursor: 0 })
+  })
+
+  it('should undo and redo an edit', () => {
+    history = reducer(history, { type: 'ADD', amount: 5 })
+    expect(history.present.value).toBe(5)
+    expect(canUndo(history)).toBe(true)
+
+    history = reducer(history, { type: 'UNDO' })
+    expect(history.present.value).toBe(0)
+    expect(canRedo(history)).toBe(true)
+
+    history = reducer(history, { type: 'REDO' })
+    expect(history.present.value).toBe(5)
+    expect(canRedo(history)).toBe(false)
+  })
+
+  it('should not record or rewind non-undoable actions', () => {
+    history = reducer(history, { type: 'ADD', amount: 1 })
+    history = reducer(history, { type: 'MOVE_CURSOR' })
+    history = reducer(history, { type: 'MOVE_CURSOR' })
+
+    expect(history.past).toHaveLength(1)
+
+    history = reducer(history, { type: 'UNDO' })
+    expect(history.present.value).toBe(0)
+    expect(history.present.cursor).toBe(2) // Cursor is not part of the snapshot
+  })
+
+  it('should coalesce rapid edits with the same key', () => {
+    history = reducer(history, { type: 'TYPE', amount: 1 })
+    clock = 200
+    history = reducer(history, { type: 'TYPE', amount: 2 })
+
+    expect(history.past).toHaveLength(1)
+
+    history = reducer(history, { type: 'UNDO' })
+    expect(history.present.value).toBe(0)
+  })
+
+  it('should start a new step once the coalesce window has passed', () => {
+    history = reducer(history, { type: 'TYPE', amount: 1 })
+    clock = 2000
+    history = reducer(history, { type: 'TYPE', amount: 2 })
+
+    expect(history.past).toHaveLength(2)
+  })
+
+  it('should drop the redo stack after a new edit', () => {
+    history = reducer(history, { type: 'ADD', amount: 1 })
+    history = reducer(history, { type: 'UNDO' })
+    history = reducer(history, { type: 'ADD', amount: 3 })
+
+    expect(canRedo(history)).toBe(false)
+    expect(history.present.value).toBe(3)
+  })
+
+  it('should cap the number of undo steps', () => {
+    for (let i = 0; i < 5; i++) {
+      history = reducer(history, { type: 'ADD', amount: 1 })
+    }
+
+    expect(history.past).toHaveLength(3)
+  })
+
+  it('should clear history when a document is loaded', () => {
+    history = reducer(history, { type: 'ADD', amount: 1 })
+    history = reducer(history, { type: 'LOAD', value: 42 })
+
+    expect(canUndo(history)).toBe(false)
+    expect(history.present.value).toBe(42)
+  })
+
+  it('should ignore undo/redo when there is nothing to apply', () => {
+    expect(reducer(history, { type: 'UNDO' })).toBe(history)
+    expect(reducer(history, { type: 'REDO' })).toBe(history)
+  })
+})
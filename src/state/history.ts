@@ -0,0 +1,145 @@
+// Undo/Redo History
+// Generic history layer that wraps a pure reducer with undo/redo support
+// Only the musical slice of state is snapshotted, so UI state (cursor, zoom, ...) is never rewound
+
+// History bookkeeping kept alongside the wrapped reducer's state
+export interface HistoryState<S, Snapshot = Partial<S>> {
+  past: Snapshot[]
+  present: S
+  future: Snapshot[]
+  lastCoalesceKey: string | null
+  lastChangeAt: number
+}
+
+// Actions handled by the history layer itself
+export type HistoryAction =
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'CLEAR_HISTORY' }
+
+export interface HistoryConfig<S, A extends { type: string }, Snapshot = Partial<S>> {
+  // Whether an action changes musical content and should create an undo step
+  isUndoable: (action: A) => boolean
+  // Actions that replace the document wholesale (load, reset) and wipe the history
+  clearsHistory?: (action: A) => boolean
+  // Consecutive actions with the same key inside the window collapse into one step
+  getCoalesceKey?: (action: A) => string | null
+  coalesceWindowMs?: number
+  // Extract the musical slice that undo/redo restores
+  snapshot: (state: S) => Snapshot
+  // Merge a snapshot back into the current state
+  restore: (state: S, snapshot: Snapshot) => S
+  limit?: number
+  now?: () => number
+}
+
+const DEFAULT_COALESCE_WINDOW_MS = 1000
+const DEFAULT_HISTORY_LIMIT = 100
+
+const HISTORY_ACTION_TYPES = new Set(['UNDO', 'REDO', 'CLEAR_HISTORY'])
+
+const isHistoryAction = (action: { type: string }): action is HistoryAction =>
+  HISTORY_ACTION_TYPES.has(action.type)
+
+/**
+ * Create an empty history around an initial state
+ */
+export const createHistoryState = <S, Snapshot = Partial<S>>(present: S): HistoryState<S, Snapshot> => ({
+  past: [],
+  present,
+  future: [],
+  lastCoalesceKey: null,
+  lastChangeAt: 0
+})
+
+/**
+ * Wrap a reducer with undo/redo history
+ * Non-undoable actions pass straight through without touching the history stacks
+ */
+export const createHistoryReducer = <S, A extends { type: string }, Snapshot = Partial<S>>(
+  reducer: (state: S, action: A) => S,
+  config: HistoryConfig<S, A, Snapshot>
+) => {
+  const {
+    isUndoable,
+    clearsHistory = () => false,
+    getCoalesceKey = () => null,
+    coalesceWindowMs = DEFAULT_COALESCE_WINDOW_MS,
+    snapshot,
+    restore,
+    limit = DEFAULT_HISTORY_LIMIT,
+    now = Date.now
+  } = config
+
+  return (history: HistoryState<S, Snapshot>, action: A | HistoryAction): HistoryState<S, Snapshot> => {
+    if (isHistoryAction(action)) {
+      switch (action.type) {
+        case 'UNDO': {
+          if (history.past.length === 0) return history
+          const previous = history.past[history.past.length - 1]
+          return {
+            past: history.past.slice(0, -1),
+            present: restore(history.present, previous),
+            future: [snapshot(history.present), ...history.future],
+            lastCoalesceKey: null,
+            lastChangeAt: 0
+          }
+        }
+
+        case 'REDO': {
+          if (history.future.length === 0) return history
+          const [next, ...remaining] = history.future
+          return {
+            past: [...history.past, snapshot(history.present)],
+            present: restore(history.present, next),
+            future: remaining,
+            lastCoalesceKey: null,
+            lastChangeAt: 0
+          }
+        }
+
+        case 'CLEAR_HISTORY':
+          return createHistoryState(history.present)
+      }
+    }
+
+    const appAction = action as A
+    const present = reducer(history.present, appAction)
+
+    if (clearsHistory(appAction)) {
+      return createHistoryState(present)
+    }
+
+    // Nothing changed, or the change isn't part of the musical document
+    if (present === history.present) return history
+    if (!isUndoable(appAction)) {
+      return { ...history, present }
+    }
+
+    const timestamp = now()
+    const coalesceKey = getCoalesceKey(appAction)
+    const shouldCoalesce =
+      coalesceKey !== null &&
+      coalesceKey === history.lastCoalesceKey &&
+      history.past.length > 0 &&
+      timestamp - history.lastChangeAt <= coalesceWindowMs
+
+    const past = shouldCoalesce
+      ? history.past
+      : [...history.past, snapshot(history.present)].slice(-limit)
+
+    return {
+      past,
+      present,
+      future: [],
+      lastCoalesceKey: coalesceKey,
+      lastChangeAt: timestamp
+    }
+  }
+}
+
+/**
+ * Convenience flags for UI (toolbar buttons, menus)
+ */
+export const canUndo = (history: HistoryState<unknown, unknown>): boolean => history.past.length > 0
+export const canRedo = (history: HistoryState<unknown, unknown>): boolean => history.future.length > 0
@@ -1,6 +1,7 @@
 // Main Reducer - Pure state transitions for the entire app
 import type { AppState, AppAction } from './types'
 import { initialState } from './initialState'
+import { createHistoryReducer, type HistoryAction } from './history'
 import { 
   addNoteAtPosition, 
   removeNoteAtIndex, 
@@ -325,6 +326,58 @@ export const appReducer = (state: AppState, action: AppAction): AppState => {
   }
 }
 
+// === Undo/Redo History ===
+
+// Actions that edit the musical document; cursor, zoom, playback and dialog actions are excluded
+const UNDOABLE_ACTIONS = new Set<AppAction['type']>([
+  'ADD_NOTE',
+  'REMOVE_NOTE',
+  'UPDATE_NOTE',
+  'TOGGLE_DOTTED_NOTE',
+  'CHANGE_NOTE_DURATION',
+  'SET_TEMPO',
+  'SET_TIME_SIGNATURE',
+  'ADD_MEASURE_LINE',
+  'REMOVE_MEASURE_LINE',
+  'CLEAR_MEASURE_LINES'
+])
+
+/**
+ * Coalesce key for rapid edits - typing frets into the same cell or nudging the tempo
+ * collapses into a single undo step
+ */
+const getAppCoalesceKey = (action: AppAction): string | null => {
+  switch (action.type) {
+    case 'ADD_NOTE':
+      return `note:${action.payload.note.startSlot}:${action.payload.note.stringIndex}`
+    case 'UPDATE_NOTE':
+      return action.payload.note.fret !== undefined ? `fret:${action.payload.index}` : null
+    case 'SET_TEMPO':
+      return 'tempo'
+    default:
+      return null
+  }
+}
+
+// History-wrapped reducer used by useTabEditor
+export const appHistoryReducer = createHistoryReducer<AppState, AppAction>(appReducer, {
+  isUndoable: action => UNDOABLE_ACTIONS.has(action.type),
+  clearsHistory: action => action.type === 'LOAD_PROJECT_STATE' || action.type === 'RESET_TO_INITIAL_STATE',
+  getCoalesceKey: getAppCoalesceKey,
+  snapshot: state => ({
+    notes: state.notes,
+    tempo: state.tempo,
+    timeSignature: state.timeSignature,
+    customMeasureLines: state.customMeasureLines
+  }),
+  restore: (state, snapshot) => ({
+    ...state,
+    ...snapshot,
+    selection: [], // Indices may no longer point at the same notes
+    isModified: true
+  })
+})
+
 // Action creators for commonly used actions
 export const actionCreators = {
   // Note actions
@@ -360,4 +413,8 @@ export const actionCreators = {
   }),
   
   clearFretInput: (): AppAction => ({ type: 'CLEAR_FRET_INPUT' }),
+  
+  // History actions
+  undo: (): HistoryAction => ({ type: 'UNDO' }),
+  redo: (): HistoryAction => ({ type: 'REDO' }),
 } 
\ No newline at end of file
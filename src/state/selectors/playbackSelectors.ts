@@ -3,12 +3,15 @@
 
 import type { Note } from '../../types'
 import type { AudioEvent } from '../types'
-import { getNoteDurationValue, DURATION_SLOTS } from '../../types'
+import { getNoteDurationValue, getNoteStartPosition, DURATION_SLOTS } from '../../types'
+import type { Tuplet, InstrumentProfile } from '../../types/notestack'
+import { DEFAULT_INSTRUMENT, getNotePitch, isValidString } from '../../types/notestack'
+import type { PerformanceSegment } from '../../services/PlaybackOrder'
 
-// Audio constants for strumstick tuning and timing
+// Audio constants for pitch and timing
 const AUDIO_CONSTANTS = {
-  // Strumstick tuning: Low D, A, Hi D (in Hz)
-  BASE_FREQUENCIES: [146.83, 220.00, 293.66], // D3, A3, D4
+  A4_FREQUENCY: 440,
+  A4_MIDI_NOTE: 69,
   BEATS_PER_MINUTE_TO_SECONDS: 60,
   SIXTEENTH_NOTE_BEATS: 0.25, // Sixteenth note = 0.25 beats
   DEFAULT_VELOCITY: 0.7,
@@ -17,17 +20,18 @@ const AUDIO_CONSTANTS = {
 
 /**
  * Calculate frequency for a fret on a given string
- * Pure function for fret-to-frequency conversion
+ * Pure function for fret-to-frequency conversion, following the instrument's tuning and fret layout
  */
-export const selectNoteFrequency = (fret: number, stringIndex: number): number => {
-  // Validate inputs
-  if (stringIndex < 0 || stringIndex >= AUDIO_CONSTANTS.BASE_FREQUENCIES.length) {
-    return AUDIO_CONSTANTS.BASE_FREQUENCIES[0] // Default to Low D
-  }
-  
-  // Each fret is a semitone (12th root of 2)
-  const basePitch = AUDIO_CONSTANTS.BASE_FREQUENCIES[stringIndex]
-  return basePitch * Math.pow(2, fret / 12)
+export const selectNoteFrequency = (
+  fret: number,
+  stringIndex: number,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): number => {
+  // Validate inputs: unknown strings default to the lowest string,
+  // and frets missing from the layout sound the open string
+  const string = isValidString(stringIndex, instrument) ? stringIndex : 0
+  const pitch = getNotePitch(fret, string, instrument) ?? instrument.openPitches[string]
+  return AUDIO_CONSTANTS.A4_FREQUENCY * Math.pow(2, (pitch - AUDIO_CONSTANTS.A4_MIDI_NOTE) / 12)
 }
 
 /**
@@ -36,15 +40,17 @@ export const selectNoteFrequency = (fret: number, stringIndex: number): number =
 export const selectNoteDurationSeconds = (
   duration: Note['duration'],
   isDotted: boolean = false,
-  tempo: number = 120
+  tempo: number = 120,
+  tuplet?: Tuplet
 ): number => {
-  const beats = getNoteDurationValue(duration, isDotted)
+  const beats = getNoteDurationValue(duration, isDotted, tuplet)
   const secondsPerBeat = AUDIO_CONSTANTS.BEATS_PER_MINUTE_TO_SECONDS / tempo
   return beats * secondsPerBeat
 }
 
 /**
  * Calculate absolute time for a note based on its start slot and tempo
+ * Slots may be fractional for notes inside tuplets
  */
 export const selectNoteStartTime = (
   startSlot: number,
@@ -62,7 +68,8 @@ export const selectNoteStartTime = (
 export const selectNoteAudioEvent = (
   note: Note,
   tempo: number = 120,
-  velocity: number = AUDIO_CONSTANTS.DEFAULT_VELOCITY
+  velocity: number = AUDIO_CONSTANTS.DEFAULT_VELOCITY,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
 ): AudioEvent | null => {
   // Skip rests and notes without frets
   if (note.type === 'rest' || note.fret === null) {
@@ -70,29 +77,50 @@ export const selectNoteAudioEvent = (
   }
   
   return {
-    time: selectNoteStartTime(note.startSlot, tempo),
-    frequency: selectNoteFrequency(note.fret, note.stringIndex),
-    duration: selectNoteDurationSeconds(note.duration, note.isDotted, tempo),
+    time: selectNoteStartTime(getNoteStartPosition(note), tempo),
+    frequency: selectNoteFrequency(note.fret, note.stringIndex, instrument),
+    duration: selectNoteDurationSeconds(note.duration, note.isDotted, tempo, note.tuplet),
     stringIndex: note.stringIndex,
     fret: note.fret,
     velocity
   }
 }
 
+/**
+ * Place notes in performance order (repeats and jumps unrolled)
+ * Segments are in slots; each performed copy starts at its performance slot
+ */
+export const selectPerformedNotes = (
+  notes: Note[],
+  performanceOrder: PerformanceSegment[]
+): Note[] => {
+  return performanceOrder.flatMap(segment => notes
+    .filter(note => note.startSlot >= segment.start && note.startSlot < segment.end)
+    .map(note => ({
+      ...note,
+      startSlot: segment.performanceStart + (note.startSlot - segment.start)
+    }))
+  )
+}
+
 /**
  * Convert all notes to audio events for playback
+ * With a performance order, startPosition is a performance slot
  */
 export const selectAudioEvents = (
   notes: Note[],
   tempo: number = 120,
   startPosition: number = 0,
-  velocity: number = AUDIO_CONSTANTS.DEFAULT_VELOCITY
+  velocity: number = AUDIO_CONSTANTS.DEFAULT_VELOCITY,
+  performanceOrder?: PerformanceSegment[],
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
 ): AudioEvent[] => {
   const startTime = selectNoteStartTime(startPosition, tempo)
+  const performedNotes = performanceOrder ? selectPerformedNotes(notes, performanceOrder) : notes
   
-  return notes
-    .filter(note => note.startSlot >= startPosition) // Only notes at or after start position
-    .map(note => selectNoteAudioEvent(note, tempo, velocity))
+  return performedNotes
+    .filter(note => getNoteStartPosition(note) >= startPosition) // Only notes at or after start position
+    .map(note => selectNoteAudioEvent(note, tempo, velocity, instrument))
     .filter((event): event is AudioEvent => event !== null) // Remove null events
     .map(event => ({
       ...event,
@@ -112,8 +140,8 @@ export const selectTotalPlaybackDuration = (
   
   // Find the note that ends latest
   const lastEndTime = notes.reduce((maxTime, note) => {
-    const noteStartTime = selectNoteStartTime(note.startSlot, tempo)
-    const noteDuration = selectNoteDurationSeconds(note.duration, note.isDotted, tempo)
+    const noteStartTime = selectNoteStartTime(getNoteStartPosition(note), tempo)
+    const noteDuration = selectNoteDurationSeconds(note.duration, note.isDotted, tempo, note.tuplet)
     const noteEndTime = noteStartTime + noteDuration
     return Math.max(maxTime, noteEndTime)
   }, 0)
@@ -143,8 +171,8 @@ export const selectNotesPlayingAtTime = (
   tempo: number = 120
 ): Note[] => {
   return notes.filter(note => {
-    const noteStartTime = selectNoteStartTime(note.startSlot, tempo)
-    const noteDuration = selectNoteDurationSeconds(note.duration, note.isDotted, tempo)
+    const noteStartTime = selectNoteStartTime(getNoteStartPosition(note), tempo)
+    const noteDuration = selectNoteDurationSeconds(note.duration, note.isDotted, tempo, note.tuplet)
     const noteEndTime = noteStartTime + noteDuration
     
     return currentTime >= noteStartTime && currentTime < noteEndTime
@@ -218,11 +246,12 @@ export const selectSyncedTempo = (
 export const selectPreviewNoteEvent = (
   fret: number,
   stringIndex: number,
-  velocity: number = AUDIO_CONSTANTS.DEFAULT_VELOCITY
+  velocity: number = AUDIO_CONSTANTS.DEFAULT_VELOCITY,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
 ): AudioEvent => {
   return {
     time: 0, // Immediate playback
-    frequency: selectNoteFrequency(fret, stringIndex),
+    frequency: selectNoteFrequency(fret, stringIndex, instrument),
     duration: AUDIO_CONSTANTS.PREVIEW_NOTE_DURATION,
     stringIndex,
     fret,
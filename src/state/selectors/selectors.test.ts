@@ -11,7 +11,10 @@ import {
   selectStringY,
   selectNoteVisualWidth,
   selectClosestSlot,
-  selectClosestString
+  selectClosestString,
+  selectSystemBreaks,
+  selectWrappedPosition,
+  selectUnwrappedPosition
 } from './visualSelectors'
 import {
   selectNoteFrequency,
@@ -21,6 +24,7 @@ import {
   selectCountInEvents
 } from './playbackSelectors'
 import type { Note, CustomMeasureLine } from '../../types'
+import { FRET_MAPS, INSTRUMENT_PROFILES, DEFAULT_INSTRUMENT, withFretMap } from '../../types/notestack'
 import type { MeasureBoundary } from '../types'
 
 describe('Measure Selectors', () => {
@@ -165,6 +169,33 @@ describe('Visual Selectors', () => {
     })
   })
 
+  describe('selectSystemBreaks', () => {
+    const starts = [0, 16, 32, 48].map(position => ({ position, x: 80 + position * 10 }))
+    const end = { position: 64, x: 80 + 640 }
+
+    it('should pack whole measures onto each line', () => {
+      const systems = selectSystemBreaks(starts, end, 330, 200)
+
+      expect(systems.map(system => [system.start, system.end])).toEqual([[0, 32], [32, 64]])
+      expect(systems.map(system => system.offsetY)).toEqual([0, 200])
+    })
+
+    it('should always place at least one measure on a line', () => {
+      const systems = selectSystemBreaks(starts, end, 50, 200)
+
+      expect(systems).toHaveLength(4)
+      expect(systems[3].endX).toBe(end.x)
+    })
+
+    it('should map between wrapped and unwrapped coordinates', () => {
+      const systems = selectSystemBreaks(starts, end, 330, 200)
+      const wrapped = selectWrappedPosition(80 + 400, 40, systems)
+
+      expect(wrapped).toEqual({ x: 160, y: 240 })
+      expect(selectUnwrappedPosition(wrapped.x, wrapped.y, systems, 200)).toEqual({ x: 480, y: 40 })
+    })
+  })
+
   describe('selectClosestSlot', () => {
     it('should find closest slot to X coordinate', () => {
       const offsets = new Map([
@@ -202,13 +233,32 @@ describe('Playback Selectors', () => {
       expect(selectNoteFrequency(0, 1)).toBeCloseTo(220.00, 1) // A
       expect(selectNoteFrequency(0, 2)).toBeCloseTo(293.66, 1) // Hi D
       
-      // Test fretted notes (12th fret = octave)
-      expect(selectNoteFrequency(12, 0)).toBeCloseTo(146.83 * 2, 1) // Low D octave
+      // Test fretted notes (diatonic strumstick: 8th fret = octave)
+      expect(selectNoteFrequency(8, 0)).toBeCloseTo(146.83 * 2, 1) // Low D octave
+      expect(selectNoteFrequency(2, 0)).toBeCloseTo(185.00, 1) // F#3
+    })
+
+    it('should follow the fret map for half-frets', () => {
+      // 6½ fret is the major 7th (C#4), the 6th fret the flat 7th (C4)
+      const halfFrets = withFretMap(DEFAULT_INSTRUMENT, FRET_MAPS['half-frets'])
+      expect(selectNoteFrequency(6.5, 0, halfFrets)).toBeCloseTo(277.18, 1)
+      expect(selectNoteFrequency(6, 0, halfFrets)).toBeCloseTo(261.63, 1)
+      expect(selectNoteFrequency(13.5, 0, halfFrets)).toBeCloseTo(554.37, 1)
+    })
+
+    it('should follow the instrument tuning and string count', () => {
+      const dgd = INSTRUMENT_PROFILES['strumstick-dgd']
+      expect(selectNoteFrequency(0, 1, dgd)).toBeCloseTo(196.00, 1) // G3
+      expect(selectNoteFrequency(0, 2, dgd)).toBeCloseTo(293.66, 1) // Hi D
+
+      const dulcimer = INSTRUMENT_PROFILES['dulcimer-4']
+      expect(selectNoteFrequency(2, 3, dulcimer)).toBeCloseTo(369.99, 1) // F#4 on the 4th string
+      expect(selectNoteFrequency(2, 3)).toBe(selectNoteFrequency(2, 0)) // No 4th string on the strumstick
     })
 
     it('should handle invalid string indices', () => {
-      expect(selectNoteFrequency(0, -1)).toBe(146.83) // Default to Low D
-      expect(selectNoteFrequency(0, 5)).toBe(146.83) // Default to Low D
+      expect(selectNoteFrequency(0, -1)).toBe(selectNoteFrequency(0, 0)) // Default to Low D
+      expect(selectNoteFrequency(0, 5)).toBe(selectNoteFrequency(0, 0)) // Default to Low D
     })
   })
 
@@ -239,6 +289,40 @@ describe('Playback Selectors', () => {
       expect(events).toHaveLength(1)
       expect(events[0].time).toBe(0.5) // (8-4) slots = 1 beat = 0.5 seconds at 120 BPM
     })
+
+    it('should follow a performance order with repeats unrolled', () => {
+      const notes: Note[] = [
+        { type: 'note', fret: 1, duration: 'whole', stringIndex: 0, startSlot: 0 },
+        { type: 'note', fret: 2, duration: 'whole', stringIndex: 0, startSlot: 16 }
+      ]
+      // Measure 1 twice, then measure 2
+      const performanceOrder = [
+        { start: 0, end: 16, performanceStart: 0 },
+        { start: 0, end: 32, performanceStart: 16 }
+      ]
+      
+      const events = selectAudioEvents(notes, 120, 0, 0.7, performanceOrder)
+      
+      expect(events.map(event => event.fret)).toEqual([1, 1, 2])
+      expect(events.map(event => event.time)).toEqual([0, 2, 4])
+    })
+
+    it('should time tuplet notes from their exact offsets', () => {
+      const triplet = { actual: 3, normal: 2 }
+      const notes: Note[] = [
+        { type: 'note', fret: 1, duration: 'eighth', stringIndex: 0, startSlot: 0, tuplet: triplet },
+        { type: 'note', fret: 2, duration: 'eighth', stringIndex: 0, startSlot: 1, tuplet: triplet, tupletOffset: 1 / 3 },
+        { type: 'note', fret: 3, duration: 'eighth', stringIndex: 0, startSlot: 2, tuplet: triplet, tupletOffset: 2 / 3 }
+      ]
+      
+      const events = selectAudioEvents(notes, 120, 0)
+      
+      // Three triplet eighths share one beat (0.5 seconds at 120 BPM)
+      events.forEach((event, index) => {
+        expect(event.time).toBeCloseTo(index / 6)
+        expect(event.duration).toBeCloseTo(1 / 6)
+      })
+    })
   })
 
   describe('selectTotalPlaybackDuration', () => {
@@ -2,8 +2,9 @@
 // Pure functions that compute visual positioning and layout
 
 import type { Note } from '../../types'
-import type { MeasureBoundary, VisualLayout, VisualNote, VisualMeasure } from '../types'
+import type { MeasureBoundary, VisualLayout, VisualNote, VisualMeasure, VisualSystem } from '../types'
 import { getNoteDurationValue, DURATION_SLOTS } from '../../types'
+import { DEFAULT_INSTRUMENT } from '../../types/notestack'
 
 // Visual constants that can be configured
 const VISUAL_CONSTANTS = {
@@ -20,10 +21,13 @@ const VISUAL_CONSTANTS = {
 /**
  * Calculate Y position for a string based on its index
  */
-export const selectStringY = (stringIndex: number, zoom: number = 1.0): number => {
-  // Convert data index to display index (Hi D on top, Low D on bottom)
-  const stringIndices = [2, 1, 0] // Display order: Hi D=2, A=1, Low D=0
-  const displayIndex = stringIndices.indexOf(stringIndex)
+export const selectStringY = (
+  stringIndex: number,
+  zoom: number = 1.0,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
+): number => {
+  // Convert data index to display index (highest string on top, string 0 at the bottom)
+  const displayIndex = stringCount - 1 - stringIndex
   
   return (VISUAL_CONSTANTS.TOP_MARGIN + (displayIndex * VISUAL_CONSTANTS.STRING_SPACING)) * zoom
 }
@@ -31,8 +35,11 @@ export const selectStringY = (stringIndex: number, zoom: number = 1.0): number =
 /**
  * Calculate all string Y positions
  */
-export const selectStringPositions = (zoom: number = 1.0): number[] => {
-  return [0, 1, 2].map(stringIndex => selectStringY(stringIndex, zoom))
+export const selectStringPositions = (
+  zoom: number = 1.0,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
+): number[] => {
+  return Array.from({ length: stringCount }, (_, stringIndex) => selectStringY(stringIndex, zoom, stringCount))
 }
 
 /**
@@ -120,6 +127,84 @@ export const selectSlotX = (
   return leftMargin + baseOffset
 }
 
+/**
+ * Break a single-row layout into stacked systems at measure boundaries
+ * Positions can be slots or ticks; X values are unwrapped row coordinates
+ * Each line holds as many whole measures as fit in availableWidth (always at least one)
+ */
+export const selectSystemBreaks = (
+  measureStarts: Array<{ position: number; x: number }>,
+  end: { position: number; x: number },
+  availableWidth: number,
+  systemHeight: number
+): VisualSystem[] => {
+  const starts = [...measureStarts]
+    .filter(start => start.position < end.position)
+    .sort((a, b) => a.position - b.position)
+  if (starts.length === 0) {
+    return [{ index: 0, start: 0, end: end.position, startX: end.x, endX: end.x, offsetY: 0 }]
+  }
+
+  const boundaries = [...starts, end]
+  const systems: VisualSystem[] = []
+  let first = 0
+
+  while (first < starts.length) {
+    let last = first
+    while (last + 1 < starts.length && boundaries[last + 2].x - boundaries[first].x <= availableWidth) {
+      last++
+    }
+
+    systems.push({
+      index: systems.length,
+      start: boundaries[first].position,
+      end: boundaries[last + 1].position,
+      startX: boundaries[first].x,
+      endX: boundaries[last + 1].x,
+      offsetY: systems.length * systemHeight
+    })
+    first = last + 1
+  }
+
+  return systems
+}
+
+/**
+ * Find the system that contains an unwrapped X coordinate
+ */
+export const selectSystemAtX = (x: number, systems: VisualSystem[]): VisualSystem | null => {
+  if (systems.length === 0) return null
+  return [...systems].reverse().find(system => x >= system.startX) || systems[0]
+}
+
+/**
+ * Map an unwrapped row coordinate onto its line in page view
+ */
+export const selectWrappedPosition = (
+  x: number,
+  y: number,
+  systems: VisualSystem[]
+): { x: number; y: number } => {
+  const system = selectSystemAtX(x, systems)
+  if (!system) return { x, y }
+  return { x: systems[0].startX + (x - system.startX), y: y + system.offsetY }
+}
+
+/**
+ * Map a page-view point (e.g. a click) back onto the unwrapped row
+ */
+export const selectUnwrappedPosition = (
+  x: number,
+  y: number,
+  systems: VisualSystem[],
+  systemHeight: number
+): { x: number; y: number } => {
+  if (systems.length === 0) return { x, y }
+  const index = Math.max(0, Math.min(systems.length - 1, Math.floor(y / systemHeight)))
+  const system = systems[index]
+  return { x: system.startX + (x - systems[0].startX), y: y - system.offsetY }
+}
+
 /**
  * Calculate visual notes with positioning
  */
@@ -127,12 +212,13 @@ export const selectVisualNotes = (
   notes: Note[],
   selection: number[],
   offsets: Map<number, number>,
-  zoom: number = 1.0
+  zoom: number = 1.0,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
 ): VisualNote[] => {
   return notes.map((note, index) => ({
     ...note,
     visualX: selectSlotX(note.startSlot, offsets, zoom),
-    visualY: selectStringY(note.stringIndex, zoom),
+    visualY: selectStringY(note.stringIndex, zoom, stringCount),
     slot: note.startSlot,
     isSelected: selection.includes(index)
   }))
@@ -186,39 +272,36 @@ export const selectTotalWidth = (
 /**
  * Calculate total visual height needed for the layout
  */
-export const selectTotalHeight = (zoom: number = 1.0): number => {
+export const selectTotalHeight = (
+  zoom: number = 1.0,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
+): number => {
   const topMargin = VISUAL_CONSTANTS.TOP_MARGIN * zoom
   const bottomMargin = VISUAL_CONSTANTS.BOTTOM_MARGIN * zoom
-  const stringHeight = 2 * VISUAL_CONSTANTS.STRING_SPACING * zoom // 3 strings = 2 gaps
+  const stringHeight = (stringCount - 1) * VISUAL_CONSTANTS.STRING_SPACING * zoom // One gap between each pair of strings
   
   return topMargin + stringHeight + bottomMargin
 }
 
 /**
  * Main visual layout selector - combines all visual calculations
+ * Page view wrapping is done by the viewer with selectSystemBreaks
  */
 export const selectVisualLayout = (
   notes: Note[],
   measures: MeasureBoundary[],
   selection: number[],
-  zoom: number = 1.0
+  zoom: number = 1.0,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
 ): VisualLayout => {
   // Calculate visual offsets for intelligent spacing
   const offsets = selectVisualOffsets(notes, measures, zoom)
   
-  // Calculate positioned elements
-  const visualNotes = selectVisualNotes(notes, selection, offsets, zoom)
-  const visualMeasures = selectVisualMeasures(measures, offsets, zoom)
-  
-  // Calculate layout dimensions
-  const totalWidth = selectTotalWidth(notes, measures, offsets, zoom)
-  const stringPositions = selectStringPositions(zoom)
-  
   return {
-    notes: visualNotes,
-    measures: visualMeasures,
-    totalWidth,
-    stringPositions
+    notes: selectVisualNotes(notes, selection, offsets, zoom, stringCount),
+    measures: selectVisualMeasures(measures, offsets, zoom),
+    totalWidth: selectTotalWidth(notes, measures, offsets, zoom),
+    stringPositions: selectStringPositions(zoom, stringCount)
   }
 }
 
@@ -253,11 +336,12 @@ export const selectClosestSlot = (
  */
 export const selectClosestString = (
   y: number,
-  zoom: number = 1.0
+  zoom: number = 1.0,
+  stringCount: number = DEFAULT_INSTRUMENT.stringCount
 ): number => {
-  const stringPositions = selectStringPositions(zoom)
+  const stringPositions = selectStringPositions(zoom, stringCount)
   
-  let closestString = 2 // Default to Hi D string
+  let closestString = stringCount - 1 // Default to the top string
   let minDistance = Infinity
   
   stringPositions.forEach((stringY, index) => {
@@ -147,6 +147,16 @@ export interface VisualMeasure extends MeasureBoundary {
   visualX: number
 }
 
+// One line of a wrapped (page view) layout
+export interface VisualSystem {
+  index: number
+  start: number // First position on the line (slots or ticks, matching the caller)
+  end: number // Position where the next line starts
+  startX: number // Unwrapped X where the line begins
+  endX: number
+  offsetY: number // Vertical offset of the line
+}
+
 export interface VisualLayout {
   notes: VisualNote[]
   measures: VisualMeasure[]
@@ -1,5 +1,6 @@
 import { VisualOffsetManager } from './services/VisualOffsetManager';
 import { IntelligentMeasurePlacement } from './services/IntelligentMeasurePlacement';
+import type { BeamOverride, NavigationMarker, Technique, Tuplet } from './types/notestack';
 
 // Note duration types
 export type NoteDuration = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
@@ -17,6 +18,38 @@ export interface CustomMeasureLine {
   noteAtSlot?: { timeSlot: number; stringIndex: number }; // Note that was clicked to create this measure line
 }
 
+// Repeat barlines, endings and D.C./D.S. markers, anchored to the notes starting at a slot
+export interface StructureMarker {
+  slot: number; // Slot of the note stack carrying the marker (applies to its measure)
+  repeatStart?: boolean;
+  repeatEnd?: { jumpToSlot: number; timesToRepeat?: number };
+  ending?: { passes: number[]; measures?: number }; // 1st/2nd ending bracket
+  marker?: NavigationMarker;
+  beam?: BeamOverride; // Manual beam break/join
+}
+
+// Lyric syllable sung from a slot; each verse is its own line under the tab
+export interface LyricSyllable {
+  slot: number;
+  verse: number; // 0 = first verse
+  text: string; // A trailing "-" hyphenates it to the verse's next syllable
+  extender?: boolean; // Melisma: the syllable is held over the following notes
+}
+
+// Chord name shown above the tab from a slot, e.g. "D", "G/B", "A7"
+export interface ChordSymbol {
+  slot: number;
+  name: string;
+}
+
+// Rehearsal mark / section label ("A", "Chorus") or text annotation ("let ring") drawn above the tab
+export interface SectionMarker {
+  slot: number;
+  kind: 'section' | 'text'; // Sections run to the next section mark; text is a note at one spot
+  text: string;
+  measure?: boolean; // Anchored to the start of the measure containing `slot`
+}
+
 // Individual note/rest with duration and starting time slot
 export interface Note {
   type: NoteType;
@@ -27,6 +60,9 @@ export interface Note {
   isTiedTo?: number; // time slot of the next note this is tied to (optional)
   isTiedFrom?: number; // time slot of the previous note this is tied from (optional)
   isDotted?: boolean; // whether this note is dotted (adds 50% duration)
+  tuplet?: Tuplet; // part of a tuplet group, e.g. { actual: 3, normal: 2 } for a triplet
+  tupletOffset?: number; // tuplet notes can start between slots: fraction of a slot after startSlot (0-1)
+  technique?: Technique; // hammer-on, pull-off, slide, bend or vibrato
 }
 
 // Grid cell - can contain one note per string
@@ -62,10 +98,16 @@ export const DURATION_VALUES: Record<NoteDuration, number> = {
   sixteenth: 0.25,
 };
 
-// Calculate duration value including dotted notes
-export const getNoteDurationValue = (duration: NoteDuration, isDotted?: boolean): number => {
+// Calculate duration value including dotted notes and tuplet scaling
+export const getNoteDurationValue = (duration: NoteDuration, isDotted?: boolean, tuplet?: Tuplet): number => {
   const baseDuration = DURATION_VALUES[duration];
-  return isDotted ? baseDuration * 1.5 : baseDuration;
+  const dottedDuration = isDotted ? baseDuration * 1.5 : baseDuration;
+  return tuplet ? (dottedDuration * tuplet.normal) / tuplet.actual : dottedDuration;
+};
+
+// Exact (possibly fractional) start of a note in slots, including any tuplet offset
+export const getNoteStartPosition = (note: Note): number => {
+  return note.startSlot + (note.tupletOffset ?? 0);
 };
 
 // Calculate slots needed for a note (including dotted notes)
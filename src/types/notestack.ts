@@ -3,13 +3,55 @@
 
 export type Duration = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
 
+// Tuplet ratio: `actual` notes played in the time of `normal` (3:2 is a triplet)
+export type Tuplet = { actual: number; normal: number };
+
+// Playing techniques; legato techniques (hammer-on, pull-off, slide) lead into the note
+// from the previous note on the same string, bend and vibrato apply to the note itself
+export type Technique = 'hammer-on' | 'pull-off' | 'slide' | 'bend' | 'vibrato';
+
+// Manual beaming: 'break' starts a new beam at the stack, 'join' beams it to the previous
+// stack even across a beat
+export type BeamOverride = 'break' | 'join';
+
+// Fret layout: which pitch each fret plays, in semitones above the open string
+// `octave` lists the frets of the first octave (half-frets as x.5); the pattern repeats
+// an octave higher every `fretsPerOctave` frets
+export type FretMap = {
+  id: string;
+  name: string;
+  octave: Array<{ fret: number; semitones: number }>;
+  fretsPerOctave: number;
+  maxFret: number;
+};
+
+// Instrument the tab is written for: its strings (index 0 is the lowest, drawn at the bottom),
+// their open pitches as MIDI note numbers, and the fretboard they are stopped on
+export type InstrumentProfile = {
+  id: string;
+  name: string;
+  stringCount: number;
+  openPitches: number[];         // One per string, lowest string first
+  stringNames: string[];         // Tab labels, lowest string first
+  fretMap: FretMap;
+  maxFret: number;               // Highest fret on this instrument (may be below the map's own range)
+};
+
+// Navigation markers for D.C./D.S. playback (segno, coda and fine are jump targets/stops)
+export type NavigationMarker =
+  | 'segno' | 'coda' | 'to-coda' | 'fine'
+  | 'dc' | 'dc-al-fine' | 'dc-al-coda'
+  | 'ds' | 'ds-al-fine' | 'ds-al-coda';
+
 export type NoteStack = {
   id: string;                    // Unique identifier
   musicalPosition: number;       // Position in ticks (960 per quarter note)
   duration: Duration;            // Note duration for the entire stack
+  tuplet?: Tuplet;               // Part of a tuplet group (duration scaled by normal/actual)
   notes: Array<{                 // Vertical stack of notes
-    string: number;              // 0, 1, 2 for 3-string strumstick (Low D, A, Hi D)
+    string: number;              // String index, 0 = lowest string of the instrument
     fret: number;                // 0-24 fret number
+    technique?: Technique;       // How the note is played (h, p, /, b, ~)
   }>;
   
   // Repeat markers (structural annotations)
@@ -18,6 +60,12 @@ export type NoteStack = {
     jumpToStackId: string;       // ID of stack to jump back to
     timesToRepeat?: number;      // Default 1 (play twice total)
   };
+  ending?: {                     // 1st/2nd ending bracket starts at this stack's measure
+    passes: number[];            // Passes through the repeat that play this ending (1-based)
+    measures?: number;           // Bracket length in measures, default 1
+  };
+  marker?: NavigationMarker;     // Segno/Coda/Fine/D.C./D.S. marker for this stack's measure
+  beam?: BeamOverride;           // Overrides automatic beaming into this stack
 };
 
 // Main data structure
@@ -51,8 +99,6 @@ export type MeasureLine = {
 // Constants
 export const TICKS_PER_QUARTER = 960;       // High resolution timing
 export const TICKS_PER_MEASURE_4_4 = 3840;  // 4/4 time signature
-export const STRING_TUNINGS = ['D3', 'A3', 'D4']; // Low D, A, Hi D
-export const STRING_COUNT = 3;
 export const MAX_FRET = 24;
 
 // Layout constants
@@ -61,6 +107,204 @@ export const MEASURE_LINE_WIDTH = 2;        // Width of measure line
 export const MEASURE_LINE_SPACING = 20;     // Padding before/after measure lines
 export const PIXELS_PER_TICK = 0.05;        // Base spacing conversion
 
+// Text drawn in the viewer for each navigation marker
+export const NAVIGATION_MARKER_LABELS: Record<NavigationMarker, string> = {
+  'segno': '𝄋',
+  'coda': '𝄌',
+  'to-coda': 'To Coda 𝄌',
+  'fine': 'Fine',
+  'dc': 'D.C.',
+  'dc-al-fine': 'D.C. al Fine',
+  'dc-al-coda': 'D.C. al Coda',
+  'ds': 'D.S.',
+  'ds-al-fine': 'D.S. al Fine',
+  'ds-al-coda': 'D.S. al Coda'
+};
+
+// Built-in fret layouts
+const diatonicOctave = [0, 2, 4, 5, 7, 9, 10].map((semitones, fret) => ({ fret, semitones }));
+
+export const FRET_MAPS: Record<string, FretMap> = {
+  'strumstick': {
+    id: 'strumstick',
+    name: 'Strumstick (7th fret C♯)',
+    octave: [...diatonicOctave, { fret: 7, semitones: 11 }],
+    fretsPerOctave: 8,
+    maxFret: 12
+  },
+  'diatonic': {
+    id: 'diatonic',
+    name: 'Diatonic (D mixolydian)',
+    octave: diatonicOctave,
+    fretsPerOctave: 7,
+    maxFret: 14
+  },
+  'half-frets': {
+    id: 'half-frets',
+    name: 'Diatonic with 6½ and 13½',
+    octave: [...diatonicOctave, { fret: 6.5, semitones: 11 }],
+    fretsPerOctave: 7,
+    maxFret: 14
+  },
+  'chromatic': {
+    id: 'chromatic',
+    name: 'Chromatic',
+    octave: Array.from({ length: 12 }, (_, fret) => ({ fret, semitones: fret })),
+    fretsPerOctave: 12,
+    maxFret: 17
+  }
+};
+
+export const DEFAULT_FRET_MAP = FRET_MAPS['strumstick'];
+
+// Built-in instruments
+export const INSTRUMENT_PROFILES: Record<string, InstrumentProfile> = {
+  'strumstick-dad': {
+    id: 'strumstick-dad',
+    name: 'Strumstick (DAd)',
+    stringCount: 3,
+    openPitches: [50, 57, 62], // D3, A3, D4
+    stringNames: ['D', 'A', 'd'],
+    fretMap: DEFAULT_FRET_MAP,
+    maxFret: DEFAULT_FRET_MAP.maxFret
+  },
+  'strumstick-dgd': {
+    id: 'strumstick-dgd',
+    name: 'Strumstick (DGd)',
+    stringCount: 3,
+    openPitches: [50, 55, 62], // D3, G3, D4
+    stringNames: ['D', 'G', 'd'],
+    fretMap: DEFAULT_FRET_MAP,
+    maxFret: DEFAULT_FRET_MAP.maxFret
+  },
+  'strumstick-daa': {
+    id: 'strumstick-daa',
+    name: 'Strumstick (DAA)',
+    stringCount: 3,
+    openPitches: [50, 57, 57], // D3, A3, A3
+    stringNames: ['D', 'A', 'a'],
+    fretMap: DEFAULT_FRET_MAP,
+    maxFret: DEFAULT_FRET_MAP.maxFret
+  },
+  'dulcimer-4': {
+    id: 'dulcimer-4',
+    name: '4-string dulcimer (DAdd)',
+    stringCount: 4,
+    openPitches: [50, 57, 62, 62], // D3, A3, D4, D4
+    stringNames: ['D', 'A', 'd', 'd'],
+    fretMap: FRET_MAPS['half-frets'],
+    maxFret: FRET_MAPS['half-frets'].maxFret
+  }
+};
+
+export const DEFAULT_INSTRUMENT = INSTRUMENT_PROFILES['strumstick-dad'];
+
+/**
+ * Semitones above the open string for a fret, or null when the fretboard has no such fret
+ * maxFret caps the range below the map's own when an instrument is shorter
+ */
+export const getFretSemitones = (
+  fret: number,
+  fretMap: FretMap = DEFAULT_FRET_MAP,
+  maxFret: number = fretMap.maxFret
+): number | null => {
+  if (fret < 0 || fret > Math.min(maxFret, fretMap.maxFret)) return null;
+  
+  const octave = Math.floor(fret / fretMap.fretsPerOctave);
+  const position = fret - octave * fretMap.fretsPerOctave;
+  const entry = fretMap.octave.find(candidate => candidate.fret === position);
+  return entry ? entry.semitones + octave * 12 : null;
+};
+
+/**
+ * Whether the instrument has a string at this index
+ */
+export const isValidString = (stringIndex: number, instrument: InstrumentProfile = DEFAULT_INSTRUMENT): boolean =>
+  Number.isInteger(stringIndex) && stringIndex >= 0 && stringIndex < instrument.stringCount;
+
+/**
+ * MIDI pitch of a fret on one of the instrument's strings, or null when it has no such string or fret
+ */
+export const getNotePitch = (
+  fret: number,
+  stringIndex: number,
+  instrument: InstrumentProfile = DEFAULT_INSTRUMENT
+): number | null => {
+  if (!isValidString(stringIndex, instrument)) return null;
+  const semitones = getFretSemitones(fret, instrument.fretMap, instrument.maxFret);
+  return semitones === null ? null : instrument.openPitches[stringIndex] + semitones;
+};
+
+/**
+ * Instrument with a different fretboard, covering the new map's full range
+ */
+export const withFretMap = (instrument: InstrumentProfile, fretMap: FretMap): InstrumentProfile => ({
+  ...instrument,
+  fretMap,
+  maxFret: fretMap.maxFret
+});
+
+/**
+ * Every fret on a fretboard, lowest first
+ */
+export const getFrets = (fretMap: FretMap = DEFAULT_FRET_MAP): number[] => {
+  const frets: number[] = [];
+  for (let octave = 0; octave * fretMap.fretsPerOctave <= fretMap.maxFret; octave++) {
+    fretMap.octave.forEach(entry => {
+      const fret = entry.fret + octave * fretMap.fretsPerOctave;
+      if (fret <= fretMap.maxFret) frets.push(fret);
+    });
+  }
+  return frets.sort((a, b) => a - b);
+};
+
+/**
+ * Fret as written in tab - half-frets use the "6+" convention
+ */
+export const formatFret = (fret: number): string =>
+  Number.isInteger(fret) ? `${fret}` : `${Math.floor(fret)}+`;
+
+/**
+ * Read a fret written as "6" or "6+", or null when it is not a fret
+ */
+export const parseFret = (text: string): number | null => {
+  const match = /^(\d+)(\+?)$/.exec(text.trim());
+  if (!match) return null;
+  return Number(match[1]) + (match[2] ? 0.5 : 0);
+};
+
+// Tab symbol for each technique (a slide down is drawn with a backslash instead)
+export const TECHNIQUE_SYMBOLS: Record<Technique, string> = {
+  'hammer-on': 'h',
+  'pull-off': 'p',
+  'slide': '/',
+  'bend': 'b',
+  'vibrato': '~'
+};
+
+/**
+ * Tab symbol for a technique, pointing a slide the way it travels
+ */
+export const getTechniqueSymbol = (technique: Technique, fromFret?: number, toFret?: number): string =>
+  technique === 'slide' && fromFret !== undefined && toFret !== undefined && toFret < fromFret
+    ? '\\'
+    : TECHNIQUE_SYMBOLS[technique];
+
+// Keyboard shortcuts that toggle a technique on the note under the cursor
+export const TECHNIQUE_SHORTCUTS: Record<string, Technique> = {
+  'h': 'hammer-on',
+  'p': 'pull-off',
+  's': 'slide',
+  '/': 'slide',
+  '\\': 'slide',
+  'b': 'bend',
+  'v': 'vibrato',
+  '~': 'vibrato'
+};
+
+// Techniques played without re-picking the string
+export const LEGATO_TECHNIQUES: Technique[] = ['hammer-on', 'pull-off', 'slide'];
+
 // Duration mapping to ticks
 export const DURATION_TO_TICKS: Record<Duration, number> = {
   whole: 3840,      // 16 * 240 
@@ -68,4 +312,26 @@ export const DURATION_TO_TICKS: Record<Duration, number> = {
   quarter: 960,     // 4 * 240  
   eighth: 480,      // 2 * 240
   sixteenth: 240    // 1 * 240
-}; 
\ No newline at end of file
+};
+
+// Tuplets offered in the note value palette
+export const TUPLET_PRESETS: Tuplet[] = [
+  { actual: 3, normal: 2 },  // Triplet
+  { actual: 2, normal: 3 },  // Duplet (compound time)
+  { actual: 5, normal: 4 },  // Quintuplet
+  { actual: 6, normal: 4 }   // Sextuplet
+];
+
+/**
+ * Length in ticks of a duration, scaled for a tuplet
+ */
+export const getDurationTicks = (duration: Duration, tuplet?: Tuplet): number => {
+  const ticks = DURATION_TO_TICKS[duration];
+  return tuplet ? (ticks * tuplet.normal) / tuplet.actual : ticks;
+};
+
+/**
+ * Length in ticks of a stack, including any tuplet scaling
+ */
+export const getStackTicks = (stack: Pick<NoteStack, 'duration' | 'tuplet'>): number =>
+  getDurationTicks(stack.duration, stack.tuplet); 
\ No newline at end of file